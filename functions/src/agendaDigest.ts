@@ -0,0 +1,254 @@
+/**
+ * Resumo diário da agenda por email
+ *
+ * Reúne os compromissos pendentes dos próximos dias (e os atrasados),
+ * agrupados por advogado responsável, e monta o HTML do email.
+ * As datas dos eventos são strings yyyy-MM-dd no fuso do escritório.
+ */
+
+export interface DigestEvent {
+  id: string;
+  title: string;
+  date: string;
+  time: string;
+  endTime?: string;
+  type: string;
+  status: string;
+  priority?: string;
+  client?: string;
+  location?: string;
+  processNumber?: string;
+  lawyers?: string[];
+  recurrence?: {
+    frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+    interval: number;
+    byWeekday?: number[];
+    until?: string;
+    count?: number;
+  } | null;
+  exceptions?: string[];
+}
+
+export interface DigestItem {
+  event: DigestEvent;
+  date: string;
+  overdue: boolean;
+}
+
+export interface DigestGroup {
+  lawyer: string;
+  items: DigestItem[];
+}
+
+export const NO_LAWYER_GROUP = 'Sem advogado responsável';
+
+// Limite de segurança ao expandir séries recorrentes
+const MAX_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toKey = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDaysToKey = (key: string, days: number) => toKey(new Date(parseKey(key).getTime() + days * DAY_MS));
+
+/**
+ * Data de hoje (yyyy-MM-dd) no fuso informado
+ */
+export function todayInTimeZone(timeZone: string, now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(now);
+}
+
+/**
+ * Ocorrências de uma série dentro do intervalo, com a mesma semântica das
+ * regras de recorrência do aplicativo (INTERVAL, BYDAY, UNTIL, COUNT, EXDATE)
+ */
+function getOccurrences(event: DigestEvent, rangeStart: string, rangeEnd: string): string[] {
+  const rule = event.recurrence!;
+  const interval = Math.max(1, rule.interval || 1);
+  const start = parseKey(event.date);
+  const excluded = new Set(event.exceptions || []);
+  const occurrences: string[] = [];
+  let generated = 0;
+
+  const accept = (candidate: Date | null): boolean => {
+    if (!candidate || candidate < start) return true;
+    const key = toKey(candidate);
+    if (key > rangeEnd || (rule.until && key > rule.until) || (rule.count && generated >= rule.count)) {
+      return false;
+    }
+    generated++;
+    if (key >= rangeStart && !excluded.has(key)) occurrences.push(key);
+    return true;
+  };
+
+  const sameDayIn = (year: number, month: number) => {
+    const candidate = new Date(Date.UTC(year, month, start.getUTCDate()));
+    return candidate.getUTCDate() === start.getUTCDate() ? candidate : null;
+  };
+
+  // Sem COUNT, séries diárias e semanais começam no período do início do
+  // intervalo, como no aplicativo; com COUNT é preciso contar desde o início
+  let firstPeriod = 0;
+  if (!rule.count) {
+    const from = parseKey(rangeStart).getTime();
+    if (rule.frequency === 'daily') {
+      firstPeriod = Math.max(0, Math.floor((from - start.getTime()) / (interval * DAY_MS)));
+    } else if (rule.frequency === 'weekly') {
+      const firstWeek = start.getTime() - start.getUTCDay() * DAY_MS;
+      firstPeriod = Math.max(0, Math.floor((from - firstWeek) / (interval * 7 * DAY_MS)));
+    }
+  }
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_OCCURRENCES; period++) {
+    if (rule.frequency === 'daily') {
+      if (!accept(new Date(start.getTime() + period * interval * DAY_MS))) break;
+    } else if (rule.frequency === 'weekly') {
+      const weekStart = start.getTime() - start.getUTCDay() * DAY_MS + period * interval * 7 * DAY_MS;
+      const weekdays = rule.byWeekday && rule.byWeekday.length > 0 ? [...rule.byWeekday].sort((a, b) => a - b) : [start.getUTCDay()];
+      if (!weekdays.every(weekday => accept(new Date(weekStart + weekday * DAY_MS)))) break;
+    } else if (rule.frequency === 'monthly') {
+      if (!accept(sameDayIn(start.getUTCFullYear(), start.getUTCMonth() + period * interval))) break;
+    } else {
+      if (!accept(sameDayIn(start.getUTCFullYear() + period * interval, start.getUTCMonth()))) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Selecionar os compromissos pendentes até today + days, incluindo os
+ * atrasados (eventos únicos com data anterior a hoje), agrupados por advogado
+ */
+export function buildAgendaDigest(events: DigestEvent[], today: string, days: number): DigestGroup[] {
+  const rangeEnd = addDaysToKey(today, days);
+  const items: DigestItem[] = [];
+
+  events
+    .filter(event => event.status === 'Pendente')
+    .forEach(event => {
+      if (event.recurrence) {
+        getOccurrences(event, today, rangeEnd).forEach(date => items.push({ event, date, overdue: false }));
+      } else if (event.date <= rangeEnd) {
+        items.push({ event, date: event.date, overdue: event.date < today });
+      }
+    });
+
+  items.sort((a, b) => a.date.localeCompare(b.date) || (a.event.time || '').localeCompare(b.event.time || ''));
+
+  const groups = new Map<string, DigestItem[]>();
+  items.forEach(item => {
+    const lawyers = item.event.lawyers && item.event.lawyers.length > 0 ? item.event.lawyers : [NO_LAWYER_GROUP];
+    lawyers.forEach(lawyer => groups.set(lawyer, [...(groups.get(lawyer) || []), item]));
+  });
+
+  return [...groups.entries()]
+    .map(([lawyer, groupItems]) => ({ lawyer, items: groupItems }))
+    .sort((a, b) => {
+      if (a.lawyer === NO_LAWYER_GROUP) return 1;
+      if (b.lawyer === NO_LAWYER_GROUP) return -1;
+      return a.lawyer.localeCompare(b.lawyer, 'pt-BR');
+    });
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const WEEKDAYS = ['dom', 'seg', 'ter', 'qua', 'qui', 'sex', 'sáb'];
+
+const formatDate = (key: string) => {
+  const [year, month, day] = key.split('-');
+  return `${WEEKDAYS[parseKey(key).getUTCDay()]}, ${day}/${month}/${year}`;
+};
+
+function renderItem(item: DigestItem): string {
+  const { event } = item;
+  const time = event.endTime ? `${event.time} às ${event.endTime}` : event.time;
+  const details = [
+    event.client && `Cliente: ${escapeHtml(event.client)}`,
+    event.processNumber && `Processo: ${escapeHtml(event.processNumber)}`,
+    event.location && `Local: ${escapeHtml(event.location)}`
+  ].filter(Boolean).join(' &middot; ');
+
+  return `
+          <tr class="${item.overdue ? 'overdue' : ''}">
+            <td class="when">${formatDate(item.date)}<br>${escapeHtml(time || '')}</td>
+            <td>
+              <strong>${escapeHtml(event.title)}</strong>
+              ${item.overdue ? '<span class="badge">ATRASADO</span>' : ''}
+              ${event.priority === 'Urgente' ? '<span class="badge urgent">URGENTE</span>' : ''}
+              <br><span class="type">${escapeHtml(event.type)}</span>
+              ${details ? `<br><span class="details">${details}</span>` : ''}
+            </td>
+          </tr>`;
+}
+
+export function generateAgendaDigestHTML(groups: DigestGroup[], today: string, days: number, agendaUrl: string): string {
+  const total = new Set(groups.flatMap(group => group.items.map(item => `${item.event.id}:${item.date}`))).size;
+  const overdue = new Set(groups.flatMap(group => group.items.filter(item => item.overdue).map(item => item.event.id))).size;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Resumo da Agenda - ${formatDate(today)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+        .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
+        .summary { margin-bottom: 20px; }
+        .alert { background: #fee2e2; color: #991b1b; padding: 10px; border-radius: 4px; }
+        h3 { border-bottom: 2px solid #2563eb; padding-bottom: 4px; margin-top: 24px; }
+        table { width: 100%; border-collapse: collapse; }
+        td { padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; font-size: 14px; }
+        td.when { width: 120px; color: #555; white-space: nowrap; }
+        tr.overdue td { background: #fef2f2; }
+        tr.overdue td.when { color: #dc2626; font-weight: bold; }
+        .badge { display: inline-block; background: #dc2626; color: white; font-size: 10px; font-weight: bold; padding: 1px 6px; border-radius: 4px; margin-left: 4px; }
+        .badge.urgent { background: #f59e0b; }
+        .type { color: #2563eb; font-size: 12px; }
+        .details { color: #666; font-size: 12px; }
+        .button { display: inline-block; background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; }
+        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Legal<span style="color: #f59e0b;">X</span></h1>
+          <p>Resumo da Agenda</p>
+        </div>
+        <div class="content">
+          <div class="summary">
+            <p><strong>${total}</strong> compromisso(s) pendente(s) de hoje (${formatDate(today)}) até os próximos ${days} dias.</p>
+            ${overdue > 0 ? `<p class="alert"><strong>${overdue}</strong> compromisso(s) com data vencida aguardando conclusão.</p>` : ''}
+          </div>
+          ${groups.map(group => `
+          <h3>${escapeHtml(group.lawyer)} (${group.items.length})</h3>
+          <table>${group.items.map(renderItem).join('')}
+          </table>`).join('')}
+
+          <p style="text-align: center; margin: 30px 0;">
+            <a href="${agendaUrl}" class="button">Abrir Agenda</a>
+          </p>
+        </div>
+        <div class="footer">
+          <p>Este email foi enviado pelo LegalX - Sistema de Gestão Jurídica</p>
+          <p>Para deixar de receber o resumo, desative-o em Configurações &gt; Lembretes da Agenda.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
@@ -7,17 +7,18 @@
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import * as sgMail from '@sendgrid/mail';
 import { createHash } from 'crypto';
+import { createMailTransport, getSenderEmail } from './mail';
+import { buildAgendaDigest, DigestEvent, generateAgendaDigestHTML, todayInTimeZone } from './agendaDigest';
 
 // Inicializar Firebase Admin
 admin.initializeApp();
 
-// Configurar SendGrid (requer variável de ambiente)
-const sendGridApiKey = functions.config().sendgrid?.api_key;
-if (sendGridApiKey) {
-  sgMail.setApiKey(sendGridApiKey);
-}
+// Configurar transporte de email (SendGrid ou SMTP local, ver mail.ts)
+const mailTransport = createMailTransport(functions.config());
+
+// Fuso usado para definir o "hoje" do resumo diário da agenda
+const DIGEST_TIME_ZONE = 'America/Sao_Paulo';
 
 /**
  * Função para envio de email de convite
@@ -55,8 +56,8 @@ export const sendInviteEmail = functions.https.onCall(async (data, context) => {
       throw new functions.https.HttpsError('permission-denied', 'Sem permissão para enviar este convite');
     }
 
-    // Verificar se SendGrid está configurado
-    if (!sendGridApiKey) {
+    // Verificar se o envio de email está configurado
+    if (!mailTransport) {
       throw new functions.https.HttpsError('failed-precondition', 'Serviço de email não configurado');
     }
 
@@ -77,13 +78,13 @@ export const sendInviteEmail = functions.https.onCall(async (data, context) => {
     // Preparar email
     const emailData = {
       to: invitation.email,
-      from: functions.config().sendgrid?.sender_email || 'noreply@legalx.com',
+      from: getSenderEmail(functions.config()),
       subject: `Convite para ${invitation.metadata.teamName} - LegalX`,
       html: generateInviteEmailHTML(invitation, inviteUrl)
     };
 
     // Enviar email
-    await sgMail.send(emailData);
+    await mailTransport.send(emailData);
 
     console.log('Email de convite enviado:', invitation.email);
 
@@ -259,6 +260,61 @@ export const acceptInviteSecure = functions.https.onCall(async (data, context) =
   }
 });
 
+/**
+ * Resumo diário da agenda por email
+ * Executa todo dia às 7h (horário de Brasília) e envia a cada usuário que
+ * ativou o resumo os compromissos pendentes dos próximos dias e os atrasados,
+ * agrupados por advogado. REQUER PLANO BLAZE
+ */
+export const sendAgendaDigest = functions.pubsub
+  .schedule('0 7 * * *')
+  .timeZone(DIGEST_TIME_ZONE)
+  .onRun(async () => {
+    if (!mailTransport) {
+      console.warn('Resumo da agenda não enviado: serviço de email não configurado');
+      return null;
+    }
+
+    const config = functions.config();
+    const defaultDays = Number(config.digest?.days) || 7;
+    const baseUrl = config.app?.base_url || 'https://legalx.com';
+    const today = todayInTimeZone(DIGEST_TIME_ZONE);
+    const userRefs = await admin.firestore().collection('userData').listDocuments();
+    let sent = 0;
+
+    for (const userRef of userRefs) {
+      try {
+        const preferences = await userRef.collection('preferences').doc('reminders').get();
+        const digest = preferences.data()?.emailDigest;
+        if (!digest?.enabled) continue;
+
+        const days = Number(digest.days) || defaultDays;
+        const eventsSnapshot = await userRef.collection('events').where('status', '==', 'Pendente').get();
+        const events = eventsSnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id }) as DigestEvent);
+
+        const groups = buildAgendaDigest(events, today, days);
+        if (groups.length === 0) continue;
+
+        const user = await admin.auth().getUser(userRef.id);
+        if (!user.email) continue;
+
+        await mailTransport.send({
+          to: user.email,
+          from: getSenderEmail(config),
+          subject: `Resumo da agenda - ${today.split('-').reverse().join('/')} - LegalX`,
+          html: generateAgendaDigestHTML(groups, today, days, baseUrl)
+        });
+        sent++;
+      } catch (error) {
+        // Falha de um usuário não interrompe o envio para os demais
+        console.error('Erro ao enviar resumo da agenda para', userRef.id, error);
+      }
+    }
+
+    console.log(`Resumo da agenda enviado para ${sent} usuário(s) via ${mailTransport.name}`);
+    return null;
+  });
+
 // Funções auxiliares
 function generateSecureToken(): string {
   return require('crypto').randomBytes(32).toString('hex');
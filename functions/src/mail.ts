@@ -0,0 +1,163 @@
+/**
+ * Transporte de emails das Cloud Functions
+ *
+ * O envio passa por uma interface comum para que o provedor possa ser
+ * trocado pela configuração: SendGrid em produção ou um servidor SMTP
+ * local (MailHog, Mailpit, smtp4dev) para testar sem enviar emails reais.
+ *
+ *   firebase functions:config:set mail.transport="smtp" smtp.host="localhost" smtp.port="1025"
+ */
+
+import * as sgMail from '@sendgrid/mail';
+import * as net from 'net';
+
+// Tempo máximo sem atividade na conexão SMTP
+const SMTP_TIMEOUT_MS = 10000;
+
+export interface MailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  html: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SendGridTransport implements MailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await sgMail.send(message);
+  }
+}
+
+/**
+ * Cliente SMTP mínimo (sem TLS nem autenticação), suficiente para
+ * servidores de teste que capturam as mensagens localmente
+ */
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private host: string, private port: number) {}
+
+  send(message: MailMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.port, this.host);
+      const envelopeFrom = extractAddress(message.from);
+      // Cada passo: comando a enviar (null = aguardar saudação) e código esperado
+      const steps: Array<[string | null, number]> = [
+        [null, 220],
+        ['EHLO legalx.local', 250],
+        [`MAIL FROM:<${envelopeFrom}>`, 250],
+        [`RCPT TO:<${extractAddress(message.to)}>`, 250],
+        ['DATA', 354],
+        [`${buildMimeMessage(message)}\r\n.`, 250],
+        ['QUIT', 221]
+      ];
+      let buffer = '';
+      let step = 0;
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        reject(error);
+      };
+
+      socket.setEncoding('utf8');
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => fail(new Error('Tempo esgotado na conexão SMTP')));
+      socket.on('error', fail);
+      // Conexão encerrada pelo servidor antes da resposta ao QUIT
+      socket.on('end', () => fail(new Error('Conexão SMTP encerrada antes do fim do envio')));
+      socket.on('close', () => fail(new Error('Conexão SMTP encerrada antes do fim do envio')));
+
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        const lines = buffer.split('\r\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          // Respostas com várias linhas usam "250-"; a última usa "250 "
+          if (line.charAt(3) === '-') continue;
+
+          const code = parseInt(line.slice(0, 3), 10);
+          if (code !== steps[step][1]) {
+            fail(new Error(`Resposta SMTP inesperada: ${line}`));
+            return;
+          }
+
+          step++;
+          if (step === steps.length) {
+            settled = true;
+            socket.end();
+            resolve();
+            return;
+          }
+          socket.write(`${steps[step][0]}\r\n`);
+        }
+      });
+    });
+  }
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMimeMessage(message: MailMessage): string {
+  const body = Buffer.from(message.html, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body
+  ].join('\r\n');
+}
+
+// Trecho de functions.config() usado pelos transportes
+export interface MailConfig {
+  mail?: { transport?: string; sender_email?: string };
+  smtp?: { host?: string; port?: string };
+  sendgrid?: { api_key?: string; sender_email?: string };
+}
+
+/**
+ * Escolher o transporte conforme functions.config(); retorna null quando
+ * nenhum provedor de email está configurado
+ */
+export function createMailTransport(config: MailConfig): MailTransport | null {
+  if (config.mail?.transport === 'smtp') {
+    return new SmtpTransport(config.smtp?.host || 'localhost', Number(config.smtp?.port) || 1025);
+  }
+
+  if (config.sendgrid?.api_key) {
+    return new SendGridTransport(config.sendgrid.api_key);
+  }
+
+  return null;
+}
+
+export function getSenderEmail(config: MailConfig): string {
+  return config.mail?.sender_email || config.sendgrid?.sender_email || 'noreply@legalx.com';
+}
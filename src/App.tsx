@@ -2,6 +2,7 @@ import { useState } from "react"
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom"
 import AuthWrapper from "./components/Auth/AuthWrapper"
 import InviteAcceptPage from "./components/Invites/InviteAcceptPage"
+import DocumentVerificationPage from "./components/Documents/DocumentVerificationPage"
 import Header from "./components/Layout/Header"
 import Sidebar from "./components/Layout/Sidebar"
 import Dashboard from "./components/Dashboard/Dashboard"
@@ -18,9 +19,12 @@ import LawyerForm from "./components/Team/LawyerForm"
 import LawyerView from "./components/Team/LawyerView"
 import EmployeeForm from "./components/Team/EmployeeForm"
 import EmployeeView from "./components/Team/EmployeeView"
+import ClientList from "./components/Clients/ClientList"
+import ClientForm from "./components/Clients/ClientForm"
+import ClientView from "./components/Clients/ClientView"
 import { useInviteProcessor } from "./hooks/useInviteProcessor"
 import type { Process, CalendarEvent } from "./types"
-import type { Lawyer, Employee } from "./types"
+import type { Lawyer, Employee, Client } from "./types"
 import type { User } from "./types/auth"
 import { authService } from "./services/authService"
 
@@ -29,6 +33,7 @@ function App() {
     <Router>
       <Routes>
         <Route path="/aceitar" element={<InviteAcceptPage />} />
+        <Route path="/verificar/:code" element={<DocumentVerificationPage />} />
         <Route path="/*" element={<MainApp />} />
       </Routes>
     </Router>
@@ -42,6 +47,7 @@ function MainApp() {
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null)
   const [selectedLawyer, setSelectedLawyer] = useState<Lawyer | null>(null)
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null)
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null)
   const [teamMemberType, setTeamMemberType] = useState<"lawyer" | "employee">("lawyer")
   const [viewMode, setViewMode] = useState<"list" | "form" | "view">("list")
   const [quickActionType, setQuickActionType] = useState<string | null>(null)
@@ -62,6 +68,7 @@ function MainApp() {
     setSelectedEvent(null)
     setSelectedLawyer(null)
     setSelectedEmployee(null)
+    setSelectedClient(null)
     setQuickActionType(null)
   }
 
@@ -88,6 +95,11 @@ function MainApp() {
         setViewMode("form")
         setSelectedProcess(null)
         break
+      case "new-client":
+        setActiveSection("clients")
+        setViewMode("form")
+        setSelectedClient(null)
+        break
       case "new-event":
         setActiveSection("calendar")
         setQuickActionType("event")
@@ -128,6 +140,7 @@ function MainApp() {
     setSelectedEvent(null)
     setSelectedLawyer(null)
     setSelectedEmployee(null)
+    setSelectedClient(null)
     setQuickActionType(null)
   }
 
@@ -161,6 +174,51 @@ function MainApp() {
             )
         }
 
+      case "clients":
+        switch (viewMode) {
+          case "form":
+            return (
+              <ClientForm
+                client={selectedClient}
+                onBack={handleBackToList}
+                onSave={(savedClient) => {
+                  setSelectedClient(savedClient)
+                  setViewMode("view")
+                }}
+              />
+            )
+          case "view":
+            return (
+              <ClientView
+                client={selectedClient!}
+                onBack={handleBackToList}
+                onEdit={() => setViewMode("form")}
+                onViewProcess={(process) => {
+                  setActiveSection("processes")
+                  setSelectedClient(null)
+                  handleViewProcess(process)
+                }}
+              />
+            )
+          default:
+            return (
+              <ClientList
+                onNewClient={() => {
+                  setViewMode("form")
+                  setSelectedClient(null)
+                }}
+                onViewClient={(client) => {
+                  setSelectedClient(client)
+                  setViewMode("view")
+                }}
+                onEditClient={(client) => {
+                  setSelectedClient(client)
+                  setViewMode("form")
+                }}
+              />
+            )
+        }
+
       case "calendar":
         return <Calendar quickActionType={quickActionType} onClearQuickAction={() => setQuickActionType(null)} />
 
@@ -293,7 +351,7 @@ function MainApp() {
         </div>
       )}
       
-      <Header user={user} onLogout={handleLogout} />
+      <Header user={user} onLogout={handleLogout} onOpenAgenda={() => handleSectionChange("calendar")} />
       <div className="flex flex-1 overflow-hidden">
         <Sidebar
           activeSection={activeSection}
@@ -1,8 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { CalendarEvent } from '../../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { CalendarEvent, Holiday, RecurrenceEditScope } from '../../types';
 import { firestoreService } from '../../services/firestoreService';
+import { holidayService } from '../../services/holidayService';
+import { recurringEventService } from '../../services/recurringEventService';
+import { buildHolidayMap } from '../../utils/holidays';
+import { expandEvents } from '../../utils/recurrence';
+import { downloadIcs, getEventUid, parseIcs } from '../../utils/icalendar';
+import { getEventEndTime, layoutDayEvents } from '../../utils/eventSchedule';
 import CalendarForm from './CalendarForm';
 import EventView from './EventView';
+import HolidayManager from './HolidayManager';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
 import { 
   ChevronLeftIcon, 
   ChevronRightIcon,
@@ -18,7 +26,11 @@ import {
   ExclamationTriangleIcon,
   PhoneIcon,
   DocumentTextIcon,
-  CalendarIcon
+  CalendarIcon,
+  SunIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon
 } from '@heroicons/react/24/outline';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay } from 'date-fns';
 import { startOfWeek, endOfWeek, addDays, startOfDay, endOfDay, addWeeks, subWeeks, addMonths, subMonths } from 'date-fns';
@@ -69,6 +81,28 @@ const EVENT_TYPES = {
   }
 };
 
+// Sombreamento dos dias sem expediente
+const HOLIDAY_STYLES = {
+  holiday: {
+    background: 'bg-rose-50',
+    label: 'text-rose-700'
+  },
+  recess: {
+    background: 'bg-amber-50',
+    label: 'text-amber-700'
+  }
+};
+
+const getHolidayStyle = (holiday: Holiday) => {
+  return holiday.scope === 'Recesso' ? HOLIDAY_STYLES.recess : HOLIDAY_STYLES.holiday;
+};
+
+// Grade horária das visões de semana e dia
+const HOUR_HEIGHT = 48; // px por hora
+const MIN_EVENT_HEIGHT = 22;
+const DEFAULT_START_HOUR = 7;
+const DEFAULT_END_HOUR = 20;
+
 const PRIORITY_COLORS = {
   'Baixa': 'border-l-4 border-l-green-400',
   'Média': 'border-l-4 border-l-yellow-400',
@@ -85,6 +119,10 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [loading, setLoading] = useState(true);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [showHolidayManager, setShowHolidayManager] = useState(false);
+  const [pendingOccurrenceDelete, setPendingOccurrenceDelete] = useState<CalendarEvent | null>(null);
+  const icsInputRef = useRef<HTMLInputElement>(null);
   
   // Estados para filtros
   const [showFilters, setShowFilters] = useState(false);
@@ -146,6 +184,21 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
   };
 
   const calendarDays = getCalendarDays();
+  const firstYear = calendarDays[0].getFullYear();
+  const lastYear = calendarDays[calendarDays.length - 1].getFullYear();
+
+  useEffect(() => {
+    loadHolidays(firstYear, lastYear);
+  }, [firstYear, lastYear]);
+
+  const loadHolidays = async (startYear: number, endYear: number) => {
+    const loadedHolidays = await holidayService.getHolidays(startYear, endYear);
+    setHolidays(loadedHolidays);
+  };
+
+  const holidayMap = buildHolidayMap(holidays);
+  const getHolidayForDate = (date: Date) => holidayMap.get(format(date, 'yyyy-MM-dd'));
+  const currentDayHoliday = getHolidayForDate(currentDate);
 
   const formatMonthYear = (date: Date) => {
     switch (viewMode) {
@@ -191,11 +244,23 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
     });
   };
 
+  // Expandir as séries recorrentes só no intervalo visível e indexar por data
+  const eventsByDate = new Map<string, CalendarEvent[]>();
+  expandEvents(
+    getFilteredEvents(),
+    format(calendarDays[0], 'yyyy-MM-dd'),
+    format(calendarDays[calendarDays.length - 1], 'yyyy-MM-dd')
+  ).forEach(event => {
+    eventsByDate.set(event.date, [...(eventsByDate.get(event.date) || []), event]);
+  });
+
   const getEventsForDate = (date: Date) => {
-    const filteredEvents = getFilteredEvents();
-    return filteredEvents.filter(event => 
-      isSameDay(new Date(event.date), date)
-    );
+    return eventsByDate.get(format(date, 'yyyy-MM-dd')) || [];
+  };
+
+  // Documento da série à qual uma ocorrência expandida pertence
+  const getSeries = (event: CalendarEvent | null) => {
+    return event?.occurrenceDate ? events.find(e => e.id === event.id) || null : null;
   };
 
   const clearFilters = () => {
@@ -235,9 +300,17 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
     setShowEventView(false);
   };
 
-  const handleSaveEvent = async (eventData: CalendarEvent) => {
+  const handleSaveEvent = async (eventData: CalendarEvent, scope?: RecurrenceEditScope) => {
     try {
-      if (selectedEvent) {
+      const series = getSeries(selectedEvent);
+      if (series && scope && selectedEvent?.occurrenceDate) {
+        // Ocorrência de evento recorrente
+        const updatedEvent = await recurringEventService.updateOccurrence(series, selectedEvent.occurrenceDate, eventData, scope);
+        if (updatedEvent) {
+          console.log('Série de eventos atualizada com sucesso');
+          await loadEvents();
+        }
+      } else if (selectedEvent) {
         // Atualizar evento existente
         const updatedEvent = await firestoreService.updateEvent(selectedEvent.id, eventData);
         if (updatedEvent) {
@@ -263,10 +336,15 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
     }
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
+  const handleDeleteEvent = async (event: CalendarEvent) => {
+    if (event.occurrenceDate) {
+      setPendingOccurrenceDelete(event);
+      return;
+    }
+
     if (confirm('Tem certeza que deseja excluir este evento?')) {
       try {
-        const success = await firestoreService.deleteEvent(eventId);
+        const success = await firestoreService.deleteEvent(event.id);
         if (success) {
           await loadEvents(); // Recarregar eventos
           setShowEventView(false);
@@ -279,6 +357,77 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
     }
   };
 
+  const handleDeleteOccurrence = async (scope: RecurrenceEditScope) => {
+    const occurrence = pendingOccurrenceDelete;
+    const series = getSeries(occurrence);
+    setPendingOccurrenceDelete(null);
+    if (!occurrence?.occurrenceDate || !series) return;
+
+    try {
+      const success = await recurringEventService.deleteOccurrence(series, occurrence.occurrenceDate, scope);
+      if (success) {
+        await loadEvents();
+        setShowEventView(false);
+        setSelectedEvent(null);
+      }
+    } catch (error) {
+      console.error('Erro ao excluir evento:', error);
+      alert('Erro ao excluir evento. Tente novamente.');
+    }
+  };
+
+  // Exportar para .ics os eventos que passam pelos filtros atuais
+  const handleExportIcs = () => {
+    const filteredEvents = getFilteredEvents();
+    if (filteredEvents.length === 0) {
+      alert('Nenhum evento para exportar.');
+      return;
+    }
+    downloadIcs(filteredEvents, `legalx_agenda_${format(new Date(), 'yyyy-MM-dd')}`);
+  };
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsedEvents = parseIcs(await file.text());
+      if (parsedEvents.length === 0) {
+        alert('Nenhum evento encontrado no arquivo.');
+        return;
+      }
+
+      // Ignorar eventos cujo UID já está na agenda (ou repetido no próprio arquivo)
+      const knownUids = new Set(events.map(getEventUid));
+      const newEvents = parsedEvents.filter(event => {
+        if (knownUids.has(event.icalUid)) return false;
+        knownUids.add(event.icalUid);
+        return true;
+      });
+      const duplicates = parsedEvents.length - newEvents.length;
+
+      if (newEvents.length === 0) {
+        alert(`Todos os ${parsedEvents.length} eventos do arquivo já estão na agenda.`);
+        return;
+      }
+
+      const confirmMessage = duplicates > 0
+        ? `Importar ${newEvents.length} evento(s)? ${duplicates} evento(s) já existente(s) serão ignorados.`
+        : `Importar ${newEvents.length} evento(s)?`;
+      if (!confirm(confirmMessage)) return;
+
+      const saved = await Promise.all(newEvents.map(event => firestoreService.saveEvent(event)));
+      const imported = saved.filter(Boolean).length;
+      await loadEvents();
+
+      alert(`${imported} evento(s) importado(s) com sucesso.`);
+    } catch (error) {
+      console.error('Erro ao importar arquivo .ics:', error);
+      alert('Erro ao importar arquivo. Verifique se é um arquivo .ics válido.');
+    }
+  };
+
   const handleBackToCalendar = () => {
     setShowForm(false);
     setShowEventView(false);
@@ -329,18 +478,134 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
     );
   }
 
+  // Grade horária: a altura de cada evento é proporcional à duração e eventos
+  // simultâneos dividem a largura da coluna do dia
+  const renderTimeGrid = (days: Date[], detailed: boolean) => {
+    const dayLayouts = days.map(day => layoutDayEvents(getEventsForDate(day)));
+    const allLayouts = dayLayouts.flat();
+    const startHour = Math.min(DEFAULT_START_HOUR, ...allLayouts.map(layout => Math.floor(layout.start / 60)));
+    const endHour = Math.max(DEFAULT_END_HOUR, ...allLayouts.map(layout => Math.ceil(layout.end / 60)));
+    const hours = Array.from({ length: endHour - startHour }, (_, index) => startHour + index);
+
+    return (
+      <div className="flex">
+        {/* Horas */}
+        <div className="w-16 flex-shrink-0 border-r border-gray-200">
+          {hours.map(hour => (
+            <div key={hour} className="text-xs text-gray-400 text-right pr-2 pt-1" style={{ height: HOUR_HEIGHT }}>
+              {String(hour).padStart(2, '0')}:00
+            </div>
+          ))}
+        </div>
+
+        <div className="flex-1 grid divide-x divide-gray-200" style={{ gridTemplateColumns: `repeat(${days.length}, minmax(0, 1fr))` }}>
+          {days.map((day, dayIndex) => {
+            const isToday = isSameDay(day, new Date());
+            const holiday = getHolidayForDate(day);
+
+            return (
+              <div
+                key={day.toISOString()}
+                className={`relative ${isToday && !detailed ? 'bg-blue-50' : holiday ? getHolidayStyle(holiday).background : 'bg-white'}`}
+                style={{ height: hours.length * HOUR_HEIGHT }}
+              >
+                {hours.map(hour => (
+                  <div key={hour} className="border-t border-gray-100" style={{ height: HOUR_HEIGHT }} />
+                ))}
+
+                {dayLayouts[dayIndex].map(({ event, start, end, column, columns }) => {
+                  const eventConfig = EVENT_TYPES[event.type] || EVENT_TYPES['Outro'];
+                  const IconComponent = eventConfig.icon;
+                  const priorityClass = event.priority ? PRIORITY_COLORS[event.priority] : '';
+                  const height = Math.max(MIN_EVENT_HEIGHT, ((end - start) / 60) * HOUR_HEIGHT);
+
+                  return (
+                    <div
+                      key={event.id}
+                      className={`absolute text-xs p-1 rounded border cursor-pointer group overflow-hidden ${eventConfig.color} ${eventConfig.hoverColor} ${priorityClass}`}
+                      style={{
+                        top: ((start - startHour * 60) / 60) * HOUR_HEIGHT,
+                        height,
+                        left: `calc(${(column / columns) * 100}% + 2px)`,
+                        width: `calc(${100 / columns}% - 4px)`
+                      }}
+                      title={`${event.title} - ${event.time} às ${getEventEndTime(event)}`}
+                      onClick={() => handleViewEvent(event)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-1 flex-1 min-w-0">
+                          <IconComponent className={`w-3 h-3 ${eventConfig.iconColor} flex-shrink-0`} />
+                          <span className="truncate font-medium">{event.title}</span>
+                          {event.recurrence && <ArrowPathIcon className="w-3 h-3 flex-shrink-0 opacity-75" />}
+                        </div>
+                        <div className="opacity-0 group-hover:opacity-100 flex space-x-1">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleEditEvent(event);
+                            }}
+                            className={`${eventConfig.iconColor} hover:opacity-75`}
+                            title="Editar"
+                          >
+                            <PencilIcon className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteEvent(event);
+                            }}
+                            className="text-red-500 hover:text-red-700"
+                            title="Excluir"
+                          >
+                            <TrashIcon className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                      <div className="opacity-75 truncate">
+                        {event.time}–{getEventEndTime(event)}
+                        {event.client && <span className="ml-1">• {event.client}</span>}
+                      </div>
+                      {detailed && (
+                        <div className="opacity-75 truncate">
+                          {[event.location, event.lawyers.join(', ')].filter(Boolean).join(' • ')}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const occurrenceDeleteDialog = pendingOccurrenceDelete && (
+    <RecurrenceScopeDialog
+      title="Excluir evento recorrente"
+      confirmLabel="Excluir"
+      onConfirm={handleDeleteOccurrence}
+      onCancel={() => setPendingOccurrenceDelete(null)}
+    />
+  );
+
   if (showEventView && selectedEvent) {
     return (
-      <EventView
-        event={selectedEvent}
-        onBack={handleBackToCalendar}
-        onEdit={() => handleEditEvent(selectedEvent)}
-        onDelete={() => handleDeleteEvent(selectedEvent.id)}
-        onUpdate={async (updatedEvent) => {
-          setSelectedEvent(updatedEvent);
-          await loadEvents();
-        }}
-      />
+      <>
+        <EventView
+          event={selectedEvent}
+          series={getSeries(selectedEvent)}
+          onBack={handleBackToCalendar}
+          onEdit={() => handleEditEvent(selectedEvent)}
+          onDelete={() => handleDeleteEvent(selectedEvent)}
+          onUpdate={async (updatedEvent) => {
+            setSelectedEvent(updatedEvent);
+            await loadEvents();
+          }}
+        />
+        {occurrenceDeleteDialog}
+      </>
     );
   }
 
@@ -353,6 +618,40 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
           <p className="text-gray-600">Gerencie compromissos e eventos</p>
         </div>
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowHolidayManager(!showHolidayManager)}
+            className={`flex items-center px-4 py-2 rounded-lg transition-colors ${
+              showHolidayManager
+                ? 'bg-rose-100 text-rose-700 border border-rose-300'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <SunIcon className="w-5 h-5 mr-2" />
+            Feriados
+          </button>
+          <button
+            onClick={() => icsInputRef.current?.click()}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Importar eventos de um arquivo .ics"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5 mr-2" />
+            Importar
+          </button>
+          <input
+            ref={icsInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={handleImportIcs}
+            className="hidden"
+          />
+          <button
+            onClick={handleExportIcs}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Exportar os eventos filtrados para .ics"
+          >
+            <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+            Exportar
+          </button>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center px-4 py-2 rounded-lg transition-colors ${
@@ -379,6 +678,15 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
         </div>
       </div>
 
+      {/* Feriados */}
+      {showHolidayManager && (
+        <HolidayManager
+          year={currentDate.getFullYear()}
+          onClose={() => setShowHolidayManager(false)}
+          onChange={() => loadHolidays(firstYear, lastYear)}
+        />
+      )}
+
       {/* Filtros */}
       {showFilters && (
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
@@ -524,6 +832,14 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
               </div>
             );
           })}
+          <div className="flex items-center space-x-2">
+            <span className={`w-4 h-4 rounded border border-rose-200 ${HOLIDAY_STYLES.holiday.background}`} />
+            <span className="text-xs text-gray-700">Feriado</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className={`w-4 h-4 rounded border border-amber-200 ${HOLIDAY_STYLES.recess.background}`} />
+            <span className="text-xs text-gray-700">Recesso forense</span>
+          </div>
         </div>
       </div>
 
@@ -614,13 +930,15 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                   const dayEvents = getEventsForDate(day);
                   const isCurrentMonth = isSameMonth(day, currentDate);
                   const isToday = isSameDay(day, new Date());
+                  const holiday = getHolidayForDate(day);
 
                   return (
                     <div
                       key={day.toISOString()}
                       className={`min-h-32 p-2 group ${
-                        isCurrentMonth ? 'bg-white' : 'bg-gray-50'
+                        holiday ? getHolidayStyle(holiday).background : isCurrentMonth ? 'bg-white' : 'bg-gray-50'
                       } hover:bg-gray-50 transition-colors`}
+                      title={holiday?.name}
                     >
                       <div className="flex items-center justify-between mb-2">
                         <span
@@ -643,6 +961,12 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                         </button>
                       </div>
                       
+                      {holiday && holiday.scope !== 'Recesso' && (
+                        <p className={`text-xs truncate mb-1 ${getHolidayStyle(holiday).label}`}>
+                          {holiday.name}
+                        </p>
+                      )}
+                      
                       <div className="space-y-1">
                         {dayEvents.slice(0, 3).map(event => {
                           const eventConfig = EVENT_TYPES[event.type] || EVENT_TYPES['Outro'];
@@ -660,6 +984,7 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                                 <div className="flex items-center space-x-1 flex-1 min-w-0">
                                   <IconComponent className={`w-3 h-3 ${eventConfig.iconColor} flex-shrink-0`} />
                                   <span className="truncate font-medium">{event.title}</span>
+                                  {event.recurrence && <ArrowPathIcon className="w-3 h-3 flex-shrink-0 opacity-75" />}
                                 </div>
                                 <div className="opacity-0 group-hover:opacity-100 flex space-x-1">
                                   <button
@@ -683,7 +1008,7 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                                   <button
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      handleDeleteEvent(event.id);
+                                      handleDeleteEvent(event);
                                     }}
                                     className="text-red-500 hover:text-red-700"
                                   >
@@ -716,115 +1041,56 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
           {viewMode === 'week' && (
             <div className="bg-white rounded-lg shadow overflow-hidden">
               {/* Days of Week Header */}
-              <div className="grid grid-cols-7 bg-gray-50">
-                {calendarDays.map(day => (
-                  <div key={day.toISOString()} className="p-4 text-center">
-                    <div className="text-sm font-medium text-gray-500">
-                      {format(day, 'EEE', { locale: ptBR })}
-                    </div>
-                    <div className={`text-lg font-semibold mt-1 ${
-                      isSameDay(day, new Date())
-                        ? 'bg-blue-600 text-white w-8 h-8 rounded-full flex items-center justify-center mx-auto'
-                        : 'text-gray-900'
-                    }`}>
-                      {format(day, 'd')}
-                    </div>
-                  </div>
-                ))}
-              </div>
-
-              {/* Week Days */}
-              <div className="grid grid-cols-7 divide-x divide-gray-200 min-h-96">
-                {calendarDays.map(day => {
-                  const dayEvents = getEventsForDate(day);
-                  const isToday = isSameDay(day, new Date());
+              <div className="flex bg-gray-50 border-b border-gray-200">
+                <div className="w-16 flex-shrink-0" />
+                <div className="flex-1 grid grid-cols-7">
+                  {calendarDays.map(day => {
+                    const holiday = getHolidayForDate(day);
 
-                  return (
-                    <div
-                      key={day.toISOString()}
-                      className={`p-3 group ${
-                        isToday ? 'bg-blue-50' : 'bg-white'
-                      } hover:bg-gray-50 transition-colors`}
-                    >
-                      <div className="flex justify-end mb-2">
+                    return (
+                      <div
+                        key={day.toISOString()}
+                        className={`p-4 text-center group relative ${holiday ? getHolidayStyle(holiday).background : ''}`}
+                      >
                         <button
                           onClick={() => handleNewEvent(day)}
-                          className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600 transition-all"
+                          className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600 transition-all"
                           title="Adicionar evento"
                         >
                           <PlusIcon className="w-4 h-4" />
                         </button>
+                        <div className="text-sm font-medium text-gray-500">
+                          {format(day, 'EEE', { locale: ptBR })}
+                        </div>
+                        <div className={`text-lg font-semibold mt-1 ${
+                          isSameDay(day, new Date())
+                            ? 'bg-blue-600 text-white w-8 h-8 rounded-full flex items-center justify-center mx-auto'
+                            : 'text-gray-900'
+                        }`}>
+                          {format(day, 'd')}
+                        </div>
+                        {holiday && (
+                          <div className={`text-xs truncate mt-1 ${getHolidayStyle(holiday).label}`} title={holiday.name}>
+                            {holiday.name}
+                          </div>
+                        )}
                       </div>
-                      
-                      <div className="space-y-2">
-                        {dayEvents.map(event => {
-                          const eventConfig = EVENT_TYPES[event.type] || EVENT_TYPES['Outro'];
-                          const IconComponent = eventConfig.icon;
-                          const priorityClass = event.priority ? PRIORITY_COLORS[event.priority] : '';
-                          
-                          return (
-                            <div
-                              key={event.id}
-                              className={`text-sm p-2 rounded border cursor-pointer group ${eventConfig.color} ${eventConfig.hoverColor} ${priorityClass}`}
-                              title={`${event.title} - ${event.time}`}
-                              onClick={() => handleViewEvent(event)}
-                            >
-                              <div className="flex items-center justify-between mb-1">
-                                <div className="flex items-center space-x-1 flex-1 min-w-0">
-                                  <IconComponent className={`w-3 h-3 ${eventConfig.iconColor} flex-shrink-0`} />
-                                  <span className="truncate font-medium">{event.title}</span>
-                                </div>
-                                <div className="opacity-0 group-hover:opacity-100 flex space-x-1">
-                                  <button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleViewEvent(event);
-                                    }}
-                                    className={`${eventConfig.iconColor} hover:opacity-75`}
-                                  >
-                                    <EyeIcon className="w-3 h-3" />
-                                  </button>
-                                  <button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleEditEvent(event);
-                                    }}
-                                    className={`${eventConfig.iconColor} hover:opacity-75`}
-                                  >
-                                    <PencilIcon className="w-3 h-3" />
-                                  </button>
-                                  <button
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      handleDeleteEvent(event.id);
-                                    }}
-                                    className="text-red-500 hover:text-red-700"
-                                  >
-                                    <TrashIcon className="w-3 h-3" />
-                                  </button>
-                                </div>
-                              </div>
-                              <div className="text-xs opacity-75">
-                                {event.time}
-                                {event.client && (
-                                  <span className="ml-1">• {event.client}</span>
-                                )}
-                              </div>
-                            </div>
-                          );
-                        })}
-                      </div>
-                    </div>
-                  );
-                })}
+                    );
+                  })}
+                </div>
               </div>
+
+              {/* Week Days */}
+              {renderTimeGrid(calendarDays, false)}
             </div>
           )}
 
           {viewMode === 'day' && (
             <div className="bg-white rounded-lg shadow overflow-hidden">
               {/* Day Header */}
-              <div className="bg-gray-50 p-6 text-center border-b">
+              <div className={`p-6 text-center border-b ${
+                currentDayHoliday ? getHolidayStyle(currentDayHoliday).background : 'bg-gray-50'
+              }`}>
                 <div className="text-sm font-medium text-gray-500 mb-1">
                   {format(currentDate, 'EEEE', { locale: ptBR })}
                 </div>
@@ -835,6 +1101,11 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                 }`}>
                   {format(currentDate, 'd \'de\' MMMM', { locale: ptBR })}
                 </div>
+                {currentDayHoliday && (
+                  <div className={`text-sm font-medium mt-1 ${getHolidayStyle(currentDayHoliday).label}`}>
+                    {currentDayHoliday.name}
+                  </div>
+                )}
                 <button
                   onClick={() => handleNewEvent(currentDate)}
                   className="mt-3 inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -845,9 +1116,9 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
               </div>
 
               {/* Day Events */}
-              <div className="p-6">
+              <div className={getEventsForDate(currentDate).length === 0 ? 'p-6' : ''}>
                 {(() => {
-                  const dayEvents = getEventsForDate(currentDate).sort((a, b) => a.time.localeCompare(b.time));
+                  const dayEvents = getEventsForDate(currentDate);
                   
                   if (dayEvents.length === 0) {
                     return (
@@ -864,100 +1135,15 @@ export default function Calendar({ quickActionType, onClearQuickAction }: Calend
                     );
                   }
 
-                  return (
-                    <div className="space-y-4">
-                      {dayEvents.map(event => {
-                        const eventConfig = EVENT_TYPES[event.type] || EVENT_TYPES['Outro'];
-                        const IconComponent = eventConfig.icon;
-                        const priorityClass = event.priority ? PRIORITY_COLORS[event.priority] : '';
-                        
-                        return (
-                          <div
-                            key={event.id}
-                            className={`p-4 rounded-lg border-2 cursor-pointer group ${eventConfig.color} ${eventConfig.hoverColor} ${priorityClass}`}
-                            onClick={() => handleViewEvent(event)}
-                          >
-                            <div className="flex items-start justify-between">
-                              <div className="flex items-start space-x-3 flex-1">
-                                <IconComponent className={`w-6 h-6 ${eventConfig.iconColor} flex-shrink-0 mt-1`} />
-                                <div className="flex-1 min-w-0">
-                                  <h3 className="text-lg font-semibold text-gray-900 mb-1">
-                                    {event.title}
-                                  </h3>
-                                  <div className="flex items-center space-x-4 text-sm text-gray-600 mb-2">
-                                    <span className="font-medium">{event.time}</span>
-                                    {event.client && (
-                                      <span>Cliente: {event.client}</span>
-                                    )}
-                                    {event.location && (
-                                      <span>Local: {event.location}</span>
-                                    )}
-                                  </div>
-                                  {event.notes && (
-                                    <p className="text-sm text-gray-700 mt-2">
-                                      {event.notes}
-                                    </p>
-                                  )}
-                                  <div className="flex items-center space-x-2 mt-3">
-                                    <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                      event.status === 'Concluído'
-                                        ? 'bg-green-100 text-green-800'
-                                        : 'bg-yellow-100 text-yellow-800'
-                                    }`}>
-                                      {event.status}
-                                    </span>
-                                    {event.priority && (
-                                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${PRIORITY_COLORS[event.priority]}`}>
-                                        {event.priority}
-                                      </span>
-                                    )}
-                                  </div>
-                                </div>
-                              </div>
-                              <div className="opacity-0 group-hover:opacity-100 flex space-x-2 ml-4">
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleViewEvent(event);
-                                  }}
-                                  className={`p-2 ${eventConfig.iconColor} hover:opacity-75 rounded-lg hover:bg-white`}
-                                  title="Visualizar"
-                                >
-                                  <EyeIcon className="w-4 h-4" />
-                                </button>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleEditEvent(event);
-                                  }}
-                                  className={`p-2 ${eventConfig.iconColor} hover:opacity-75 rounded-lg hover:bg-white`}
-                                  title="Editar"
-                                >
-                                  <PencilIcon className="w-4 h-4" />
-                                </button>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    handleDeleteEvent(event.id);
-                                  }}
-                                  className="p-2 text-red-500 hover:text-red-700 rounded-lg hover:bg-white"
-                                  title="Excluir"
-                                >
-                                  <TrashIcon className="w-4 h-4" />
-                                </button>
-                              </div>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  );
+                  return renderTimeGrid([currentDate], true);
                 })()}
               </div>
             </div>
           )}
         </>
       )}
+
+      {occurrenceDeleteDialog}
     </div>
   );
 }
\ No newline at end of file
@@ -2,15 +2,24 @@ import React, { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { CalendarEvent, Lawyer } from '../../types';
-import { ArrowLeftIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { CalendarEvent, Client, Lawyer, RecurrenceEditScope, RecurrenceRule } from '../../types';
+import { ArrowLeftIcon, ArrowPathIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { firestoreService } from '../../services/firestoreService';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import DeadlineCalculator from './DeadlineCalculator';
+import { DeadlineResult } from '../../utils/deadlines';
+import { describeRecurrence, RECURRENCE_SCOPE_LABELS } from '../../utils/recurrence';
+import { EventConflict, findLawyerConflicts, getEventEndTime } from '../../utils/eventSchedule';
+import ClientPicker from '../Clients/ClientPicker';
 
 const schema = yup.object({
   title: yup.string().required('Título é obrigatório'),
   date: yup.string().required('Data é obrigatória'),
   time: yup.string().required('Horário é obrigatório'),
+  endTime: yup.string().test('after-start', 'O término deve ser posterior ao início', function (value) {
+    const { time } = this.parent;
+    return !value || !time || value > time;
+  }),
   client: yup.string(),
   type: yup.string().required('Tipo é obrigatório'),
   location: yup.string(),
@@ -24,20 +33,50 @@ interface CalendarFormProps {
   event?: CalendarEvent | null;
   selectedDate?: Date | null;
   onBack: () => void;
-  onSave: (event: CalendarEvent) => void;
+  onSave: (event: CalendarEvent, scope?: RecurrenceEditScope) => void;
 }
 
+const WEEKDAY_OPTIONS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+const FREQUENCY_OPTIONS: Array<[RecurrenceRule['frequency'], string]> = [
+  ['daily', 'Diariamente'],
+  ['weekly', 'Semanalmente'],
+  ['monthly', 'Mensalmente'],
+  ['yearly', 'Anualmente']
+];
+
 export default function CalendarForm({ event, selectedDate, onBack, onSave }: CalendarFormProps) {
   const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
   const [selectedLawyers, setSelectedLawyers] = React.useState<string[]>(event?.lawyers || []);
   const [processes, setProcesses] = React.useState<any[]>([]);
+  const [existingEvents, setExistingEvents] = React.useState<CalendarEvent[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(event?.clientId || null);
+  const [pendingSave, setPendingSave] = React.useState<{
+    event: CalendarEvent;
+    scope?: RecurrenceEditScope;
+    conflicts: EventConflict[];
+  } | null>(null);
   const [loading, setLoading] = React.useState(true);
+
+  // Recorrência
+  const initialRule = event?.recurrence;
+  const [frequency, setFrequency] = React.useState<RecurrenceRule['frequency'] | ''>(initialRule?.frequency || '');
+  const [recurrenceInterval, setRecurrenceInterval] = React.useState(initialRule?.interval || 1);
+  const [byWeekday, setByWeekday] = React.useState<number[]>(initialRule?.byWeekday || []);
+  const [endType, setEndType] = React.useState<'never' | 'until' | 'count'>(
+    initialRule?.until ? 'until' : initialRule?.count ? 'count' : 'never'
+  );
+  const [until, setUntil] = React.useState(initialRule?.until || '');
+  const [count, setCount] = React.useState(initialRule?.count || 10);
+  const [editScope, setEditScope] = React.useState<RecurrenceEditScope>('this');
+  const isOccurrence = Boolean(event?.occurrenceDate);
   
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    getValues,
     watch
   } = useForm<Partial<CalendarEvent>>({
     resolver: yupResolver(schema),
@@ -49,6 +88,8 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
   });
 
   const watchedProcessNumber = watch('processNumber');
+  const watchedType = watch('type');
+  const watchedClient = watch('client');
 
   useEffect(() => {
     loadData();
@@ -60,6 +101,7 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
         setValue(key as keyof CalendarEvent, event[key as keyof CalendarEvent]);
       });
       setSelectedLawyers(event.lawyers || []);
+      setClientId(event.clientId || null);
     } else if (selectedDate) {
       setValue('date', format(selectedDate, 'yyyy-MM-dd'));
     }
@@ -69,16 +111,18 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
     try {
       setLoading(true);
       
-      // Carregar advogados ativos e processos em paralelo
-      const [loadedLawyers, loadedProcesses] = await Promise.all([
+      // Carregar advogados ativos, processos e eventos (para conflitos de horário) em paralelo
+      const [loadedLawyers, loadedProcesses, loadedEvents] = await Promise.all([
         firestoreService.getLawyers(),
-        firestoreService.getProcesses()
+        firestoreService.getProcesses(),
+        firestoreService.getEvents()
       ]);
       
       // Filtrar apenas advogados ativos
       const activeLawyers = loadedLawyers.filter(l => l.status === 'Ativo');
       setLawyers(activeLawyers);
       setProcesses(loadedProcesses);
+      setExistingEvents(loadedEvents);
       
       console.log(`${activeLawyers.length} advogados ativos carregados do Firestore`);
       console.log(`${loadedProcesses.length} processos carregados do Firestore`);
@@ -95,6 +139,7 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
       const selectedProcess = processes.find(p => p.processNumber === watchedProcessNumber);
       if (selectedProcess) {
         setValue('client', selectedProcess.client);
+        setClientId(selectedProcess.clientId || null);
         // Auto-selecionar advogados responsáveis do processo
         if (selectedProcess.responsibleLawyers) {
           setSelectedLawyers(selectedProcess.responsibleLawyers);
@@ -103,6 +148,11 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
     }
   }, [watchedProcessNumber, processes, setValue]);
 
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('client', name);
+    setClientId(client?.id || null);
+  };
+
   const handleLawyerToggle = (lawyerName: string) => {
     setSelectedLawyers(prev => {
       if (prev.includes(lawyerName)) {
@@ -113,15 +163,70 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
     });
   };
 
+  const handleWeekdayToggle = (weekday: number) => {
+    setByWeekday(prev => prev.includes(weekday)
+      ? prev.filter(day => day !== weekday)
+      : [...prev, weekday].sort((a, b) => a - b)
+    );
+  };
+
+  const buildRecurrence = (startDate: string): RecurrenceRule | null => {
+    if (!frequency) return null;
+
+    const rule: RecurrenceRule = { frequency, interval: Math.max(1, recurrenceInterval) };
+    if (frequency === 'weekly') {
+      rule.byWeekday = byWeekday.length > 0 ? byWeekday : [parseISO(startDate).getDay()];
+    }
+    if (endType === 'until' && until) {
+      rule.until = until;
+    }
+    if (endType === 'count') {
+      rule.count = Math.max(1, count);
+    }
+    return rule;
+  };
+
+  // Preencher o evento com o vencimento calculado e salvá-lo vinculado ao processo
+  const handleDeadlineCalculated = (result: DeadlineResult, summary: string) => {
+    const currentNotes = getValues('notes');
+
+    setValue('date', result.dueDate);
+    if (!getValues('time')) {
+      setValue('time', '23:59');
+    }
+    if (!getValues('title')) {
+      setValue('title', `Prazo - ${getValues('processNumber')}`);
+    }
+    setValue('notes', currentNotes ? `${currentNotes}\n\n${summary}` : summary);
+
+    handleSubmit(onSubmit)();
+  };
+
   const onSubmit = (data: Partial<CalendarEvent>) => {
+    const recurrence = isOccurrence && editScope === 'this' ? null : buildRecurrence(data.date!);
+    if (recurrence?.until && recurrence.until < data.date!) {
+      alert('A data final da repetição deve ser posterior à data do evento.');
+      return;
+    }
+
     const eventData: CalendarEvent = {
       id: event?.id || Date.now().toString(),
       status: 'Pendente',
       lawyers: selectedLawyers,
-      ...data
+      ...data,
+      clientId,
+      recurrence
     } as CalendarEvent;
-    
-    onSave(eventData);
+    const scope = isOccurrence ? editScope : undefined;
+
+    // Advogados com outro compromisso no mesmo horário: pedir confirmação
+    const conflicts = findLawyerConflicts(eventData, existingEvents);
+    if (conflicts.length > 0) {
+      setPendingSave({ event: eventData, scope, conflicts });
+      return;
+    }
+
+    onSave(eventData, scope);
   };
 
   if (loading) {
@@ -195,14 +300,25 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Horário *
               </label>
-              <input
-                {...register('time')}
-                type="time"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-              />
+              <div className="flex items-center space-x-2">
+                <input
+                  {...register('time')}
+                  type="time"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-gray-500">até</span>
+                <input
+                  {...register('endTime')}
+                  type="time"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
               {errors.time && (
                 <p className="text-red-500 text-sm mt-1">{errors.time.message}</p>
               )}
+              {errors.endTime && (
+                <p className="text-red-500 text-sm mt-1">{errors.endTime.message}</p>
+              )}
             </div>
 
             <div>
@@ -226,10 +342,10 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Cliente
               </label>
-              <input
-                {...register('client')}
-                type="text"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              <ClientPicker
+                value={watchedClient || ''}
+                clientId={clientId}
+                onChange={handleClientChange}
                 placeholder="Nome do cliente (opcional)"
               />
             </div>
@@ -338,6 +454,154 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
               )}
             </div>
 
+            {watchedType === 'Prazo Processual' && (
+              <DeadlineCalculator
+                processNumber={watchedProcessNumber}
+                onCalculated={handleDeadlineCalculated}
+              />
+            )}
+
+            {!(isOccurrence && editScope === 'this') && (
+              <div className="md:col-span-2 border border-gray-200 rounded-lg p-4 space-y-4">
+                <h4 className="flex items-center text-sm font-semibold text-gray-700">
+                  <ArrowPathIcon className="w-5 h-5 mr-2" />
+                  Repetição
+                </h4>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Repetir
+                    </label>
+                    <select
+                      value={frequency}
+                      onChange={(e) => setFrequency(e.target.value as RecurrenceRule['frequency'] | '')}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Não se repete</option>
+                      {FREQUENCY_OPTIONS.map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {frequency && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Intervalo
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={recurrenceInterval}
+                        onChange={(e) => setRecurrenceInterval(parseInt(e.target.value, 10) || 1)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {frequency === 'weekly' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Dias da Semana
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAY_OPTIONS.map((label, weekday) => (
+                        <button
+                          key={weekday}
+                          type="button"
+                          onClick={() => handleWeekdayToggle(weekday)}
+                          className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                            byWeekday.includes(weekday)
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {frequency && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Término
+                      </label>
+                      <select
+                        value={endType}
+                        onChange={(e) => setEndType(e.target.value as 'never' | 'until' | 'count')}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="never">Nunca</option>
+                        <option value="until">Em uma data</option>
+                        <option value="count">Após um número de ocorrências</option>
+                      </select>
+                    </div>
+
+                    {endType === 'until' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Repetir até
+                        </label>
+                        <input
+                          type="date"
+                          value={until}
+                          onChange={(e) => setUntil(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+
+                    {endType === 'count' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Ocorrências
+                        </label>
+                        <input
+                          type="number"
+                          min={1}
+                          value={count}
+                          onChange={(e) => setCount(parseInt(e.target.value, 10) || 1)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {frequency && watch('date') && (
+                  <p className="text-xs text-gray-500">
+                    {describeRecurrence(buildRecurrence(watch('date')!)!)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isOccurrence && (
+              <div className="md:col-span-2 border border-blue-200 bg-blue-50 rounded-lg p-4">
+                <p className="text-sm font-medium text-blue-900 mb-3">
+                  Este evento faz parte de uma série. Aplicar as alterações a:
+                </p>
+                <div className="space-y-2">
+                  {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceEditScope[]).map((option) => (
+                    <label key={option} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        checked={editScope === option}
+                        onChange={() => setEditScope(option)}
+                        className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      />
+                      {RECURRENCE_SCOPE_LABELS[option]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Observações
@@ -351,6 +615,45 @@ export default function CalendarForm({ event, selectedDate, onBack, onSave }: Ca
             </div>
           </div>
 
+          {/* Conflitos de agenda */}
+          {pendingSave && (
+            <div className="border border-amber-300 bg-amber-50 rounded-lg p-4">
+              <h4 className="flex items-center text-sm font-semibold text-amber-800 mb-2">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2" />
+                Conflito de horário
+              </h4>
+              <p className="text-sm text-amber-900 mb-3">
+                Os advogados abaixo já têm compromissos nesse horário:
+              </p>
+              <ul className="space-y-1 text-sm text-amber-900 max-h-48 overflow-y-auto mb-4">
+                {pendingSave.conflicts.map(({ event: conflicting, lawyers: conflictingLawyers }) => (
+                  <li key={`${conflicting.id}-${conflicting.date}`}>
+                    <span className="font-medium">
+                      {format(parseISO(conflicting.date), 'dd/MM/yyyy')} {conflicting.time}–{getEventEndTime(conflicting)}
+                    </span>
+                    {' '}{conflicting.title} ({conflictingLawyers.join(', ')})
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setPendingSave(null)}
+                  className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Revisar Horário
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSave(pendingSave.event, pendingSave.scope)}
+                  className="px-4 py-2 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                >
+                  Salvar Mesmo Assim
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex items-center justify-end space-x-4 pt-6 border-t">
             <button
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { CalculatorIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { holidayService } from '../../services/holidayService';
+import { calculateDeadline, DeadlineResult, DeadlineStartType } from '../../utils/deadlines';
+
+interface DeadlineCalculatorProps {
+  processNumber?: string;
+  onCalculated: (result: DeadlineResult, summary: string) => void;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+/**
+ * Montar a memória de cálculo que fica registrada nas observações do evento
+ */
+const describeDeadline = (result: DeadlineResult, startType: DeadlineStartType): string => {
+  const lines = [
+    `Prazo de ${result.businessDays} dias úteis (CPC, arts. 219 e 224)`,
+    startType === 'disponibilizacao'
+      ? `Publicação (1º dia útil após a disponibilização): ${formatDate(result.publicationDate)}`
+      : `Publicação/intimação: ${formatDate(result.publicationDate)}`,
+    `Início da contagem: ${formatDate(result.countStartDate)}`,
+    `Vencimento: ${formatDate(result.dueDate)}`
+  ];
+
+  // Agrupar por motivo para que o recesso não liste cada dia separadamente
+  const datesByReason = new Map<string, string[]>();
+  result.skippedDays
+    .filter(day => day.reason !== 'Sábado' && day.reason !== 'Domingo')
+    .forEach(day => datesByReason.set(day.reason, [...(datesByReason.get(day.reason) || []), day.date]));
+
+  if (datesByReason.size > 0) {
+    const descriptions = Array.from(datesByReason.entries()).map(([reason, dates]) => {
+      return dates.length > 2
+        ? `${reason} (${formatDate(dates[0])} a ${formatDate(dates[dates.length - 1])})`
+        : `${reason} (${dates.map(formatDate).join(', ')})`;
+    });
+    lines.push(`Dias sem expediente desconsiderados: ${descriptions.join('; ')}`);
+  }
+
+  return lines.join('\n');
+};
+
+export default function DeadlineCalculator({ processNumber, onCalculated }: DeadlineCalculatorProps) {
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [startType, setStartType] = useState<DeadlineStartType>('publicacao');
+  const [days, setDays] = useState(15);
+  const [calculating, setCalculating] = useState(false);
+  const [result, setResult] = useState<DeadlineResult | null>(null);
+
+  const handleCalculate = async () => {
+    if (!processNumber) {
+      alert('Selecione o processo ao qual o prazo se refere.');
+      return;
+    }
+
+    try {
+      setCalculating(true);
+      const startYear = parseISO(startDate).getFullYear();
+      const holidays = await holidayService.getHolidays(startYear, startYear + Math.ceil(days / 200) + 1);
+
+      const calculated = calculateDeadline({ startDate, days, startType, holidays });
+      setResult(calculated);
+      onCalculated(calculated, describeDeadline(calculated, startType));
+    } catch (error) {
+      console.error('Erro ao calcular prazo:', error);
+      alert(error instanceof Error ? error.message : 'Erro ao calcular prazo.');
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  return (
+    <div className="md:col-span-2 border border-amber-200 bg-amber-50 rounded-lg p-4 space-y-4">
+      <h4 className="flex items-center text-sm font-semibold text-amber-800">
+        <CalculatorIcon className="w-5 h-5 mr-2" />
+        Calculadora de Prazo Processual
+      </h4>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Data da Intimação *
+          </label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Referência
+          </label>
+          <select
+            value={startType}
+            onChange={(e) => setStartType(e.target.value as DeadlineStartType)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="publicacao">Publicação / intimação</option>
+            <option value="disponibilizacao">Disponibilização no DJe</option>
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Dias Úteis *
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={days}
+            onChange={(e) => setDays(parseInt(e.target.value, 10) || 0)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        São desconsiderados fins de semana, feriados nacionais, o recesso forense
+        (20/12 a 20/01) e os feriados cadastrados em "Feriados" na agenda.
+      </p>
+
+      {result && (
+        <div className="text-sm text-amber-900 bg-white border border-amber-200 rounded-lg p-3">
+          <p>
+            Vencimento em <strong>{formatDate(result.dueDate)}</strong>
+            {' '}(contagem iniciada em {formatDate(result.countStartDate)})
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={handleCalculate}
+          className="flex items-center px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+          disabled={calculating}
+        >
+          <CalculatorIcon className="w-5 h-5 mr-2" />
+          {calculating ? 'Calculando...' : 'Calcular e Agendar Prazo'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -11,14 +11,21 @@ import {
   ExclamationTriangleIcon,
   PhoneIcon,
   DocumentTextIcon,
-  FolderIcon
+  FolderIcon,
+  ArrowPathIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { firestoreService } from '../../services/firestoreService';
+import { recurringEventService } from '../../services/recurringEventService';
+import { describeRecurrence } from '../../utils/recurrence';
+import { downloadIcs } from '../../utils/icalendar';
+import { getEventDuration, getEventEndTime } from '../../utils/eventSchedule';
 
 interface EventViewProps {
   event: CalendarEvent;
+  series?: CalendarEvent | null;
   onBack: () => void;
   onEdit: () => void;
   onDelete: () => void;
@@ -66,21 +73,34 @@ const PRIORITY_COLORS = {
   'Urgente': 'bg-red-100 text-red-800'
 };
 
-export default function EventView({ event, onBack, onEdit, onDelete, onUpdate }: EventViewProps) {
+export default function EventView({ event, series, onBack, onEdit, onDelete, onUpdate }: EventViewProps) {
   const formatDate = (dateString: string) => {
-    return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
+    return format(parseISO(dateString), 'dd/MM/yyyy', { locale: ptBR });
   };
 
   const formatTime = (timeString: string) => {
-    return timeString;
+    const duration = getEventDuration(event);
+    const hours = Math.floor(duration / 60);
+    const minutes = duration % 60;
+    const durationLabel = [hours && `${hours}h`, minutes && `${minutes}min`].filter(Boolean).join(' ');
+
+    return event.endTime
+      ? `${timeString} às ${getEventEndTime(event)} (${durationLabel})`
+      : timeString;
+  };
+
+  // Em eventos recorrentes o status vale só para a ocorrência, que passa a ser um evento avulso
+  const updateStatus = (status: CalendarEvent['status']) => {
+    if (series && event.occurrenceDate) {
+      return recurringEventService.updateOccurrence(series, event.occurrenceDate, { ...event, status }, 'this');
+    }
+    return firestoreService.updateEvent(event.id, { status });
   };
 
   const handleMarkAsCompleted = async () => {
     if (confirm('Tem certeza que deseja marcar este evento como concluído?')) {
       try {
-        const updatedEvent = await firestoreService.updateEvent(event.id, {
-          status: 'Concluído'
-        });
+        const updatedEvent = await updateStatus('Concluído');
         
         if (updatedEvent && onUpdate) {
           onUpdate(updatedEvent);
@@ -95,9 +115,7 @@ export default function EventView({ event, onBack, onEdit, onDelete, onUpdate }:
   const handleMarkAsPending = async () => {
     if (confirm('Tem certeza que deseja marcar este evento como pendente?')) {
       try {
-        const updatedEvent = await firestoreService.updateEvent(event.id, {
-          status: 'Pendente'
-        });
+        const updatedEvent = await updateStatus('Pendente');
         
         if (updatedEvent && onUpdate) {
           onUpdate(updatedEvent);
@@ -109,6 +127,12 @@ export default function EventView({ event, onBack, onEdit, onDelete, onUpdate }:
     }
   };
 
+  // Ocorrências são exportadas com a série inteira, para manter a repetição no celular
+  const handleExportIcs = () => {
+    const exported = series || event;
+    downloadIcs([exported], `legalx_evento_${exported.date}`, exported.title);
+  };
+
   const eventConfig = EVENT_TYPES[event.type] || EVENT_TYPES['Outro'];
   const IconComponent = eventConfig.icon;
 
@@ -222,6 +246,18 @@ export default function EventView({ event, onBack, onEdit, onDelete, onUpdate }:
               </span>
             </div>
 
+            {event.recurrence && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">
+                  Repetição
+                </label>
+                <div className="flex items-center">
+                  <ArrowPathIcon className="w-4 h-4 text-gray-400 mr-2" />
+                  <p className="text-gray-900">{describeRecurrence(event.recurrence)}</p>
+                </div>
+              </div>
+            )}
+
             {event.client && (
               <div>
                 <label className="block text-sm font-medium text-gray-500 mb-1">
@@ -315,6 +351,14 @@ export default function EventView({ event, onBack, onEdit, onDelete, onUpdate }:
               <PencilIcon className="w-4 h-4 mr-2" />
               Remarcar Evento
             </button>
+
+            <button
+              onClick={handleExportIcs}
+              className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+              Exportar para Agenda (.ics)
+            </button>
             
             <button
               onClick={onDelete}
@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { CustomHoliday } from '../../types';
+import { holidayService } from '../../services/holidayService';
+import { getNationalHolidays } from '../../utils/holidays';
+import { PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface HolidayManagerProps {
+  year: number;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const emptyHoliday: Omit<CustomHoliday, 'id' | 'createdAt'> = {
+  date: '',
+  name: '',
+  scope: 'Municipal',
+  recurring: true
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+export default function HolidayManager({ year, onClose, onChange }: HolidayManagerProps) {
+  const [customHolidays, setCustomHolidays] = useState<CustomHoliday[]>([]);
+  const [formData, setFormData] = useState(emptyHoliday);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const nationalHolidays = getNationalHolidays(year);
+
+  useEffect(() => {
+    loadHolidays();
+  }, []);
+
+  const loadHolidays = async () => {
+    try {
+      setLoading(true);
+      setCustomHolidays(await holidayService.getCustomHolidays());
+    } catch (error) {
+      console.error('Erro ao carregar feriados:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.date || !formData.name.trim()) {
+      alert('Informe a data e o nome do feriado.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await holidayService.saveCustomHoliday({ ...formData, name: formData.name.trim() });
+      if (saved) {
+        setFormData(emptyHoliday);
+        await loadHolidays();
+        onChange();
+      } else {
+        alert('Erro ao salvar feriado');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: CustomHoliday) => {
+    if (confirm(`Excluir o feriado "${holiday.name}"?`)) {
+      const success = await holidayService.deleteCustomHoliday(holiday.id);
+      if (success) {
+        await loadHolidays();
+        onChange();
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Feriados e Recesso Forense</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Feriados cadastrados */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">Feriados Estaduais, Municipais e Forenses</h4>
+
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+            <input
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={saving}
+            />
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Ex: Aniversário da cidade"
+              disabled={saving}
+            />
+            <select
+              value={formData.scope}
+              onChange={(e) => setFormData({ ...formData, scope: e.target.value as CustomHoliday['scope'] })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={saving}
+            >
+              <option value="Estadual">Estadual</option>
+              <option value="Municipal">Municipal</option>
+              <option value="Forense">Forense (suspensão de expediente)</option>
+            </select>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.recurring}
+                  onChange={(e) => setFormData({ ...formData, recurring: e.target.checked })}
+                  className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  disabled={saving}
+                />
+                Repete todo ano
+              </label>
+              <button
+                type="submit"
+                className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                disabled={saving}
+              >
+                <PlusIcon className="w-4 h-4 mr-1" />
+                Adicionar
+              </button>
+            </div>
+          </form>
+
+          {loading ? (
+            <p className="text-gray-500 text-sm">Carregando feriados...</p>
+          ) : customHolidays.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nenhum feriado cadastrado</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {customHolidays.map((holiday) => (
+                <li key={holiday.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{holiday.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {holiday.recurring ? format(parseISO(holiday.date), "dd 'de' MMMM", { locale: ptBR }) + ' (anual)' : formatDate(holiday.date)}
+                      {' • '}{holiday.scope}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(holiday)}
+                    className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                    title="Excluir"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Feriados nacionais do ano */}
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-3">Feriados Nacionais de {year}</h4>
+          <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+            {nationalHolidays.map((holiday) => (
+              <li key={holiday.date} className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-900">{holiday.name}</span>
+                <span className="text-gray-500">{formatDate(holiday.date)}</span>
+              </li>
+            ))}
+            <li className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-900">Recesso forense (CPC, art. 220)</span>
+              <span className="text-gray-500">20/12 a 20/01</span>
+            </li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
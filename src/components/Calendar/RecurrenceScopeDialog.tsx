@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { ArrowPathIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { RecurrenceEditScope } from '../../types';
+import { RECURRENCE_SCOPE_LABELS } from '../../utils/recurrence';
+
+interface RecurrenceScopeDialogProps {
+  title: string;
+  confirmLabel: string;
+  onConfirm: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Perguntar a qual parte da série uma ação sobre ocorrência recorrente se aplica
+ */
+export default function RecurrenceScopeDialog({ title, confirmLabel, onConfirm, onCancel }: RecurrenceScopeDialogProps) {
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <ArrowPathIcon className="w-6 h-6 text-blue-600 mr-3" />
+            <h2 className="text-lg font-bold text-gray-900">{title}</h2>
+          </div>
+          <button onClick={onCancel} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceEditScope[]).map((option) => (
+            <label key={option} className="flex items-center text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={scope === option}
+                onChange={() => setScope(option)}
+                className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              {RECURRENCE_SCOPE_LABELS[option]}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 px-6 pb-6">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={() => onConfirm(scope)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
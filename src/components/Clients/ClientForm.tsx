@@ -0,0 +1,451 @@
+import { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Client, ClientAddress, ClientContact } from '../../types';
+import { ArrowLeftIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { firestoreService } from '../../services/firestoreService';
+import { clientService } from '../../services/clientService';
+import { getClientDocumentLabel, normalizeClientName } from '../../utils/clients';
+import { BRAZILIAN_STATES, isValidState } from '../../utils/states';
+import { cnpjSchema, cpfSchema, formatCpf, formatCnpj, normalizeCpf, normalizeCnpj } from '../../utils/cpfCnpj';
+
+const schema = yup.object({
+  type: yup.mixed<Client['type']>().oneOf(['Pessoa Física', 'Pessoa Jurídica']).required('Tipo é obrigatório'),
+  name: yup.string().required('Nome é obrigatório'),
+  document: yup.string().defined().when('type', {
+    is: 'Pessoa Jurídica',
+    then: () => cnpjSchema(),
+    otherwise: () => cpfSchema()
+  }),
+  rg: yup.string().defined(),
+  address: yup.object({
+    street: yup.string().defined(),
+    number: yup.string().defined(),
+    complement: yup.string().defined(),
+    neighborhood: yup.string().defined(),
+    city: yup.string().defined(),
+    state: yup.string().defined().test('uf', 'UF inválida', value => !value || isValidState(value)),
+    zipCode: yup.string().defined()
+  }),
+  notes: yup.string().defined()
+});
+
+interface ClientFormData {
+  type: Client['type'];
+  name: string;
+  document: string;
+  rg: string;
+  address: Required<ClientAddress>;
+  notes: string;
+}
+
+const CONTACT_TYPES: ClientContact['type'][] = ['Celular', 'Telefone', 'WhatsApp', 'Email', 'Outro'];
+
+interface ClientFormProps {
+  client?: Client | null;
+  onBack: () => void;
+  onSave: (client: Client) => void;
+}
+
+const formatZipCode = (value: string) => {
+  return value.replace(/\D/g, '').replace(/(\d{5})(\d)/, '$1-$2').slice(0, 9);
+};
+
+// Campos do formulário a partir do cadastro, com o documento já mascarado
+const toFormValues = (client?: Client | null): ClientFormData => ({
+  type: client?.type || 'Pessoa Física',
+  name: client?.name || '',
+  document: client ? (client.type === 'Pessoa Jurídica' ? formatCnpj(client.document) : formatCpf(client.document)) : '',
+  rg: client?.rg || '',
+  address: {
+    street: client?.address?.street || '',
+    number: client?.address?.number || '',
+    complement: client?.address?.complement || '',
+    neighborhood: client?.address?.neighborhood || '',
+    city: client?.address?.city || '',
+    state: client?.address?.state || '',
+    zipCode: client?.address?.zipCode || ''
+  },
+  notes: client?.notes || ''
+});
+
+export default function ClientForm({ client, onBack, onSave }: ClientFormProps) {
+  const [contacts, setContacts] = useState<ClientContact[]>(client?.contacts || []);
+  const [loading, setLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch
+  } = useForm<ClientFormData>({
+    resolver: yupResolver(schema),
+    defaultValues: toFormValues(client)
+  });
+
+  const watchedType = watch('type') || 'Pessoa Física';
+  const isCompany = watchedType === 'Pessoa Jurídica';
+
+  useEffect(() => {
+    if (client) {
+      reset(toFormValues(client));
+      setContacts(client.contacts || []);
+    }
+  }, [client, reset]);
+
+  const onSubmit = async (data: ClientFormData) => {
+    const validContacts = contacts
+      .map(contact => ({ ...contact, value: contact.value.trim(), name: (contact.name || '').trim() }))
+      .filter(contact => contact.value);
+
+    try {
+      setLoading(true);
+
+      // Evitar o mesmo cliente cadastrado duas vezes
+      const existing = (await firestoreService.getClients()).filter(other => other.id !== client?.id);
+      const normalizedDocument = isCompany ? normalizeCnpj(data.document || '') : normalizeCpf(data.document || '');
+      const sameDocument = existing.find(other => normalizeCnpj(other.document) === normalizedDocument);
+      if (sameDocument) {
+        alert(`Já existe um cliente cadastrado com este ${getClientDocumentLabel({ type: watchedType })}: ${sameDocument.name}`);
+        return;
+      }
+      const sameName = existing.find(other => normalizeClientName(other.name) === normalizeClientName(data.name || ''));
+      if (sameName && !confirm(`Já existe um cliente chamado "${sameName.name}". Deseja cadastrar mesmo assim?`)) {
+        return;
+      }
+
+      const clientData = {
+        ...data,
+        name: (data.name || '').trim(),
+        document: normalizedDocument,
+        contacts: validContacts
+      } as Partial<Client>;
+
+      if (client) {
+        // Atualizar cliente existente (e o nome nos registros vinculados)
+        const updatedClient = await clientService.updateClient(client, clientData);
+
+        if (updatedClient) {
+          console.log('Cliente atualizado com sucesso');
+          onSave(updatedClient);
+        } else {
+          alert('Erro ao atualizar cliente');
+        }
+      } else {
+        // Criar novo cliente
+        const newClient = await firestoreService.saveClient(clientData as Omit<Client, 'id' | 'createdAt'>);
+
+        if (newClient) {
+          console.log('Novo cliente criado com sucesso');
+          onSave(newClient);
+        } else {
+          alert('Erro ao salvar cliente');
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao salvar cliente:', error);
+      alert('Erro ao salvar cliente. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addContact = () => {
+    setContacts([...contacts, { type: 'Celular', value: '', name: '' }]);
+  };
+
+  const updateContact = (index: number, changes: Partial<ClientContact>) => {
+    setContacts(contacts.map((contact, i) => i === index ? { ...contact, ...changes } : contact));
+  };
+
+  const removeContact = (index: number) => {
+    setContacts(contacts.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          disabled={loading}
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">
+            {client ? 'Editar Cliente' : 'Novo Cliente'}
+          </h1>
+          <p className="text-gray-600">
+            {client ? 'Atualize as informações do cliente' : 'Cadastre um novo cliente do escritório'}
+          </p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-4xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          {/* Identification */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Identificação</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2 flex items-center space-x-6">
+                {(['Pessoa Física', 'Pessoa Jurídica'] as const).map(type => (
+                  <label key={type} className="flex items-center text-sm text-gray-700">
+                    <input
+                      {...register('type')}
+                      type="radio"
+                      value={type}
+                      disabled={loading}
+                      className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    {type}
+                  </label>
+                ))}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {isCompany ? 'Razão Social *' : 'Nome Completo *'}
+                </label>
+                <input
+                  {...register('name')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder={isCompany ? 'Razão social da empresa' : 'Nome completo do cliente'}
+                />
+                {errors.name && (
+                  <p className="text-red-500 text-sm mt-1">{errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {getClientDocumentLabel({ type: watchedType })} *
+                </label>
+                <input
+                  {...register('document')}
+                  type="text"
+                  maxLength={isCompany ? 18 : 14}
+                  disabled={loading}
+                  onChange={(e) => {
+                    e.target.value = isCompany ? formatCnpj(e.target.value) : formatCpf(e.target.value);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 font-mono"
+                  placeholder={isCompany ? '00.000.000/0000-00' : '000.000.000-00'}
+                />
+                {errors.document && (
+                  <p className="text-red-500 text-sm mt-1">{errors.document.message}</p>
+                )}
+              </div>
+
+              {!isCompany && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    RG
+                  </label>
+                  <input
+                    {...register('rg')}
+                    type="text"
+                    disabled={loading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    placeholder="00.000.000-0"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Address */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Endereço</h3>
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+              <div className="md:col-span-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Logradouro</label>
+                <input
+                  {...register('address.street')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Rua, avenida..."
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Número</label>
+                <input
+                  {...register('address.number')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Complemento</label>
+                <input
+                  {...register('address.complement')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Apto, sala..."
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Bairro</label>
+                <input
+                  {...register('address.neighborhood')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Cidade</label>
+                <input
+                  {...register('address.city')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+              </div>
+              <div className="md:col-span-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">UF</label>
+                <select
+                  {...register('address.state')}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <option value="">--</option>
+                  {BRAZILIAN_STATES.map(state => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </select>
+                {errors.address?.state && (
+                  <p className="text-red-500 text-sm mt-1">{errors.address.state.message}</p>
+                )}
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">CEP</label>
+                <input
+                  {...register('address.zipCode')}
+                  type="text"
+                  maxLength={9}
+                  disabled={loading}
+                  onChange={(e) => {
+                    e.target.value = formatZipCode(e.target.value);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="00000-000"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Contacts */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Contatos</h3>
+              <button
+                type="button"
+                onClick={addContact}
+                disabled={loading}
+                className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <PlusIcon className="w-4 h-4 mr-2" />
+                Adicionar
+              </button>
+            </div>
+
+            {contacts.length > 0 ? (
+              <div className="space-y-2">
+                {contacts.map((contact, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr_auto] gap-2 items-center">
+                    <select
+                      value={contact.type}
+                      onChange={(e) => updateContact(index, { type: e.target.value as ClientContact['type'] })}
+                      disabled={loading}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                      {CONTACT_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                    <input
+                      type={contact.type === 'Email' ? 'email' : 'text'}
+                      value={contact.value}
+                      onChange={(e) => updateContact(index, { value: e.target.value })}
+                      disabled={loading}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      placeholder={contact.type === 'Email' ? 'email@exemplo.com' : '(11) 99999-9999'}
+                    />
+                    <input
+                      type="text"
+                      value={contact.name || ''}
+                      onChange={(e) => updateContact(index, { name: e.target.value })}
+                      disabled={loading}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      placeholder="Pessoa de contato (opcional)"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeContact(index)}
+                      disabled={loading}
+                      className="text-red-600 hover:text-red-900 p-2 rounded hover:bg-red-50 justify-self-start disabled:opacity-50"
+                      title="Remover contato"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500 text-sm">Nenhum contato adicionado</p>
+            )}
+          </div>
+
+          {/* Notes */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Observações</h3>
+            <textarea
+              {...register('notes')}
+              rows={4}
+              disabled={loading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              placeholder="Informações adicionais sobre o cliente"
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center"
+            >
+              {loading ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Salvando...
+                </>
+              ) : (
+                `${client ? 'Atualizar' : 'Salvar'} Cliente`
+              )}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
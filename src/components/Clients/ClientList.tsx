@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { Client } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { clientService } from '../../services/clientService';
+import { getClientContact, normalizeClientName } from '../../utils/clients';
+import { formatCpfCnpj } from '../../utils/cpfCnpj';
+import {
+  MagnifyingGlassIcon,
+  FunnelIcon,
+  EyeIcon,
+  PencilIcon,
+  TrashIcon,
+  PlusIcon,
+  BuildingOfficeIcon,
+  UserIcon
+} from '@heroicons/react/24/outline';
+
+interface ClientListProps {
+  onNewClient: () => void;
+  onViewClient: (client: Client) => void;
+  onEditClient: (client: Client) => void;
+}
+
+export default function ClientList({ onNewClient, onViewClient, onEditClient }: ClientListProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadClients();
+  }, []);
+
+  const loadClients = async () => {
+    try {
+      setLoading(true);
+      const loadedClients = await firestoreService.getClients();
+      setClients(loadedClients);
+      console.log(`${loadedClients.length} clientes carregados`);
+    } catch (error) {
+      console.error('Erro ao carregar clientes:', error);
+      alert('Erro ao carregar clientes. Tente recarregar a página.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteClient = async (client: Client) => {
+    try {
+      const records = await clientService.getClientRecords(client);
+      const linked = records.processes.length + records.events.length + records.revenues.length + records.documents.length;
+      const message = linked > 0
+        ? `O cliente possui ${linked} registro(s) vinculado(s), que manterão o nome mas deixarão de estar ligados ao cadastro. Deseja excluir?`
+        : 'Tem certeza que deseja excluir este cliente?';
+
+      if (confirm(message)) {
+        const success = await clientService.deleteClient(client, records);
+        if (success) {
+          await loadClients();
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao excluir cliente:', error);
+      alert('Erro ao excluir cliente. Tente novamente.');
+    }
+  };
+
+  const term = normalizeClientName(searchTerm);
+  const digits = searchTerm.replace(/\D/g, '');
+
+  const filteredClients = clients.filter(client => {
+    const matchesSearch = normalizeClientName(client.name).includes(term) ||
+                         (digits.length > 0 && client.document.replace(/\D/g, '').includes(digits));
+    const matchesType = typeFilter === 'all' || client.type === typeFilter;
+
+    return matchesSearch && matchesType;
+  });
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Clientes</h1>
+          <p className="text-gray-600">Cadastro de clientes do escritório</p>
+        </div>
+        <button
+          onClick={onNewClient}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <PlusIcon className="w-5 h-5 mr-2" />
+          Novo Cliente
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="flex-1 relative">
+          <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            type="text"
+            placeholder="Buscar por nome, CPF ou CNPJ..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex items-center space-x-2">
+          <FunnelIcon className="w-5 h-5 text-gray-400" />
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">Todos os Tipos</option>
+            <option value="Pessoa Física">Pessoa Física</option>
+            <option value="Pessoa Jurídica">Pessoa Jurídica</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Client Table */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cliente
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  CPF/CNPJ
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Contato
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cidade
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Ações
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredClients.map((client) => (
+                <tr key={client.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center">
+                      {client.type === 'Pessoa Jurídica' ? (
+                        <BuildingOfficeIcon className="w-5 h-5 text-gray-400 mr-3" />
+                      ) : (
+                        <UserIcon className="w-5 h-5 text-gray-400 mr-3" />
+                      )}
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{client.name}</div>
+                        <div className="text-xs text-gray-500">{client.type}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
+                    {formatCpfCnpj(client.document)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div>{getClientContact(client, ['Celular', 'WhatsApp', 'Telefone']) || '-'}</div>
+                    <div className="text-xs text-gray-500">{getClientContact(client, ['Email'])}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {client.address?.city ? `${client.address.city}/${client.address.state}` : '-'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button
+                        onClick={() => onViewClient(client)}
+                        className="text-blue-600 hover:text-blue-900 p-1 rounded hover:bg-blue-50"
+                        title="Visualizar"
+                      >
+                        <EyeIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onEditClient(client)}
+                        className="text-amber-600 hover:text-amber-900 p-1 rounded hover:bg-amber-50"
+                        title="Editar"
+                      >
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteClient(client)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                        title="Excluir"
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Carregando clientes...</p>
+          </div>
+        ) : filteredClients.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">
+              {clients.length === 0
+                ? 'Nenhum cliente cadastrado. Clique em "Novo Cliente" para começar.'
+                : 'Nenhum cliente encontrado com os filtros aplicados.'
+              }
+            </p>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { Client } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { findClientByName, normalizeClientName } from '../../utils/clients';
+import { formatCpfCnpj } from '../../utils/cpfCnpj';
+import { CheckCircleIcon } from '@heroicons/react/24/outline';
+
+interface ClientPickerProps {
+  value: string;
+  clientId?: string | null;
+  onChange: (name: string, client: Client | null) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Campo de cliente com sugestões do cadastro. Digitar um nome livre
+ * continua permitido; escolher (ou digitar exatamente) um cliente
+ * cadastrado informa também o registro completo.
+ */
+export default function ClientPicker({ value, clientId, onChange, placeholder, disabled }: ClientPickerProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    firestoreService.getClients().then(setClients);
+  }, []);
+
+  const term = normalizeClientName(value || '');
+  const digits = (value || '').replace(/\D/g, '');
+  const suggestions = clients
+    .filter(client =>
+      !term ||
+      normalizeClientName(client.name).includes(term) ||
+      (digits.length >= 3 && client.document.replace(/\D/g, '').includes(digits))
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  const handleInput = (text: string) => {
+    onChange(text, findClientByName(clients, text));
+    setOpen(true);
+  };
+
+  const handleSelect = (client: Client) => {
+    onChange(client.name, client);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value || ''}
+        onChange={(e) => handleInput(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        disabled={disabled}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        placeholder={placeholder || 'Nome do cliente'}
+        autoComplete="off"
+      />
+
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map(client => (
+            <li
+              key={client.id}
+              // mousedown antes do blur do campo, para a escolha não se perder
+              onMouseDown={(e) => {
+                e.preventDefault();
+                handleSelect(client);
+              }}
+              className={`px-3 py-2 cursor-pointer hover:bg-blue-50 ${client.id === clientId ? 'bg-blue-50' : ''}`}
+            >
+              <p className="text-sm text-gray-900">{client.name}</p>
+              <p className="text-xs text-gray-500">{client.type} · {formatCpfCnpj(client.document)}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {clientId ? (
+        <p className="flex items-center text-xs text-green-700 mt-1">
+          <CheckCircleIcon className="w-4 h-4 mr-1" />
+          Cliente cadastrado
+        </p>
+      ) : value && clients.length > 0 ? (
+        <p className="text-xs text-gray-500 mt-1">Cliente não cadastrado — escolha uma sugestão para vincular</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+import { useState, useEffect } from 'react';
+import { Client, Process } from '../../types';
+import {
+  ArrowLeftIcon,
+  PencilIcon,
+  BuildingOfficeIcon,
+  UserIcon,
+  EnvelopeIcon,
+  PhoneIcon,
+  MapPinIcon,
+  FolderIcon,
+  CalendarIcon,
+  CurrencyDollarIcon,
+  DocumentTextIcon
+} from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { clientService, ClientRecords } from '../../services/clientService';
+import { formatClientAddress, getClientDocumentLabel } from '../../utils/clients';
+import { formatCpfCnpj } from '../../utils/cpfCnpj';
+
+interface ClientViewProps {
+  client: Client;
+  onBack: () => void;
+  onEdit: () => void;
+  onViewProcess?: (process: Process) => void;
+}
+
+const EMPTY_RECORDS: ClientRecords = { processes: [], events: [], revenues: [], documents: [] };
+
+export default function ClientView({ client, onBack, onEdit, onViewProcess }: ClientViewProps) {
+  const [records, setRecords] = useState<ClientRecords>(EMPTY_RECORDS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    clientService.getClientRecords(client)
+      .then(setRecords)
+      .catch(error => console.error('Erro ao carregar registros do cliente:', error))
+      .finally(() => setLoading(false));
+  }, [client]);
+
+  const formatDate = (dateString: string) => {
+    return format(parseISO(dateString), 'dd/MM/yyyy', { locale: ptBR });
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+  };
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingEvents = records.events
+    .filter(event => event.status === 'Pendente' && event.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+  const pastEvents = records.events
+    .filter(event => !upcomingEvents.includes(event))
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const totalRevenue = records.revenues.reduce((sum, revenue) => sum + revenue.amount, 0);
+  const address = formatClientAddress(client.address);
+
+  const contactIcon = (type: Client['contacts'][number]['type']) =>
+    type === 'Email' ? EnvelopeIcon : PhoneIcon;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <button
+            onClick={onBack}
+            className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Voltar
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{client.name}</h1>
+            <p className="text-gray-600">Informações e histórico do cliente</p>
+          </div>
+        </div>
+        <button
+          onClick={onEdit}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <PencilIcon className="w-5 h-5 mr-2" />
+          Editar
+        </button>
+      </div>
+
+      <div className="max-w-5xl space-y-6">
+        {/* Client Information */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-6">
+            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mr-4">
+              {client.type === 'Pessoa Jurídica' ? (
+                <BuildingOfficeIcon className="w-8 h-8 text-blue-600" />
+              ) : (
+                <UserIcon className="w-8 h-8 text-blue-600" />
+              )}
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">{client.name}</h2>
+              <p className="text-gray-600">{client.type}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                {getClientDocumentLabel(client)}
+              </label>
+              <p className="text-gray-900 font-mono">{formatCpfCnpj(client.document)}</p>
+            </div>
+
+            {client.rg && (
+              <div>
+                <label className="block text-sm font-medium text-gray-500 mb-1">RG</label>
+                <p className="text-gray-900">{client.rg}</p>
+              </div>
+            )}
+
+            {address && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-500 mb-1">Endereço</label>
+                <div className="flex items-center">
+                  <MapPinIcon className="w-4 h-4 text-gray-400 mr-2" />
+                  <p className="text-gray-900">{address}</p>
+                </div>
+              </div>
+            )}
+
+            {client.contacts.length > 0 && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-500 mb-1">Contatos</label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {client.contacts.map((contact, index) => {
+                    const Icon = contactIcon(contact.type);
+                    return (
+                      <div key={index} className="flex items-center">
+                        <Icon className="w-4 h-4 text-gray-400 mr-2" />
+                        <p className="text-gray-900">
+                          {contact.value}
+                          <span className="text-xs text-gray-500 ml-2">
+                            {contact.type}{contact.name ? ` · ${contact.name}` : ''}
+                          </span>
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {client.notes && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-500 mb-1">Observações</label>
+                <p className="text-gray-900 whitespace-pre-wrap">{client.notes}</p>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <p className="text-2xl font-bold text-blue-600">
+              {records.processes.filter(p => p.status === 'Em andamento').length}
+            </p>
+            <p className="text-sm text-blue-600">Processos em Andamento</p>
+          </div>
+          <div className="text-center p-4 bg-amber-50 rounded-lg">
+            <p className="text-2xl font-bold text-amber-600">{upcomingEvents.length}</p>
+            <p className="text-sm text-amber-600">Compromissos Pendentes</p>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg">
+            <p className="text-2xl font-bold text-green-600">{formatCurrency(totalRevenue)}</p>
+            <p className="text-sm text-green-600">Receitas</p>
+          </div>
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <p className="text-2xl font-bold text-purple-600">{records.documents.length}</p>
+            <p className="text-sm text-purple-600">Documentos</p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Carregando histórico do cliente...</p>
+          </div>
+        ) : (
+          <>
+            {/* Processes */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <FolderIcon className="w-5 h-5 mr-2" />
+                Processos ({records.processes.length})
+              </h3>
+              {records.processes.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {records.processes.map(process => (
+                    <div
+                      key={process.id}
+                      onClick={() => onViewProcess?.(process)}
+                      className={`flex items-center justify-between py-3 ${onViewProcess ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    >
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{process.name}</p>
+                        <p className="text-xs text-gray-500 font-mono">{process.processNumber}</p>
+                      </div>
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          process.status === 'Em andamento'
+                            ? 'bg-yellow-100 text-yellow-800'
+                            : 'bg-green-100 text-green-800'
+                        }`}
+                      >
+                        {process.status}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">Nenhum processo vinculado</p>
+              )}
+            </div>
+
+            {/* Events */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <CalendarIcon className="w-5 h-5 mr-2" />
+                Agenda ({records.events.length})
+              </h3>
+              {records.events.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {[...upcomingEvents, ...pastEvents].map(event => (
+                    <div key={event.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className={`text-sm font-medium ${event.status === 'Concluído' ? 'text-gray-500' : 'text-gray-900'}`}>
+                          {event.title}
+                        </p>
+                        <p className="text-xs text-gray-500">{event.type}</p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm text-gray-900">{formatDate(event.date)} {event.time}</p>
+                        <p className={`text-xs ${event.status === 'Pendente' ? 'text-amber-600' : 'text-green-600'}`}>
+                          {event.status}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">Nenhum compromisso vinculado</p>
+              )}
+            </div>
+
+            {/* Revenues */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <CurrencyDollarIcon className="w-5 h-5 mr-2" />
+                Receitas ({records.revenues.length})
+              </h3>
+              {records.revenues.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {records.revenues.map(revenue => (
+                    <div key={revenue.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{revenue.source}</p>
+                        <p className="text-xs text-gray-500">{revenue.category} · {formatDate(revenue.date)}</p>
+                      </div>
+                      <p className="text-sm font-semibold text-green-600">{formatCurrency(revenue.amount)}</p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">Nenhuma receita vinculada</p>
+              )}
+            </div>
+
+            {/* Documents */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <DocumentTextIcon className="w-5 h-5 mr-2" />
+                Documentos ({records.documents.length})
+              </h3>
+              {records.documents.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {records.documents.map(document => (
+                    <div key={document.id} className="flex items-center justify-between py-3">
+                      <p className="text-sm font-medium text-gray-900">{document.type}</p>
+                      <p className="text-sm text-gray-500">
+                        {format(new Date(document.createdAt), 'dd/MM/yyyy', { locale: ptBR })}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">Nenhum documento emitido</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
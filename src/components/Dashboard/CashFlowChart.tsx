@@ -16,9 +16,14 @@ interface CashFlowChartProps {
     revenue: number;
     expenses: number;
   }>;
+  // Despesas previstas (contas a pagar), a começar pelo mês atual
+  forecast?: Array<{
+    month: string;
+    amount: number;
+  }>;
 }
 
-export default function CashFlowChart({ data }: CashFlowChartProps) {
+export default function CashFlowChart({ data, forecast = [] }: CashFlowChartProps) {
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -27,12 +32,18 @@ export default function CashFlowChart({ data }: CashFlowChartProps) {
     }).format(value);
   };
 
+  // O primeiro mês previsto é o último do histórico: as linhas se encontram ali
+  const chartData: Array<{ month: string; revenue?: number; expenses?: number; forecast?: number }> = data.map((item, index) =>
+    index === data.length - 1 && forecast.length > 0 ? { ...item, forecast: forecast[0].amount } : item
+  );
+  forecast.slice(1).forEach(item => chartData.push({ month: item.month, forecast: item.amount }));
+
   return (
     <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
       <h3 className="text-lg font-semibold text-gray-900 mb-4">Fluxo de Caixa</h3>
       <div className="h-80">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data}>
+          <LineChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
             <XAxis 
               dataKey="month" 
@@ -72,6 +83,15 @@ export default function CashFlowChart({ data }: CashFlowChartProps) {
               dot={{ fill: '#ef4444', strokeWidth: 2, r: 4 }}
               activeDot={{ r: 6, stroke: '#ef4444', strokeWidth: 2 }}
             />
+            <Line
+              type="monotone"
+              dataKey="forecast"
+              stroke="#f97316"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              name="Despesas previstas"
+              dot={{ fill: '#f97316', strokeWidth: 1, r: 3 }}
+            />
           </LineChart>
         </ResponsiveContainer>
       </div>
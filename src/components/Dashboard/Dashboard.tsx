@@ -10,19 +10,22 @@ import FinancialCard from './FinancialCard';
 import StatsCard from './StatsCard';
 import CashFlowChart from './CashFlowChart';
 import RecentItems from './RecentItems';
-import { firestoreService } from '../../services/firestoreService';
-import { Process, CalendarEvent, Document } from '../../types';
+import { FinancialSummary, firestoreService } from '../../services/firestoreService';
+import { Process, CalendarEvent, Document, Receivable } from '../../types';
 import { authService } from '../../services/authService';
+import { getOverdueTotal } from '../../utils/receivables';
 
 export default function Dashboard() {
   const [processes, setProcesses] = useState<Process[]>([]);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [financialSummary, setFinancialSummary] = useState({
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [financialSummary, setFinancialSummary] = useState<FinancialSummary>({
     totalRevenue: 0,
     totalExpenses: 0,
     balance: 0,
-    monthlyData: []
+    monthlyData: [],
+    expenseForecast: []
   });
   const [loading, setLoading] = useState(true);
 
@@ -42,18 +45,21 @@ export default function Dashboard() {
         processesData,
         eventsData,
         documentsData,
-        financialData
+        financialData,
+        receivablesData
       ] = await Promise.all([
         firestoreService.getProcesses(),
         firestoreService.getEvents(),
         firestoreService.getDocuments(),
-        firestoreService.getFinancialSummary()
+        firestoreService.getFinancialSummary(),
+        firestoreService.getReceivables()
       ]);
       
       setProcesses(processesData);
       setEvents(eventsData);
       setDocuments(documentsData);
       setFinancialSummary(financialData);
+      setReceivables(receivablesData);
       
       console.log('Dados do dashboard carregados do Firestore:', {
         processes: processesData.length,
@@ -67,11 +73,13 @@ export default function Dashboard() {
       setProcesses([]);
       setEvents([]);
       setDocuments([]);
+      setReceivables([]);
       setFinancialSummary({
         totalRevenue: 0,
         totalExpenses: 0,
         balance: 0,
-        monthlyData: []
+        monthlyData: [],
+        expenseForecast: []
       });
     } finally {
       setLoading(false);
@@ -113,7 +121,7 @@ export default function Dashboard() {
       </div>
 
       {/* Financial Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <FinancialCard
           title="Receitas do Mês"
           amount={financialSummary.totalRevenue}
@@ -132,6 +140,11 @@ export default function Dashboard() {
           type="balance"
           change={18.7}
         />
+        <FinancialCard
+          title="Contas em Atraso"
+          amount={getOverdueTotal(receivables)}
+          type="overdue"
+        />
       </div>
 
       {/* Stats Cards */}
@@ -168,7 +181,7 @@ export default function Dashboard() {
 
       {/* Charts and Recent Items */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <CashFlowChart data={financialSummary.monthlyData} />
+        <CashFlowChart data={financialSummary.monthlyData} forecast={financialSummary.expenseForecast} />
         <div className="space-y-6">
           <RecentItems
             title="Próximos Compromissos"
@@ -4,7 +4,7 @@ import { ArrowUpIcon, ArrowDownIcon } from '@heroicons/react/24/solid';
 interface FinancialCardProps {
   title: string;
   amount: number;
-  type: 'revenue' | 'expense' | 'balance';
+  type: 'revenue' | 'expense' | 'balance' | 'overdue';
   change?: number;
 }
 
@@ -24,6 +24,8 @@ export default function FinancialCard({ title, amount, type, change }: Financial
         return 'border-red-200 bg-red-50';
       case 'balance':
         return 'border-blue-200 bg-blue-50';
+      case 'overdue':
+        return amount > 0 ? 'border-amber-200 bg-amber-50' : 'border-gray-200 bg-white';
       default:
         return 'border-gray-200 bg-white';
     }
@@ -37,6 +39,8 @@ export default function FinancialCard({ title, amount, type, change }: Financial
         return 'text-red-600';
       case 'balance':
         return amount >= 0 ? 'text-blue-600' : 'text-red-600';
+      case 'overdue':
+        return amount > 0 ? 'text-amber-600' : 'text-gray-600';
       default:
         return 'text-gray-600';
     }
@@ -0,0 +1,268 @@
+import React from 'react';
+import { ArrowLeftIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { Client, Document, Process } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { formatCpf, formatCpfCnpj, normalizeCpf, normalizeCpfCnpj } from '../../utils/cpfCnpj';
+import { validateDocumentPayload } from '../../utils/documentPayloads';
+import { DocumentField, diffDocumentVersions, getDocumentFields, toDocumentVersion } from '../../utils/documentVersions';
+import ClientPicker from '../Clients/ClientPicker';
+import ProcessPicker from '../Processes/ProcessPicker';
+
+interface DocumentEditFormProps {
+  document: Document;
+  onCancel: () => void;
+  onSaved: (document: Document) => void;
+}
+
+type DraftData = Record<string, unknown>;
+
+const inputClasses = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+/**
+ * Edição dos dados de um documento já emitido. Salvar gera uma nova versão;
+ * a anterior fica no histórico.
+ */
+export default function DocumentEditForm({ document, onCancel, onSaved }: DocumentEditFormProps) {
+  const [client, setClient] = React.useState(document.client);
+  const [clientId, setClientId] = React.useState<string | null>(document.clientId ?? null);
+  const [processId, setProcessId] = React.useState<string | null>(document.processId ?? null);
+  const [processNumber, setProcessNumber] = React.useState(document.processNumber || '');
+  const [data, setData] = React.useState<DraftData>({ ...document.data });
+  const [changeNote, setChangeNote] = React.useState('');
+  const [loading, setLoading] = React.useState(false);
+
+  const fields = getDocumentFields(document.type);
+
+  const setField = (key: string, value: unknown) => setData(prev => ({ ...prev, [key]: value }));
+
+  const handleClientChange = (name: string, selected: Client | null) => {
+    setClient(name);
+    setClientId(selected?.id || null);
+  };
+
+  const handleProcessChange = (selected: Process | null) => {
+    setProcessId(selected?.id || null);
+    setProcessNumber(selected?.processNumber || '');
+  };
+
+  const renderField = ({ key, kind, options }: DocumentField) => {
+    const value = data[key];
+
+    if (options) {
+      return (
+        <select value={String(value ?? '')} disabled={loading} onChange={(e) => setField(key, e.target.value)} className={inputClasses}>
+          {options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+
+    switch (kind) {
+      case 'textarea':
+        return (
+          <textarea value={String(value ?? '')} rows={3} disabled={loading} onChange={(e) => setField(key, e.target.value)} className={inputClasses} />
+        );
+      case 'list':
+        return (
+          <>
+            <textarea
+              value={Array.isArray(value) ? value.join('\n') : ''}
+              rows={3}
+              disabled={loading}
+              onChange={(e) => setField(key, e.target.value.split('\n'))}
+              className={inputClasses}
+            />
+            <p className="text-xs text-gray-500 mt-1">Um por linha</p>
+          </>
+        );
+      case 'number':
+      case 'currency':
+        return (
+          <input
+            type="number"
+            step={kind === 'currency' ? '0.01' : '1'}
+            min="0"
+            value={String(value ?? 0)}
+            disabled={loading}
+            onChange={(e) => setField(key, Number(e.target.value) || 0)}
+            className={inputClasses}
+          />
+        );
+      case 'date':
+        return (
+          <input type="date" value={String(value ?? '')} disabled={loading} onChange={(e) => setField(key, e.target.value)} className={inputClasses} />
+        );
+      case 'boolean':
+        return (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={Boolean(value)}
+              disabled={loading}
+              onChange={(e) => setField(key, e.target.checked)}
+              className="mr-2"
+            />
+            Sim
+          </label>
+        );
+      case 'cpf':
+        return (
+          <input
+            type="text"
+            maxLength={14}
+            value={formatCpf(String(value ?? ''))}
+            disabled={loading}
+            onChange={(e) => setField(key, normalizeCpf(e.target.value))}
+            className={inputClasses}
+          />
+        );
+      case 'cpfCnpj':
+        return (
+          <input
+            type="text"
+            maxLength={18}
+            value={formatCpfCnpj(String(value ?? ''))}
+            disabled={loading}
+            onChange={(e) => setField(key, normalizeCpfCnpj(e.target.value))}
+            className={inputClasses}
+          />
+        );
+      default:
+        return (
+          <input type="text" value={String(value ?? '')} disabled={loading} onChange={(e) => setField(key, e.target.value)} className={inputClasses} />
+        );
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Linhas em branco das listas são descartadas
+    const revisedData = { ...data };
+    fields
+      .filter(field => field.kind === 'list')
+      .forEach(({ key }) => {
+        revisedData[key] = (revisedData[key] as string[]).map(item => item.trim()).filter(Boolean);
+      });
+
+    const revised = {
+      ...document,
+      client: client.trim(),
+      clientId,
+      processId,
+      processNumber,
+      data: revisedData as unknown as Document['data']
+    } as Document;
+
+    if (!revised.client) {
+      alert('Informe o nome do cliente.');
+      return;
+    }
+
+    const problems = validateDocumentPayload(revised);
+    if (problems.length > 0) {
+      alert(`Corrija os dados antes de salvar:\n\n${problems.join('\n')}`);
+      return;
+    }
+
+    if (diffDocumentVersions(toDocumentVersion(document), toDocumentVersion(revised)).length === 0) {
+      alert('Nenhuma alteração foi feita no documento.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const saved = await firestoreService.reviseDocument(document, {
+        client: revised.client,
+        clientId,
+        processId,
+        processNumber,
+        data: revised.data,
+        changeNote: changeNote.trim()
+      });
+
+      if (!saved) {
+        alert('Erro ao salvar nova versão do documento. Tente novamente.');
+        return;
+      }
+      onSaved(saved);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onCancel}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          disabled={loading}
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Editar {document.type}</h1>
+          <p className="text-gray-600">Salvar emite a versão {document.version + 1}; a versão atual fica no histórico</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="max-w-4xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cliente *</label>
+              <ClientPicker value={client} clientId={clientId} onChange={handleClientChange} disabled={loading} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Processo Relacionado</label>
+              <ProcessPicker value={processId} onChange={handleProcessChange} clientId={clientId} disabled={loading} />
+            </div>
+
+            {fields.map(field => (
+              <div key={field.key} className={field.kind === 'textarea' || field.kind === 'list' ? 'md:col-span-2' : ''}>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{field.label}</label>
+                {renderField(field)}
+              </div>
+            ))}
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Motivo da alteração</label>
+              <input
+                type="text"
+                value={changeNote}
+                disabled={loading}
+                onChange={(e) => setChangeNote(e.target.value)}
+                className={inputClasses}
+                placeholder="Ex: correção do endereço do cliente"
+              />
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <CheckIcon className="w-5 h-5 mr-2" />
+              {loading ? 'Salvando...' : 'Salvar nova versão'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,12 +1,119 @@
 import React, { useState, useEffect } from 'react';
 import PowerOfAttorneyForm from './PowerOfAttorneyForm';
 import ReceiptForm from './ReceiptForm';
+import FeeAgreementForm from './FeeAgreementForm';
+import SubstitutionForm from './SubstitutionForm';
+import HardshipDeclarationForm from './HardshipDeclarationForm';
 import DocumentViewer from './DocumentViewer';
+import TemplateManager from './TemplateManager';
 import { firestoreService } from '../../services/firestoreService';
-import { Document } from '../../types';
-import { DocumentTextIcon, ReceiptPercentIcon, EyeIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { Document, DocumentType } from '../../types';
+import {
+  DocumentTextIcon,
+  ReceiptPercentIcon,
+  EyeIcon,
+  ArrowDownTrayIcon,
+  PencilSquareIcon,
+  DocumentCheckIcon,
+  ArrowsRightLeftIcon,
+  ScaleIcon,
+  MagnifyingGlassIcon
+} from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { isReceiptCancelled, matchesReceiptNumber } from '../../utils/receiptNumbers';
+
+type DocumentKind = 'power-of-attorney' | 'receipt' | 'fee-agreement' | 'substitution' | 'hardship-declaration';
+
+// Tipos de documento oferecidos no gerador
+const DOCUMENT_KINDS: Array<{
+  kind: DocumentKind;
+  type: DocumentType;
+  description: string;
+  features: string[];
+  action: string;
+  icon: typeof DocumentTextIcon;
+  colors: { border: string; iconBg: string; icon: string; button: string; badge: string };
+}> = [
+  {
+    kind: 'power-of-attorney',
+    type: 'Procuração',
+    description: 'Gere procurações jurídicas com todos os dados necessários',
+    features: ['Procuração Ad Judicia', 'Procuração para fins específicos', 'Geração em PDF e DOCX'],
+    action: 'Criar Procuração',
+    icon: DocumentTextIcon,
+    colors: {
+      border: 'hover:border-blue-300',
+      iconBg: 'bg-blue-100 group-hover:bg-blue-200',
+      icon: 'text-blue-600',
+      button: 'bg-blue-600 hover:bg-blue-700',
+      badge: 'bg-blue-100 text-blue-800'
+    }
+  },
+  {
+    kind: 'receipt',
+    type: 'Recibo',
+    description: 'Emita recibos profissionais para honorários e serviços',
+    features: ['Recibo de honorários advocatícios', 'Recibo de consultoria jurídica', 'Geração em PDF e DOCX'],
+    action: 'Criar Recibo',
+    icon: ReceiptPercentIcon,
+    colors: {
+      border: 'hover:border-green-300',
+      iconBg: 'bg-green-100 group-hover:bg-green-200',
+      icon: 'text-green-600',
+      button: 'bg-green-600 hover:bg-green-700',
+      badge: 'bg-green-100 text-green-800'
+    }
+  },
+  {
+    kind: 'fee-agreement',
+    type: 'Contrato de Honorários',
+    description: 'Formalize a contratação com honorários fixos, parcelados ou de êxito',
+    features: ['Honorários fixos e de êxito', 'Parcelamento com vencimentos', 'Vinculado ao processo'],
+    action: 'Criar Contrato',
+    icon: DocumentCheckIcon,
+    colors: {
+      border: 'hover:border-indigo-300',
+      iconBg: 'bg-indigo-100 group-hover:bg-indigo-200',
+      icon: 'text-indigo-600',
+      button: 'bg-indigo-600 hover:bg-indigo-700',
+      badge: 'bg-indigo-100 text-indigo-800'
+    }
+  },
+  {
+    kind: 'substitution',
+    type: 'Substabelecimento',
+    description: 'Transfira a outro advogado os poderes recebidos do cliente',
+    features: ['Com ou sem reserva de poderes', 'Advogado da equipe ou externo', 'Vinculado ao processo'],
+    action: 'Criar Substabelecimento',
+    icon: ArrowsRightLeftIcon,
+    colors: {
+      border: 'hover:border-amber-300',
+      iconBg: 'bg-amber-100 group-hover:bg-amber-200',
+      icon: 'text-amber-600',
+      button: 'bg-amber-600 hover:bg-amber-700',
+      badge: 'bg-amber-100 text-amber-800'
+    }
+  },
+  {
+    kind: 'hardship-declaration',
+    type: 'Declaração de Hipossuficiência',
+    description: 'Declaração para pedido de gratuidade da justiça',
+    features: ['Fundamentada nos arts. 98 e seguintes do CPC', 'Qualificação do cadastro do cliente', 'Vinculada ao processo'],
+    action: 'Criar Declaração',
+    icon: ScaleIcon,
+    colors: {
+      border: 'hover:border-purple-300',
+      iconBg: 'bg-purple-100 group-hover:bg-purple-200',
+      icon: 'text-purple-600',
+      button: 'bg-purple-600 hover:bg-purple-700',
+      badge: 'bg-purple-100 text-purple-800'
+    }
+  }
+];
+
+const getBadgeClasses = (type: DocumentType) =>
+  DOCUMENT_KINDS.find(kind => kind.type === type)?.colors.badge || 'bg-gray-100 text-gray-800';
 
 interface DocumentGeneratorProps {
   quickActionType?: string | null;
@@ -14,9 +121,11 @@ interface DocumentGeneratorProps {
 }
 
 export default function DocumentGenerator({ quickActionType, onClearQuickAction }: DocumentGeneratorProps) {
-  const [activeDocument, setActiveDocument] = useState<'power-of-attorney' | 'receipt' | null>(null);
+  const [activeDocument, setActiveDocument] = useState<DocumentKind | null>(null);
   const [viewingDocument, setViewingDocument] = useState<Document | null>(null);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -45,6 +154,15 @@ export default function DocumentGenerator({ quickActionType, onClearQuickAction
     }
   };
 
+  // Busca pelo cliente ou pelo número do recibo; sem busca, os 10 mais recentes
+  const term = searchTerm.trim().toLowerCase();
+  const visibleDocuments = term
+    ? documents.filter(document =>
+        document.client.toLowerCase().includes(term) ||
+        (document.type === 'Recibo' && matchesReceiptNumber(document.data.number, searchTerm))
+      )
+    : documents.slice(0, 10);
+
   const handleViewDocument = (document: Document) => {
     setViewingDocument(document);
   };
@@ -71,11 +189,43 @@ export default function DocumentGenerator({ quickActionType, onClearQuickAction
     );
   }
 
+  if (activeDocument === 'fee-agreement') {
+    return (
+      <FeeAgreementForm
+        onBack={() => setActiveDocument(null)}
+        onSave={loadDocuments}
+      />
+    );
+  }
+
+  if (activeDocument === 'substitution') {
+    return (
+      <SubstitutionForm
+        onBack={() => setActiveDocument(null)}
+        onSave={loadDocuments}
+      />
+    );
+  }
+
+  if (activeDocument === 'hardship-declaration') {
+    return (
+      <HardshipDeclarationForm
+        onBack={() => setActiveDocument(null)}
+        onSave={loadDocuments}
+      />
+    );
+  }
+
+  if (showTemplates) {
+    return <TemplateManager onBack={() => setShowTemplates(false)} />;
+  }
+
   if (viewingDocument) {
     return (
       <DocumentViewer
         document={viewingDocument}
         onBack={handleBackFromViewer}
+        onChange={loadDocuments}
       />
     );
   }
@@ -83,63 +233,62 @@ export default function DocumentGenerator({ quickActionType, onClearQuickAction
   return (
     <div className="p-6">
       {/* Header */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-gray-900">Gerador de Documentos</h1>
-        <p className="text-gray-600">Crie documentos jurídicos profissionais</p>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Gerador de Documentos</h1>
+          <p className="text-gray-600">Crie documentos jurídicos profissionais</p>
+        </div>
+        <button
+          onClick={() => setShowTemplates(true)}
+          className="flex items-center px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <PencilSquareIcon className="w-5 h-5 mr-2" />
+          Modelos
+        </button>
       </div>
 
       {/* Document Types */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-w-4xl">
-        <div
-          onClick={() => setActiveDocument('power-of-attorney')}
-          className="bg-white rounded-lg shadow-md border-2 border-transparent hover:border-blue-300 transition-all cursor-pointer group"
-        >
-          <div className="p-8 text-center">
-            <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4 group-hover:bg-blue-200 transition-colors">
-              <DocumentTextIcon className="w-8 h-8 text-blue-600" />
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {DOCUMENT_KINDS.map(({ kind, type, description, features, action, icon: Icon, colors }) => (
+          <div
+            key={kind}
+            onClick={() => setActiveDocument(kind)}
+            className={`bg-white rounded-lg shadow-md border-2 border-transparent ${colors.border} transition-all cursor-pointer group`}
+          >
+            <div className="p-8 text-center">
+              <div className={`w-16 h-16 ${colors.iconBg} rounded-full flex items-center justify-center mx-auto mb-4 transition-colors`}>
+                <Icon className={`w-8 h-8 ${colors.icon}`} />
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{type}</h3>
+              <p className="text-gray-600 mb-4">{description}</p>
+              <div className="space-y-2 text-sm text-gray-500">
+                {features.map(feature => (
+                  <p key={feature}>• {feature}</p>
+                ))}
+              </div>
+              <button className={`mt-6 w-full px-4 py-2 ${colors.button} text-white rounded-lg transition-colors`}>
+                {action}
+              </button>
             </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">Procuração</h3>
-            <p className="text-gray-600 mb-4">
-              Gere procurações jurídicas com todos os dados necessários
-            </p>
-            <div className="space-y-2 text-sm text-gray-500">
-              <p>• Procuração Ad Judicia</p>
-              <p>• Procuração para fins específicos</p>
-              <p>• Geração em PDF e DOCX</p>
-            </div>
-            <button className="mt-6 w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
-              Criar Procuração
-            </button>
           </div>
-        </div>
-
-        <div
-          onClick={() => setActiveDocument('receipt')}
-          className="bg-white rounded-lg shadow-md border-2 border-transparent hover:border-green-300 transition-all cursor-pointer group"
-        >
-          <div className="p-8 text-center">
-            <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4 group-hover:bg-green-200 transition-colors">
-              <ReceiptPercentIcon className="w-8 h-8 text-green-600" />
-            </div>
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">Recibo</h3>
-            <p className="text-gray-600 mb-4">
-              Emita recibos profissionais para honorários e serviços
-            </p>
-            <div className="space-y-2 text-sm text-gray-500">
-              <p>• Recibo de honorários advocatícios</p>
-              <p>• Recibo de consultoria jurídica</p>
-              <p>• Geração em PDF</p>
-            </div>
-            <button className="mt-6 w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
-              Criar Recibo
-            </button>
-          </div>
-        </div>
+        ))}
       </div>
 
       {/* Recent Documents */}
       <div className="mt-12">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">Documentos Recentes</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Documentos Recentes</h2>
+          <div className="relative">
+            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Cliente ou nº do recibo..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
         <div className="bg-white rounded-lg shadow overflow-hidden">
           {loading ? (
             <div className="p-6">
@@ -151,24 +300,39 @@ export default function DocumentGenerator({ quickActionType, onClearQuickAction
                 Nenhum documento gerado ainda
               </p>
             </div>
+          ) : visibleDocuments.length === 0 ? (
+            <div className="p-6">
+              <p className="text-gray-500 text-center">
+                Nenhum documento encontrado para "{searchTerm}"
+              </p>
+            </div>
           ) : (
             <div className="divide-y divide-gray-200">
-              {documents.slice(0, 10).map((document) => (
+              {visibleDocuments.map((document) => (
                 <div key={document.id} className="p-4 hover:bg-gray-50">
                   <div className="flex items-center justify-between">
                     <div>
-                      <h3 className="text-sm font-medium text-gray-900">{document.type}</h3>
+                      <h3 className="text-sm font-medium text-gray-900">
+                        {document.type}
+                        {document.type === 'Recibo' && document.data.number && (
+                          <span className="ml-2 font-mono text-gray-600">{document.data.number}</span>
+                        )}
+                        {isReceiptCancelled(document) && (
+                          <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                            Cancelado
+                          </span>
+                        )}
+                      </h3>
                       <p className="text-sm text-gray-500">Cliente: {document.client}</p>
+                      {document.processNumber && (
+                        <p className="text-xs text-gray-500 font-mono">Processo: {document.processNumber}</p>
+                      )}
                       <p className="text-xs text-gray-400">
                         Criado em {format(new Date(document.createdAt), 'dd/MM/yyyy HH:mm', { locale: ptBR })}
                       </p>
                     </div>
                     <div className="flex items-center">
-                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                        document.type === 'Procuração' 
-                          ? 'bg-blue-100 text-blue-800' 
-                          : 'bg-green-100 text-green-800'
-                      }`}>
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getBadgeClasses(document.type)}`}>
                         {document.type}
                       </span>
                       <button
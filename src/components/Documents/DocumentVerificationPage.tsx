@@ -0,0 +1,174 @@
+/**
+ * Página pública de verificação de documentos
+ * Acessada pelo QR Code do PDF ou digitando o código impresso no rodapé
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  ShieldCheckIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { verificationService } from '../../services/verificationService';
+import type { DocumentVerificationResult } from '../../types';
+import { normalizeVerificationCode } from '../../utils/documentVerification';
+
+const STATUS_DISPLAY = {
+  valid: {
+    icon: CheckCircleIcon,
+    color: 'text-green-600',
+    title: 'Documento autêntico',
+    message: 'O documento foi emitido pelo LegalX e não foi alterado desde a emissão.'
+  },
+  outdated: {
+    icon: ExclamationTriangleIcon,
+    color: 'text-amber-500',
+    title: 'Documento alterado',
+    message: 'O documento existe, mas foi editado depois da emissão deste arquivo. Solicite a versão atual a quem o emitiu.'
+  },
+  cancelled: {
+    icon: XCircleIcon,
+    color: 'text-red-500',
+    title: 'Documento cancelado',
+    message: 'O documento foi emitido pelo LegalX, mas está cancelado e não tem mais validade.'
+  },
+  deleted: {
+    icon: XCircleIcon,
+    color: 'text-red-500',
+    title: 'Documento excluído',
+    message: 'O documento foi emitido pelo LegalX, mas foi excluído por quem o emitiu.'
+  },
+  not_found: {
+    icon: XCircleIcon,
+    color: 'text-red-500',
+    title: 'Código não encontrado',
+    message: 'Nenhum documento emitido pelo LegalX corresponde a este código. Confira se foi digitado corretamente.'
+  }
+};
+
+export default function DocumentVerificationPage() {
+  const { code: rawCode = '' } = useParams();
+  const navigate = useNavigate();
+  const code = normalizeVerificationCode(rawCode);
+
+  const [result, setResult] = useState<DocumentVerificationResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      setResult(null);
+      setError(null);
+
+      if (!code) {
+        setError('Código de verificação inválido');
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      const verification = await verificationService.verify(code);
+      if (verification) {
+        setResult(verification);
+      } else {
+        setError('Não foi possível consultar o documento. Tente novamente.');
+      }
+      setLoading(false);
+    };
+
+    verify();
+  }, [code]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const searched = normalizeVerificationCode(search);
+    if (!searched) {
+      alert('Informe os 12 caracteres do código de verificação.');
+      return;
+    }
+    navigate(`/verificar/${searched}`);
+  };
+
+  const display = result ? STATUS_DISPLAY[result.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-blue-800 to-blue-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-white mb-2">
+            Legal<span className="text-amber-400">X</span>
+          </h1>
+          <p className="text-blue-200">Verificação de Documentos</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-2xl p-8">
+          {loading ? (
+            <div className="text-center py-6">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Verificando documento...</p>
+            </div>
+          ) : error || !display || !result ? (
+            <div className="text-center">
+              <ExclamationTriangleIcon className="w-16 h-16 text-red-500 mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">Verificação indisponível</h2>
+              <p className="text-gray-600">{error}</p>
+            </div>
+          ) : (
+            <div className="text-center">
+              <display.icon className={`w-16 h-16 mx-auto mb-4 ${display.color}`} />
+              <h2 className="text-2xl font-bold text-gray-900 mb-2">{display.title}</h2>
+              <p className="text-gray-600 mb-6">{display.message}</p>
+
+              {result.status !== 'not_found' && (
+                <div className="grid grid-cols-2 gap-4 text-left">
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <span className="text-xs font-medium text-gray-600">Tipo</span>
+                    <p className="text-sm font-semibold text-gray-900">{result.documentType}</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3">
+                    <span className="text-xs font-medium text-gray-600">Emitido em</span>
+                    <p className="text-sm font-semibold text-gray-900">
+                      {format(new Date(result.issuedAt), 'dd/MM/yyyy', { locale: ptBR })} (versão {result.version})
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {code && (
+            <div className="flex items-center justify-center text-sm text-gray-500 mt-6">
+              <ShieldCheckIcon className="w-4 h-4 mr-1" />
+              Código <span className="font-mono ml-1">{code}</span>
+            </div>
+          )}
+
+          {/* Another code */}
+          <form onSubmit={handleSearch} className="flex items-center space-x-2 mt-6 pt-6 border-t">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="XXXX-XXXX-XXXX"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <MagnifyingGlassIcon className="w-5 h-5 mr-1" />
+              Verificar
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,679 +1,176 @@
 import React from 'react';
-import { Document } from '../../types';
-import { ArrowLeftIcon, DocumentArrowDownIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import { Document, DocumentExport, DocumentVersion } from '../../types';
+import {
+  ArrowLeftIcon,
+  ClockIcon,
+  DocumentArrowDownIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  XCircleIcon
+} from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import jsPDF from 'jspdf';
-import { Document as DocxDocument, Packer, Paragraph, TextRun, AlignmentType, HeadingLevel, BorderStyle } from 'docx';
-import { saveAs } from 'file-saver';
+import { firestoreService } from '../../services/firestoreService';
+import { templateService } from '../../services/templateService';
+import { verificationService } from '../../services/verificationService';
+import { getTemplateKey } from '../../utils/documentTemplates';
+import { RenderedDocument, documentFileName, downloadDocumentDocx, downloadDocumentPDF } from '../../utils/documentRender';
+import { diffDocumentVersions, toDocumentVersion } from '../../utils/documentVersions';
+import { isReceiptCancelled } from '../../utils/receiptNumbers';
+import DocumentEditForm from './DocumentEditForm';
+import ReceiptRevenueLink from './ReceiptRevenueLink';
+import TemplatePreview from './TemplatePreview';
 
 interface DocumentViewerProps {
   document: Document;
   onBack: () => void;
+  onChange?: () => void;
 }
 
-export default function DocumentViewer({ document, onBack }: DocumentViewerProps) {
+export default function DocumentViewer({ document: initialDocument, onBack, onChange }: DocumentViewerProps) {
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'dd/MM/yyyy HH:mm', { locale: ptBR });
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(value);
-  };
-
-  const generatePowerOfAttorneyPDF = (docData: any) => {
-    const doc = new jsPDF();
-    
-    // Cores da identidade visual
-    const primaryBlue = [37, 99, 235];
-    const accentAmber = [245, 158, 11];
-    const darkGray = [55, 65, 81];
-    const lightGray = [156, 163, 175];
-    
-    // Header
-    doc.setFillColor(...primaryBlue);
-    doc.rect(0, 0, 210, 25, 'F');
-    
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(24);
-    doc.setFont(undefined, 'bold');
-    doc.text('Legal', 20, 17);
-    doc.setTextColor(...accentAmber);
-    doc.text('X', 50, 17);
-    
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(10);
-    doc.setFont(undefined, 'normal');
-    doc.text('Sistema de Gestão Jurídica', 20, 22);
-    
-    // Título
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(20);
-    doc.setFont(undefined, 'bold');
-    doc.text('PROCURAÇÃO', 105, 45, { align: 'center' });
-    
-    // Linha decorativa
-    doc.setDrawColor(...accentAmber);
-    doc.setLineWidth(2);
-    doc.line(20, 50, 190, 50);
-    
-    // Conteúdo
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(11);
-    doc.setFont(undefined, 'normal');
-    
-    let yPosition = 65;
-    const lineHeight = 6;
-    
-    const lawyersText = docData.lawyers && docData.lawyers.length > 1 
-      ? `os(as) Srs(as). ${docData.lawyers.join(', ')}`
-      : `o(a) Sr(a). ${docData.lawyers ? docData.lawyers[0] : 'Advogado'}`;
-    
-    const content = `
-Pelo presente instrumento particular de procuração, eu, ${document.client}, 
-nomeio e constituo como ${docData.lawyers && docData.lawyers.length > 1 ? 'meus bastantes procuradores' : 'meu bastante procurador'} ${lawyersText}, 
-para o fim específico de:
-
-${docData.object || 'Representação jurídica'}
-
-Outorgo-lhe poderes para representar-me ${docData.type === 'Ad Judicia' ? 'em juízo' : 'para os fins específicos acima descritos'}, 
-podendo para tanto praticar todos os atos necessários ao bom e fiel cumprimento 
-do presente mandato.
+  const [document, setDocument] = React.useState<Document>(initialDocument);
+  const [editing, setEditing] = React.useState(false);
+  const [rendered, setRendered] = React.useState<RenderedDocument | null>(null);
+  const [renderError, setRenderError] = React.useState<string | null>(null);
+  const [versions, setVersions] = React.useState<DocumentVersion[]>([]);
+  const [exports, setExports] = React.useState<DocumentExport[]>([]);
 
-Por ser verdade, firmo a presente.
+  const loadHistory = React.useCallback(async () => {
+    const [loadedVersions, loadedExports] = await Promise.all([
+      firestoreService.getDocumentVersions(document.id),
+      firestoreService.getDocumentExports(document.id)
+    ]);
+    setVersions(loadedVersions);
+    setExports(loadedExports);
+  }, [document.id]);
 
-${docData.location || 'São Paulo'}, ${docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')}.
+  React.useEffect(() => {
+    loadHistory();
+  }, [loadHistory, document.version]);
 
-
-_________________________________
-${document.client}
-Outorgante
-    `.trim();
-
-    const lines = doc.splitTextToSize(content, 170);
-    
-    lines.forEach((line: string) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 30;
+  React.useEffect(() => {
+    // Preencher o modelo atual do usuário com os dados do documento
+    const loadRendered = async () => {
+      try {
+        setRendered(await templateService.renderDocument(document));
+        setRenderError(null);
+      } catch (error) {
+        console.error('Erro ao preencher modelo do documento:', error);
+        setRenderError(error instanceof Error ? error.message : 'Erro ao preencher o modelo');
       }
-      doc.text(line, 20, yPosition);
-      yPosition += lineHeight;
-    });
-    
-    // Footer
-    doc.setDrawColor(...lightGray);
-    doc.setLineWidth(0.5);
-    doc.line(20, 280, 190, 280);
-    
-    doc.setTextColor(...lightGray);
-    doc.setFontSize(8);
-    doc.setFont(undefined, 'normal');
-    doc.text('Documento gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
-    doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
-    
-    doc.save(`procuracao_${document.client.replace(/\s+/g, '_').toLowerCase()}.pdf`);
-  };
+    };
 
-  const generateReceiptPDF = (docData: any) => {
-    const doc = new jsPDF();
-    
-    // Cores da identidade visual
-    const primaryBlue = [37, 99, 235];
-    const accentAmber = [245, 158, 11];
-    const darkGray = [55, 65, 81];
-    const lightGray = [156, 163, 175];
-    const successGreen = [34, 197, 94];
-    
-    // Header
-    doc.setFillColor(...primaryBlue);
-    doc.rect(0, 0, 210, 25, 'F');
-    
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(24);
-    doc.setFont(undefined, 'bold');
-    doc.text('Legal', 20, 17);
-    doc.setTextColor(...accentAmber);
-    doc.text('X', 50, 17);
-    
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(10);
-    doc.setFont(undefined, 'normal');
-    doc.text('Sistema de Gestão Jurídica', 20, 22);
-    
-    // Título
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(20);
-    doc.setFont(undefined, 'bold');
-    doc.text('RECIBO', 105, 45, { align: 'center' });
-    
-    // Linha decorativa
-    doc.setDrawColor(...accentAmber);
-    doc.setLineWidth(2);
-    doc.line(20, 50, 190, 50);
-    
-    // Box com valor
-    doc.setFillColor(248, 250, 252);
-    doc.setDrawColor(...successGreen);
-    doc.setLineWidth(1);
-    doc.roundedRect(20, 55, 170, 20, 3, 3, 'FD');
-    
-    doc.setTextColor(...successGreen);
-    doc.setFontSize(16);
-    doc.setFont(undefined, 'bold');
-    doc.text(`Valor: ${formatCurrency(docData.amount || 0)}`, 105, 67, { align: 'center' });
-    
-    // Conteúdo
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(11);
-    doc.setFont(undefined, 'normal');
-    
-    let yPosition = 85;
-    
-    const content = `
-Recebi de ${document.client} a importância de ${formatCurrency(docData.amount || 0)}, 
-referente a ${docData.description || 'serviços jurídicos'}.
+    loadRendered();
+  }, [document]);
 
-Forma de pagamento: ${docData.paymentMethod || 'Não especificado'}
+  // Cada arquivo gerado fica registrado com autor, data e versão
+  const logExport = async (exported: Document, exportFormat: DocumentExport['format'], verificationCode?: string) => {
+    const logged = await firestoreService.logDocumentExport(exported, exportFormat, verificationCode);
+    if (logged) setExports(prev => [logged, ...prev]);
+  };
 
-Para clareza firmo o presente recibo.
+  // O PDF leva o selo de verificação do conteúdo atual
+  const downloadPDF = async (exported: Document, exportedRendered: RenderedDocument) => {
+    const stamp = await verificationService.registerDocument(exported);
+    downloadDocumentPDF(exportedRendered, documentFileName(getTemplateKey(exported.type), exported.client, 'pdf'), stamp);
+    logExport(exported, 'PDF', stamp?.code);
+  };
 
-${docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')}
+  const handleDownloadPDF = () => {
+    if (!rendered) return;
+    downloadPDF(document, rendered);
+  };
 
+  const generateWordDocument = async () => {
+    if (!rendered) return;
+    try {
+      await downloadDocumentDocx(rendered, documentFileName(getTemplateKey(document.type), document.client, 'docx'));
+      logExport(document, 'DOCX');
+    } catch (error) {
+      console.error('Erro ao gerar documento Word:', error);
+      alert('Erro ao gerar documento Word. Tente novamente.');
+    }
+  };
 
-_________________________________
-${docData.lawyerName || 'Advogado'}
-OAB: ${docData.lawyerOab || ''}
-CPF: ${docData.lawyerCpf || ''}
-    `.trim();
+  const handleSaved = async (revised: Document) => {
+    setDocument(revised);
+    setEditing(false);
+    if (onChange) {
+      await onChange();
+    }
 
-    const lines = doc.splitTextToSize(content, 170);
-    
-    lines.forEach((line: string) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 30;
+    if (confirm(`Versão ${revised.version} salva. Deseja baixar o PDF atualizado?`)) {
+      try {
+        await downloadPDF(revised, await templateService.renderDocument(revised));
+      } catch (error) {
+        console.error('Erro ao reemitir documento:', error);
+        alert('Erro ao gerar o PDF da nova versão. Tente pelo botão Baixar PDF.');
       }
-      doc.text(line, 20, yPosition);
-      yPosition += 6;
-    });
-    
-    // Footer
-    doc.setDrawColor(...lightGray);
-    doc.setLineWidth(0.5);
-    doc.line(20, 280, 190, 280);
-    
-    doc.setTextColor(...lightGray);
-    doc.setFontSize(8);
-    doc.setFont(undefined, 'normal');
-    doc.text('Documento gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
-    doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
-    
-    doc.save(`recibo_${document.client.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+    }
   };
 
-  const generateWordDocument = () => {
-    let doc: DocxDocument;
-    
-    if (document.type === 'Procuração') {
-      const docData = document.data;
-      const lawyersText = docData.lawyers && docData.lawyers.length > 1 
-        ? `os(as) Srs(as). ${docData.lawyers.join(', ')}`
-        : `o(a) Sr(a). ${docData.lawyers ? docData.lawyers[0] : 'Advogado'}`;
-      
-      doc = new DocxDocument({
-        sections: [{
-          properties: {},
-          children: [
-            // Header com logo
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "LegalX",
-                  bold: true,
-                  size: 32,
-                  color: "2563eb"
-                }),
-                new TextRun({
-                  text: " - Sistema de Gestão Jurídica",
-                  size: 20,
-                  color: "6b7280"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 400 }
-            }),
-            
-            // Título
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "PROCURAÇÃO",
-                  bold: true,
-                  size: 32
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 600 }
-            }),
-            
-            // Conteúdo principal
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Pelo presente instrumento particular de procuração, eu, `
-                }),
-                new TextRun({
-                  text: document.client,
-                  bold: true
-                }),
-                new TextRun({
-                  text: `, nomeio e constituo como ${docData.lawyers && docData.lawyers.length > 1 ? 'meus bastantes procuradores' : 'meu bastante procurador'} `
-                }),
-                new TextRun({
-                  text: lawyersText,
-                  bold: true
-                }),
-                new TextRun({
-                  text: `, para o fim específico de:`
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 300 }
-            }),
-            
-            // Objeto da procuração
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: docData.object || 'Representação jurídica',
-                  bold: true,
-                  italics: true
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 300 }
-            }),
-            
-            // Poderes
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Outorgo-lhe poderes para representar-me ${docData.type === 'Ad Judicia' ? 'em juízo' : 'para os fins específicos acima descritos'}, podendo para tanto praticar todos os atos necessários ao bom e fiel cumprimento do presente mandato.`
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 400 }
-            }),
-            
-            // Encerramento
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "Por ser verdade, firmo a presente."
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 600 }
-            }),
-            
-            // Data e local
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `${docData.location || 'São Paulo'}, ${docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')}.`
-                })
-              ],
-              alignment: AlignmentType.RIGHT,
-              spacing: { after: 800 }
-            }),
-            
-            // Assinatura
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "_________________________________"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: document.client,
-                  bold: true
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "Outorgante",
-                  size: 20,
-                  color: "6b7280"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 800 }
-            }),
-            
-            // Footer
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "Documento gerado pelo LegalX - Sistema de Gestão Jurídica",
-                  size: 16,
-                  color: "9ca3af"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`,
-                  size: 16,
-                  color: "9ca3af"
-                })
-              ],
-              alignment: AlignmentType.CENTER
-            })
-          ]
-        }]
-      });
-      
-    } else if (document.type === 'Recibo') {
-      const docData = document.data;
-      
-      doc = new DocxDocument({
-        sections: [{
-          properties: {},
-          children: [
-            // Header com logo
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "LegalX",
-                  bold: true,
-                  size: 32,
-                  color: "2563eb"
-                }),
-                new TextRun({
-                  text: " - Sistema de Gestão Jurídica",
-                  size: 20,
-                  color: "6b7280"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 400 }
-            }),
-            
-            // Título
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "RECIBO",
-                  bold: true,
-                  size: 32
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 400 }
-            }),
-            
-            // Valor em destaque
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Valor: ${formatCurrency(docData.amount || 0)}`,
-                  bold: true,
-                  size: 28,
-                  color: "22c55e"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 600 }
-            }),
-            
-            // Conteúdo principal
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Recebi de `
-                }),
-                new TextRun({
-                  text: document.client,
-                  bold: true
-                }),
-                new TextRun({
-                  text: ` a importância de `
-                }),
-                new TextRun({
-                  text: formatCurrency(docData.amount || 0),
-                  bold: true
-                }),
-                new TextRun({
-                  text: `, referente a `
-                }),
-                new TextRun({
-                  text: docData.description || 'serviços jurídicos',
-                  bold: true
-                }),
-                new TextRun({
-                  text: `.`
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 300 }
-            }),
-            
-            // Forma de pagamento
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Forma de pagamento: `
-                }),
-                new TextRun({
-                  text: docData.paymentMethod || 'Não especificado',
-                  bold: true
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 400 }
-            }),
-            
-            // Encerramento
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "Para clareza firmo o presente recibo."
-                })
-              ],
-              alignment: AlignmentType.JUSTIFIED,
-              spacing: { after: 600 }
-            }),
-            
-            // Data
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')
-                })
-              ],
-              alignment: AlignmentType.RIGHT,
-              spacing: { after: 800 }
-            }),
-            
-            // Assinatura
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "_________________________________"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: docData.lawyerName || 'Advogado',
-                  bold: true
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `OAB: ${docData.lawyerOab || ''}`,
-                  size: 20,
-                  color: "6b7280"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `CPF: ${docData.lawyerCpf || ''}`,
-                  size: 20,
-                  color: "6b7280"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 800 }
-            }),
-            
-            // Footer
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: "Documento gerado pelo LegalX - Sistema de Gestão Jurídica",
-                  size: 16,
-                  color: "9ca3af"
-                })
-              ],
-              alignment: AlignmentType.CENTER,
-              spacing: { after: 100 }
-            }),
-            
-            new Paragraph({
-              children: [
-                new TextRun({
-                  text: `Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`,
-                  size: 16,
-                  color: "9ca3af"
-                })
-              ],
-              alignment: AlignmentType.CENTER
-            })
-          ]
-        }]
-      });
-    }
+  // Recibos numerados são cancelados, nunca excluídos, para não abrir lacunas na sequência
+  const receiptNumber = document.type === 'Recibo' ? document.data.number : '';
+  const cancelled = isReceiptCancelled(document);
+
+  const handleCancelReceipt = async () => {
+    const linkedNote = document.type === 'Recibo' && document.data.revenueId
+      ? ' A receita vinculada será sinalizada no financeiro.'
+      : '';
+    const reason = prompt(`Cancelar o recibo ${receiptNumber}? O número continuará reservado.${linkedNote}\n\nMotivo do cancelamento:`);
+    if (reason === null) return;
 
-    // Gerar e baixar arquivo Word real
-    if (doc) {
-      Packer.toBlob(doc).then(blob => {
-        saveAs(blob, `${document.type.toLowerCase()}_${document.client.replace(/\s+/g, '_').toLowerCase()}.docx`);
-      }).catch(error => {
-        console.error('Erro ao gerar documento Word:', error);
-        alert('Erro ao gerar documento Word. Tente novamente.');
-      });
+    const updated = await firestoreService.cancelReceipt(document, reason.trim());
+    if (!updated) {
+      alert('Erro ao cancelar recibo. Tente novamente.');
+      return;
+    }
+    setDocument(updated);
+    if (onChange) {
+      await onChange();
     }
   };
 
-  const handleDownloadPDF = () => {
-    if (document.type === 'Procuração') {
-      generatePowerOfAttorneyPDF(document.data);
-    } else if (document.type === 'Recibo') {
-      generateReceiptPDF(document.data);
+  const handleRevenueLinked = async (linked: Document) => {
+    setDocument(linked);
+    if (onChange) {
+      await onChange();
     }
   };
 
-  const renderDocumentPreview = () => {
-    if (document.type === 'Procuração') {
-      const docData = document.data;
-      return (
-        <div className="prose max-w-none">
-          <h2 className="text-center text-xl font-bold mb-6">PROCURAÇÃO</h2>
-          <p className="text-justify leading-relaxed">
-            Pelo presente instrumento particular de procuração, eu, <strong>{document.client}</strong>, 
-            nomeio e constituo como {docData.lawyers && docData.lawyers.length > 1 ? 'meus bastantes procuradores' : 'meu bastante procurador'} {' '}
-            <strong>{docData.lawyers ? docData.lawyers.join(', ') : 'Advogado'}</strong>, 
-            para o fim específico de:
-          </p>
-          <p className="text-justify leading-relaxed my-4">
-            <strong>{docData.object || 'Representação jurídica'}</strong>
-          </p>
-          <p className="text-justify leading-relaxed">
-            Outorgo-lhe poderes para representar-me {docData.type === 'Ad Judicia' ? 'em juízo' : 'para os fins específicos acima descritos'}, 
-            podendo para tanto praticar todos os atos necessários ao bom e fiel cumprimento do presente mandato.
-          </p>
-          <p className="text-justify leading-relaxed mt-6">
-            Por ser verdade, firmo a presente.
-          </p>
-          <p className="text-right mt-8">
-            {docData.location || 'São Paulo'}, {docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')}.
-          </p>
-          <div className="text-center mt-12">
-            <div className="border-t border-gray-400 w-64 mx-auto mb-2"></div>
-            <p><strong>{document.client}</strong></p>
-            <p className="text-sm text-gray-600">Outorgante</p>
-          </div>
-        </div>
-      );
-    } else if (document.type === 'Recibo') {
-      const docData = document.data;
-      return (
-        <div className="prose max-w-none">
-          <h2 className="text-center text-xl font-bold mb-6">RECIBO</h2>
-          <div className="bg-green-50 border-2 border-green-200 rounded-lg p-4 text-center mb-6">
-            <p className="text-lg font-bold text-green-700">
-              Valor: {formatCurrency(docData.amount || 0)}
-            </p>
-          </div>
-          <p className="text-justify leading-relaxed">
-            Recebi de <strong>{document.client}</strong> a importância de <strong>{formatCurrency(docData.amount || 0)}</strong>, 
-            referente a <strong>{docData.description || 'serviços jurídicos'}</strong>.
-          </p>
-          <p className="text-justify leading-relaxed mt-4">
-            Forma de pagamento: <strong>{docData.paymentMethod || 'Não especificado'}</strong>
-          </p>
-          <p className="text-justify leading-relaxed mt-6">
-            Para clareza firmo o presente recibo.
-          </p>
-          <p className="text-right mt-8">
-            {docData.date ? new Date(docData.date).toLocaleDateString('pt-BR') : new Date().toLocaleDateString('pt-BR')}
-          </p>
-          <div className="text-center mt-12">
-            <div className="border-t border-gray-400 w-64 mx-auto mb-2"></div>
-            <p><strong>{docData.lawyerName || 'Advogado'}</strong></p>
-            <p className="text-sm text-gray-600">OAB: {docData.lawyerOab || ''}</p>
-            <p className="text-sm text-gray-600">CPF: {docData.lawyerCpf || ''}</p>
-          </div>
-        </div>
-      );
+  const handleDelete = async () => {
+    if (!confirm(`Excluir este documento (${document.type} de ${document.client})? Esta ação não pode ser desfeita.`)) return;
+
+    const deleted = await firestoreService.deleteDocument(document.id);
+    if (!deleted) {
+      alert('Erro ao excluir documento. Tente novamente.');
+      return;
     }
-    return null;
+    if (onChange) {
+      await onChange();
+    }
+    onBack();
   };
 
+  // Versão atual seguida das anteriores, da mais recente para a mais antiga
+  const history = [toDocumentVersion(document), ...versions.filter(version => version.version < document.version)];
+
+  if (editing) {
+    return (
+      <DocumentEditForm
+        document={document}
+        onCancel={() => setEditing(false)}
+        onSaved={handleSaved}
+      />
+    );
+  }
+
   return (
     <div className="p-6">
       {/* Header */}
@@ -692,16 +189,46 @@ CPF: ${docData.lawyerCpf || ''}
           </div>
         </div>
         <div className="flex items-center space-x-3">
+          {!cancelled && (
+            <button
+              onClick={() => setEditing(true)}
+              className="flex items-center px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <PencilSquareIcon className="w-5 h-5 mr-2" />
+              Editar
+            </button>
+          )}
+          {receiptNumber ? (
+            !cancelled && (
+              <button
+                onClick={handleCancelReceipt}
+                className="flex items-center px-4 py-2 text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+              >
+                <XCircleIcon className="w-5 h-5 mr-2" />
+                Cancelar recibo
+              </button>
+            )
+          ) : (
+            <button
+              onClick={handleDelete}
+              className="flex items-center px-4 py-2 text-red-700 bg-red-50 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              <TrashIcon className="w-5 h-5 mr-2" />
+              Excluir
+            </button>
+          )}
           <button
             onClick={handleDownloadPDF}
-            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+            disabled={!rendered}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
           >
             <DocumentArrowDownIcon className="w-5 h-5 mr-2" />
             Baixar PDF
           </button>
           <button
             onClick={generateWordDocument}
-            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            disabled={!rendered}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
           >
             <DocumentTextIcon className="w-5 h-5 mr-2" />
             Baixar Word
@@ -719,6 +246,21 @@ CPF: ${docData.lawyerCpf || ''}
             </label>
             <p className="text-gray-900">{document.type}</p>
           </div>
+          {receiptNumber && (
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                Número
+              </label>
+              <p className="text-gray-900 font-mono">
+                {receiptNumber}
+                {cancelled && (
+                  <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                    Cancelado
+                  </span>
+                )}
+              </p>
+            </div>
+          )}
           <div>
             <label className="block text-sm font-medium text-gray-500 mb-1">
               Cliente
@@ -731,14 +273,148 @@ CPF: ${docData.lawyerCpf || ''}
             </label>
             <p className="text-gray-900">{formatDate(document.createdAt)}</p>
           </div>
+          {document.processNumber && (
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                Processo
+              </label>
+              <p className="text-gray-900 font-mono">{document.processNumber}</p>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">
+              Versão
+            </label>
+            <p className="text-gray-900">
+              {document.version}
+              {document.updatedAt && ` (atualizada em ${formatDate(document.updatedAt)})`}
+            </p>
+          </div>
         </div>
       </div>
 
+      {/* Cancelled receipt */}
+      {document.type === 'Recibo' && cancelled && (
+        <div className="flex items-start bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <XCircleIcon className="w-5 h-5 text-red-600 mr-3 flex-shrink-0" />
+          <p className="text-sm text-red-800">
+            Recibo cancelado em {formatDate(document.data.cancelledAt)}
+            {document.data.cancelReason && `: ${document.data.cancelReason}`}
+          </p>
+        </div>
+      )}
+
+      {/* Linked revenue */}
+      {document.type === 'Recibo' && (
+        <ReceiptRevenueLink receipt={document} onLinked={handleRevenueLinked} />
+      )}
+
+      {/* Payload warnings */}
+      {document.payloadErrors && document.payloadErrors.length > 0 && (
+        <div className="flex items-start bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+          <ExclamationTriangleIcon className="w-5 h-5 text-amber-600 mr-3 flex-shrink-0" />
+          <div className="text-sm text-amber-800">
+            <p className="font-medium mb-1">Este documento tem dados incompletos ou inconsistentes:</p>
+            <ul className="list-disc list-inside">
+              {document.payloadErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
       {/* Document Preview */}
       <div className="bg-white rounded-lg shadow p-8">
         <h3 className="text-lg font-semibold text-gray-900 mb-6">Visualização do Documento</h3>
         <div className="border border-gray-200 rounded-lg p-8 bg-gray-50 min-h-96">
-          {renderDocumentPreview()}
+          {renderError ? (
+            <p className="text-red-600 text-center">
+              Não foi possível preencher o modelo deste documento: {renderError}
+            </p>
+          ) : rendered ? (
+            <TemplatePreview rendered={rendered} />
+          ) : (
+            <p className="text-gray-500 text-center">Carregando documento...</p>
+          )}
+        </div>
+      </div>
+
+      {/* Version history */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mt-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Histórico de Versões</h3>
+          <div className="space-y-4">
+            {history.map((version, index) => {
+              const previous = history[index + 1];
+              const changes = previous ? diffDocumentVersions(previous, version) : [];
+
+              return (
+                <div key={version.version} className="border-l-4 border-blue-200 pl-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">
+                      Versão {version.version}{index === 0 && ' (atual)'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(version.createdAt)}{version.createdBy && ` por ${version.createdBy.name}`}
+                    </p>
+                  </div>
+                  {version.changeNote && (
+                    <p className="text-sm text-gray-600 italic mt-1">{version.changeNote}</p>
+                  )}
+                  {previous ? (
+                    changes.length > 0 ? (
+                      <ul className="mt-2 space-y-1">
+                        {changes.map(change => (
+                          <li key={change.field} className="text-sm">
+                            <span className="font-medium text-gray-700">{change.label}:</span>{' '}
+                            <span className="text-red-600 line-through">{change.before}</span>{' '}
+                            <span className="text-green-700">{change.after}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-gray-500 mt-1">Sem alterações nos campos</p>
+                    )
+                  ) : (
+                    <p className="text-sm text-gray-500 mt-1">
+                      {version.version === 1 ? 'Emissão original' : 'Versões anteriores não registradas'}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Export log */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Registro de Emissões</h3>
+          {exports.length === 0 ? (
+            <p className="text-gray-500 text-sm">Nenhum arquivo gerado registrado</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {exports.map(item => (
+                <div key={item.id} className="flex items-center justify-between py-2">
+                  <div className="flex items-center">
+                    <ClockIcon className="w-4 h-4 text-gray-400 mr-2" />
+                    <div>
+                      <p className="text-sm text-gray-900">
+                        {item.format} da versão {item.version}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {item.generatedBy?.name || 'Usuário desconhecido'}
+                        {item.verificationCode && (
+                          <> · Código <span className="font-mono">{item.verificationCode}</span></>
+                        )}
+                      </p>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">{formatDate(item.generatedAt)}</p>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,502 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Client, Lawyer, Process } from '../../types';
+import { ArrowLeftIcon, DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { firestoreService } from '../../services/firestoreService';
+import { verificationService } from '../../services/verificationService';
+import { templateService } from '../../services/templateService';
+import { formatClientAddress } from '../../utils/clients';
+import { formatLawyerOabs } from '../../utils/oab';
+import { cpfCnpjSchema, formatCpfCnpj, normalizeCpfCnpj } from '../../utils/cpfCnpj';
+import { buildFeeAgreementContext } from '../../utils/documentTemplates';
+import { MAX_NUMBER_IN_WORDS } from '../../utils/extenso';
+import { documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+import { buildReceivablesFromFeeAgreement } from '../../utils/receivables';
+import ClientPicker from '../Clients/ClientPicker';
+import ProcessPicker from '../Processes/ProcessPicker';
+
+const schema = yup.object({
+  clientName: yup.string().required('Nome do contratante é obrigatório'),
+  clientCpf: cpfCnpjSchema('CPF/CNPJ do contratante é obrigatório'),
+  clientAddress: yup.string().required('Endereço do contratante é obrigatório'),
+  object: yup.string().required('Objeto do contrato é obrigatório'),
+  amount: yup.number()
+    .transform((value, original) => (original === '' ? 0 : value))
+    .min(0, 'Valor não pode ser negativo')
+    .max(MAX_NUMBER_IN_WORDS, 'Valor acima do limite permitido')
+    .required('Informe os honorários fixos (ou 0)'),
+  installments: yup.number()
+    .integer('Número de parcelas inválido')
+    .min(1, 'Mínimo de 1 parcela')
+    .required('Número de parcelas é obrigatório'),
+  firstDueDate: yup.string(),
+  successFee: yup.number()
+    .transform((value, original) => (original === '' ? 0 : value))
+    .min(0, 'Percentual inválido')
+    .max(100, 'Percentual inválido'),
+  paymentMethod: yup.string().required('Forma de pagamento é obrigatória'),
+  location: yup.string().required('Local é obrigatório'),
+  date: yup.string().required('Data é obrigatória')
+});
+
+interface FeeAgreementFormProps {
+  onBack: () => void;
+  onSave?: () => void;
+}
+
+type FeeAgreementData = yup.InferType<typeof schema>;
+
+export default function FeeAgreementForm({ onBack, onSave }: FeeAgreementFormProps) {
+  const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
+  const [clients, setClients] = React.useState<Client[]>([]);
+  const [selectedLawyers, setSelectedLawyers] = React.useState<string[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
+  const [process, setProcess] = React.useState<Process | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch
+  } = useForm({
+    resolver: yupResolver(schema),
+    defaultValues: {
+      installments: 1,
+      paymentMethod: 'PIX',
+      date: new Date().toISOString().split('T')[0]
+    }
+  });
+
+  React.useEffect(() => {
+    // Carregar advogados ativos e clientes cadastrados
+    const loadData = async () => {
+      try {
+        const [loadedLawyers, loadedClients] = await Promise.all([
+          firestoreService.getLawyers(),
+          firestoreService.getClients()
+        ]);
+        setLawyers(loadedLawyers.filter(l => l.status === 'Ativo'));
+        setClients(loadedClients);
+      } catch (error) {
+        console.error('Erro ao carregar dados do contrato:', error);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  // Cliente cadastrado: preencher a qualificação do contratante
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('clientName', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+
+    if (client) {
+      setValue('clientCpf', formatCpfCnpj(client.document), { shouldValidate: true });
+      const address = formatClientAddress(client.address);
+      if (address) setValue('clientAddress', address, { shouldValidate: true });
+    }
+  };
+
+  // Processo escolhido: sugerir o cliente e os advogados responsáveis
+  const handleProcessChange = (selected: Process | null) => {
+    setProcess(selected);
+    if (!selected) return;
+
+    if (!watch('clientName') && selected.client) {
+      handleClientChange(selected.client, clients.find(c => c.id === selected.clientId) || null);
+    }
+    if (selectedLawyers.length === 0) {
+      setSelectedLawyers(selected.responsibleLawyers.filter(name => lawyers.some(l => l.fullName === name)));
+    }
+  };
+
+  const handleLawyerToggle = (lawyerName: string) => {
+    setSelectedLawyers(prev => prev.includes(lawyerName)
+      ? prev.filter(name => name !== lawyerName)
+      : [...prev, lawyerName]
+    );
+  };
+
+  // Inscrições na OAB de cada contratado, na mesma ordem de selectedLawyers
+  const getLawyersOab = () => selectedLawyers.map(name => {
+    const lawyer = lawyers.find(l => l.fullName === name);
+    return lawyer ? formatLawyerOabs(lawyer) : '';
+  });
+
+  const buildData = (data: FeeAgreementData) => ({
+    clientCpf: normalizeCpfCnpj(data.clientCpf),
+    clientAddress: data.clientAddress,
+    lawyers: selectedLawyers,
+    lawyersOab: getLawyersOab(),
+    object: data.object,
+    amount: data.amount || 0,
+    installments: data.installments,
+    firstDueDate: data.firstDueDate || '',
+    successFee: data.successFee || 0,
+    paymentMethod: data.paymentMethod,
+    location: data.location,
+    date: data.date,
+    processCourt: process?.court || ''
+  });
+
+  const onSubmit = async (data: FeeAgreementData) => {
+    if (selectedLawyers.length === 0) {
+      alert('Selecione pelo menos um advogado.');
+      return;
+    }
+    if (!data.amount && !data.successFee) {
+      alert('Informe os honorários fixos ou o percentual de êxito.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const documentData = buildData(data);
+      const savedDocument = await firestoreService.saveDocument({
+        type: 'Contrato de Honorários',
+        client: data.clientName,
+        clientId,
+        processId: process?.id || null,
+        processNumber: process?.processNumber || '',
+        data: documentData
+      });
+
+      console.log('Contrato de honorários salvo no sistema:', savedDocument);
+
+      if (onSave) {
+        await onSave();
+      }
+
+      const rendered = await templateService.render('contrato', buildFeeAgreementContext(
+        data.clientName,
+        documentData,
+        { number: process?.processNumber || '', court: process?.court || '' }
+      ));
+      const stamp = savedDocument ? await verificationService.registerDocument(savedDocument) : null;
+      downloadDocumentPDF(rendered, documentFileName('contrato', data.clientName, 'pdf'), stamp);
+      if (savedDocument) {
+        await firestoreService.logDocumentExport(savedDocument, 'PDF', stamp?.code);
+
+        // Honorários fixos viram contas a receber, uma por parcela
+        const receivables = buildReceivablesFromFeeAgreement(savedDocument);
+        if (receivables.length > 0 && confirm(
+          `Gerar ${receivables.length === 1 ? '1 conta a receber' : `${receivables.length} parcelas a receber`} com os honorários fixos deste contrato?`
+        )) {
+          const savedReceivables = await firestoreService.saveReceivables(receivables);
+          if (savedReceivables.length === 0) {
+            alert('Contrato salvo, mas houve erro ao gerar as contas a receber.');
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao salvar contrato de honorários:', error);
+      alert('Erro ao salvar contrato no sistema. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          disabled={loading}
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Novo Contrato de Honorários</h1>
+          <p className="text-gray-600">Preencha os dados para gerar o contrato</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-4xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          {/* Process */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Processo Relacionado</h3>
+            <ProcessPicker
+              value={process?.id || null}
+              onChange={handleProcessChange}
+              clientId={clientId}
+              disabled={loading}
+            />
+          </div>
+
+          {/* Client Information */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Dados do Contratante</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Nome Completo / Razão Social *
+                </label>
+                <ClientPicker
+                  value={watch('clientName') || ''}
+                  clientId={clientId}
+                  onChange={handleClientChange}
+                  disabled={loading}
+                  placeholder="Nome do contratante"
+                />
+                {errors.clientName && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientName.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  CPF/CNPJ *
+                </label>
+                <input
+                  {...register('clientCpf')}
+                  type="text"
+                  maxLength={18}
+                  disabled={loading}
+                  onChange={(e) => {
+                    e.target.value = formatCpfCnpj(e.target.value);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="000.000.000-00"
+                />
+                {errors.clientCpf && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientCpf.message}</p>
+                )}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Endereço Completo *
+                </label>
+                <input
+                  {...register('clientAddress')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Rua, número, bairro, cidade, estado"
+                />
+                {errors.clientAddress && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientAddress.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Lawyer Information */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Advogados Contratados</h3>
+            <div className="border border-gray-300 rounded-lg p-3 max-h-40 overflow-y-auto">
+              {lawyers.length > 0 ? (
+                <div className="space-y-2">
+                  {lawyers.map((lawyer) => (
+                    <label key={lawyer.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        disabled={loading}
+                        checked={selectedLawyers.includes(lawyer.fullName)}
+                        onChange={() => handleLawyerToggle(lawyer.fullName)}
+                        className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded disabled:opacity-50"
+                      />
+                      <span className="text-sm text-gray-700">
+                        {lawyer.fullName} - OAB: {lawyer.oab}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-500 text-sm">Nenhum advogado disponível</p>
+              )}
+            </div>
+            {selectedLawyers.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {selectedLawyers.map((lawyer) => (
+                  <span
+                    key={lawyer}
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
+                  >
+                    {lawyer}
+                    <button
+                      type="button"
+                      disabled={loading}
+                      onClick={() => handleLawyerToggle(lawyer)}
+                      className="ml-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                    >
+                      <XMarkIcon className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            {selectedLawyers.length === 0 && (
+              <p className="text-red-500 text-sm mt-1">Pelo menos um advogado é obrigatório</p>
+            )}
+          </div>
+
+          {/* Agreement Details */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Objeto e Honorários</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Objeto do Contrato *
+                </label>
+                <textarea
+                  {...register('object')}
+                  rows={3}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Descreva os serviços contratados..."
+                />
+                {errors.object && (
+                  <p className="text-red-500 text-sm mt-1">{errors.object.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Honorários Fixos (R$)
+                </label>
+                <input
+                  {...register('amount')}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="0,00"
+                />
+                {errors.amount && (
+                  <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Honorários de Êxito (%)
+                </label>
+                <input
+                  {...register('successFee')}
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  max="100"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Ex: 30"
+                />
+                {errors.successFee && (
+                  <p className="text-red-500 text-sm mt-1">{errors.successFee.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Parcelas *
+                </label>
+                <input
+                  {...register('installments')}
+                  type="number"
+                  min="1"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+                {errors.installments && (
+                  <p className="text-red-500 text-sm mt-1">{errors.installments.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Vencimento da 1ª Parcela
+                </label>
+                <input
+                  {...register('firstDueDate')}
+                  type="date"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Forma de Pagamento *
+                </label>
+                <select
+                  {...register('paymentMethod')}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <option value="PIX">PIX</option>
+                  <option value="transferência bancária">Transferência bancária</option>
+                  <option value="boleto bancário">Boleto bancário</option>
+                  <option value="cartão de crédito">Cartão de crédito</option>
+                  <option value="dinheiro">Dinheiro</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Local (Foro) *
+                </label>
+                <input
+                  {...register('location')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="São Paulo"
+                />
+                {errors.location && (
+                  <p className="text-red-500 text-sm mt-1">{errors.location.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Data *
+                </label>
+                <input
+                  {...register('date')}
+                  type="date"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+                {errors.date && (
+                  <p className="text-red-500 text-sm mt-1">{errors.date.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <DocumentArrowDownIcon className="w-5 h-5 mr-2" />
+              {loading ? 'Processando...' : 'Gerar Contrato PDF'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
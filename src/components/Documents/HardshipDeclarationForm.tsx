@@ -0,0 +1,294 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Client, Process } from '../../types';
+import { ArrowLeftIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { firestoreService } from '../../services/firestoreService';
+import { verificationService } from '../../services/verificationService';
+import { templateService } from '../../services/templateService';
+import { formatClientAddress } from '../../utils/clients';
+import { cpfCnpjSchema, formatCpfCnpj, normalizeCpfCnpj } from '../../utils/cpfCnpj';
+import { buildHardshipDeclarationContext } from '../../utils/documentTemplates';
+import { documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+import ClientPicker from '../Clients/ClientPicker';
+import ProcessPicker from '../Processes/ProcessPicker';
+
+const schema = yup.object({
+  clientName: yup.string().required('Nome do declarante é obrigatório'),
+  clientCpf: cpfCnpjSchema('CPF/CNPJ do declarante é obrigatório'),
+  clientRg: yup.string(),
+  clientAddress: yup.string().required('Endereço do declarante é obrigatório'),
+  profession: yup.string(),
+  location: yup.string().required('Local é obrigatório'),
+  date: yup.string().required('Data é obrigatória')
+});
+
+interface HardshipDeclarationFormProps {
+  onBack: () => void;
+  onSave?: () => void;
+}
+
+type HardshipDeclarationData = yup.InferType<typeof schema>;
+
+export default function HardshipDeclarationForm({ onBack, onSave }: HardshipDeclarationFormProps) {
+  const [clients, setClients] = React.useState<Client[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
+  const [process, setProcess] = React.useState<Process | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch
+  } = useForm({
+    resolver: yupResolver(schema),
+    defaultValues: {
+      date: new Date().toISOString().split('T')[0]
+    }
+  });
+
+  React.useEffect(() => {
+    firestoreService.getClients().then(setClients);
+  }, []);
+
+  // Cliente cadastrado: preencher a qualificação do declarante
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('clientName', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+
+    if (client) {
+      setValue('clientCpf', formatCpfCnpj(client.document), { shouldValidate: true });
+      if (client.rg) setValue('clientRg', client.rg);
+      const address = formatClientAddress(client.address);
+      if (address) setValue('clientAddress', address, { shouldValidate: true });
+    }
+  };
+
+  // Processo escolhido: sugerir o cliente do processo
+  const handleProcessChange = (selected: Process | null) => {
+    setProcess(selected);
+    if (selected && !watch('clientName') && selected.client) {
+      handleClientChange(selected.client, clients.find(c => c.id === selected.clientId) || null);
+    }
+  };
+
+  const onSubmit = async (data: HardshipDeclarationData) => {
+    try {
+      setLoading(true);
+
+      const documentData = {
+        clientCpf: normalizeCpfCnpj(data.clientCpf),
+        clientRg: data.clientRg || '',
+        clientAddress: data.clientAddress,
+        profession: data.profession || '',
+        location: data.location,
+        date: data.date
+      };
+
+      const savedDocument = await firestoreService.saveDocument({
+        type: 'Declaração de Hipossuficiência',
+        client: data.clientName,
+        clientId,
+        processId: process?.id || null,
+        processNumber: process?.processNumber || '',
+        data: documentData
+      });
+
+      console.log('Declaração de hipossuficiência salva no sistema:', savedDocument);
+
+      if (onSave) {
+        await onSave();
+      }
+
+      const rendered = await templateService.render('hipossuficiencia', buildHardshipDeclarationContext(
+        data.clientName,
+        documentData,
+        { number: process?.processNumber || '', court: process?.court || '' }
+      ));
+      const stamp = savedDocument ? await verificationService.registerDocument(savedDocument) : null;
+      downloadDocumentPDF(rendered, documentFileName('hipossuficiencia', data.clientName, 'pdf'), stamp);
+      if (savedDocument) {
+        await firestoreService.logDocumentExport(savedDocument, 'PDF', stamp?.code);
+      }
+    } catch (error) {
+      console.error('Erro ao salvar declaração de hipossuficiência:', error);
+      alert('Erro ao salvar declaração no sistema. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          disabled={loading}
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Nova Declaração de Hipossuficiência</h1>
+          <p className="text-gray-600">Declaração para pedido de gratuidade da justiça</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-4xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          {/* Process */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Processo Relacionado</h3>
+            <ProcessPicker
+              value={process?.id || null}
+              onChange={handleProcessChange}
+              clientId={clientId}
+              disabled={loading}
+            />
+          </div>
+
+          {/* Declarant */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Dados do Declarante</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Nome Completo *
+                </label>
+                <ClientPicker
+                  value={watch('clientName') || ''}
+                  clientId={clientId}
+                  onChange={handleClientChange}
+                  disabled={loading}
+                  placeholder="Nome completo do declarante"
+                />
+                {errors.clientName && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientName.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  CPF/CNPJ *
+                </label>
+                <input
+                  {...register('clientCpf')}
+                  type="text"
+                  maxLength={18}
+                  disabled={loading}
+                  onChange={(e) => {
+                    e.target.value = formatCpfCnpj(e.target.value);
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="000.000.000-00"
+                />
+                {errors.clientCpf && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientCpf.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  RG
+                </label>
+                <input
+                  {...register('clientRg')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="00.000.000-0"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Profissão
+                </label>
+                <input
+                  {...register('profession')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Ex: auxiliar administrativo"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Endereço Completo *
+                </label>
+                <input
+                  {...register('clientAddress')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Rua, número, bairro, cidade, estado"
+                />
+                {errors.clientAddress && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientAddress.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Local *
+                </label>
+                <input
+                  {...register('location')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="São Paulo - SP"
+                />
+                {errors.location && (
+                  <p className="text-red-500 text-sm mt-1">{errors.location.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Data *
+                </label>
+                <input
+                  {...register('date')}
+                  type="date"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+                {errors.date && (
+                  <p className="text-red-500 text-sm mt-1">{errors.date.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <DocumentArrowDownIcon className="w-5 h-5 mr-2" />
+              {loading ? 'Processando...' : 'Gerar Declaração PDF'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
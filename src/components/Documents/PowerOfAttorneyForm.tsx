@@ -2,14 +2,21 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { Lawyer } from '../../types';
+import { Client, Lawyer } from '../../types';
 import { ArrowLeftIcon, DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
-import jsPDF from 'jspdf';
 import { firestoreService } from '../../services/firestoreService';
+import { verificationService } from '../../services/verificationService';
+import { templateService } from '../../services/templateService';
+import { formatClientAddress } from '../../utils/clients';
+import { formatLawyerOabs } from '../../utils/oab';
+import { cpfCnpjSchema, formatCpfCnpj, normalizeCpfCnpj } from '../../utils/cpfCnpj';
+import { buildPowerOfAttorneyContext } from '../../utils/documentTemplates';
+import { VerificationStamp, documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+import ClientPicker from '../Clients/ClientPicker';
 
 const schema = yup.object({
   clientName: yup.string().required('Nome do cliente é obrigatório'),
-  clientCpf: yup.string().required('CPF do cliente é obrigatório'),
+  clientCpf: cpfCnpjSchema('CPF/CNPJ do cliente é obrigatório'),
   clientRg: yup.string().required('RG do cliente é obrigatório'),
   clientAddress: yup.string().required('Endereço do cliente é obrigatório'),
   lawyers: yup.array().min(1, 'Pelo menos um advogado é obrigatório'),
@@ -39,12 +46,15 @@ interface PowerOfAttorneyData {
 export default function PowerOfAttorneyForm({ onBack, onSave }: PowerOfAttorneyFormProps) {
   const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
   const [selectedLawyers, setSelectedLawyers] = React.useState<string[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
   
   const {
     register,
     handleSubmit,
-    formState: { errors }
+    formState: { errors },
+    setValue,
+    watch
   } = useForm<PowerOfAttorneyData>({
     resolver: yupResolver(schema),
     defaultValues: {
@@ -68,6 +78,19 @@ export default function PowerOfAttorneyForm({ onBack, onSave }: PowerOfAttorneyF
     loadLawyers();
   }, []);
 
+  // Cliente cadastrado: preencher a qualificação do outorgante
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('clientName', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+
+    if (client) {
+      setValue('clientCpf', formatCpfCnpj(client.document), { shouldValidate: true });
+      if (client.rg) setValue('clientRg', client.rg, { shouldValidate: true });
+      const address = formatClientAddress(client.address);
+      if (address) setValue('clientAddress', address, { shouldValidate: true });
+    }
+  };
+
   const handleLawyerToggle = (lawyerName: string) => {
     setSelectedLawyers(prev => {
       if (prev.includes(lawyerName)) {
@@ -78,118 +101,20 @@ export default function PowerOfAttorneyForm({ onBack, onSave }: PowerOfAttorneyF
     });
   };
 
-  const generatePDF = (data: PowerOfAttorneyData) => {
-    const doc = new jsPDF();
-    
-    // Cores da identidade visual
-    const primaryBlue = [37, 99, 235]; // #2563eb
-    const accentAmber = [245, 158, 11]; // #f59e0b
-    const darkGray = [55, 65, 81]; // #374151
-    const lightGray = [156, 163, 175]; // #9ca3af
-    
-    // Header com logo e identidade visual
-    doc.setFillColor(...primaryBlue);
-    doc.rect(0, 0, 210, 25, 'F');
-    
-    // Logo LegalX
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(24);
-    doc.setFont(undefined, 'bold');
-    doc.text('Legal', 20, 17);
-    doc.setTextColor(...accentAmber);
-    doc.text('X', 50, 17);
-    
-    // Subtítulo
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(10);
-    doc.setFont(undefined, 'normal');
-    doc.text('Sistema de Gestão Jurídica', 20, 22);
-    
-    // Título do documento
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(20);
-    doc.setFont(undefined, 'bold');
-    doc.text('PROCURAÇÃO', 105, 45, { align: 'center' });
-    
-    // Linha decorativa
-    doc.setDrawColor(...accentAmber);
-    doc.setLineWidth(2);
-    doc.line(20, 50, 190, 50);
-    
-    // Content
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(11);
-    doc.setFont(undefined, 'normal');
-    
-    let yPosition = 65;
-    const lineHeight = 6;
-    
-    const lawyersText = selectedLawyers.length > 1 
-      ? `os(as) Srs(as). ${selectedLawyers.join(', ')}`
-      : `o(a) Sr(a). ${selectedLawyers[0]}`;
-    
-    const lawyersOab = selectedLawyers.map(name => {
-      const lawyer = lawyers.find(l => l.fullName === name);
-      return lawyer ? `${name} (OAB ${lawyer.oab})` : name;
-    }).join(', ');
-
-    const content = `
-Pelo presente instrumento particular de procuração, eu, ${data.clientName}, 
-${data.clientCpf.includes('.') ? 'CPF' : 'CPF'} nº ${data.clientCpf}, RG nº ${data.clientRg}, 
-residente e domiciliado em ${data.clientAddress}, 
-
-NOMEIO e CONSTITUO como ${selectedLawyers.length > 1 ? 'meus bastantes procuradores' : 'meu bastante procurador'} ${lawyersText}, 
-${selectedLawyers.length > 1 ? 'inscritos na OAB' : 'inscrito(a) na OAB'} (${lawyersOab}), para o fim específico de:
-
-${data.object}
-
-Outorgo-lhe poderes para representar-me ${data.type === 'Ad Judicia' ? 'em juízo' : 'para os fins específicos acima descritos'}, 
-podendo para tanto praticar todos os atos necessários ao bom e fiel cumprimento 
-do presente mandato.
-
-Por ser verdade, firmo a presente.
-
-${data.location}, ${new Date(data.date).toLocaleDateString('pt-BR')}.
-
-
-_________________________________
-${data.clientName}
-Outorgante
-    `.trim();
-
-    const lines = doc.splitTextToSize(content, 170);
-    
-    lines.forEach((line: string) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 30;
-      }
-      doc.text(line, 20, yPosition);
-      yPosition += lineHeight;
-    });
-    
-    // Footer com informações do sistema
-    doc.setDrawColor(...lightGray);
-    doc.setLineWidth(0.5);
-    doc.line(20, 280, 190, 280);
-    
-    doc.setTextColor(...lightGray);
-    doc.setFontSize(8);
-    doc.setFont(undefined, 'normal');
-    doc.text('Documento gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
-    doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
-    
-    // Número da página (se necessário)
-    const pageCount = doc.internal.getNumberOfPages();
-    if (pageCount > 1) {
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.text(`Página ${i} de ${pageCount}`, 190, 290, { align: 'right' });
-      }
-    }
+  // Inscrições na OAB de cada procurador, na mesma ordem de selectedLawyers
+  const getLawyersOab = () => selectedLawyers.map(name => {
+    const lawyer = lawyers.find(l => l.fullName === name);
+    return lawyer ? formatLawyerOabs(lawyer) : '';
+  });
 
-    // Save PDF
-    doc.save(`procuracao_${data.clientName.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+  const generatePDF = async (data: PowerOfAttorneyData, stamp: VerificationStamp | null) => {
+    const rendered = await templateService.render('procuracao', buildPowerOfAttorneyContext(data.clientName, {
+      ...data,
+      clientCpf: normalizeCpfCnpj(data.clientCpf),
+      lawyers: selectedLawyers,
+      lawyersOab: getLawyersOab()
+    }));
+    downloadDocumentPDF(rendered, documentFileName('procuracao', data.clientName, 'pdf'), stamp);
   };
 
   const onSubmit = async (data: PowerOfAttorneyData) => {
@@ -205,12 +130,17 @@ Outorgante
       const savedDocument = await firestoreService.saveDocument({
         type: 'Procuração',
         client: data.clientName,
+        clientId,
         data: {
           type: data.type,
           object: data.object,
           location: data.location,
           date: data.date,
-          lawyers: selectedLawyers
+          clientCpf: normalizeCpfCnpj(data.clientCpf),
+          clientRg: data.clientRg,
+          clientAddress: data.clientAddress,
+          lawyers: selectedLawyers,
+          lawyersOab: getLawyersOab()
         }
       });
       
@@ -222,7 +152,11 @@ Outorgante
       }
       
       // Gerar PDF
-      generatePDF({ ...data, lawyers: selectedLawyers });
+      const stamp = savedDocument ? await verificationService.registerDocument(savedDocument) : null;
+      await generatePDF(data, stamp);
+      if (savedDocument) {
+        await firestoreService.logDocumentExport(savedDocument, 'PDF', stamp?.code);
+      }
     } catch (error) {
       console.error('Erro ao salvar procuração:', error);
       alert('Erro ao salvar procuração no sistema. Tente novamente.');
@@ -260,11 +194,11 @@ Outorgante
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Nome Completo *
                 </label>
-                <input
-                  {...register('clientName')}
-                  type="text"
+                <ClientPicker
+                  value={watch('clientName') || ''}
+                  clientId={clientId}
+                  onChange={handleClientChange}
                   disabled={loading}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                   placeholder="Nome completo do cliente"
                 />
                 {errors.clientName && (
@@ -274,12 +208,16 @@ Outorgante
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  CPF *
+                  CPF/CNPJ *
                 </label>
                 <input
                   {...register('clientCpf')}
                   type="text"
+                  maxLength={18}
                   disabled={loading}
+                  onChange={(e) => {
+                    e.target.value = formatCpfCnpj(e.target.value);
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                   placeholder="000.000.000-00"
                 />
@@ -2,19 +2,29 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { Lawyer } from '../../types';
+import { Client, Document, Lawyer, OabRegistration } from '../../types';
 import { ArrowLeftIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
-import jsPDF from 'jspdf';
 import { firestoreService } from '../../services/firestoreService';
+import { verificationService } from '../../services/verificationService';
+import { templateService } from '../../services/templateService';
+import ClientPicker from '../Clients/ClientPicker';
+import { cpfSchema, formatCpf, normalizeCpf } from '../../utils/cpfCnpj';
+import { formatOab, getLawyerOabs, getPrincipalOab, toOabCode } from '../../utils/oab';
+import { MAX_NUMBER_IN_WORDS, amountToWords } from '../../utils/extenso';
+import { documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+import ReceiptRevenueLink from './ReceiptRevenueLink';
 
 const schema = yup.object({
   clientName: yup.string().required('Nome do cliente é obrigatório'),
-  amount: yup.number().positive('Valor deve ser positivo').required('Valor é obrigatório'),
+  amount: yup.number()
+    .positive('Valor deve ser positivo')
+    .max(MAX_NUMBER_IN_WORDS, 'Valor acima do limite permitido')
+    .required('Valor é obrigatório'),
   description: yup.string().required('Descrição é obrigatória'),
   paymentMethod: yup.string().required('Forma de pagamento é obrigatória'),
   lawyerName: yup.string().required('Nome do advogado é obrigatório'),
   lawyerOab: yup.string().required('OAB do advogado é obrigatória'),
-  lawyerCpf: yup.string().required('CPF do advogado é obrigatório'),
+  lawyerCpf: cpfSchema('CPF do advogado é obrigatório'),
   date: yup.string().required('Data é obrigatória')
 });
 
@@ -36,12 +46,17 @@ interface ReceiptData {
 
 export default function ReceiptForm({ onBack, onSave }: ReceiptFormProps) {
   const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
+  const [lawyerOabs, setLawyerOabs] = React.useState<OabRegistration[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
   const [loading, setLoading] = React.useState(false);
+  // Recibo recém-emitido, para lançar o pagamento no financeiro
+  const [savedReceipt, setSavedReceipt] = React.useState<Document | null>(null);
   
   const {
     register,
     handleSubmit,
     setValue,
+    watch,
     formState: { errors }
   } = useForm<ReceiptData>({
     resolver: yupResolver(schema),
@@ -66,187 +81,56 @@ export default function ReceiptForm({ onBack, onSave }: ReceiptFormProps) {
     loadLawyers();
   }, []);
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL'
-    }).format(value);
+  // O PDF sai do recibo salvo, já com o número atribuído
+  const generatePDF = async (receipt: Document) => {
+    const rendered = await templateService.renderDocument(receipt);
+    const stamp = await verificationService.registerDocument(receipt);
+    downloadDocumentPDF(rendered, documentFileName('recibo', receipt.client, 'pdf'), stamp);
+    await firestoreService.logDocumentExport(receipt, 'PDF', stamp?.code);
   };
 
-  const numberToWords = (num: number): string => {
-    const ones = ['', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove'];
-    const teens = ['dez', 'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'];
-    const tens = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
-    const hundreds = ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'];
-    
-    if (num === 0) return 'zero';
-    if (num === 100) return 'cem';
-    
-    let result = '';
-    
-    if (num >= 1000) {
-      const thousands = Math.floor(num / 1000);
-      result += numberToWords(thousands) + ' mil';
-      num %= 1000;
-      if (num > 0) result += ' e ';
-    }
-    
-    if (num >= 100) {
-      result += hundreds[Math.floor(num / 100)];
-      num %= 100;
-      if (num > 0) result += ' e ';
-    }
-    
-    if (num >= 20) {
-      result += tens[Math.floor(num / 10)];
-      num %= 10;
-      if (num > 0) result += ' e ';
-    } else if (num >= 10) {
-      result += teens[num - 10];
-      return result;
-    }
-    
-    if (num > 0) {
-      result += ones[num];
-    }
-    
-    return result.trim();
-  };
-
-  const generatePDF = (data: ReceiptData) => {
-    const doc = new jsPDF();
-    
-    // Cores da identidade visual
-    const primaryBlue = [37, 99, 235]; // #2563eb
-    const accentAmber = [245, 158, 11]; // #f59e0b
-    const darkGray = [55, 65, 81]; // #374151
-    const lightGray = [156, 163, 175]; // #9ca3af
-    const successGreen = [34, 197, 94]; // #22c55e
-    
-    // Header com logo e identidade visual
-    doc.setFillColor(...primaryBlue);
-    doc.rect(0, 0, 210, 25, 'F');
-    
-    // Logo LegalX
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(24);
-    doc.setFont(undefined, 'bold');
-    doc.text('Legal', 20, 17);
-    doc.setTextColor(...accentAmber);
-    doc.text('X', 50, 17);
-    
-    // Subtítulo
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(10);
-    doc.setFont(undefined, 'normal');
-    doc.text('Sistema de Gestão Jurídica', 20, 22);
-    
-    // Título do documento
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(20);
-    doc.setFont(undefined, 'bold');
-    doc.text('RECIBO', 105, 45, { align: 'center' });
-    
-    // Linha decorativa
-    doc.setDrawColor(...accentAmber);
-    doc.setLineWidth(2);
-    doc.line(20, 50, 190, 50);
-    
-    // Box com valor em destaque
-    doc.setFillColor(248, 250, 252); // bg-slate-50
-    doc.setDrawColor(...successGreen);
-    doc.setLineWidth(1);
-    doc.roundedRect(20, 55, 170, 20, 3, 3, 'FD');
-    
-    // Valor em destaque
-    doc.setTextColor(...successGreen);
-    doc.setFontSize(16);
-    doc.setFont(undefined, 'bold');
-    doc.text(`Valor: ${formatCurrency(data.amount)}`, 105, 67, { align: 'center' });
-    
-    // Content
-    doc.setTextColor(...darkGray);
-    doc.setFontSize(11);
-    doc.setFont(undefined, 'normal');
-    
-    let yPosition = 85;
-    const lineHeight = 6;
-    
-    const amountInWords = numberToWords(Math.floor(data.amount));
-    const cents = Math.round((data.amount % 1) * 100);
-    const centsInWords = cents > 0 ? ` e ${numberToWords(cents)} centavos` : '';
-    
-    // Conteúdo principal com formatação melhorada
-    const content = `
-Recebi de ${data.clientName} a importância de ${formatCurrency(data.amount)} 
-(${amountInWords} reais${centsInWords}), referente a ${data.description}.
-
-Forma de pagamento: ${data.paymentMethod}
+  const watchedAmount = watch('amount');
 
-Para clareza firmo o presente recibo.
-
-${new Date(data.date).toLocaleDateString('pt-BR')}
-
-
-_________________________________
-${data.lawyerName}
-OAB/SP nº ${data.lawyerOab}
-CPF: ${data.lawyerCpf}
-    `.trim();
-
-    const lines = doc.splitTextToSize(content, 170);
-    
-    lines.forEach((line: string) => {
-      if (yPosition > 270) {
-        doc.addPage();
-        yPosition = 30;
-      }
-      doc.text(line, 20, yPosition);
-      yPosition += lineHeight;
-    });
-    
-    // Footer com informações do sistema
-    doc.setDrawColor(...lightGray);
-    doc.setLineWidth(0.5);
-    doc.line(20, 280, 190, 280);
-    
-    doc.setTextColor(...lightGray);
-    doc.setFontSize(8);
-    doc.setFont(undefined, 'normal');
-    doc.text('Documento gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
-    doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
-    
-    // Número da página (se necessário)
-    const pageCount = doc.internal.getNumberOfPages();
-    if (pageCount > 1) {
-      for (let i = 1; i <= pageCount; i++) {
-        doc.setPage(i);
-        doc.text(`Página ${i} de ${pageCount}`, 190, 290, { align: 'right' });
-      }
-    }
-
-    // Save PDF
-    doc.save(`recibo_${data.clientName.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('clientName', name, { shouldValidate: true });
+    setClientId(client?.id || null);
   };
 
   const onSubmit = async (data: ReceiptData) => {
     try {
       setLoading(true);
       
-      // Salvar documento no Firestore
-      const savedDocument = await firestoreService.saveDocument({
+      // Salvar recibo no Firestore com o próximo número da sequência
+      const result = await firestoreService.saveReceipt({
         type: 'Recibo',
         client: data.clientName,
+        clientId,
         data: {
           amount: data.amount,
           description: data.description,
           paymentMethod: data.paymentMethod,
           date: data.date,
           lawyerName: data.lawyerName,
-          lawyerOab: data.lawyerOab
+          lawyerOab: data.lawyerOab,
+          lawyerCpf: normalizeCpf(data.lawyerCpf)
         }
       });
       
+      if (result.status === 'queued') {
+        // Sem número ainda: o PDF só sai depois que o escritório numerar o recibo
+        alert(
+          'Sem conexão com o servidor. O recibo foi guardado neste navegador e receberá o número ' +
+          'do escritório quando a conexão voltar; gere o PDF pela lista de documentos depois disso.'
+        );
+        onBack();
+        return;
+      }
+      if (result.status === 'error') {
+        alert('Erro ao salvar recibo no sistema. Tente novamente.');
+        return;
+      }
+      const savedDocument = result.receipt;
+
       console.log('Recibo salvo no sistema:', savedDocument);
       
       // Chamar callback para atualizar lista
@@ -255,7 +139,8 @@ CPF: ${data.lawyerCpf}
       }
       
       // Gerar PDF
-      generatePDF(data);
+      await generatePDF(savedDocument);
+      setSavedReceipt(savedDocument);
     } catch (error) {
       console.error('Erro ao salvar recibo:', error);
       alert('Erro ao salvar recibo no sistema. Tente novamente.');
@@ -283,6 +168,16 @@ CPF: ${data.lawyerCpf}
       </div>
 
       {/* Form */}
+      {savedReceipt && (
+        <div className="max-w-2xl">
+          <ReceiptRevenueLink
+            receipt={savedReceipt}
+            onLinked={setSavedReceipt}
+            onDismiss={() => setSavedReceipt(null)}
+          />
+        </div>
+      )}
+
       <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl">
         <div className="bg-white rounded-lg shadow p-6 space-y-6">
           {/* Client Information */}
@@ -292,11 +187,11 @@ CPF: ${data.lawyerCpf}
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Nome do Cliente *
               </label>
-              <input
-                {...register('clientName')}
-                type="text"
+              <ClientPicker
+                value={watch('clientName') || ''}
+                clientId={clientId}
+                onChange={handleClientChange}
                 disabled={loading}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                 placeholder="Nome completo do cliente"
               />
               {errors.clientName && (
@@ -322,8 +217,10 @@ CPF: ${data.lawyerCpf}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                   placeholder="0.00"
                 />
-                {errors.amount && (
+                {errors.amount ? (
                   <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+                ) : watchedAmount > 0 && watchedAmount <= MAX_NUMBER_IN_WORDS && (
+                  <p className="text-xs text-gray-500 mt-1">Por extenso: {amountToWords(watchedAmount)}</p>
                 )}
               </div>
 
@@ -381,8 +278,12 @@ CPF: ${data.lawyerCpf}
                   onChange={(e) => {
                     const selectedLawyer = lawyers.find(l => l.fullName === e.target.value);
                     if (selectedLawyer) {
-                      setValue('lawyerOab', selectedLawyer.oab);
-                      setValue('lawyerCpf', selectedLawyer.cpf);
+                      // Advogados com inscrição suplementar escolhem a seccional abaixo
+                      const registrations = getLawyerOabs(selectedLawyer);
+                      const principal = getPrincipalOab(registrations);
+                      setLawyerOabs(registrations);
+                      setValue('lawyerOab', principal ? toOabCode(principal) : selectedLawyer.oab);
+                      setValue('lawyerCpf', formatCpf(selectedLawyer.cpf));
                     }
                   }}
                 >
@@ -407,19 +308,35 @@ CPF: ${data.lawyerCpf}
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   OAB *
                 </label>
-                <input
-                  {...register('lawyerOab')}
-                  type="text"
-                  readOnly
-                  disabled={loading}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
-                  placeholder="00000/UF"
-                />
+                {lawyerOabs.length > 1 ? (
+                  <select
+                    {...register('lawyerOab')}
+                    disabled={loading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {lawyerOabs.map(registration => (
+                      <option key={registration.state} value={toOabCode(registration)}>
+                        {formatOab(registration)} ({registration.type})
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    {...register('lawyerOab')}
+                    type="text"
+                    readOnly
+                    disabled={loading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    placeholder="00000/UF"
+                  />
+                )}
                 {errors.lawyerOab && (
                   <p className="text-red-500 text-sm mt-1">{errors.lawyerOab.message}</p>
                 )}
                 <p className="text-xs text-gray-500 mt-1">
-                  Preenchido automaticamente ao selecionar o advogado
+                  {lawyerOabs.length > 1
+                    ? 'Escolha a inscrição da seccional em que o recibo é emitido'
+                    : 'Preenchido automaticamente ao selecionar o advogado'}
                 </p>
               </div>
 
@@ -0,0 +1,157 @@
+import React from 'react';
+import { BanknotesIcon, ExclamationTriangleIcon, LinkIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { Document, Revenue } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { isReceiptCancelled } from '../../utils/receiptNumbers';
+import { findRevenueCandidates } from '../../utils/receiptRevenues';
+
+interface ReceiptRevenueLinkProps {
+  receipt: Document;
+  onLinked: (receipt: Document) => void;
+  onDismiss?: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+/**
+ * Receita do financeiro ligada ao recibo: mostra o vínculo existente ou
+ * oferece criar uma receita nova ou ligar uma já lançada com o mesmo valor
+ */
+export default function ReceiptRevenueLink({ receipt, onLinked, onDismiss }: ReceiptRevenueLinkProps) {
+  const [revenues, setRevenues] = React.useState<Revenue[]>([]);
+  const [loaded, setLoaded] = React.useState(false);
+  const [saving, setSaving] = React.useState(false);
+  const linkedId = receipt.type === 'Recibo' ? receipt.data.revenueId : '';
+
+  // Recarrega ao mudar o vínculo para exibir a receita recém-criada
+  React.useEffect(() => {
+    const loadRevenues = async () => {
+      setRevenues(await firestoreService.getRevenues());
+      setLoaded(true);
+    };
+
+    loadRevenues();
+  }, [receipt.id, linkedId]);
+
+  if (receipt.type !== 'Recibo') return null;
+
+  const { revenueId, revenueWarning } = receipt.data;
+  const linked = revenueId ? revenues.find(revenue => revenue.id === revenueId) : undefined;
+  const candidates = findRevenueCandidates(receipt, revenues);
+
+  const handleCreate = async () => {
+    try {
+      setSaving(true);
+      const updated = await firestoreService.createRevenueFromReceipt(receipt);
+      if (!updated) {
+        alert('Erro ao criar receita para o recibo. Tente novamente.');
+        return;
+      }
+      onLinked(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLink = async (revenue: Revenue) => {
+    try {
+      setSaving(true);
+      const updated = await firestoreService.linkReceiptRevenue(receipt, revenue);
+      if (!updated) {
+        alert('Erro ao vincular recibo à receita. Tente novamente.');
+        return;
+      }
+      onLinked(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Receita Vinculada</h3>
+
+      {revenueWarning && (
+        <div className="flex items-start bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+          <ExclamationTriangleIcon className="w-5 h-5 text-amber-600 mr-3 flex-shrink-0" />
+          <p className="text-sm text-amber-800">{revenueWarning}</p>
+        </div>
+      )}
+
+      {!loaded ? (
+        <p className="text-sm text-gray-500">Carregando receitas...</p>
+      ) : revenueId ? (
+        linked ? (
+          <div className="flex items-center text-sm text-gray-700">
+            <BanknotesIcon className="w-5 h-5 text-green-600 mr-2" />
+            <span>
+              {linked.source} — {formatCurrency(linked.amount)} em {formatDate(linked.date)}
+              {linked.receiptWarning && (
+                <span className="ml-2 text-amber-700">({linked.receiptWarning})</span>
+              )}
+            </span>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">A receita vinculada não foi encontrada no financeiro.</p>
+        )
+      ) : isReceiptCancelled(receipt) ? (
+        <p className="text-sm text-gray-500">Recibo cancelado sem receita vinculada.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Este pagamento ainda não está no financeiro. Crie uma receita com os dados do recibo
+            ou vincule uma receita já lançada.
+          </p>
+
+          {candidates.length > 0 && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+              {candidates.map(revenue => (
+                <div key={revenue.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <span className="text-gray-700">
+                    {formatDate(revenue.date)} — {revenue.source} — {formatCurrency(revenue.amount)}
+                    {revenue.client && ` — ${revenue.client}`}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleLink(revenue)}
+                    disabled={saving}
+                    className="flex items-center text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    <LinkIcon className="w-4 h-4 mr-1" />
+                    Vincular
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={saving}
+              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              <PlusIcon className="w-5 h-5 mr-2" />
+              {saving ? 'Salvando...' : 'Criar receita'}
+            </button>
+            {onDismiss && (
+              <button
+                type="button"
+                onClick={onDismiss}
+                disabled={saving}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                Agora não
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
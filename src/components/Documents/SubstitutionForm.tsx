@@ -0,0 +1,403 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Client, Lawyer, Process } from '../../types';
+import { ArrowLeftIcon, DocumentArrowDownIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { firestoreService } from '../../services/firestoreService';
+import { verificationService } from '../../services/verificationService';
+import { templateService } from '../../services/templateService';
+import { getLawyerOabs, getPrincipalOab, toOabCode } from '../../utils/oab';
+import { buildSubstitutionContext } from '../../utils/documentTemplates';
+import { documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+import ClientPicker from '../Clients/ClientPicker';
+import ProcessPicker from '../Processes/ProcessPicker';
+
+const schema = yup.object({
+  clientName: yup.string().required('Nome do cliente é obrigatório'),
+  grantorName: yup.string().required('Advogado substabelecente é obrigatório'),
+  granteeName: yup.string().required('Nome do advogado substabelecido é obrigatório'),
+  granteeOab: yup.string().required('OAB do advogado substabelecido é obrigatória'),
+  reservation: yup.string().oneOf(['com', 'sem']).required(),
+  notes: yup.string(),
+  location: yup.string().required('Local é obrigatório'),
+  date: yup.string().required('Data é obrigatória')
+});
+
+interface SubstitutionFormProps {
+  onBack: () => void;
+  onSave?: () => void;
+}
+
+type SubstitutionData = yup.InferType<typeof schema>;
+
+// Forma curta da inscrição principal (123456/UF), usada na assinatura
+const getLawyerOabCode = (lawyer: Lawyer) => {
+  const principal = getPrincipalOab(getLawyerOabs(lawyer));
+  return principal ? toOabCode(principal) : lawyer.oab;
+};
+
+export default function SubstitutionForm({ onBack, onSave }: SubstitutionFormProps) {
+  const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
+  const [process, setProcess] = React.useState<Process | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch
+  } = useForm({
+    resolver: yupResolver(schema),
+    defaultValues: {
+      reservation: 'com',
+      date: new Date().toISOString().split('T')[0]
+    }
+  });
+
+  const watchedReservation = watch('reservation');
+  const watchedGrantor = watch('grantorName');
+
+  React.useEffect(() => {
+    // Carregar advogados ativos
+    const loadLawyers = async () => {
+      try {
+        const loadedLawyers = await firestoreService.getLawyers();
+        setLawyers(loadedLawyers.filter(l => l.status === 'Ativo'));
+      } catch (error) {
+        console.error('Erro ao carregar advogados:', error);
+      }
+    };
+
+    loadLawyers();
+  }, []);
+
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('clientName', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+  };
+
+  // Processo escolhido: sugerir o cliente e o advogado responsável
+  const handleProcessChange = (selected: Process | null) => {
+    setProcess(selected);
+    if (!selected) return;
+
+    if (!watch('clientName') && selected.client) {
+      setValue('clientName', selected.client, { shouldValidate: true });
+      setClientId(selected.clientId || null);
+    }
+    const responsible = lawyers.find(l => selected.responsibleLawyers.includes(l.fullName));
+    if (!watchedGrantor && responsible) {
+      setValue('grantorName', responsible.fullName, { shouldValidate: true });
+    }
+  };
+
+  // Substabelecido da equipe: preencher nome e inscrição
+  const handleGranteeSelect = (lawyerId: string) => {
+    const lawyer = lawyers.find(l => l.id === lawyerId);
+    if (!lawyer) return;
+    setValue('granteeName', lawyer.fullName, { shouldValidate: true });
+    setValue('granteeOab', getLawyerOabCode(lawyer), { shouldValidate: true });
+  };
+
+  const onSubmit = async (data: SubstitutionData) => {
+    const grantor = lawyers.find(l => l.fullName === data.grantorName);
+    if (grantor && grantor.fullName === data.granteeName) {
+      alert('O advogado substabelecido deve ser diferente do substabelecente.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const documentData = {
+        grantorName: data.grantorName,
+        grantorOab: grantor ? getLawyerOabCode(grantor) : '',
+        granteeName: data.granteeName,
+        granteeOab: data.granteeOab,
+        withReservation: data.reservation === 'com',
+        notes: data.notes || '',
+        location: data.location,
+        date: data.date,
+        processCourt: process?.court || ''
+      };
+
+      const savedDocument = await firestoreService.saveDocument({
+        type: 'Substabelecimento',
+        client: data.clientName,
+        clientId,
+        processId: process?.id || null,
+        processNumber: process?.processNumber || '',
+        data: documentData
+      });
+
+      console.log('Substabelecimento salvo no sistema:', savedDocument);
+
+      if (onSave) {
+        await onSave();
+      }
+
+      const rendered = await templateService.render('substabelecimento', buildSubstitutionContext(
+        data.clientName,
+        documentData,
+        { number: process?.processNumber || '', court: process?.court || '' }
+      ));
+      const stamp = savedDocument ? await verificationService.registerDocument(savedDocument) : null;
+      downloadDocumentPDF(rendered, documentFileName('substabelecimento', data.clientName, 'pdf'), stamp);
+      if (savedDocument) {
+        await firestoreService.logDocumentExport(savedDocument, 'PDF', stamp?.code);
+      }
+    } catch (error) {
+      console.error('Erro ao salvar substabelecimento:', error);
+      alert('Erro ao salvar substabelecimento no sistema. Tente novamente.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          disabled={loading}
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Novo Substabelecimento</h1>
+          <p className="text-gray-600">Transfira os poderes recebidos do cliente a outro advogado</p>
+        </div>
+      </div>
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-4xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          {/* Process and Client */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Processo e Cliente</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Processo
+                </label>
+                <ProcessPicker
+                  value={process?.id || null}
+                  onChange={handleProcessChange}
+                  clientId={clientId}
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Cliente (Outorgante) *
+                </label>
+                <ClientPicker
+                  value={watch('clientName') || ''}
+                  clientId={clientId}
+                  onChange={handleClientChange}
+                  disabled={loading}
+                  placeholder="Nome do cliente"
+                />
+                {errors.clientName && (
+                  <p className="text-red-500 text-sm mt-1">{errors.clientName.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Lawyers */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Advogados</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Substabelecente *
+                </label>
+                <select
+                  {...register('grantorName')}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <option value="">Selecione o advogado que substabelece</option>
+                  {lawyers.map((lawyer) => (
+                    <option key={lawyer.id} value={lawyer.fullName}>
+                      {lawyer.fullName} - OAB: {lawyer.oab}
+                    </option>
+                  ))}
+                </select>
+                {errors.grantorName && (
+                  <p className="text-red-500 text-sm mt-1">{errors.grantorName.message}</p>
+                )}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Substabelecido da equipe
+                </label>
+                <select
+                  value=""
+                  onChange={(e) => handleGranteeSelect(e.target.value)}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <option value="">Escolha para preencher, ou digite abaixo um advogado externo</option>
+                  {lawyers
+                    .filter(lawyer => lawyer.fullName !== watchedGrantor)
+                    .map((lawyer) => (
+                      <option key={lawyer.id} value={lawyer.id}>
+                        {lawyer.fullName} - OAB: {lawyer.oab}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Nome do Substabelecido *
+                </label>
+                <input
+                  {...register('granteeName')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Nome completo do advogado"
+                />
+                {errors.granteeName && (
+                  <p className="text-red-500 text-sm mt-1">{errors.granteeName.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  OAB do Substabelecido *
+                </label>
+                <input
+                  {...register('granteeOab')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="123456/SP"
+                />
+                {errors.granteeOab && (
+                  <p className="text-red-500 text-sm mt-1">{errors.granteeOab.message}</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Details */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Detalhes do Substabelecimento</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Reserva de Poderes *
+                </label>
+                <div className="flex items-center space-x-6">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      {...register('reservation')}
+                      type="radio"
+                      value="com"
+                      disabled={loading}
+                      className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    Com reserva de poderes
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      {...register('reservation')}
+                      type="radio"
+                      value="sem"
+                      disabled={loading}
+                      className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    Sem reserva de poderes
+                  </label>
+                </div>
+                {watchedReservation === 'sem' && (
+                  <p className="flex items-start text-sm text-amber-700 bg-amber-50 rounded-lg p-3 mt-2">
+                    <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                    O substabelecimento sem reserva exige o prévio e inequívoco conhecimento do cliente
+                    (art. 26, § 1º, do Código de Ética e Disciplina da OAB).
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Local *
+                </label>
+                <input
+                  {...register('location')}
+                  type="text"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="São Paulo - SP"
+                />
+                {errors.location && (
+                  <p className="text-red-500 text-sm mt-1">{errors.location.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Data *
+                </label>
+                <input
+                  {...register('date')}
+                  type="date"
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                />
+                {errors.date && (
+                  <p className="text-red-500 text-sm mt-1">{errors.date.message}</p>
+                )}
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Observações
+                </label>
+                <textarea
+                  {...register('notes')}
+                  rows={3}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  placeholder="Ex: poderes limitados à audiência do dia 10/04"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center px-6 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              <DocumentArrowDownIcon className="w-5 h-5 mr-2" />
+              {loading ? 'Processando...' : 'Gerar Substabelecimento PDF'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
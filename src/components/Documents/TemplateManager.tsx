@@ -0,0 +1,242 @@
+import React from 'react';
+import { ArrowLeftIcon, ArrowPathIcon, CheckIcon } from '@heroicons/react/24/outline';
+import { DocumentTemplateKey } from '../../types';
+import { templateService, TemplateEntry } from '../../services/templateService';
+import { SAMPLE_CONTEXTS, TEMPLATE_KEYS, TEMPLATE_PLACEHOLDERS, renderDocumentTemplate } from '../../utils/documentTemplates';
+import { TEMPLATE_FILTERS, validateTemplate } from '../../utils/templateEngine';
+import TemplatePreview from './TemplatePreview';
+
+interface TemplateManagerProps {
+  onBack: () => void;
+}
+
+interface TemplateDraft {
+  title: string;
+  highlight: string;
+  body: string;
+}
+
+export default function TemplateManager({ onBack }: TemplateManagerProps) {
+  const [templates, setTemplates] = React.useState<Record<DocumentTemplateKey, TemplateEntry> | null>(null);
+  const [selectedKey, setSelectedKey] = React.useState<DocumentTemplateKey>('procuracao');
+  const [draft, setDraft] = React.useState<TemplateDraft>({ title: '', highlight: '', body: '' });
+  const [loading, setLoading] = React.useState(false);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      setTemplates(await templateService.getTemplates());
+    } catch (error) {
+      console.error('Erro ao carregar modelos:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  React.useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  React.useEffect(() => {
+    if (!templates) return;
+    const template = templates[selectedKey].template;
+    setDraft({ title: template.title, highlight: template.highlight || '', body: template.body });
+  }, [templates, selectedKey]);
+
+  const syntaxError = [draft.title, draft.highlight, draft.body]
+    .map(validateTemplate)
+    .find(message => message) || null;
+
+  // Pré-visualização com dados fictícios
+  const preview = React.useMemo(() => {
+    if (syntaxError) return null;
+    try {
+      return renderDocumentTemplate(draft, SAMPLE_CONTEXTS[selectedKey]);
+    } catch (error) {
+      console.error('Erro ao pré-visualizar modelo:', error);
+      return null;
+    }
+  }, [draft, selectedKey, syntaxError]);
+
+  const handleSave = async () => {
+    if (syntaxError) {
+      alert(`Corrija o modelo antes de salvar: ${syntaxError}`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const saved = await templateService.saveTemplate({
+        id: selectedKey,
+        documentType: TEMPLATE_KEYS[selectedKey],
+        title: draft.title,
+        highlight: draft.highlight,
+        body: draft.body
+      });
+      if (!saved) {
+        alert('Erro ao salvar modelo. Tente novamente.');
+        return;
+      }
+      await loadTemplates();
+      alert('Modelo salvo com sucesso!');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Descartar as alterações e restaurar o modelo padrão?')) return;
+
+    try {
+      setLoading(true);
+      const reset = await templateService.resetTemplate(selectedKey);
+      if (!reset) {
+        alert('Erro ao restaurar modelo padrão. Tente novamente.');
+        return;
+      }
+      await loadTemplates();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isCustom = templates?.[selectedKey].isCustom ?? false;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <button
+            onClick={onBack}
+            className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+            disabled={loading}
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Voltar
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Modelos de Documentos</h1>
+            <p className="text-gray-600">Personalize o texto de cada tipo de documento</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={selectedKey}
+            onChange={(e) => setSelectedKey(e.target.value as DocumentTemplateKey)}
+            disabled={loading}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {(Object.keys(TEMPLATE_KEYS) as DocumentTemplateKey[]).map(key => (
+              <option key={key} value={key}>{TEMPLATE_KEYS[key]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleReset}
+            disabled={loading || !isCustom}
+            className="flex items-center px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            <ArrowPathIcon className="w-5 h-5 mr-2" />
+            Restaurar padrão
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={loading || Boolean(syntaxError)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <CheckIcon className="w-5 h-5 mr-2" />
+            Salvar modelo
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Modelo</h3>
+            <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+              isCustom ? 'bg-amber-100 text-amber-800' : 'bg-gray-100 text-gray-700'
+            }`}>
+              {isCustom ? 'Personalizado' : 'Padrão'}
+            </span>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Título</label>
+            <input
+              type="text"
+              value={draft.title}
+              disabled={loading}
+              onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Destaque (opcional)</label>
+            <input
+              type="text"
+              value={draft.highlight}
+              disabled={loading}
+              onChange={(e) => setDraft(prev => ({ ...prev, highlight: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              placeholder="Ex: Valor: {{amount | moeda}}"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Texto</label>
+            <textarea
+              value={draft.body}
+              rows={18}
+              disabled={loading}
+              onChange={(e) => setDraft(prev => ({ ...prev, body: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            />
+            {syntaxError && (
+              <p className="text-red-500 text-sm mt-1">{syntaxError}</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Linha em branco separa parágrafos. Use **texto** para negrito e [centro] ou [direita] no início do parágrafo para alinhar.
+            </p>
+          </div>
+
+          {/* Referência de campos */}
+          <div className="border-t pt-4">
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">Campos disponíveis</h4>
+            <div className="space-y-1">
+              {TEMPLATE_PLACEHOLDERS[selectedKey].map(({ placeholder, description }) => (
+                <div key={placeholder} className="flex items-start text-sm">
+                  <code className="px-1 bg-gray-100 text-blue-700 rounded mr-2 whitespace-nowrap">{placeholder}</code>
+                  <span className="text-gray-600">{description}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-gray-600 mt-3">
+              Filtros: {TEMPLATE_FILTERS.map(filter => (
+                <code key={filter} className="px-1 bg-gray-100 text-gray-800 rounded mr-1">{filter}</code>
+              ))}
+            </p>
+            <p className="text-xs text-gray-500 mt-2">
+              {'Blocos: {{#if campo}}...{{else}}...{{/if}}, {{#unless campo}}...{{/unless}} e {{#each lista}}...{{/each}}.'}
+            </p>
+          </div>
+        </div>
+
+        {/* Pré-visualização */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Pré-visualização</h3>
+          <div className="border border-gray-200 rounded-lg p-8 bg-gray-50 min-h-96">
+            {preview ? (
+              <TemplatePreview rendered={preview} />
+            ) : (
+              <p className="text-gray-500 text-center">Corrija o modelo para ver a pré-visualização</p>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Pré-visualização com dados fictícios.</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RenderedDocument, parseDocumentBody } from '../../utils/documentRender';
+
+const ALIGN_CLASSES = {
+  left: 'text-justify',
+  center: 'text-center',
+  right: 'text-right'
+};
+
+interface TemplatePreviewProps {
+  rendered: RenderedDocument;
+}
+
+export default function TemplatePreview({ rendered }: TemplatePreviewProps) {
+  return (
+    <div className="prose max-w-none">
+      <h2 className="text-center text-xl font-bold mb-6">{rendered.title}</h2>
+      {rendered.highlight && (
+        <div className="bg-green-50 border-2 border-green-200 rounded-lg p-4 text-center mb-6">
+          <p className="text-lg font-bold text-green-700">{rendered.highlight}</p>
+        </div>
+      )}
+      {parseDocumentBody(rendered.body).map((block, blockIndex) => (
+        <p key={blockIndex} className={`${ALIGN_CLASSES[block.align]} leading-relaxed mb-4`}>
+          {block.lines.map((line, lineIndex) => (
+            <React.Fragment key={lineIndex}>
+              {lineIndex > 0 && <br />}
+              {line.map((run, runIndex) => (
+                run.bold ? <strong key={runIndex}>{run.text}</strong> : <span key={runIndex}>{run.text}</span>
+              ))}
+            </React.Fragment>
+          ))}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import React from 'react';
+import { ArrowLeftIcon, ArrowUpTrayIcon, CheckIcon, LinkIcon, NoSymbolIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BankTransaction, Expense, FinancialCategory, Revenue } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import {
+  MatchSuggestion,
+  buildExpenseFromTransaction,
+  buildRevenueFromTransaction,
+  parseBankStatement,
+  suggestMatches
+} from '../../utils/bankStatement';
+import {
+  DEFAULT_EXPENSE_CATEGORY_ID,
+  DEFAULT_REVENUE_CATEGORY_ID,
+  findCategory,
+  getCategoryOptions
+} from '../../utils/financialCategories';
+
+interface BankStatementImportProps {
+  revenues: Revenue[];
+  expenses: Expense[];
+  categories: FinancialCategory[];
+  onBack: () => void;
+  onChange: () => Promise<void>;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+const describeRecord = (suggestion: MatchSuggestion) => suggestion.kind === 'revenue'
+  ? [(suggestion.record as Revenue).source, (suggestion.record as Revenue).client].filter(Boolean).join(' - ')
+  : (suggestion.record as Expense).type;
+
+/**
+ * Importação de extrato bancário: cada transação é conciliada com um
+ * lançamento existente, vira uma nova receita/despesa ou é ignorada
+ */
+export default function BankStatementImport({ revenues, expenses, categories, onBack, onChange }: BankStatementImportProps) {
+  const [fileName, setFileName] = React.useState('');
+  const [transactions, setTransactions] = React.useState<BankTransaction[]>([]);
+  const [ignoredIds, setIgnoredIds] = React.useState<string[]>([]);
+  const [newCategories, setNewCategories] = React.useState<Record<string, string>>({});
+  const [showDone, setShowDone] = React.useState(false);
+  const [saving, setSaving] = React.useState<string | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Transação já conciliada: o lançamento que guarda o id dela
+  const reconciled = new Map<string, Revenue | Expense>(
+    [...revenues, ...expenses]
+      .filter(record => record.bankTransactionId)
+      .map(record => [record.bankTransactionId as string, record])
+  );
+  const isDone = (transaction: BankTransaction) =>
+    reconciled.has(transaction.id) || ignoredIds.includes(transaction.id);
+
+  const pendingCount = transactions.filter(transaction => !isDone(transaction)).length;
+  const reconciledCount = transactions.filter(transaction => reconciled.has(transaction.id)).length;
+  const ignoredCount = transactions.filter(transaction => ignoredIds.includes(transaction.id)).length;
+  const visible = showDone ? transactions : transactions.filter(transaction => !isDone(transaction));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const parsed = parseBankStatement(file.name, await file.text());
+      if (parsed.length === 0) {
+        alert('Nenhuma transação encontrada. Verifique se o arquivo é um extrato OFX ou CSV.');
+        return;
+      }
+
+      setIgnoredIds(await firestoreService.getIgnoredBankTransactionIds());
+      setTransactions(parsed);
+      setFileName(file.name);
+      setNewCategories({});
+    } catch (error) {
+      console.error('Erro ao importar extrato bancário:', error);
+      alert('Erro ao ler o arquivo. Verifique se é um extrato OFX ou CSV válido.');
+    }
+  };
+
+  const getNewCategoryId = (transaction: BankTransaction) => {
+    if (newCategories[transaction.id]) return newCategories[transaction.id];
+    const kind = transaction.direction === 'credito' ? 'receita' : 'despesa';
+    const defaultId = kind === 'receita' ? DEFAULT_REVENUE_CATEGORY_ID : DEFAULT_EXPENSE_CATEGORY_ID;
+    const options = getCategoryOptions(categories, kind);
+    return options.some(option => option.id === defaultId) ? defaultId : options[0]?.id || defaultId;
+  };
+
+  const runAction = async (transaction: BankTransaction, action: () => Promise<boolean>, errorMessage: string) => {
+    try {
+      setSaving(transaction.id);
+      if (!(await action())) {
+        alert(errorMessage);
+        return;
+      }
+      await onChange();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleConfirm = (transaction: BankTransaction, suggestion: MatchSuggestion) => runAction(
+    transaction,
+    () => firestoreService.reconcileRecord(suggestion.kind, suggestion.record.id, transaction.id),
+    'Erro ao conciliar lançamento. Tente novamente.'
+  );
+
+  const handleCreate = (transaction: BankTransaction) => {
+    const categoryId = getNewCategoryId(transaction);
+    const category = { id: categoryId, name: findCategory(categories, categoryId)?.name || '' };
+
+    return runAction(
+      transaction,
+      async () => transaction.direction === 'credito'
+        ? !!(await firestoreService.saveRevenue(buildRevenueFromTransaction(transaction, category)))
+        : !!(await firestoreService.saveExpense(buildExpenseFromTransaction(transaction, category))),
+      `Erro ao criar ${transaction.direction === 'credito' ? 'receita' : 'despesa'}. Tente novamente.`
+    );
+  };
+
+  const handleIgnore = (transaction: BankTransaction) => runAction(
+    transaction,
+    async () => {
+      const ignored = await firestoreService.ignoreBankTransaction(transaction);
+      if (ignored) setIgnoredIds(prev => [...prev, transaction.id]);
+      return ignored;
+    },
+    'Erro ao ignorar transação. Tente novamente.'
+  );
+
+  const renderStatus = (transaction: BankTransaction) => {
+    const record = reconciled.get(transaction.id);
+    if (record) {
+      const name = 'source' in record ? record.source : record.type;
+      return (
+        <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+          <CheckIcon className="w-3 h-3 mr-1" />
+          Conciliada: {name}
+        </span>
+      );
+    }
+    if (ignoredIds.includes(transaction.id)) {
+      return (
+        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-gray-100 text-gray-600">
+          Ignorada
+        </span>
+      );
+    }
+
+    const suggestions = suggestMatches(transaction, revenues, expenses);
+    const kind = transaction.direction === 'credito' ? 'receita' : 'despesa';
+    const disabled = saving !== null;
+
+    return (
+      <div className="space-y-2">
+        {suggestions.map(suggestion => (
+          <div key={suggestion.record.id} className="flex items-center justify-between bg-blue-50 rounded px-2 py-1">
+            <span className="text-xs text-blue-900">
+              {describeRecord(suggestion)} · {formatDate(suggestion.record.date)}
+              {suggestion.days > 0 && ` (${suggestion.days} dia${suggestion.days > 1 ? 's' : ''} de diferença)`}
+            </span>
+            <button
+              onClick={() => handleConfirm(transaction, suggestion)}
+              disabled={disabled}
+              className="flex items-center ml-3 text-xs font-medium text-blue-700 hover:text-blue-900 disabled:opacity-50"
+            >
+              <LinkIcon className="w-4 h-4 mr-1" />
+              Confirmar
+            </button>
+          </div>
+        ))}
+        <div className="flex items-center space-x-2">
+          <select
+            value={getNewCategoryId(transaction)}
+            onChange={(e) => setNewCategories(prev => ({ ...prev, [transaction.id]: e.target.value }))}
+            disabled={disabled}
+            className="px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {getCategoryOptions(categories, kind).map(option => (
+              <option key={option.id} value={option.id}>
+                {option.depth > 0 ? `\u00a0\u00a0\u00a0${option.label}` : option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleCreate(transaction)}
+            disabled={disabled}
+            className="flex items-center text-xs font-medium text-green-700 hover:text-green-900 disabled:opacity-50"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" />
+            {transaction.direction === 'credito' ? 'Criar receita' : 'Criar despesa'}
+          </button>
+          <button
+            onClick={() => handleIgnore(transaction)}
+            disabled={disabled}
+            className="flex items-center text-xs font-medium text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          >
+            <NoSymbolIcon className="w-4 h-4 mr-1" />
+            Ignorar
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <button
+            onClick={onBack}
+            className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+          >
+            <ArrowLeftIcon className="w-5 h-5 mr-2" />
+            Voltar
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Importar Extrato Bancário</h1>
+            <p className="text-gray-600">Concilie as transações do extrato (OFX ou CSV) com receitas e despesas</p>
+          </div>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <ArrowUpTrayIcon className="w-5 h-5 mr-2" />
+          Selecionar arquivo
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ofx,.csv,.txt"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {transactions.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center">
+          <ArrowUpTrayIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 mb-2">Selecione o extrato exportado pelo internet banking.</p>
+          <p className="text-sm text-gray-500">
+            Arquivos OFX e CSV com colunas de data, histórico e valor (ou crédito e débito).
+            Transações já conciliadas ou ignoradas não são lançadas novamente.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-gray-600">
+              <span className="font-medium text-gray-900">{fileName}</span>: {transactions.length} transações,{' '}
+              {pendingCount} pendentes, {reconciledCount} conciliadas, {ignoredCount} ignoradas
+            </p>
+            <label className="flex items-center text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showDone}
+                onChange={(e) => setShowDone(e.target.checked)}
+                className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              Mostrar conciliadas e ignoradas
+            </label>
+          </div>
+
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Histórico</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Conciliação</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {visible.map(transaction => (
+                    <tr key={transaction.id} className={saving === transaction.id ? 'opacity-50' : 'hover:bg-gray-50'}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 align-top">
+                        {formatDate(transaction.date)}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900 align-top">{transaction.description}</td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium align-top ${
+                        transaction.direction === 'credito' ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {transaction.direction === 'credito' ? '' : '- '}{formatCurrency(transaction.amount)}
+                      </td>
+                      <td className="px-6 py-4 align-top">{renderStatus(transaction)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {visible.length === 0 && (
+              <div className="text-center py-12">
+                <p className="text-gray-500">Todas as transações do extrato foram conciliadas ou ignoradas</p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
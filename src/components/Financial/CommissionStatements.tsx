@@ -0,0 +1,262 @@
+import React from 'react';
+import { CheckCircleIcon, ChevronDownIcon, ChevronRightIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CommissionStatement, Lawyer, Revenue } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { CommissionDraft, buildCommissionStatement, renderCommissionStatement } from '../../utils/commissions';
+import { documentFileName, downloadDocumentPDF } from '../../utils/documentRender';
+
+interface CommissionStatementsProps {
+  revenues: Revenue[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+/**
+ * Extratos de comissão por advogado no período, com exportação em PDF e
+ * registro do pagamento
+ */
+export default function CommissionStatements({ revenues }: CommissionStatementsProps) {
+  const today = new Date();
+  const [periodStart, setPeriodStart] = React.useState(format(startOfMonth(today), 'yyyy-MM-dd'));
+  const [periodEnd, setPeriodEnd] = React.useState(format(endOfMonth(today), 'yyyy-MM-dd'));
+  const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
+  const [paidStatements, setPaidStatements] = React.useState<CommissionStatement[]>([]);
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(true);
+  const [saving, setSaving] = React.useState(false);
+
+  React.useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [loadedLawyers, loadedStatements] = await Promise.all([
+          firestoreService.getLawyers(),
+          firestoreService.getCommissionStatements()
+        ]);
+        setLawyers(loadedLawyers);
+        setPaidStatements(loadedStatements);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  // Advogados inativos aparecem apenas se ainda tiverem comissão a receber
+  const statements = periodStart && periodEnd && periodStart <= periodEnd
+    ? lawyers
+        .map(lawyer => buildCommissionStatement(lawyer, revenues, lawyers, { start: periodStart, end: periodEnd }, paidStatements))
+        .filter(statement => statement.lines.length > 0 || lawyers.some(l => l.id === statement.lawyerId && l.status === 'Ativo'))
+        .sort((a, b) => a.lawyerName.localeCompare(b.lawyerName))
+    : [];
+  const totalDue = statements.reduce((sum, statement) => sum + statement.total, 0);
+
+  const exportPDF = (statement: CommissionDraft | CommissionStatement) => {
+    downloadDocumentPDF(
+      renderCommissionStatement(statement),
+      documentFileName(`comissao_${statement.periodStart}_${statement.periodEnd}`, statement.lawyerName, 'pdf')
+    );
+  };
+
+  const handleRegisterPayment = async (statement: CommissionDraft) => {
+    if (!confirm(
+      `Registrar o pagamento de ${formatCurrency(statement.total)} a ${statement.lawyerName}?\n\n` +
+      `As ${statement.lines.length} receitas deste extrato não entrarão em extratos futuros.`
+    )) return;
+
+    try {
+      setSaving(true);
+      const saved = await firestoreService.saveCommissionStatement(statement);
+      if (!saved) {
+        alert('Erro ao registrar pagamento. Verifique se a comissão já não foi paga e tente novamente.');
+        return;
+      }
+      setPaidStatements(prev => [saved, ...prev]);
+      setExpanded(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <p className="text-gray-500 mt-2">Carregando comissões...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Period */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Início do período</label>
+            <input
+              type="date"
+              value={periodStart}
+              onChange={(e) => setPeriodStart(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Fim do período</label>
+            <input
+              type="date"
+              value={periodEnd}
+              onChange={(e) => setPeriodEnd(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="ml-auto text-right">
+            <p className="text-sm text-gray-500">Comissões a pagar no período</p>
+            <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalDue)}</p>
+          </div>
+        </div>
+        {periodStart > periodEnd && (
+          <p className="text-red-500 text-sm mt-2">O início do período deve ser anterior ao fim.</p>
+        )}
+      </div>
+
+      {/* Statements */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Advogado</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comissão</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Receitas</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">A pagar</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {statements.map(statement => (
+              <React.Fragment key={statement.lawyerId}>
+                <tr className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <button
+                      onClick={() => setExpanded(expanded === statement.lawyerId ? null : statement.lawyerId)}
+                      className="flex items-center text-sm font-medium text-gray-900"
+                    >
+                      {expanded === statement.lawyerId
+                        ? <ChevronDownIcon className="w-4 h-4 mr-2 text-gray-400" />
+                        : <ChevronRightIcon className="w-4 h-4 mr-2 text-gray-400" />}
+                      {statement.lawyerName}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{statement.rate}%</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{statement.lines.length}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCurrency(statement.total)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <div className="flex items-center justify-end space-x-3">
+                      <button
+                        onClick={() => exportPDF(statement)}
+                        className="flex items-center text-blue-600 hover:text-blue-900"
+                        title="Exportar PDF"
+                      >
+                        <DocumentArrowDownIcon className="w-4 h-4 mr-1" />
+                        PDF
+                      </button>
+                      <button
+                        onClick={() => handleRegisterPayment(statement)}
+                        disabled={saving || statement.lines.length === 0}
+                        className="flex items-center text-green-600 hover:text-green-900 disabled:opacity-50"
+                        title="Registrar pagamento"
+                      >
+                        <CheckCircleIcon className="w-4 h-4 mr-1" />
+                        Pagar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {expanded === statement.lawyerId && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                      {statement.lines.length === 0 ? (
+                        <p className="text-sm text-gray-500">Nenhuma receita com comissão a pagar no período.</p>
+                      ) : (
+                        <table className="min-w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-xs text-gray-500 uppercase">
+                              <th className="py-1">Data</th>
+                              <th className="py-1">Receita</th>
+                              <th className="py-1">Valor</th>
+                              <th className="py-1">Participação</th>
+                              <th className="py-1">Base</th>
+                              <th className="py-1 text-right">Comissão</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {statement.lines.map(line => (
+                              <tr key={line.revenueId} className="text-gray-700">
+                                <td className="py-1">{formatDate(line.date)}</td>
+                                <td className="py-1">
+                                  {line.source}
+                                  {line.client && <span className="text-gray-500"> — {line.client}</span>}
+                                </td>
+                                <td className="py-1">{formatCurrency(line.revenueAmount)}</td>
+                                <td className="py-1">{line.share}%</td>
+                                <td className="py-1">{formatCurrency(line.base)}</td>
+                                <td className="py-1 text-right font-medium">{formatCurrency(line.commission)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+        {statements.length === 0 && (
+          <div className="text-center py-12">
+            <p className="text-gray-500">Nenhum advogado com comissão no período</p>
+          </div>
+        )}
+      </div>
+
+      {/* Paid statements */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Pagamentos Registrados</h3>
+        {paidStatements.length === 0 ? (
+          <p className="text-gray-500 text-sm">Nenhum pagamento de comissão registrado</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {paidStatements.map(statement => (
+              <div key={statement.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {statement.lawyerName} — {formatCurrency(statement.total)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(statement.periodStart)} a {formatDate(statement.periodEnd)} · {statement.lines.length} receitas ·
+                    pago em {format(new Date(statement.paidAt), 'dd/MM/yyyy', { locale: ptBR })}
+                    {statement.paidBy && ` por ${statement.paidBy.name}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => exportPDF(statement)}
+                  className="flex items-center text-sm text-blue-600 hover:text-blue-900"
+                >
+                  <DocumentArrowDownIcon className="w-4 h-4 mr-1" />
+                  PDF
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Expense, Lawyer, Employee, FinancialCategory } from '../../types';
+import ResponsibleMembersField from './ResponsibleMembersField';
+import { DEFAULT_EXPENSE_CATEGORY_ID, findCategory, getCategoryOptions } from '../../utils/financialCategories';
+
+const expenseSchema = yup.object({
+  date: yup.string().required('Data é obrigatória'),
+  amount: yup.number().positive('Valor deve ser positivo').required('Valor é obrigatório'),
+  type: yup.string().required('Tipo é obrigatório'),
+  categoryId: yup.string().required('Categoria é obrigatória'),
+  description: yup.string().defined(),
+  receipt: yup.string().defined()
+});
+
+interface ExpenseFormData {
+  date: string;
+  amount: number;
+  type: string;
+  categoryId: string;
+  description: string;
+  receipt: string;
+}
+
+interface ExpenseFormProps {
+  item?: Expense | null;
+  lawyers: Lawyer[];
+  employees: Employee[];
+  categories: FinancialCategory[];
+  onBack: () => void;
+  onSave: (data: Expense) => void;
+}
+
+export default function ExpenseForm({ item, lawyers, employees, categories, onBack, onSave }: ExpenseFormProps) {
+  const [selectedMembers, setSelectedMembers] = React.useState<string[]>(
+    // Manter compatibilidade com dados antigos
+    item?.responsibleMembers || item?.responsibleLawyers || []
+  );
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue
+  } = useForm<ExpenseFormData>({
+    resolver: yupResolver(expenseSchema),
+    defaultValues: {
+      date: item?.date,
+      amount: item?.amount,
+      type: item?.type || '',
+      categoryId: item?.categoryId || DEFAULT_EXPENSE_CATEGORY_ID,
+      description: item?.description || '',
+      receipt: item?.receipt || ''
+    }
+  });
+
+  // Categoria padrão desativada: sugerir a primeira ativa
+  useEffect(() => {
+    if (item) return;
+    const activeOptions = getCategoryOptions(categories, 'despesa').filter(option => option.active);
+    if (activeOptions.length > 0 && !activeOptions.some(option => option.id === DEFAULT_EXPENSE_CATEGORY_ID)) {
+      setValue('categoryId', activeOptions[0].id);
+    }
+  }, [categories, item, setValue]);
+
+  const onSubmit = (data: ExpenseFormData) => {
+    const category = findCategory(categories, data.categoryId);
+    onSave({
+      ...item,
+      id: item?.id || Date.now().toString(),
+      ...data,
+      responsibleMembers: selectedMembers,
+      category: category?.name || item?.category || ''
+    });
+  };
+
+  const categoryOptions = getCategoryOptions(categories, 'despesa', { currentId: item?.categoryId });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl">
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Data *
+            </label>
+            <input
+              {...register('date')}
+              type="date"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.date && (
+              <p className="text-red-500 text-sm mt-1">{errors.date.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Valor *
+            </label>
+            <input
+              {...register('amount', { valueAsNumber: true })}
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0.00"
+            />
+            {errors.amount && (
+              <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tipo *
+            </label>
+            <input
+              {...register('type')}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Ex: Aluguel do escritório"
+            />
+            {errors.type && (
+              <p className="text-red-500 text-sm mt-1">{errors.type.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Categoria *
+            </label>
+            <select
+              {...register('categoryId')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {categoryOptions.map(option => (
+                <option key={option.id} value={option.id} disabled={!option.active && option.id !== item?.categoryId}>
+                  {option.depth > 0 ? `\u00a0\u00a0\u00a0${option.label}` : option.label}
+                </option>
+              ))}
+            </select>
+            {errors.categoryId && (
+              <p className="text-red-500 text-sm mt-1">{errors.categoryId.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Comprovante
+            </label>
+            <input
+              {...register('receipt')}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Nome do arquivo ou referência"
+            />
+          </div>
+
+          <ResponsibleMembersField
+            label="Responsável pela despesa"
+            lawyers={lawyers}
+            employees={employees}
+            selectedMembers={selectedMembers}
+            onChange={setSelectedMembers}
+          />
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Descrição
+            </label>
+            <textarea
+              {...register('description')}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Descrição adicional (opcional)"
+            />
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+          <button
+            type="button"
+            onClick={onBack}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            className="px-6 py-2 text-white rounded-lg transition-colors bg-red-600 hover:bg-red-700"
+          >
+            {item ? 'Atualizar' : 'Salvar'} Despesa
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { Revenue, Expense, Lawyer, Employee } from '../../types';
+import { Revenue, Expense, Lawyer, Employee, Receivable, Payable, RecurringExpense, FinancialCategory, FinancialCategoryKind } from '../../types';
 import { firestoreService } from '../../services/firestoreService';
 import FinancialForm from './FinancialForm';
+import CommissionStatements from './CommissionStatements';
+import Receivables from './Receivables';
+import ReceivableForm from './ReceivableForm';
+import Payables from './Payables';
+import RecurringExpenseForm from './RecurringExpenseForm';
+import BankStatementImport from './BankStatementImport';
+import {
+  getCategoryColor,
+  getCategoryFilterIds,
+  getCategoryLabel,
+  getCategoryOptions,
+  resolveCategoryId,
+  summarizeByCategory
+} from '../../utils/financialCategories';
 import { 
   MagnifyingGlassIcon, 
   FunnelIcon,
@@ -10,7 +24,12 @@ import {
   TrashIcon,
   PlusIcon,
   ArrowTrendingUpIcon,
-  ArrowTrendingDownIcon
+  ArrowTrendingDownIcon,
+  DocumentTextIcon,
+  ExclamationTriangleIcon,
+  BanknotesIcon,
+  ArrowUpTrayIcon,
+  CheckBadgeIcon
 } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
@@ -23,10 +42,18 @@ interface FinancialProps {
 export default function Financial({ quickActionType, onClearQuickAction }: FinancialProps) {
   const [revenues, setRevenues] = useState<Revenue[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [activeTab, setActiveTab] = useState<'revenues' | 'expenses'>('revenues');
+  const [receivables, setReceivables] = useState<Receivable[]>([]);
+  const [payables, setPayables] = useState<Payable[]>([]);
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [categories, setCategories] = useState<FinancialCategory[]>([]);
+  const [activeTab, setActiveTab] = useState<'revenues' | 'expenses' | 'receivables' | 'payables' | 'commissions'>('revenues');
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
   const [showForm, setShowForm] = useState(false);
+  const [showReceivableForm, setShowReceivableForm] = useState(false);
+  const [showRecurringForm, setShowRecurringForm] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
   const [formType, setFormType] = useState<'revenue' | 'expense'>('revenue');
   const [selectedItem, setSelectedItem] = useState<Revenue | Expense | null>(null);
   const [loading, setLoading] = useState(true);
@@ -52,17 +79,30 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
   const loadFinancialData = async () => {
     try {
       setLoading(true);
-      const [loadedRevenues, loadedExpenses] = await Promise.all([
+      // Contas a pagar antes das despesas recorrentes: a listagem gera as novas contas
+      const loadedPayables = await firestoreService.getPayables();
+      const [loadedRevenues, loadedExpenses, loadedReceivables, loadedRecurring, loadedCategories] = await Promise.all([
         firestoreService.getRevenues(),
-        firestoreService.getExpenses()
+        firestoreService.getExpenses(),
+        firestoreService.getReceivables(),
+        firestoreService.getRecurringExpenses(),
+        firestoreService.getFinancialCategories()
       ]);
       setRevenues(loadedRevenues);
       setExpenses(loadedExpenses);
+      setReceivables(loadedReceivables);
+      setPayables(loadedPayables);
+      setRecurringExpenses(loadedRecurring);
+      setCategories(loadedCategories);
       console.log(`${loadedRevenues.length} receitas e ${loadedExpenses.length} despesas carregadas`);
     } catch (error) {
       console.error('Erro ao carregar dados financeiros:', error);
       setRevenues([]);
       setExpenses([]);
+      setReceivables([]);
+      setPayables([]);
+      setRecurringExpenses([]);
+      setCategories([]);
     } finally {
       setLoading(false);
     }
@@ -120,7 +160,11 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
   };
 
   const handleDeleteItem = async (id: string, type: 'revenue' | 'expense') => {
-    if (confirm(`Tem certeza que deseja excluir esta ${type === 'revenue' ? 'receita' : 'despesa'}?`)) {
+    // O recibo vinculado não é alterado, apenas recebe um aviso
+    const receipt = type === 'revenue' ? revenues.find(revenue => revenue.id === id && revenue.receiptId) : undefined;
+    const receiptNote = receipt ? `\n\nEla está vinculada ao recibo ${receipt.receiptNumber || ''}, que será sinalizado.` : '';
+
+    if (confirm(`Tem certeza que deseja excluir esta ${type === 'revenue' ? 'receita' : 'despesa'}?${receiptNote}`)) {
       try {
         let success = false;
         if (type === 'revenue') {
@@ -144,12 +188,15 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
     setSelectedItem(null);
   };
 
+  // Filtrar por uma categoria inclui suas subcategorias
+  const categoryFilterIds = categoryFilter === 'all' ? null : getCategoryFilterIds(categories, categoryFilter);
+
   const filteredRevenues = revenues.filter(revenue => {
     const matchesSearch = revenue.source.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (revenue.client && revenue.client.toLowerCase().includes(searchTerm.toLowerCase())) ||
                          (revenue.description && revenue.description.toLowerCase().includes(searchTerm.toLowerCase()));
     
-    const matchesCategory = categoryFilter === 'all' || revenue.category === categoryFilter;
+    const matchesCategory = !categoryFilterIds || categoryFilterIds.has(resolveCategoryId('receita', revenue));
     
     return matchesSearch && matchesCategory;
   });
@@ -158,11 +205,30 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
     const matchesSearch = expense.type.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (expense.description && expense.description.toLowerCase().includes(searchTerm.toLowerCase()));
     
-    const matchesCategory = categoryFilter === 'all' || expense.category === categoryFilter;
+    const matchesCategory = !categoryFilterIds || categoryFilterIds.has(resolveCategoryId('despesa', expense));
     
     return matchesSearch && matchesCategory;
   });
 
+  // Distribuição por categoria principal dos lançamentos filtrados
+  const categoryTotals = activeTab === 'revenues'
+    ? summarizeByCategory(filteredRevenues, categories, 'receita')
+    : summarizeByCategory(filteredExpenses, categories, 'despesa');
+  const categoryTotalsSum = categoryTotals.reduce((sum, total) => sum + total.total, 0);
+
+  const renderCategory = (kind: FinancialCategoryKind, item: Revenue | Expense) => {
+    const categoryId = resolveCategoryId(kind, item);
+    const color = getCategoryColor(categories, categoryId);
+    return (
+      <span
+        className="inline-flex px-2 py-1 text-xs font-semibold rounded-full"
+        style={{ backgroundColor: `${color}20`, color }}
+      >
+        {getCategoryLabel(categories, categoryId, item.category)}
+      </span>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
   };
@@ -178,6 +244,44 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
   const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0);
   const balance = totalRevenues - totalExpenses;
 
+  if (showStatementImport) {
+    return (
+      <BankStatementImport
+        revenues={revenues}
+        expenses={expenses}
+        categories={categories}
+        onBack={() => setShowStatementImport(false)}
+        onChange={loadFinancialData}
+      />
+    );
+  }
+
+  if (showRecurringForm) {
+    return (
+      <RecurringExpenseForm
+        onBack={() => setShowRecurringForm(false)}
+        onSave={async () => {
+          await loadFinancialData();
+          setShowRecurringForm(false);
+          setActiveTab('payables');
+        }}
+      />
+    );
+  }
+
+  if (showReceivableForm) {
+    return (
+      <ReceivableForm
+        onBack={() => setShowReceivableForm(false)}
+        onSave={async () => {
+          await loadFinancialData();
+          setShowReceivableForm(false);
+          setActiveTab('receivables');
+        }}
+      />
+    );
+  }
+
   if (showForm) {
     return (
       <FinancialForm
@@ -198,6 +302,21 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
           <p className="text-gray-600">Controle de receitas e despesas do escritório</p>
         </div>
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowStatementImport(true)}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Conciliar receitas e despesas com o extrato bancário (OFX ou CSV)"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5 mr-2" />
+            Importar Extrato
+          </button>
+          <button
+            onClick={() => setShowReceivableForm(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <BanknotesIcon className="w-5 h-5 mr-2" />
+            Nova Conta a Receber
+          </button>
           <button
             onClick={() => handleNewItem('revenue')}
             className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
@@ -260,7 +379,7 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
       <div className="flex items-center justify-between mb-6">
         <div className="flex space-x-1 bg-gray-100 rounded-lg p-1">
           <button
-            onClick={() => setActiveTab('revenues')}
+            onClick={() => { setActiveTab('revenues'); setCategoryFilter('all'); }}
             className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
               activeTab === 'revenues'
                 ? 'bg-white text-gray-900 shadow-sm'
@@ -270,7 +389,7 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
             Receitas ({revenues.length})
           </button>
           <button
-            onClick={() => setActiveTab('expenses')}
+            onClick={() => { setActiveTab('expenses'); setCategoryFilter('all'); }}
             className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
               activeTab === 'expenses'
                 ? 'bg-white text-gray-900 shadow-sm'
@@ -279,45 +398,93 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
           >
             Despesas ({expenses.length})
           </button>
+          <button
+            onClick={() => { setActiveTab('receivables'); setStatusFilter('all'); }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'receivables'
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            A Receber ({receivables.filter(receivable => receivable.status === 'aberto').length})
+          </button>
+          <button
+            onClick={() => { setActiveTab('payables'); setStatusFilter('all'); }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'payables'
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            A Pagar ({payables.filter(payable => payable.status === 'pendente').length})
+          </button>
+          <button
+            onClick={() => setActiveTab('commissions')}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'commissions'
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            Comissões
+          </button>
         </div>
 
         {/* Filters */}
-        <div className="flex items-center space-x-4">
-          <div className="relative">
-            <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-            <input
-              type="text"
-              placeholder="Buscar..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-          <div className="flex items-center space-x-2">
-            <FunnelIcon className="w-5 h-5 text-gray-400" />
-            <select
-              value={categoryFilter}
-              onChange={(e) => setCategoryFilter(e.target.value)}
-              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              <option value="all">Todas as Categorias</option>
-              {activeTab === 'revenues' ? (
-                <>
-                  <option value="Honorário">Honorário</option>
-                  <option value="Consultoria">Consultoria</option>
-                  <option value="Outro">Outro</option>
-                </>
+        {activeTab !== 'commissions' && (
+          <div className="flex items-center space-x-4">
+            <div className="relative">
+              <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                placeholder="Buscar..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <FunnelIcon className="w-5 h-5 text-gray-400" />
+              {activeTab === 'receivables' ? (
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Todos os Status</option>
+                  <option value="aberto">Aberto</option>
+                  <option value="atrasado">Atrasado</option>
+                  <option value="pago">Pago</option>
+                  <option value="cancelado">Cancelado</option>
+                </select>
+              ) : activeTab === 'payables' ? (
+                <select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Todos os Status</option>
+                  <option value="pendente">Pendente</option>
+                  <option value="vencido">Vencido</option>
+                  <option value="pago">Pago</option>
+                </select>
               ) : (
-                <>
-                  <option value="Aluguel">Aluguel</option>
-                  <option value="Internet">Internet</option>
-                  <option value="Material">Material</option>
-                  <option value="Outro">Outro</option>
-                </>
+                <select
+                  value={categoryFilter}
+                  onChange={(e) => setCategoryFilter(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">Todas as Categorias</option>
+                  {getCategoryOptions(categories, activeTab === 'revenues' ? 'receita' : 'despesa', { includeInactive: true }).map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.depth > 0 ? `\u00a0\u00a0\u00a0${option.label}` : option.label}
+                    </option>
+                  ))}
+                </select>
               )}
-            </select>
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Content */}
@@ -326,8 +493,49 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
           <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
           <p className="text-gray-500 mt-2">Carregando dados financeiros...</p>
         </div>
+      ) : activeTab === 'commissions' ? (
+        <CommissionStatements revenues={revenues} />
+      ) : activeTab === 'receivables' ? (
+        <Receivables
+          receivables={receivables}
+          searchTerm={searchTerm}
+          statusFilter={statusFilter}
+          onChange={loadFinancialData}
+        />
+      ) : activeTab === 'payables' ? (
+        <Payables
+          payables={payables}
+          recurringExpenses={recurringExpenses}
+          searchTerm={searchTerm}
+          statusFilter={statusFilter}
+          onChange={loadFinancialData}
+          categories={categories}
+          onNewRecurring={() => setShowRecurringForm(true)}
+        />
       ) : (
         <div className="bg-white rounded-lg shadow overflow-hidden">
+          {/* Category breakdown */}
+          {categoryTotalsSum > 0 && (
+            <div className="p-4 border-b border-gray-200">
+              <div className="flex h-3 rounded-full overflow-hidden bg-gray-100">
+                {categoryTotals.map(total => (
+                  <div
+                    key={total.id}
+                    style={{ width: `${(total.total / categoryTotalsSum) * 100}%`, backgroundColor: total.color }}
+                    title={`${total.name}: ${formatCurrency(total.total)}`}
+                  />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+                {categoryTotals.map(total => (
+                  <span key={total.id} className="flex items-center text-xs text-gray-600">
+                    <span className="w-2 h-2 rounded-full mr-1" style={{ backgroundColor: total.color }} />
+                    {total.name} · {formatCurrency(total.total)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -361,16 +569,31 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div>
-                          <div className="text-sm font-medium text-gray-900">{revenue.source}</div>
+                          <div className="flex items-center text-sm font-medium text-gray-900">
+                            {revenue.source}
+                            {revenue.bankTransactionId && (
+                              <span title="Conciliada com o extrato bancário"><CheckBadgeIcon className="w-4 h-4 ml-2 text-green-600" /></span>
+                            )}
+                          </div>
                           {revenue.client && (
                             <div className="text-sm text-gray-500">Cliente: {revenue.client}</div>
                           )}
+                          {revenue.receiptNumber && (
+                            <div className="flex items-center text-xs text-gray-500 mt-1">
+                              <DocumentTextIcon className="w-4 h-4 mr-1" />
+                              <span className="font-mono">{revenue.receiptNumber}</span>
+                            </div>
+                          )}
+                          {revenue.receiptWarning && (
+                            <div className="flex items-center text-xs text-amber-700 mt-1">
+                              <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                              {revenue.receiptWarning}
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-                          {revenue.category}
-                        </span>
+                        {renderCategory('receita', revenue)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         <div>
@@ -418,12 +641,15 @@ export default function Financial({ quickActionType, onClearQuickAction }: Finan
                         {formatDate(expense.date)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm font-medium text-gray-900">{expense.type}</div>
+                        <div className="flex items-center text-sm font-medium text-gray-900">
+                          {expense.type}
+                          {expense.bankTransactionId && (
+                            <span title="Conciliada com o extrato bancário"><CheckBadgeIcon className="w-4 h-4 ml-2 text-green-600" /></span>
+                          )}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
-                          {expense.category}
-                        </span>
+                        {renderCategory('despesa', expense)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         <div>
@@ -0,0 +1,312 @@
+import React from 'react';
+import { ArrowPathIcon, CheckIcon, CreditCardIcon, PlusIcon, StopCircleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { FinancialCategory, Payable, PayableStatus, RecurringExpense } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { getPayableStatus } from '../../utils/payables';
+import { getCategoryLabel } from '../../utils/financialCategories';
+
+interface PayablesProps {
+  payables: Payable[];
+  recurringExpenses: RecurringExpense[];
+  categories: FinancialCategory[];
+  searchTerm: string;
+  statusFilter: string;
+  onChange: () => void;
+  onNewRecurring: () => void;
+}
+
+const STATUS_COLORS: Record<PayableStatus, string> = {
+  pendente: 'bg-yellow-100 text-yellow-800',
+  pago: 'bg-green-100 text-green-800',
+  vencido: 'bg-red-100 text-red-800'
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+const describeRecurrence = (recurring: RecurringExpense) =>
+  recurring.frequency === 'anual'
+    ? `Anual, dia ${recurring.dayOfMonth} de ${format(parseISO(recurring.startDate), 'MMMM', { locale: ptBR })}`
+    : `Mensal, dia ${recurring.dayOfMonth}`;
+
+/**
+ * Contas a pagar com vencimento e baixa, e as despesas recorrentes que as geram
+ */
+export default function Payables({ payables, recurringExpenses, categories, searchTerm, statusFilter, onChange, onNewRecurring }: PayablesProps) {
+  const [paying, setPaying] = React.useState<string | null>(null);
+  const [paymentDate, setPaymentDate] = React.useState('');
+  const [paymentAmount, setPaymentAmount] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const todayKey = format(new Date(), 'yyyy-MM-dd');
+  const pendingTotal = payables
+    .filter(payable => payable.status === 'pendente')
+    .reduce((sum, payable) => sum + payable.amount, 0);
+  const overdueTotal = payables
+    .filter(payable => getPayableStatus(payable) === 'vencido')
+    .reduce((sum, payable) => sum + payable.amount, 0);
+
+  const filtered = payables.filter(payable => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = payable.type.toLowerCase().includes(term) ||
+      payable.description.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === 'all' || getPayableStatus(payable) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const startPayment = (payable: Payable) => {
+    setPaying(payable.id);
+    setPaymentDate(todayKey);
+    setPaymentAmount(String(payable.amount));
+  };
+
+  const handlePayment = async (payable: Payable) => {
+    const amount = Number(paymentAmount);
+    if (!paymentDate || !(amount > 0)) {
+      alert('Informe a data e o valor pago.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const paid = await firestoreService.payPayable(payable, { date: paymentDate, amount });
+      if (!paid) {
+        alert('Erro ao registrar pagamento. Tente novamente.');
+        return;
+      }
+      setPaying(null);
+      onChange();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (payable: Payable) => {
+    const note = payable.recurringExpenseId ? '\n\nEsta conta não será gerada novamente pela despesa recorrente.' : '';
+    if (!confirm(`Excluir a conta "${payable.type}" com vencimento em ${formatDate(payable.dueDate)}?${note}`)) return;
+
+    if (await firestoreService.deletePayable(payable.id)) {
+      onChange();
+    } else {
+      alert('Erro ao excluir conta a pagar. Tente novamente.');
+    }
+  };
+
+  const handleEndRecurring = async (recurring: RecurringExpense) => {
+    const endDate = prompt(
+      `Encerrar a despesa recorrente "${recurring.type}"?\n\n` +
+      'Informe a data de término (AAAA-MM-DD). Contas pendentes com vencimento posterior serão excluídas.',
+      todayKey
+    );
+    if (endDate === null) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(endDate.trim())) {
+      alert('Data inválida. Use o formato AAAA-MM-DD.');
+      return;
+    }
+
+    if (await firestoreService.endRecurringExpense(recurring, endDate.trim())) {
+      onChange();
+    } else {
+      alert('Erro ao encerrar despesa recorrente. Tente novamente.');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">Pendente</p>
+          <p className="text-xl font-bold text-yellow-600">{formatCurrency(pendingTotal)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">Vencido</p>
+          <p className={`text-xl font-bold ${overdueTotal > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+            {formatCurrency(overdueTotal)}
+          </p>
+        </div>
+      </div>
+
+      {/* Payables */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vencimento</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Conta</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Categoria</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filtered.map(payable => {
+                const status = getPayableStatus(payable);
+                return (
+                  <React.Fragment key={payable.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(payable.dueDate)}
+                        {payable.paidAt && (
+                          <div className="text-xs text-green-600">Pago em {formatDate(payable.paidAt)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center text-sm font-medium text-gray-900">
+                          {payable.type}
+                          {payable.recurringExpenseId && (
+                            <span title="Despesa recorrente"><ArrowPathIcon className="w-4 h-4 ml-2 text-gray-400" /></span>
+                          )}
+                        </div>
+                        {payable.description && (
+                          <div className="text-sm text-gray-500">{payable.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getCategoryLabel(categories, payable.categoryId, payable.category)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{formatCurrency(payable.amount)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_COLORS[status]}`}>
+                          {status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {payable.status === 'pendente' && (
+                          <div className="flex items-center justify-end space-x-3">
+                            <button
+                              onClick={() => startPayment(payable)}
+                              className="flex items-center text-green-600 hover:text-green-900"
+                              title="Marcar como paga"
+                            >
+                              <CreditCardIcon className="w-4 h-4 mr-1" />
+                              Pagar
+                            </button>
+                            <button
+                              onClick={() => handleDelete(payable)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Excluir"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {paying === payable.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <div className="flex flex-wrap items-end gap-4">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Data do pagamento</label>
+                              <input
+                                type="date"
+                                value={paymentDate}
+                                disabled={saving}
+                                onChange={(e) => setPaymentDate(e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Valor pago</label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={paymentAmount}
+                                disabled={saving}
+                                onChange={(e) => setPaymentAmount(e.target.value)}
+                                className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <button
+                              onClick={() => handlePayment(payable)}
+                              disabled={saving}
+                              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                            >
+                              <CheckIcon className="w-4 h-4 mr-1" />
+                              {saving ? 'Salvando...' : 'Confirmar'}
+                            </button>
+                            <button
+                              onClick={() => setPaying(null)}
+                              disabled={saving}
+                              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                              Cancelar
+                            </button>
+                            <p className="text-xs text-gray-500">O pagamento é lançado como despesa.</p>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filtered.length === 0 && (
+          <div className="text-center py-12">
+            <CreditCardIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {payables.length === 0
+                ? 'Nenhuma conta a pagar. Cadastre despesas recorrentes para gerar as contas automaticamente.'
+                : 'Nenhuma conta a pagar encontrada com os filtros aplicados.'
+              }
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Recurring expenses */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Despesas Recorrentes</h3>
+          <button
+            onClick={onNewRecurring}
+            className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Nova Despesa Recorrente
+          </button>
+        </div>
+        {recurringExpenses.length === 0 ? (
+          <p className="text-gray-500 text-sm">Nenhuma despesa recorrente cadastrada</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {recurringExpenses.map(recurring => {
+              const ended = !!recurring.endDate && recurring.endDate < todayKey;
+              return (
+                <div key={recurring.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className={`text-sm font-medium ${ended ? 'text-gray-400' : 'text-gray-900'}`}>
+                      {recurring.type} — {formatCurrency(recurring.amount)}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {getCategoryLabel(categories, recurring.categoryId, recurring.category)} · {describeRecurrence(recurring)} · desde {formatDate(recurring.startDate)}
+                      {recurring.endDate && ` · ${ended ? 'encerrada em' : 'até'} ${formatDate(recurring.endDate)}`}
+                    </p>
+                  </div>
+                  {!ended && (
+                    <button
+                      onClick={() => handleEndRecurring(recurring)}
+                      className="flex items-center text-sm text-red-600 hover:text-red-900"
+                    >
+                      <StopCircleIcon className="w-4 h-4 mr-1" />
+                      Encerrar
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
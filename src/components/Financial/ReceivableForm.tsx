@@ -0,0 +1,266 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { Client, Lawyer } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { buildInstallments } from '../../utils/receivables';
+import ClientPicker from '../Clients/ClientPicker';
+
+const schema = yup.object({
+  description: yup.string().required('Descrição é obrigatória'),
+  client: yup.string().required('Cliente é obrigatório'),
+  total: yup.number().typeError('Valor é obrigatório').positive('Valor deve ser positivo').required('Valor é obrigatório'),
+  installments: yup.number()
+    .typeError('Informe o número de parcelas')
+    .integer('Número de parcelas deve ser inteiro')
+    .min(1, 'Mínimo de 1 parcela')
+    .max(120, 'Máximo de 120 parcelas')
+    .required('Informe o número de parcelas'),
+  firstDueDate: yup.string().required('Primeiro vencimento é obrigatório')
+});
+
+interface ReceivableFormData {
+  description: string;
+  client: string;
+  total: number;
+  installments: number;
+  firstDueDate: string;
+}
+
+interface ReceivableFormProps {
+  onBack: () => void;
+  onSave: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Faturamento de honorários em parcelas mensais
+ */
+export default function ReceivableForm({ onBack, onSave }: ReceivableFormProps) {
+  const [lawyers, setLawyers] = React.useState<Lawyer[]>([]);
+  const [selectedLawyers, setSelectedLawyers] = React.useState<string[]>([]);
+  const [clientId, setClientId] = React.useState<string | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<ReceivableFormData>({
+    resolver: yupResolver(schema),
+    defaultValues: {
+      description: 'Honorários advocatícios',
+      installments: 1,
+      firstDueDate: new Date().toISOString().split('T')[0]
+    }
+  });
+
+  React.useEffect(() => {
+    const loadLawyers = async () => {
+      const loadedLawyers = await firestoreService.getLawyers();
+      setLawyers(loadedLawyers.filter(lawyer => lawyer.status === 'Ativo'));
+    };
+
+    loadLawyers();
+  }, []);
+
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('client', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+  };
+
+  const toggleLawyer = (name: string) => {
+    setSelectedLawyers(prev => prev.includes(name) ? prev.filter(item => item !== name) : [...prev, name]);
+  };
+
+  const watchedTotal = watch('total');
+  const watchedInstallments = watch('installments');
+  const preview = watchedTotal > 0 && watchedInstallments >= 1
+    ? buildInstallments({
+        description: '',
+        client: '',
+        clientId: null,
+        documentId: null,
+        processNumber: '',
+        responsibleLawyers: [],
+        total: watchedTotal,
+        installments: watchedInstallments,
+        firstDueDate: watch('firstDueDate') || new Date().toISOString().split('T')[0]
+      })
+    : [];
+
+  const onSubmit = async (data: ReceivableFormData) => {
+    try {
+      setLoading(true);
+      const saved = await firestoreService.saveReceivables(buildInstallments({
+        description: data.description.trim(),
+        client: data.client.trim(),
+        clientId,
+        documentId: null,
+        processNumber: '',
+        responsibleLawyers: selectedLawyers,
+        total: data.total,
+        installments: data.installments,
+        firstDueDate: data.firstDueDate
+      }));
+
+      if (saved.length === 0) {
+        alert('Erro ao salvar contas a receber. Tente novamente.');
+        return;
+      }
+      onSave();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Nova Conta a Receber</h1>
+          <p className="text-gray-600">Fature honorários em uma ou mais parcelas mensais</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Descrição *</label>
+              <input
+                {...register('description')}
+                type="text"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.description && (
+                <p className="text-red-500 text-sm mt-1">{errors.description.message}</p>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Cliente *</label>
+              <ClientPicker value={watch('client') || ''} clientId={clientId} onChange={handleClientChange} disabled={loading} />
+              {errors.client && (
+                <p className="text-red-500 text-sm mt-1">{errors.client.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Valor total *</label>
+              <input
+                {...register('total', { valueAsNumber: true })}
+                type="number"
+                step="0.01"
+                min="0"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                placeholder="0.00"
+              />
+              {errors.total && (
+                <p className="text-red-500 text-sm mt-1">{errors.total.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Parcelas *</label>
+              <input
+                {...register('installments', { valueAsNumber: true })}
+                type="number"
+                min="1"
+                max="120"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.installments && (
+                <p className="text-red-500 text-sm mt-1">{errors.installments.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Primeiro vencimento *</label>
+              <input
+                {...register('firstDueDate')}
+                type="date"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.firstDueDate && (
+                <p className="text-red-500 text-sm mt-1">{errors.firstDueDate.message}</p>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Advogados responsáveis</label>
+              <div className="border border-gray-300 rounded-lg p-3 max-h-32 overflow-y-auto space-y-2">
+                {lawyers.length > 0 ? lawyers.map(lawyer => (
+                  <label key={lawyer.id} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedLawyers.includes(lawyer.fullName)}
+                      onChange={() => toggleLawyer(lawyer.fullName)}
+                      disabled={loading}
+                      className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">{lawyer.fullName} - OAB: {lawyer.oab}</span>
+                  </label>
+                )) : (
+                  <p className="text-gray-500 text-sm">Nenhum advogado ativo cadastrado</p>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Os pagamentos são lançados como receitas desses advogados</p>
+            </div>
+          </div>
+
+          {/* Installment preview */}
+          {preview.length > 1 && (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Parcelas</p>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm text-gray-600">
+                {preview.map(item => (
+                  <span key={item.installment}>
+                    {item.installment}ª — {item.dueDate.split('-').reverse().join('/')} — {formatCurrency(item.amount)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+import React from 'react';
+import { BanknotesIcon, CheckIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Receivable, ReceivableStatus } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import {
+  buildAgingSummary,
+  getDaysOverdue,
+  getPaidAmount,
+  getReceivableBalance,
+  getReceivableStatus
+} from '../../utils/receivables';
+
+interface ReceivablesProps {
+  receivables: Receivable[];
+  searchTerm: string;
+  statusFilter: string;
+  onChange: () => void;
+}
+
+const STATUS_COLORS: Record<ReceivableStatus, string> = {
+  aberto: 'bg-blue-100 text-blue-800',
+  pago: 'bg-green-100 text-green-800',
+  atrasado: 'bg-red-100 text-red-800',
+  cancelado: 'bg-gray-100 text-gray-600'
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy', { locale: ptBR });
+
+/**
+ * Parcelas a receber com faixas de atraso e registro de pagamentos
+ */
+export default function Receivables({ receivables, searchTerm, statusFilter, onChange }: ReceivablesProps) {
+  const [paying, setPaying] = React.useState<string | null>(null);
+  const [paymentDate, setPaymentDate] = React.useState('');
+  const [paymentAmount, setPaymentAmount] = React.useState('');
+  const [saving, setSaving] = React.useState(false);
+
+  const aging = buildAgingSummary(receivables);
+  const upcomingTotal = receivables
+    .filter(receivable => getReceivableStatus(receivable) === 'aberto')
+    .reduce((sum, receivable) => sum + getReceivableBalance(receivable), 0);
+
+  const filtered = receivables.filter(receivable => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = receivable.description.toLowerCase().includes(term) ||
+      receivable.client.toLowerCase().includes(term);
+    const matchesStatus = statusFilter === 'all' || getReceivableStatus(receivable) === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  const startPayment = (receivable: Receivable) => {
+    setPaying(receivable.id);
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setPaymentAmount(String(getReceivableBalance(receivable)));
+  };
+
+  const handlePayment = async (receivable: Receivable) => {
+    const amount = Number(paymentAmount);
+    const balance = getReceivableBalance(receivable);
+    if (!paymentDate || !(amount > 0)) {
+      alert('Informe a data e o valor recebido.');
+      return;
+    }
+    if (amount > balance) {
+      alert(`O valor recebido não pode ser maior que o saldo de ${formatCurrency(balance)}.`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const updated = await firestoreService.registerReceivablePayment(receivable, { date: paymentDate, amount });
+      if (!updated) {
+        alert('Erro ao registrar pagamento. Tente novamente.');
+        return;
+      }
+      setPaying(null);
+      onChange();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (receivable: Receivable) => {
+    const paidNote = receivable.payments.length > 0 ? ' Os pagamentos já recebidos continuam como receitas.' : '';
+    const reason = prompt(`Cancelar a conta "${receivable.description}"?${paidNote}\n\nMotivo do cancelamento:`);
+    if (reason === null) return;
+
+    const cancelled = await firestoreService.cancelReceivable(receivable, reason.trim());
+    if (!cancelled) {
+      alert('Erro ao cancelar conta a receber. Tente novamente.');
+      return;
+    }
+    onChange();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Aging */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-500">A vencer</p>
+          <p className="text-xl font-bold text-blue-600">{formatCurrency(upcomingTotal)}</p>
+        </div>
+        {aging.map(bucket => (
+          <div key={bucket.label} className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-500">Atraso {bucket.label}</p>
+            <p className={`text-xl font-bold ${bucket.total > 0 ? 'text-red-600' : 'text-gray-400'}`}>
+              {formatCurrency(bucket.total)}
+            </p>
+            <p className="text-xs text-gray-500">{bucket.count} parcela{bucket.count === 1 ? '' : 's'}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vencimento</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Descrição</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filtered.map(receivable => {
+                const status = getReceivableStatus(receivable);
+                const paid = getPaidAmount(receivable);
+                return (
+                  <React.Fragment key={receivable.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(receivable.dueDate)}
+                        {status === 'atrasado' && (
+                          <div className="text-xs text-red-600">{getDaysOverdue(receivable)} dias em atraso</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{receivable.description}</div>
+                        <div className="text-sm text-gray-500">Cliente: {receivable.client}</div>
+                        {receivable.cancelReason && (
+                          <div className="text-xs text-gray-500">Cancelada: {receivable.cancelReason}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(receivable.amount)}
+                        {paid > 0 && (
+                          <div className="text-xs text-green-600">Recebido {formatCurrency(paid)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {status === 'cancelado' ? '—' : formatCurrency(getReceivableBalance(receivable))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${STATUS_COLORS[status]}`}>
+                          {status}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {(status === 'aberto' || status === 'atrasado') && (
+                          <div className="flex items-center justify-end space-x-3">
+                            <button
+                              onClick={() => startPayment(receivable)}
+                              className="flex items-center text-green-600 hover:text-green-900"
+                              title="Registrar pagamento"
+                            >
+                              <BanknotesIcon className="w-4 h-4 mr-1" />
+                              Receber
+                            </button>
+                            <button
+                              onClick={() => handleCancel(receivable)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Cancelar"
+                            >
+                              <XCircleIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                    {paying === receivable.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <div className="flex flex-wrap items-end gap-4">
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Data do pagamento</label>
+                              <input
+                                type="date"
+                                value={paymentDate}
+                                disabled={saving}
+                                onChange={(e) => setPaymentDate(e.target.value)}
+                                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-xs font-medium text-gray-700 mb-1">Valor recebido</label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={paymentAmount}
+                                disabled={saving}
+                                onChange={(e) => setPaymentAmount(e.target.value)}
+                                className="w-36 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              />
+                            </div>
+                            <button
+                              onClick={() => handlePayment(receivable)}
+                              disabled={saving}
+                              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                            >
+                              <CheckIcon className="w-4 h-4 mr-1" />
+                              {saving ? 'Salvando...' : 'Confirmar'}
+                            </button>
+                            <button
+                              onClick={() => setPaying(null)}
+                              disabled={saving}
+                              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                            >
+                              Cancelar
+                            </button>
+                            <p className="text-xs text-gray-500">
+                              O pagamento é lançado como receita; valores menores que o saldo mantêm a parcela em aberto.
+                            </p>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {filtered.length === 0 && (
+          <div className="text-center py-12">
+            <BanknotesIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">
+              {receivables.length === 0
+                ? 'Nenhuma conta a receber. Clique em "Nova Conta a Receber" para faturar honorários.'
+                : 'Nenhuma conta a receber encontrada com os filtros aplicados.'
+              }
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
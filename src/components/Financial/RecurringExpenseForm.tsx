@@ -0,0 +1,288 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { ArrowLeftIcon } from '@heroicons/react/24/outline';
+import { FinancialCategory, RecurrenceFrequency } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { getDueDates } from '../../utils/payables';
+import { DEFAULT_EXPENSE_CATEGORY_ID, findCategory, getCategoryOptions } from '../../utils/financialCategories';
+
+const schema = yup.object({
+  type: yup.string().required('Nome da despesa é obrigatório'),
+  categoryId: yup.string().required('Categoria é obrigatória'),
+  amount: yup.number().typeError('Valor é obrigatório').positive('Valor deve ser positivo').required('Valor é obrigatório'),
+  frequency: yup.mixed<RecurrenceFrequency>().oneOf(['mensal', 'anual']).required(),
+  dayOfMonth: yup.number()
+    .typeError('Informe o dia do vencimento')
+    .integer('Dia deve ser inteiro')
+    .min(1, 'Dia entre 1 e 31')
+    .max(31, 'Dia entre 1 e 31')
+    .required('Informe o dia do vencimento'),
+  startDate: yup.string().required('Início é obrigatório'),
+  endDate: yup.string().defined().test('after-start', 'O término deve ser posterior ao início', function (value) {
+    return !value || value >= this.parent.startDate;
+  }),
+  description: yup.string().defined()
+});
+
+interface RecurringExpenseFormData {
+  type: string;
+  categoryId: string;
+  amount: number;
+  frequency: RecurrenceFrequency;
+  dayOfMonth: number;
+  startDate: string;
+  endDate: string;
+  description: string;
+}
+
+interface RecurringExpenseFormProps {
+  onBack: () => void;
+  onSave: () => void;
+}
+
+/**
+ * Cadastro de despesa recorrente (aluguel, internet...) que gera contas a pagar
+ */
+export default function RecurringExpenseForm({ onBack, onSave }: RecurringExpenseFormProps) {
+  const [loading, setLoading] = React.useState(false);
+  const [categories, setCategories] = React.useState<FinancialCategory[]>([]);
+  const today = new Date().toISOString().split('T')[0];
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<RecurringExpenseFormData>({
+    resolver: yupResolver(schema),
+    defaultValues: {
+      categoryId: DEFAULT_EXPENSE_CATEGORY_ID,
+      frequency: 'mensal',
+      dayOfMonth: 10,
+      startDate: today,
+      endDate: '',
+      description: ''
+    }
+  });
+
+  React.useEffect(() => {
+    const loadCategories = async () => {
+      const loaded = await firestoreService.getFinancialCategories();
+      setCategories(loaded);
+
+      // Categoria padrão desativada: sugerir a primeira ativa
+      const activeOptions = getCategoryOptions(loaded, 'despesa').filter(option => option.active);
+      if (activeOptions.length > 0 && !activeOptions.some(option => option.id === DEFAULT_EXPENSE_CATEGORY_ID)) {
+        setValue('categoryId', activeOptions[0].id);
+      }
+    };
+
+    loadCategories();
+  }, [setValue]);
+
+  const categoryOptions = getCategoryOptions(categories, 'despesa');
+  const watched = watch();
+  const nextDueDates = watched.startDate && watched.dayOfMonth >= 1 && watched.dayOfMonth <= 31
+    ? getDueDates({
+        ...watched,
+        category: '',
+        amount: watched.amount || 0,
+        endDate: watched.endDate || null,
+        description: watched.description || ''
+      }, today, `${Number(today.slice(0, 4)) + 3}-12-31`).slice(0, 3)
+    : [];
+
+  const onSubmit = async (data: RecurringExpenseFormData) => {
+    try {
+      setLoading(true);
+      const saved = await firestoreService.saveRecurringExpense({
+        type: data.type.trim(),
+        category: findCategory(categories, data.categoryId)?.name || '',
+        categoryId: data.categoryId,
+        amount: data.amount,
+        frequency: data.frequency,
+        dayOfMonth: data.dayOfMonth,
+        startDate: data.startDate,
+        endDate: data.endDate || null,
+        description: (data.description || '').trim()
+      });
+
+      if (!saved) {
+        alert('Erro ao salvar despesa recorrente. Tente novamente.');
+        return;
+      }
+      onSave();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center mb-6">
+        <button
+          onClick={onBack}
+          className="flex items-center text-gray-600 hover:text-gray-900 mr-4"
+        >
+          <ArrowLeftIcon className="w-5 h-5 mr-2" />
+          Voltar
+        </button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Nova Despesa Recorrente</h1>
+          <p className="text-gray-600">As contas a pagar são geradas automaticamente a cada vencimento</p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl">
+        <div className="bg-white rounded-lg shadow p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Despesa *</label>
+              <input
+                {...register('type')}
+                type="text"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                placeholder="Ex: Aluguel do escritório"
+              />
+              {errors.type && (
+                <p className="text-red-500 text-sm mt-1">{errors.type.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Categoria *</label>
+              {/* O select só é montado com as opções, para exibir o valor do formulário */}
+              {categoryOptions.length > 0 ? (
+                <select
+                  {...register('categoryId')}
+                  disabled={loading}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  {categoryOptions.map(option => (
+                    <option key={option.id} value={option.id} disabled={!option.active}>
+                      {option.depth > 0 ? `\u00a0\u00a0\u00a0${option.label}` : option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <p className="text-sm text-gray-500 py-2">Carregando categorias...</p>
+              )}
+              {errors.categoryId && (
+                <p className="text-red-500 text-sm mt-1">{errors.categoryId.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Valor *</label>
+              <input
+                {...register('amount', { valueAsNumber: true })}
+                type="number"
+                step="0.01"
+                min="0"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                placeholder="0.00"
+              />
+              {errors.amount && (
+                <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Frequência *</label>
+              <select
+                {...register('frequency')}
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              >
+                <option value="mensal">Mensal</option>
+                <option value="anual">Anual (no mês do início)</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Dia do vencimento *</label>
+              <input
+                {...register('dayOfMonth', { valueAsNumber: true })}
+                type="number"
+                min="1"
+                max="31"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.dayOfMonth && (
+                <p className="text-red-500 text-sm mt-1">{errors.dayOfMonth.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Início *</label>
+              <input
+                {...register('startDate')}
+                type="date"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.startDate && (
+                <p className="text-red-500 text-sm mt-1">{errors.startDate.message}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Término</label>
+              <input
+                {...register('endDate')}
+                type="date"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+              {errors.endDate && (
+                <p className="text-red-500 text-sm mt-1">{errors.endDate.message}</p>
+              )}
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Observações</label>
+              <input
+                {...register('description')}
+                type="text"
+                disabled={loading}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+              />
+            </div>
+          </div>
+
+          {nextDueDates.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Próximos vencimentos: {nextDueDates.map(date => date.split('-').reverse().join('/')).join(', ')}
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+            <button
+              type="button"
+              onClick={onBack}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Salvando...' : 'Salvar'}
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
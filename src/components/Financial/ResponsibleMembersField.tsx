@@ -0,0 +1,110 @@
+import { XMarkIcon } from '@heroicons/react/24/outline';
+import { Employee, Lawyer } from '../../types';
+
+interface ResponsibleMembersFieldProps {
+  label: string;
+  lawyers: Lawyer[];
+  employees: Employee[];
+  selectedMembers: string[];
+  onChange: (members: string[]) => void;
+}
+
+/**
+ * Seleção dos responsáveis (advogados e colaboradores ativos) de uma receita ou despesa
+ */
+export default function ResponsibleMembersField({ label, lawyers, employees, selectedMembers, onChange }: ResponsibleMembersFieldProps) {
+  const onToggle = (memberName: string) => {
+    onChange(selectedMembers.includes(memberName)
+      ? selectedMembers.filter(name => name !== memberName)
+      : [...selectedMembers, memberName]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      <div className="border border-gray-300 rounded-lg p-3 max-h-32 overflow-y-auto">
+        {(lawyers.length > 0 || employees.length > 0) ? (
+          <div className="space-y-2">
+            {/* Advogados */}
+            {lawyers.length > 0 && (
+              <>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Advogados</p>
+                {lawyers.map((lawyer) => (
+                  <label key={`lawyer-${lawyer.id}`} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedMembers.includes(lawyer.fullName)}
+                      onChange={() => onToggle(lawyer.fullName)}
+                      className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">
+                      {lawyer.fullName} - OAB: {lawyer.oab}
+                    </span>
+                  </label>
+                ))}
+              </>
+            )}
+
+            {/* Colaboradores */}
+            {employees.length > 0 && (
+              <>
+                {lawyers.length > 0 && <div className="border-t border-gray-200 my-2"></div>}
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Colaboradores</p>
+                {employees.map((employee) => (
+                  <label key={`employee-${employee.id}`} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={selectedMembers.includes(employee.fullName)}
+                      onChange={() => onToggle(employee.fullName)}
+                      className="mr-3 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">
+                      {employee.fullName} - {employee.position}
+                    </span>
+                  </label>
+                ))}
+              </>
+            )}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm">Nenhum responsável disponível</p>
+        )}
+      </div>
+      {selectedMembers.length > 0 && (
+        <div className="mt-2">
+          <div className="flex flex-wrap gap-1">
+            {selectedMembers.map((member, index) => {
+              const isLawyer = lawyers.some(l => l.fullName === member);
+              return (
+                <span
+                  key={index}
+                  className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                    isLawyer
+                      ? 'bg-blue-100 text-blue-800'
+                      : 'bg-green-100 text-green-800'
+                  }`}
+                >
+                  {member}
+                  <button
+                    type="button"
+                    onClick={() => onToggle(member)}
+                    className={`ml-1 hover:${isLawyer ? 'text-blue-800' : 'text-green-800'}`}
+                  >
+                    <XMarkIcon className="w-3 h-3" />
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {(lawyers.length === 0 && employees.length === 0) && (
+        <p className="text-amber-600 text-sm mt-1">
+          Nenhum responsável ativo encontrado. Cadastre advogados ou colaboradores.
+        </p>
+      )}
+    </div>
+  );
+}
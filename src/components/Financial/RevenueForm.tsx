@@ -0,0 +1,259 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { yupResolver } from '@hookform/resolvers/yup';
+import * as yup from 'yup';
+import { Revenue, Lawyer, Employee, Client, FinancialCategory } from '../../types';
+import ClientPicker from '../Clients/ClientPicker';
+import ResponsibleMembersField from './ResponsibleMembersField';
+import { DEFAULT_REVENUE_CATEGORY_ID, findCategory, getCategoryOptions } from '../../utils/financialCategories';
+
+const revenueSchema = yup.object({
+  date: yup.string().required('Data é obrigatória'),
+  amount: yup.number().positive('Valor deve ser positivo').required('Valor é obrigatório'),
+  source: yup.string().required('Fonte é obrigatória'),
+  categoryId: yup.string().required('Categoria é obrigatória'),
+  client: yup.string().defined(),
+  description: yup.string().defined()
+});
+
+interface RevenueFormData {
+  date: string;
+  amount: number;
+  source: string;
+  categoryId: string;
+  client: string;
+  description: string;
+}
+
+interface RevenueFormProps {
+  item?: Revenue | null;
+  lawyers: Lawyer[];
+  employees: Employee[];
+  categories: FinancialCategory[];
+  onBack: () => void;
+  onSave: (data: Revenue) => void;
+}
+
+export default function RevenueForm({ item, lawyers, employees, categories, onBack, onSave }: RevenueFormProps) {
+  const [selectedMembers, setSelectedMembers] = React.useState<string[]>(
+    // Manter compatibilidade com dados antigos
+    item?.responsibleLawyers || (item as { responsibleMembers?: string[] } | null | undefined)?.responsibleMembers || []
+  );
+  const [clientId, setClientId] = React.useState<string | null>(item?.clientId || null);
+  // Participação de cada advogado na comissão; vazio divide igualmente
+  const [lawyerShares, setLawyerShares] = React.useState<Record<string, number>>(item?.lawyerShares || {});
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+    watch
+  } = useForm<RevenueFormData>({
+    resolver: yupResolver(revenueSchema),
+    defaultValues: {
+      date: item?.date,
+      amount: item?.amount,
+      source: item?.source || '',
+      categoryId: item?.categoryId || DEFAULT_REVENUE_CATEGORY_ID,
+      client: item?.client || '',
+      description: item?.description || ''
+    }
+  });
+
+  // Categoria padrão desativada: sugerir a primeira ativa
+  useEffect(() => {
+    if (item) return;
+    const activeOptions = getCategoryOptions(categories, 'receita').filter(option => option.active);
+    if (activeOptions.length > 0 && !activeOptions.some(option => option.id === DEFAULT_REVENUE_CATEGORY_ID)) {
+      setValue('categoryId', activeOptions[0].id);
+    }
+  }, [categories, item, setValue]);
+
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('client', name);
+    setClientId(client?.id || null);
+  };
+
+  // Advogados selecionados; colaboradores não recebem comissão
+  const selectedLawyers = selectedMembers.filter(name => lawyers.some(lawyer => lawyer.fullName === name));
+
+  const handleShareChange = (lawyerName: string, value: string) => {
+    setLawyerShares(prev => ({ ...prev, [lawyerName]: Number(value) || 0 }));
+  };
+
+  const onSubmit = (data: RevenueFormData) => {
+    const shares = selectedLawyers.length > 1
+      ? selectedLawyers.reduce<Record<string, number>>((result, name) => {
+          if (lawyerShares[name] > 0) result[name] = lawyerShares[name];
+          return result;
+        }, {})
+      : {};
+    const sharesTotal = Object.values(shares).reduce((sum, share) => sum + share, 0);
+    if (sharesTotal > 0 && Math.abs(sharesTotal - 100) > 0.01) {
+      alert(`A divisão da comissão entre os advogados deve somar 100% (atual: ${sharesTotal}%). Deixe em branco para dividir igualmente.`);
+      return;
+    }
+
+    const category = findCategory(categories, data.categoryId);
+    onSave({
+      ...item,
+      id: item?.id || Date.now().toString(),
+      ...data,
+      responsibleLawyers: selectedMembers,
+      category: category?.name || item?.category || '',
+      clientId,
+      lawyerShares: sharesTotal > 0 ? shares : null
+    });
+  };
+
+  const categoryOptions = getCategoryOptions(categories, 'receita', { currentId: item?.categoryId });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl">
+      <div className="bg-white rounded-lg shadow p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Data *
+            </label>
+            <input
+              {...register('date')}
+              type="date"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {errors.date && (
+              <p className="text-red-500 text-sm mt-1">{errors.date.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Valor *
+            </label>
+            <input
+              {...register('amount', { valueAsNumber: true })}
+              type="number"
+              step="0.01"
+              min="0"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="0.00"
+            />
+            {errors.amount && (
+              <p className="text-red-500 text-sm mt-1">{errors.amount.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Fonte *
+            </label>
+            <input
+              {...register('source')}
+              type="text"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Ex: João Silva"
+            />
+            {errors.source && (
+              <p className="text-red-500 text-sm mt-1">{errors.source.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Categoria *
+            </label>
+            <select
+              {...register('categoryId')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {categoryOptions.map(option => (
+                <option key={option.id} value={option.id} disabled={!option.active && option.id !== item?.categoryId}>
+                  {option.depth > 0 ? `\u00a0\u00a0\u00a0${option.label}` : option.label}
+                </option>
+              ))}
+            </select>
+            {errors.categoryId && (
+              <p className="text-red-500 text-sm mt-1">{errors.categoryId.message}</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Cliente
+            </label>
+            <ClientPicker
+              value={watch('client') || ''}
+              clientId={clientId}
+              onChange={handleClientChange}
+              placeholder="Nome do cliente (opcional)"
+            />
+          </div>
+
+          <ResponsibleMembersField
+            label="Responsáveis"
+            lawyers={lawyers}
+            employees={employees}
+            selectedMembers={selectedMembers}
+            onChange={setSelectedMembers}
+          />
+
+          {selectedLawyers.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Divisão da comissão (%)
+              </label>
+              <div className="space-y-2">
+                {selectedLawyers.map(name => (
+                  <div key={name} className="flex items-center">
+                    <span className="flex-1 text-sm text-gray-700">{name}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      value={lawyerShares[name] || ''}
+                      onChange={(e) => handleShareChange(name, e.target.value)}
+                      placeholder={String(Math.round(10000 / selectedLawyers.length) / 100)}
+                      className="w-24 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Em branco, o valor é dividido igualmente</p>
+            </div>
+          )}
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Descrição
+            </label>
+            <textarea
+              {...register('description')}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Descrição adicional (opcional)"
+            />
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center justify-end space-x-4 pt-6 border-t">
+          <button
+            type="button"
+            onClick={onBack}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            className="px-6 py-2 text-white rounded-lg transition-colors bg-green-600 hover:bg-green-700"
+          >
+            {item ? 'Atualizar' : 'Salvar'} Receita
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { User } from '../../types/auth';
 import { authService } from '../../services/authService';
+import NotificationCenter from './NotificationCenter';
 import { 
   UserCircleIcon,
   ArrowRightOnRectangleIcon
@@ -9,9 +10,10 @@ import {
 interface HeaderProps {
   user: User;
   onLogout: () => void;
+  onOpenAgenda?: () => void;
 }
 
-export default function Header({ user, onLogout }: HeaderProps) {
+export default function Header({ user, onLogout, onOpenAgenda }: HeaderProps) {
   const handleLogout = () => {
     if (confirm('Tem certeza que deseja sair?')) {
       authService.logout();
@@ -37,6 +39,8 @@ export default function Header({ user, onLogout }: HeaderProps) {
 
         {/* User Menu */}
         <div className="flex items-center space-x-4">
+          <NotificationCenter onOpenAgenda={onOpenAgenda} />
+
           <div className="text-right">
             <p className="text-sm font-medium text-gray-900">{user.email}</p>
             <p className="text-xs text-gray-500">Administrador</p>
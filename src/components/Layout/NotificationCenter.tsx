@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { AppNotification, NotificationState } from '../../types';
+import { notificationService } from '../../services/notificationService';
+import { BellIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface NotificationCenterProps {
+  onOpenAgenda?: () => void;
+}
+
+// Recalcular os lembretes periodicamente enquanto o aplicativo está aberto
+const REFRESH_INTERVAL = 15 * 60 * 1000;
+
+const urgencyStyle = (notification: AppNotification) => {
+  if (notification.daysUntil <= 0) return 'bg-red-500';
+  if (notification.daysUntil === 1) return 'bg-amber-500';
+  return 'bg-blue-500';
+};
+
+export default function NotificationCenter({ onOpenAgenda }: NotificationCenterProps) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [state, setState] = useState<NotificationState>({ read: [], dismissed: [], delivered: [] });
+  const [open, setOpen] = useState(false);
+  const [permission, setPermission] = useState(notificationService.getBrowserPermission());
+
+  useEffect(() => {
+    loadNotifications();
+    const timer = window.setInterval(loadNotifications, REFRESH_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const loadNotifications = async () => {
+    try {
+      const result = await notificationService.refresh();
+      setNotifications(result.notifications);
+      setState(result.state);
+    } catch (error) {
+      console.error('Erro ao carregar notificações:', error);
+    }
+  };
+
+  const updateState = async (updated: NotificationState) => {
+    setState(updated);
+    await notificationService.saveState(updated);
+  };
+
+  const unread = notifications.filter(n => !state.read.includes(n.id));
+
+  const handleToggle = () => {
+    if (!open) loadNotifications();
+    setOpen(!open);
+  };
+
+  const handleMarkAsRead = (id: string) => {
+    if (!state.read.includes(id)) {
+      updateState({ ...state, read: [...state.read, id] });
+    }
+  };
+
+  const handleMarkAllAsRead = () => {
+    updateState({ ...state, read: [...state.read, ...unread.map(n => n.id)] });
+  };
+
+  const handleDismiss = (id: string) => {
+    setNotifications(notifications.filter(n => n.id !== id));
+    updateState({ ...state, dismissed: [...state.dismissed, id] });
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    handleMarkAsRead(notification.id);
+    if (onOpenAgenda) {
+      setOpen(false);
+      onOpenAgenda();
+    }
+  };
+
+  const handleEnableBrowser = async () => {
+    const granted = await notificationService.requestBrowserPermission();
+    setPermission(notificationService.getBrowserPermission());
+    if (granted) {
+      const settings = await notificationService.getSettings();
+      await notificationService.saveSettings({ ...settings, browserNotifications: true });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        className="relative p-2 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Notificações"
+      >
+        <BellIcon className="w-6 h-6" />
+        {unread.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 bg-red-600 text-white text-xs rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+            {unread.length > 9 ? '9+' : unread.length}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-xl border border-gray-200 z-50">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900">Lembretes</h3>
+              {unread.length > 0 && (
+                <button onClick={handleMarkAllAsRead} className="text-xs text-blue-600 hover:text-blue-800">
+                  Marcar todas como lidas
+                </button>
+              )}
+            </div>
+
+            {permission === 'default' && (
+              <div className="px-4 py-2 bg-blue-50 border-b border-blue-100 text-xs text-blue-800 flex items-center justify-between">
+                <span>Receba os lembretes também como notificação do navegador.</span>
+                <button onClick={handleEnableBrowser} className="ml-2 font-medium text-blue-700 hover:text-blue-900 whitespace-nowrap">
+                  Ativar
+                </button>
+              </div>
+            )}
+
+            {notifications.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-gray-500">Nenhum lembrete no momento</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map(notification => {
+                  const isRead = state.read.includes(notification.id);
+
+                  return (
+                    <li
+                      key={notification.id}
+                      className={`flex items-start px-4 py-3 cursor-pointer hover:bg-gray-50 ${isRead ? '' : 'bg-blue-50/50'}`}
+                      onClick={() => handleOpen(notification)}
+                    >
+                      <span className={`w-2 h-2 rounded-full mt-1.5 mr-3 flex-shrink-0 ${isRead ? 'bg-gray-300' : urgencyStyle(notification)}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm truncate ${isRead ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                          {notification.eventTitle}
+                        </p>
+                        <p className="text-xs text-gray-500">{notification.message}</p>
+                      </div>
+                      <div className="flex items-center space-x-1 ml-2">
+                        {!isRead && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleMarkAsRead(notification.id);
+                            }}
+                            className="p-1 text-gray-400 hover:text-green-600"
+                            title="Marcar como lida"
+                          >
+                            <CheckIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDismiss(notification.id);
+                          }}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Dispensar"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
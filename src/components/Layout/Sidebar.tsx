@@ -8,7 +8,8 @@ import {
   ChartBarIcon,
   UserGroupIcon,
   PlusIcon,
-  CogIcon
+  CogIcon,
+  IdentificationIcon
 } from '@heroicons/react/24/outline';
 import { clsx } from 'clsx';
 
@@ -21,6 +22,7 @@ interface SidebarProps {
 const navigation = [
   { name: 'Dashboard', href: 'dashboard', icon: HomeIcon },
   { name: 'Processos', href: 'processes', icon: FolderIcon },
+  { name: 'Clientes', href: 'clients', icon: IdentificationIcon },
   { name: 'Agenda', href: 'calendar', icon: CalendarIcon },
   { name: 'Financeiro', href: 'financial', icon: CurrencyDollarIcon },
   { name: 'Equipe', href: 'team', icon: UserGroupIcon },
@@ -35,6 +37,7 @@ const quickActions = [
   { name: 'Nova Receita', action: 'new-revenue' },
   { name: 'Nova Despesa', action: 'new-expense' },
   { name: 'Novo Processo', action: 'new-process' },
+  { name: 'Novo Cliente', action: 'new-client' },
   { name: 'Novo Evento', action: 'new-event' },
   { name: 'Novo Advogado', action: 'new-lawyer' },
   { name: 'Novo Colaborador', action: 'new-employee' },
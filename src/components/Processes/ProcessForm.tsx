@@ -2,13 +2,17 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { Process, Lawyer } from '../../types';
+import { Process, Lawyer, Client } from '../../types';
 import { ArrowLeftIcon, PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { firestoreService } from '../../services/firestoreService';
+import { formatCnjNumber, isValidCnjNumber, parseCnjNumber, describeCnjCourt } from '../../utils/cnj';
+import ClientPicker from '../Clients/ClientPicker';
 
 const schema = yup.object({
   name: yup.string().required('Nome do processo é obrigatório'),
-  processNumber: yup.string().required('Número do processo é obrigatório'),
+  processNumber: yup.string()
+    .required('Número do processo é obrigatório')
+    .test('cnj', 'Número inválido: use o formato CNJ NNNNNNN-DD.AAAA.J.TR.OOOO', value => isValidCnjNumber(value || '')),
   client: yup.string().required('Cliente é obrigatório'),
   opposingParty: yup.string(),
   court: yup.string().required('Fórum/Comarca é obrigatório'),
@@ -31,12 +35,16 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
   const [lawyers, setLawyers] = useState<Lawyer[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingLawyers, setLoadingLawyers] = useState(true);
+  const [autoFilledCourt, setAutoFilledCourt] = useState<string | null>(null);
+  const [clientId, setClientId] = useState<string | null>(process?.clientId || null);
   
   const {
     register,
     handleSubmit,
     formState: { errors },
-    setValue
+    setValue,
+    getValues,
+    watch
   } = useForm<Partial<Process>>({
     resolver: yupResolver(schema),
     defaultValues: process || {
@@ -53,6 +61,7 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
       });
       setAttachments(process.attachments || []);
       setSelectedLawyers(process.responsibleLawyers || []);
+      setClientId(process.clientId || null);
     }
   }, [process, setValue]);
 
@@ -70,6 +79,29 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
     }
   };
 
+  const watchedProcessNumber = watch('processNumber');
+  const watchedClient = watch('client');
+  const cnjParts = parseCnjNumber(watchedProcessNumber || '');
+
+  // Aplicar máscara CNJ e pré-preencher o fórum quando o número ficar válido
+  const handleProcessNumberChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const masked = formatCnjNumber(event.target.value);
+    setValue('processNumber', masked);
+
+    const parts = parseCnjNumber(masked);
+    const currentCourt = getValues('court');
+    if (parts && (!currentCourt || currentCourt === autoFilledCourt)) {
+      const suggestedCourt = describeCnjCourt(parts);
+      setValue('court', suggestedCourt, { shouldValidate: true });
+      setAutoFilledCourt(suggestedCourt);
+    }
+  };
+
+  const handleClientChange = (name: string, client: Client | null) => {
+    setValue('client', name, { shouldValidate: true });
+    setClientId(client?.id || null);
+  };
+
   const handleLawyerToggle = (lawyerName: string) => {
     setSelectedLawyers(prev => {
       if (prev.includes(lawyerName)) {
@@ -85,11 +117,14 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
     
     try {
       setLoading(true);
+      const cnj = parseCnjNumber(data.processNumber || '');
       
       if (process) {
         // Atualizar processo existente
         const updatedProcess = await firestoreService.updateProcess(process.id, {
           ...data,
+          ...(cnj && { cnj }),
+          clientId,
           attachments,
           responsibleLawyers: selectedLawyers
         } as Partial<Process>);
@@ -104,6 +139,8 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
         // Criar novo processo
         const newProcess = await firestoreService.saveProcess({
           ...data,
+          ...(cnj && { cnj }),
+          clientId,
           attachments,
           responsibleLawyers: selectedLawyers
         } as Omit<Process, 'id' | 'createdAt'>);
@@ -180,26 +217,31 @@ export default function ProcessForm({ process, onBack, onSave }: ProcessFormProp
                   Número do Processo *
                 </label>
                 <input
-                  {...register('processNumber')}
+                  {...register('processNumber', { onChange: handleProcessNumberChange })}
                   type="text"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="0001234-56.2023.8.02.0001"
+                  inputMode="numeric"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                  placeholder="0001234-80.2023.8.02.0001"
                   disabled={loading}
                 />
                 {errors.processNumber && (
                   <p className="text-red-500 text-sm mt-1">{errors.processNumber.message}</p>
                 )}
+                {cnjParts && (
+                  <p className="text-gray-500 text-xs mt-1">
+                    {cnjParts.justiceSegment} · {cnjParts.tribunalName} · Ano {cnjParts.year} · Origem {cnjParts.origin}
+                  </p>
+                )}
               </div>
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Cliente *
                 </label>
-                <input
-                  {...register('client')}
-                  type="text"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder="Nome do cliente"
+                <ClientPicker
+                  value={watchedClient || ''}
+                  clientId={clientId}
+                  onChange={handleClientChange}
                   disabled={loading}
                 />
                 {errors.client && (
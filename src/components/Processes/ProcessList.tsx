@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Process } from '../../types';
 import { firestoreService } from '../../services/firestoreService';
+import { parseCnjNumber } from '../../utils/cnj';
 import { 
   MagnifyingGlassIcon, 
   FunnelIcon,
@@ -22,6 +23,7 @@ export default function ProcessList({ onNewProcess, onViewProcess, onEditProcess
   const [processes, setProcesses] = useState<Process[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [tribunalFilter, setTribunalFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -56,14 +58,24 @@ export default function ProcessList({ onNewProcess, onViewProcess, onEditProcess
     }
   };
 
+  // Processos antigos podem não ter as partes CNJ salvas; decompor na hora
+  const getTribunalName = (process: Process) => {
+    return (process.cnj || parseCnjNumber(process.processNumber))?.tribunalName;
+  };
+
+  const tribunals = Array.from(
+    new Set(processes.map(getTribunalName).filter((name): name is string => !!name))
+  ).sort();
+
   const filteredProcesses = processes.filter(process => {
     const matchesSearch = process.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          process.client.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          process.processNumber.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesStatus = statusFilter === 'all' || process.status === statusFilter;
+    const matchesTribunal = tribunalFilter === 'all' || getTribunalName(process) === tribunalFilter;
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesTribunal;
   });
 
   const formatDate = (dateString: string) => {
@@ -110,6 +122,16 @@ export default function ProcessList({ onNewProcess, onViewProcess, onEditProcess
             <option value="Em andamento">Em andamento</option>
             <option value="Concluído">Concluído</option>
           </select>
+          <select
+            value={tribunalFilter}
+            onChange={(e) => setTribunalFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">Todos os Tribunais</option>
+            {tribunals.map((tribunal) => (
+              <option key={tribunal} value={tribunal}>{tribunal}</option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -145,7 +167,12 @@ export default function ProcessList({ onNewProcess, onViewProcess, onEditProcess
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div>
                       <div className="text-sm font-medium text-gray-900">{process.name}</div>
-                      <div className="text-sm text-gray-500">{process.processNumber}</div>
+                      <div className="text-sm text-gray-500">
+                        {process.processNumber}
+                        {getTribunalName(process) && (
+                          <span className="ml-2 text-xs text-gray-400">{getTribunalName(process)}</span>
+                        )}
+                      </div>
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { Process, ProcessMovement } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import {
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  PaperClipIcon,
+  ScaleIcon,
+  DocumentTextIcon,
+  ArrowUpTrayIcon,
+  UserGroupIcon,
+  ChatBubbleLeftEllipsisIcon
+} from '@heroicons/react/24/outline';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+interface ProcessMovementsProps {
+  process: Process;
+}
+
+type MovementFormData = Omit<ProcessMovement, 'id' | 'processId' | 'createdAt'>;
+
+// Configuração dos tipos de andamento com cores e ícones
+const MOVEMENT_TYPES = {
+  'Despacho': {
+    color: 'bg-blue-100 text-blue-700',
+    icon: DocumentTextIcon
+  },
+  'Decisão': {
+    color: 'bg-red-100 text-red-700',
+    icon: ScaleIcon
+  },
+  'Petição Protocolada': {
+    color: 'bg-green-100 text-green-700',
+    icon: ArrowUpTrayIcon
+  },
+  'Audiência Realizada': {
+    color: 'bg-purple-100 text-purple-700',
+    icon: UserGroupIcon
+  },
+  'Outro': {
+    color: 'bg-gray-100 text-gray-700',
+    icon: ChatBubbleLeftEllipsisIcon
+  }
+};
+
+const emptyForm = (process: Process): MovementFormData => ({
+  date: format(new Date(), 'yyyy-MM-dd'),
+  type: 'Despacho',
+  author: process.responsibleLawyers?.[0] || '',
+  description: '',
+  attachment: ''
+});
+
+export default function ProcessMovements({ process }: ProcessMovementsProps) {
+  const [movements, setMovements] = useState<ProcessMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingMovement, setEditingMovement] = useState<ProcessMovement | null>(null);
+  const [formData, setFormData] = useState<MovementFormData>(emptyForm(process));
+
+  useEffect(() => {
+    const loadMovements = async () => {
+      try {
+        setLoading(true);
+        const loadedMovements = await firestoreService.getProcessMovements(process.id);
+        setMovements(loadedMovements);
+      } catch (error) {
+        console.error('Erro ao carregar andamentos:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMovements();
+  }, [process.id]);
+
+  const sortMovements = (list: ProcessMovement[]) => {
+    return [...list].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  };
+
+  const openNewForm = () => {
+    setEditingMovement(null);
+    setFormData(emptyForm(process));
+    setShowForm(true);
+  };
+
+  const openEditForm = (movement: ProcessMovement) => {
+    setEditingMovement(movement);
+    setFormData({
+      date: movement.date,
+      type: movement.type,
+      author: movement.author,
+      description: movement.description,
+      attachment: movement.attachment || ''
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingMovement(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving) return;
+
+    if (!formData.date || !formData.author.trim() || !formData.description.trim()) {
+      alert('Preencha data, autor e descrição do andamento.');
+      return;
+    }
+
+    const data: MovementFormData = {
+      ...formData,
+      author: formData.author.trim(),
+      description: formData.description.trim(),
+      attachment: formData.attachment?.trim() || ''
+    };
+
+    try {
+      setSaving(true);
+
+      if (editingMovement) {
+        const updated = await firestoreService.updateProcessMovement(process.id, editingMovement.id, data);
+        if (updated) {
+          setMovements(prev => sortMovements(prev.map(m => (m.id === updated.id ? updated : m))));
+          closeForm();
+        } else {
+          alert('Erro ao atualizar andamento');
+        }
+      } else {
+        const created = await firestoreService.saveProcessMovement(process.id, data);
+        if (created) {
+          setMovements(prev => sortMovements([created, ...prev]));
+          closeForm();
+        } else {
+          alert('Erro ao salvar andamento');
+        }
+      }
+    } catch (error) {
+      console.error('Erro ao salvar andamento:', error);
+      alert('Erro ao salvar andamento. Tente novamente.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (movement: ProcessMovement) => {
+    if (confirm('Tem certeza que deseja excluir este andamento?')) {
+      try {
+        const success = await firestoreService.deleteProcessMovement(process.id, movement.id);
+        if (success) {
+          setMovements(prev => prev.filter(m => m.id !== movement.id));
+        }
+      } catch (error) {
+        console.error('Erro ao excluir andamento:', error);
+        alert('Erro ao excluir andamento. Tente novamente.');
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Andamentos</h3>
+        {!showForm && (
+          <button
+            type="button"
+            onClick={openNewForm}
+            className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-4 h-4 mr-2" />
+            Novo Andamento
+          </button>
+        )}
+      </div>
+
+      {/* Formulário de andamento */}
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 bg-gray-50 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Data *</label>
+              <input
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tipo *</label>
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value as ProcessMovement['type'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                disabled={saving}
+              >
+                {Object.keys(MOVEMENT_TYPES).map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Autor *</label>
+              <input
+                type="text"
+                list="movement-authors"
+                value={formData.author}
+                onChange={(e) => setFormData({ ...formData, author: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Quem registrou"
+                disabled={saving}
+              />
+              <datalist id="movement-authors">
+                {process.responsibleLawyers?.map((lawyer) => (
+                  <option key={lawyer} value={lawyer} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Descrição *</label>
+            <textarea
+              rows={3}
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Descreva o andamento..."
+              disabled={saving}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Anexo</label>
+            <input
+              type="text"
+              value={formData.attachment}
+              onChange={(e) => setFormData({ ...formData, attachment: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Nome do arquivo anexado (opcional)"
+              disabled={saving}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-3">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+              disabled={saving}
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? 'Salvando...' : (editingMovement ? 'Atualizar' : 'Salvar')} Andamento
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Linha do tempo */}
+      {loading ? (
+        <p className="text-gray-500">Carregando andamentos...</p>
+      ) : movements.length === 0 ? (
+        <p className="text-gray-500">Nenhum andamento registrado</p>
+      ) : (
+        <ol className="border-l-2 border-gray-200 ml-4">
+          {movements.map((movement) => {
+            const config = MOVEMENT_TYPES[movement.type] || MOVEMENT_TYPES['Outro'];
+            const IconComponent = config.icon;
+
+            return (
+              <li key={movement.id} className="relative mb-6 ml-6">
+                <span className={`absolute -left-10 flex items-center justify-center w-8 h-8 rounded-full ring-4 ring-white ${config.color}`}>
+                  <IconComponent className="w-4 h-4" />
+                </span>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${config.color}`}>
+                        {movement.type}
+                      </span>
+                      <time className="text-sm text-gray-500">
+                        {format(parseISO(movement.date), "dd 'de' MMMM 'de' yyyy", { locale: ptBR })}
+                      </time>
+                    </div>
+                    <p className="text-gray-900 mt-2 whitespace-pre-wrap">{movement.description}</p>
+                    <p className="text-xs text-gray-500 mt-1">Por {movement.author}</p>
+                    {movement.attachment && (
+                      <p className="flex items-center text-sm text-blue-700 mt-1">
+                        <PaperClipIcon className="w-4 h-4 mr-1" />
+                        {movement.attachment}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <button
+                      type="button"
+                      onClick={() => openEditForm(movement)}
+                      className="text-amber-600 hover:text-amber-900 p-1 rounded hover:bg-amber-50"
+                      title="Editar"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(movement)}
+                      className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
+                      title="Excluir"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { Process } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+
+interface ProcessPickerProps {
+  value: string | null; // id do processo selecionado
+  onChange: (process: Process | null) => void;
+  clientId?: string | null;
+  disabled?: boolean;
+}
+
+/**
+ * Seleção opcional do processo relacionado. Com um cliente cadastrado
+ * escolhido, os processos dele aparecem primeiro.
+ */
+export default function ProcessPicker({ value, onChange, clientId, disabled }: ProcessPickerProps) {
+  const [processes, setProcesses] = useState<Process[]>([]);
+
+  useEffect(() => {
+    firestoreService.getProcesses().then(setProcesses);
+  }, []);
+
+  const clientProcesses = clientId ? processes.filter(process => process.clientId === clientId) : [];
+  const otherProcesses = processes.filter(process => !clientProcesses.includes(process));
+
+  const renderOption = (process: Process) => (
+    <option key={process.id} value={process.id}>
+      {process.processNumber} - {process.name}
+    </option>
+  );
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(processes.find(process => process.id === e.target.value) || null)}
+      disabled={disabled}
+      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+    >
+      <option value="">Nenhum processo (opcional)</option>
+      {clientProcesses.length > 0 ? (
+        <>
+          <optgroup label="Processos do cliente">
+            {clientProcesses.map(renderOption)}
+          </optgroup>
+          <optgroup label="Outros processos">
+            {otherProcesses.map(renderOption)}
+          </optgroup>
+        </>
+      ) : (
+        otherProcesses.map(renderOption)
+      )}
+    </select>
+  );
+}
@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
-import { Process } from '../../types';
-import { ArrowLeftIcon, PencilIcon, DocumentIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import React, { useState, useEffect } from 'react';
+import { Document, Process } from '../../types';
+import { ArrowLeftIcon, PencilIcon, DocumentIcon, DocumentTextIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { firestoreService } from '../../services/firestoreService';
+import ProcessMovements from './ProcessMovements';
 
 interface ProcessViewProps {
   process: Process;
@@ -14,6 +15,14 @@ interface ProcessViewProps {
 
 export default function ProcessView({ process, onBack, onEdit, onUpdate }: ProcessViewProps) {
   const [loading, setLoading] = useState(false);
+  const [documents, setDocuments] = useState<Document[]>([]);
+
+  useEffect(() => {
+    // Documentos gerados vinculados a este processo
+    firestoreService.getDocuments()
+      .then(loaded => setDocuments(loaded.filter(document => document.processId === process.id)))
+      .catch(error => console.error('Erro ao carregar documentos do processo:', error));
+  }, [process.id]);
 
   const formatDate = (dateString: string) => {
     return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
@@ -185,6 +194,32 @@ export default function ProcessView({ process, onBack, onEdit, onUpdate }: Proce
           </div>
         )}
 
+        {/* Movements */}
+        <ProcessMovements process={process} />
+
+        {/* Generated Documents */}
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Documentos Gerados ({documents.length})</h3>
+          {documents.length > 0 ? (
+            <div className="divide-y divide-gray-100">
+              {documents.map(document => (
+                <div key={document.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center">
+                    <DocumentTextIcon className="w-5 h-5 text-gray-400 mr-3" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{document.type}</p>
+                      <p className="text-xs text-gray-500">{document.client}</p>
+                    </div>
+                  </div>
+                  <p className="text-sm text-gray-500">{formatDate(document.createdAt)}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500">Nenhum documento gerado para este processo</p>
+          )}
+        </div>
+
         {/* Attachments */}
         <div className="bg-white rounded-lg shadow p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Documentos Anexos</h3>
@@ -20,19 +20,24 @@ import {
   Pie,
   Cell
 } from 'recharts';
-import { firestoreService } from '../../services/firestoreService';
-import { Process, CalendarEvent } from '../../types';
+import { FinancialSummary, firestoreService } from '../../services/firestoreService';
+import { Process, CalendarEvent, Revenue, Expense, FinancialCategory } from '../../types';
+import { CategoryTotal, summarizeByCategory } from '../../utils/financialCategories';
 import jsPDF from 'jspdf';
 
 export default function Reports() {
   const [selectedPeriod, setSelectedPeriod] = useState('month');
   const [processes, setProcesses] = useState<Process[]>([]);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [financialSummary, setFinancialSummary] = useState({
+  const [revenues, setRevenues] = useState<Revenue[]>([]);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [categories, setCategories] = useState<FinancialCategory[]>([]);
+  const [financialSummary, setFinancialSummary] = useState<FinancialSummary>({
     totalRevenue: 0,
     totalExpenses: 0,
     balance: 0,
-    monthlyData: []
+    monthlyData: [],
+    expenseForecast: []
   });
   const [loading, setLoading] = useState(true);
 
@@ -42,15 +47,28 @@ export default function Reports() {
 
   const loadReportData = async () => {
     try {
-      const [loadedProcesses, loadedEvents, loadedFinancialSummary] = await Promise.all([
+      const [
+        loadedProcesses,
+        loadedEvents,
+        loadedFinancialSummary,
+        loadedRevenues,
+        loadedExpenses,
+        loadedCategories
+      ] = await Promise.all([
         firestoreService.getProcesses(),
         firestoreService.getEvents(),
-        firestoreService.getFinancialSummary()
+        firestoreService.getFinancialSummary(),
+        firestoreService.getRevenues(),
+        firestoreService.getExpenses(),
+        firestoreService.getFinancialCategories()
       ]);
       
       setProcesses(loadedProcesses);
       setEvents(loadedEvents);
       setFinancialSummary(loadedFinancialSummary);
+      setRevenues(loadedRevenues);
+      setExpenses(loadedExpenses);
+      setCategories(loadedCategories);
       
       console.log('Dados do relatório carregados');
     } catch (error) {
@@ -84,6 +102,10 @@ export default function Reports() {
     profit: item.revenue - item.expenses
   }));
 
+  // Totais por categoria principal, com as cores configuradas
+  const revenueByCategory = summarizeByCategory(revenues, categories, 'receita');
+  const expensesByCategory = summarizeByCategory(expenses, categories, 'despesa');
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -211,20 +233,62 @@ export default function Reports() {
     doc.text(`• Eventos Concluídos: ${completedEvents}`, 25, yPosition);
     yPosition += 10;
     doc.text(`• Taxa de Conclusão: ${totalEvents > 0 ? ((completedEvents / totalEvents) * 100).toFixed(1) : 0}%`, 25, yPosition);
+    yPosition += 20;
     
-    // Footer com informações do sistema
-    doc.setDrawColor(...lightGray);
-    doc.setLineWidth(0.5);
-    doc.line(20, 280, 190, 280);
+    // Receitas e despesas por categoria, com a cor de cada categoria
+    const addCategorySection = (title: string, totals: CategoryTotal[], total: number) => {
+      if (yPosition > 250) {
+        doc.addPage();
+        yPosition = 30;
+      }
+      doc.setTextColor(darkGray[0], darkGray[1], darkGray[2]);
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text(title, 20, yPosition);
+      yPosition += 15;
+      
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      if (totals.length === 0) {
+        doc.text('• Nenhum lançamento', 25, yPosition);
+        yPosition += 10;
+      }
+      totals.forEach(item => {
+        if (yPosition > 270) {
+          doc.addPage();
+          yPosition = 30;
+        }
+        const hex = item.color.replace('#', '');
+        doc.setFillColor(parseInt(hex.slice(0, 2), 16), parseInt(hex.slice(2, 4), 16), parseInt(hex.slice(4, 6), 16));
+        doc.rect(25, yPosition - 3, 3, 3, 'F');
+        doc.setTextColor(darkGray[0], darkGray[1], darkGray[2]);
+        const share = total > 0 ? ((item.total / total) * 100).toFixed(1) : '0.0';
+        doc.text(`${item.name}: ${formatCurrency(item.total)} (${share}%)`, 31, yPosition);
+        yPosition += 8;
+      });
+      yPosition += 12;
+    };
     
-    doc.setTextColor(...lightGray);
-    doc.setFontSize(8);
-    doc.setFont(undefined, 'normal');
-    doc.text('Relatório gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
-    doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
+    addCategorySection('RECEITAS POR CATEGORIA', revenueByCategory, revenueByCategory.reduce((sum, item) => sum + item.total, 0));
+    addCategorySection('DESPESAS POR CATEGORIA', expensesByCategory, expensesByCategory.reduce((sum, item) => sum + item.total, 0));
     
-    // Número da página
-    doc.text('Página 1 de 1', 190, 290, { align: 'right' });
+    // Footer com informações do sistema em todas as páginas
+    const pageCount = doc.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page);
+      doc.setDrawColor(...lightGray);
+      doc.setLineWidth(0.5);
+      doc.line(20, 280, 190, 280);
+      
+      doc.setTextColor(...lightGray);
+      doc.setFontSize(8);
+      doc.setFont(undefined, 'normal');
+      doc.text('Relatório gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
+      doc.text(`Data de geração: ${new Date().toLocaleDateString('pt-BR')} às ${new Date().toLocaleTimeString('pt-BR')}`, 20, 290);
+      
+      // Número da página
+      doc.text(`Página ${page} de ${pageCount}`, 190, 290, { align: 'right' });
+    }
     
     doc.save(`relatorio_${selectedPeriod}_${new Date().toISOString().split('T')[0]}.pdf`);
   };
@@ -353,6 +417,37 @@ export default function Reports() {
         </div>
       </div>
 
+      {/* Category Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+        {[
+          { title: 'Receitas por Categoria', data: revenueByCategory },
+          { title: 'Despesas por Categoria', data: expensesByCategory }
+        ].map(chart => (
+          <div key={chart.title} className="bg-white rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">{chart.title}</h3>
+            {chart.data.length === 0 ? (
+              <p className="text-gray-500 text-sm">Nenhum lançamento</p>
+            ) : (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chart.data} layout="vertical" margin={{ left: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                    <XAxis type="number" stroke="#6b7280" fontSize={12} />
+                    <YAxis type="category" dataKey="name" stroke="#6b7280" fontSize={12} width={110} />
+                    <Tooltip formatter={(value: number) => [formatCurrency(value), 'Total']} />
+                    <Bar dataKey="total">
+                      {chart.data.map(entry => (
+                        <Cell key={entry.id} fill={entry.color} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
       {/* Detailed Tables */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Financial Performance */}
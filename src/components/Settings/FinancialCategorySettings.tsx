@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import { PencilIcon, PlusIcon, TagIcon } from '@heroicons/react/24/outline';
+import { FinancialCategory, FinancialCategoryKind } from '../../types';
+import { firestoreService } from '../../services/firestoreService';
+import { CATEGORY_COLORS, CATEGORY_KIND_LABELS, NewFinancialCategory, getCategoryOptions } from '../../utils/financialCategories';
+
+export default function FinancialCategorySettings() {
+  const [categories, setCategories] = useState<FinancialCategory[] | null>(null);
+  const [kind, setKind] = useState<FinancialCategoryKind>('receita');
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [newColor, setNewColor] = useState(CATEGORY_COLORS[0]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    setCategories(await firestoreService.getFinancialCategories());
+  };
+
+  const updateCategory = async (category: FinancialCategory, changes: Partial<NewFinancialCategory>) => {
+    if (await firestoreService.updateFinancialCategory(category.id, changes)) {
+      setCategories(prev => (prev || []).map(item => item.id === category.id ? { ...item, ...changes } : item));
+    } else {
+      alert('Erro ao atualizar categoria. Tente novamente.');
+    }
+  };
+
+  const isDuplicate = (name: string, parentId: string | null, ignoreId?: string) =>
+    (categories || []).some(category =>
+      category.kind === kind &&
+      category.parentId === parentId &&
+      category.id !== ignoreId &&
+      category.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+
+  const handleRename = async (category: FinancialCategory) => {
+    const name = prompt('Novo nome da categoria:', category.name);
+    if (name === null || !name.trim() || name.trim() === category.name) return;
+    if (isDuplicate(name, category.parentId, category.id)) {
+      alert('Já existe uma categoria com este nome.');
+      return;
+    }
+    await updateCategory(category, { name: name.trim() });
+  };
+
+  const handleToggleActive = async (category: FinancialCategory) => {
+    const children = (categories || []).filter(item => item.parentId === category.id && item.active);
+    if (category.active && children.length > 0 && !confirm(
+      `Desativar "${category.name}"? As ${children.length} subcategorias continuam ativas.\n\n` +
+      'Categorias inativas não aparecem nos novos lançamentos, mas continuam nos relatórios.'
+    )) return;
+    await updateCategory(category, { active: !category.active });
+  };
+
+  const handleAdd = async () => {
+    const parentId = newParentId || null;
+    if (!newName.trim()) {
+      alert('Informe o nome da categoria.');
+      return;
+    }
+    if (isDuplicate(newName, parentId)) {
+      alert('Já existe uma categoria com este nome.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await firestoreService.saveFinancialCategory({
+        kind,
+        name: newName.trim(),
+        parentId,
+        color: newColor,
+        active: true
+      });
+      if (!saved) {
+        alert('Erro ao salvar categoria. Tente novamente.');
+        return;
+      }
+      setCategories(prev => [...(prev || []), saved]);
+      setNewName('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const options = getCategoryOptions(categories || [], kind, { includeInactive: true });
+  const roots = options.filter(option => option.depth === 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+        <TagIcon className="w-5 h-5 mr-2" />
+        Categorias Financeiras
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Categorias e subcategorias usadas nos lançamentos, filtros e relatórios do financeiro.
+        Categorias em uso não são excluídas: desative as que não forem mais usadas.
+      </p>
+
+      <div className="flex space-x-1 bg-gray-100 rounded-lg p-1 mb-4 w-fit">
+        {(Object.keys(CATEGORY_KIND_LABELS) as FinancialCategoryKind[]).map(item => (
+          <button
+            key={item}
+            onClick={() => { setKind(item); setNewParentId(''); }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+              kind === item ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {CATEGORY_KIND_LABELS[item]}
+          </button>
+        ))}
+      </div>
+
+      {!categories ? (
+        <p className="text-gray-500 text-sm">Carregando categorias...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {options.map(option => {
+              const category = categories.find(item => item.id === option.id)!;
+              return (
+                <div
+                  key={category.id}
+                  className={`flex items-center justify-between px-3 py-2 ${option.depth > 0 ? 'pl-10' : ''}`}
+                >
+                  <div className="flex items-center">
+                    <input
+                      type="color"
+                      value={category.color}
+                      onChange={(e) => setCategories(prev => (prev || []).map(item =>
+                        item.id === category.id ? { ...item, color: e.target.value } : item
+                      ))}
+                      onBlur={() => updateCategory(category, { color: category.color })}
+                      className="w-6 h-6 mr-3 border-0 p-0 bg-transparent cursor-pointer"
+                      title="Cor"
+                    />
+                    <span className={`text-sm ${category.active ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                      {category.name}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleRename(category)}
+                      className="text-blue-600 hover:text-blue-900"
+                      title="Renomear"
+                    >
+                      <PencilIcon className="w-4 h-4" />
+                    </button>
+                    <label className="flex items-center text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={category.active}
+                        onChange={() => handleToggleActive(category)}
+                        className="mr-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      Ativa
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+            {options.length === 0 && (
+              <p className="px-3 py-4 text-sm text-gray-500">Nenhuma categoria cadastrada</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="color"
+              value={newColor}
+              onChange={(e) => setNewColor(e.target.value)}
+              className="w-9 h-9 border border-gray-300 rounded-lg p-1 bg-white cursor-pointer"
+              title="Cor"
+            />
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Nova categoria"
+            />
+            <select
+              value={newParentId}
+              onChange={(e) => setNewParentId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">Categoria principal</option>
+              {roots.map(root => (
+                <option key={root.id} value={root.id}>Subcategoria de {root.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              disabled={saving}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <PlusIcon className="w-4 h-4 mr-1" />
+              Adicionar
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react';
+import { BellAlertIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { CalendarEvent, EmailDigestSettings, ReminderRule, ReminderSettings as ReminderSettingsData } from '../../types';
+import { notificationService } from '../../services/notificationService';
+import { DEFAULT_REMINDER_RULES } from '../../utils/reminders';
+
+const EVENT_TYPES: Array<CalendarEvent['type'] | 'Todos'> = [
+  'Todos', 'Audiência', 'Reunião com Cliente', 'Prazo Processual', 'Prazo Interno', 'Ligação Importante', 'Outro'
+];
+
+const PRIORITIES: Array<ReminderRule['priority']> = ['Todas', 'Baixa', 'Média', 'Alta', 'Urgente'];
+
+const parseOffsets = (value: string) => [...new Set(
+  value.split(/[,;\s]+/).map(part => parseInt(part, 10)).filter(days => !isNaN(days) && days >= 0)
+)].sort((a, b) => b - a);
+
+export default function ReminderSettings() {
+  const [settings, setSettings] = useState<ReminderSettingsData | null>(null);
+  const [offsetInputs, setOffsetInputs] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const applySettings = (loaded: ReminderSettingsData) => {
+    setSettings(loaded);
+    setOffsetInputs(Object.fromEntries(loaded.rules.map(rule => [rule.id, rule.offsets.join(', ')])));
+  };
+
+  const loadSettings = async () => {
+    const loaded = await notificationService.getSettings();
+    setSettings(loaded);
+    setOffsetInputs(Object.fromEntries(loaded.rules.map(rule => [rule.id, rule.offsets.join(', ')])));
+  };
+
+  const updateRule = (id: string, changes: Partial<ReminderRule>) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      rules: settings.rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule)
+    });
+  };
+
+  const handleAddRule = () => {
+    if (!settings) return;
+    const rule: ReminderRule = { id: Date.now().toString(), eventType: 'Todos', priority: 'Todas', offsets: [1] };
+    setSettings({ ...settings, rules: [...settings.rules, rule] });
+    setOffsetInputs({ ...offsetInputs, [rule.id]: '1' });
+  };
+
+  const handleRemoveRule = (id: string) => {
+    if (!settings) return;
+    setSettings({ ...settings, rules: settings.rules.filter(rule => rule.id !== id) });
+  };
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    if (!settings) return;
+    if (enabled && !(await notificationService.requestBrowserPermission())) {
+      alert('O navegador não permitiu notificações. Verifique as permissões do site.');
+      return;
+    }
+    setSettings({ ...settings, browserNotifications: enabled });
+  };
+
+  const updateEmailDigest = (changes: Partial<EmailDigestSettings>) => {
+    if (!settings) return;
+    setSettings({ ...settings, emailDigest: { enabled: false, days: 7, ...settings.emailDigest, ...changes } });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const rules = settings.rules.map(rule => ({ ...rule, offsets: parseOffsets(offsetInputs[rule.id] || '') }));
+    if (rules.some(rule => rule.offsets.length === 0)) {
+      alert('Informe ao menos uma antecedência (em dias) para cada regra.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = { ...settings, rules };
+      if (await notificationService.saveSettings(saved)) {
+        applySettings(saved);
+        alert('Configurações de lembretes salvas!');
+      } else {
+        alert('Erro ao salvar configurações de lembretes.');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestoreDefaults = () => {
+    if (!settings) return;
+    if (confirm('Restaurar as regras de lembrete padrão?')) {
+      applySettings({ ...settings, rules: DEFAULT_REMINDER_RULES });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+        <BellAlertIcon className="w-5 h-5 mr-2" />
+        Lembretes da Agenda
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Dias de antecedência para avisar sobre compromissos pendentes (0 = no próprio dia).
+        Vale a regra mais específica para o tipo e a prioridade do evento.
+      </p>
+
+      {!settings ? (
+        <p className="text-gray-500 text-sm">Carregando configurações...</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {settings.rules.map(rule => (
+              <div key={rule.id} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                <select
+                  value={rule.eventType}
+                  onChange={(e) => updateRule(rule.id, { eventType: e.target.value as ReminderRule['eventType'] })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {EVENT_TYPES.map(type => (
+                    <option key={type} value={type}>{type === 'Todos' ? 'Todos os tipos' : type}</option>
+                  ))}
+                </select>
+                <select
+                  value={rule.priority}
+                  onChange={(e) => updateRule(rule.id, { priority: e.target.value as ReminderRule['priority'] })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {PRIORITIES.map(priority => (
+                    <option key={priority} value={priority}>{priority === 'Todas' ? 'Todas as prioridades' : priority}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={offsetInputs[rule.id] || ''}
+                  onChange={(e) => setOffsetInputs({ ...offsetInputs, [rule.id]: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  placeholder="Ex: 7, 3, 1"
+                />
+                <button
+                  onClick={() => handleRemoveRule(rule.id)}
+                  className="text-red-600 hover:text-red-900 p-2 rounded hover:bg-red-50 justify-self-start"
+                  title="Remover regra"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleAddRule}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Adicionar regra
+          </button>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.browserNotifications}
+              onChange={(e) => handleBrowserToggle(e.target.checked)}
+              disabled={!notificationService.isBrowserSupported()}
+              className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            Exibir notificações do navegador enquanto o LegalX estiver aberto
+          </label>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={settings.emailDigest?.enabled || false}
+                onChange={(e) => updateEmailDigest({ enabled: e.target.checked })}
+                className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              Receber diariamente por email o resumo dos compromissos dos próximos
+            </label>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={settings.emailDigest?.days || 7}
+              onChange={(e) => updateEmailDigest({ days: Math.min(60, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              disabled={!settings.emailDigest?.enabled}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            />
+            <span>dias (inclui os atrasados)</span>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              onClick={handleRestoreDefaults}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Restaurar Padrão
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Salvando...' : 'Salvar Lembretes'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,6 +17,9 @@ import {
 } from '@heroicons/react/24/outline';
 import { firestoreService } from '../../services/firestoreService';
 import { auth } from '../../firebase.config';
+import ReminderSettings from './ReminderSettings';
+import FinancialCategorySettings from './FinancialCategorySettings';
+import { DEFAULT_EXPENSE_CATEGORY_ID, DEFAULT_REVENUE_CATEGORY_ID } from '../../utils/financialCategories';
 
 export default function Settings() {
   const [stats, setStats] = useState<any>(null);
@@ -167,12 +170,13 @@ export default function Settings() {
       setLoading(true);
       
       // Buscar todos os dados
-      const [processes, events, revenues, expenses, documents, lawyers, employees] = await Promise.all([
+      const [processes, events, revenues, expenses, documents, clients, lawyers, employees] = await Promise.all([
         firestoreService.getProcesses(),
         firestoreService.getEvents(),
         firestoreService.getRevenues(),
         firestoreService.getExpenses(),
         firestoreService.getDocuments(),
+        firestoreService.getClients(),
         firestoreService.getLawyers(),
         firestoreService.getEmployees()
       ]);
@@ -188,6 +192,7 @@ export default function Settings() {
           revenues,
           expenses,
           documents,
+          clients,
           lawyers,
           employees
         }
@@ -263,6 +268,7 @@ Isso inclui:
 - Todos os eventos da agenda
 - Todas as receitas e despesas
 - Todos os documentos
+- Todos os clientes
 - Todos os advogados e colaboradores
 
 Esta ação NÃO PODE ser desfeita!
@@ -281,12 +287,13 @@ Digite "CONFIRMAR EXCLUSÃO" para prosseguir:
       setLoading(true);
       
       // Buscar todos os dados para exclusão
-      const [processes, events, revenues, expenses, documents, lawyers, employees] = await Promise.all([
+      const [processes, events, revenues, expenses, documents, clients, lawyers, employees] = await Promise.all([
         firestoreService.getProcesses(),
         firestoreService.getEvents(),
         firestoreService.getRevenues(),
         firestoreService.getExpenses(),
         firestoreService.getDocuments(),
+        firestoreService.getClients(),
         firestoreService.getLawyers(),
         firestoreService.getEmployees()
       ]);
@@ -298,6 +305,7 @@ Digite "CONFIRMAR EXCLUSÃO" para prosseguir:
         ...revenues.map(r => firestoreService.deleteRevenue(r.id)),
         ...expenses.map(e => firestoreService.deleteExpense(e.id)),
         ...documents.map(d => firestoreService.deleteDocument(d.id)),
+        ...clients.map(c => firestoreService.deleteClient(c.id)),
         ...lawyers.map(l => firestoreService.deleteLawyer(l.id)),
         ...employees.map(e => firestoreService.deleteEmployee(e.id))
       ];
@@ -371,6 +379,7 @@ Digite "CONFIRMAR EXCLUSÃO" para prosseguir:
         amount: 15000,
         source: 'Empresa ABC Ltda',
         category: 'Honorário',
+        categoryId: DEFAULT_REVENUE_CATEGORY_ID,
         client: 'Empresa ABC Ltda',
         responsibleLawyers: sampleLawyer ? [sampleLawyer.fullName] : [],
         description: 'Honorários advocatícios - entrada do processo'
@@ -381,6 +390,7 @@ Digite "CONFIRMAR EXCLUSÃO" para prosseguir:
         amount: 1200,
         type: 'Aluguel do escritório',
         category: 'Aluguel',
+        categoryId: DEFAULT_EXPENSE_CATEGORY_ID,
         description: 'Aluguel mensal do escritório',
         responsibleMembers: sampleEmployee ? [sampleEmployee.fullName] : []
       });
@@ -618,6 +628,12 @@ Digite "CONFIRMAR EXCLUSÃO" para prosseguir:
         </div>
       </div>
 
+      {/* Reminders */}
+      <ReminderSettings />
+
+      {/* Financial categories */}
+      <FinancialCategorySettings />
+
       {/* Instructions */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-blue-900 mb-3">Instruções de Uso</h3>
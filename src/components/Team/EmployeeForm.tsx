@@ -5,10 +5,11 @@ import * as yup from 'yup';
 import { Employee } from '../../types';
 import { ArrowLeftIcon, PhotoIcon } from '@heroicons/react/24/outline';
 import { firestoreService } from '../../services/firestoreService';
+import { cpfSchema, formatCpf, normalizeCpf } from '../../utils/cpfCnpj';
 
 const schema = yup.object({
   fullName: yup.string().required('Nome completo é obrigatório'),
-  cpf: yup.string().required('CPF é obrigatório'),
+  cpf: cpfSchema(),
   salary: yup.number().min(0, 'Salário deve ser positivo').required('Salário é obrigatório'),
   position: yup.string().required('Função é obrigatória'),
   email: yup.string().email('Email inválido'),
@@ -45,6 +46,7 @@ export default function EmployeeForm({ employee, onBack, onSave }: EmployeeFormP
       Object.keys(employee).forEach((key) => {
         setValue(key as keyof Employee, employee[key as keyof Employee]);
       });
+      setValue('cpf', formatCpf(employee.cpf));
       setPhotoPreview(employee.photo || '');
     }
   }, [employee, setValue]);
@@ -56,6 +58,7 @@ export default function EmployeeForm({ employee, onBack, onSave }: EmployeeFormP
       setLoading(true);
       const employeeData = {
         ...data,
+        cpf: normalizeCpf(data.cpf || ''),
         photo: photoPreview
       } as Omit<Employee, 'id' | 'createdAt'>;
 
@@ -95,15 +98,6 @@ export default function EmployeeForm({ employee, onBack, onSave }: EmployeeFormP
     }
   };
 
-  const formatCpf = (value: string) => {
-    return value
-      .replace(/\D/g, '')
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d{1,2})/, '$1-$2')
-      .replace(/(-\d{2})\d+?$/, '$1');
-  };
-
   return (
     <div className="p-6">
       {/* Header */}
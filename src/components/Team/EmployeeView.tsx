@@ -4,6 +4,7 @@ import { ArrowLeftIcon, PencilIcon, BriefcaseIcon, EnvelopeIcon, PhoneIcon, MapP
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { firestoreService } from '../../services/firestoreService';
+import { formatCpf } from '../../utils/cpfCnpj';
 
 interface EmployeeViewProps {
   employee: Employee;
@@ -17,10 +18,6 @@ export default function EmployeeView({ employee, onBack, onEdit, onUpdate }: Emp
     return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
   };
 
-  const formatCpf = (cpf: string) => {
-    return cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
-  };
-
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -2,14 +2,23 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { yupResolver } from '@hookform/resolvers/yup';
 import * as yup from 'yup';
-import { Lawyer } from '../../types';
-import { ArrowLeftIcon, PlusIcon, XMarkIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { Lawyer, OabRegistration } from '../../types';
+import { ArrowLeftIcon, PlusIcon, XMarkIcon, PhotoIcon, TrashIcon } from '@heroicons/react/24/outline';
 import { firestoreService } from '../../services/firestoreService';
+import { cpfSchema, formatCpf, normalizeCpf } from '../../utils/cpfCnpj';
+import { BRAZILIAN_STATES } from '../../utils/states';
+import {
+  OAB_TYPES,
+  getLawyerOabs,
+  getPrincipalOab,
+  normalizeOabNumber,
+  toOabCode,
+  validateOabRegistrations
+} from '../../utils/oab';
 
 const schema = yup.object({
   fullName: yup.string().required('Nome completo é obrigatório'),
-  cpf: yup.string().required('CPF é obrigatório'),
-  oab: yup.string().required('OAB é obrigatória'),
+  cpf: cpfSchema(),
   commission: yup.number().min(0, 'Comissão deve ser positiva').max(100, 'Comissão não pode ser maior que 100%').required('Comissão é obrigatória'),
   email: yup.string().email('Email inválido'),
   phone: yup.string(),
@@ -26,6 +35,10 @@ interface LawyerFormProps {
 export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps) {
   const [specialties, setSpecialties] = useState<string[]>(lawyer?.specialties || []);
   const [newSpecialty, setNewSpecialty] = useState('');
+  const [oabRegistrations, setOabRegistrations] = useState<OabRegistration[]>(
+    lawyer ? getLawyerOabs(lawyer) : [{ number: '', state: '', type: 'Principal' }]
+  );
+  const [oabError, setOabError] = useState<string | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string>(lawyer?.photo || '');
   const [loading, setLoading] = useState(false);
   
@@ -47,16 +60,29 @@ export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps)
       Object.keys(lawyer).forEach((key) => {
         setValue(key as keyof Lawyer, lawyer[key as keyof Lawyer]);
       });
+      setValue('cpf', formatCpf(lawyer.cpf));
       setSpecialties(lawyer.specialties || []);
+      setOabRegistrations(getLawyerOabs(lawyer));
       setPhotoPreview(lawyer.photo || '');
     }
   }, [lawyer, setValue]);
 
   const onSubmit = async (data: Partial<Lawyer>) => {
+    const registrations = oabRegistrations.map(registration => ({
+      ...registration,
+      number: normalizeOabNumber(registration.number)
+    }));
+    const registrationError = validateOabRegistrations(registrations);
+    setOabError(registrationError);
+    if (registrationError) return;
+
     setLoading(true);
     try {
       const lawyerData = {
         ...data,
+        cpf: normalizeCpf(data.cpf || ''),
+        oab: toOabCode(getPrincipalOab(registrations)!),
+        oabRegistrations: registrations,
         specialties,
         photo: photoPreview
       } as Omit<Lawyer, 'id' | 'createdAt'>;
@@ -97,6 +123,23 @@ export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps)
     setSpecialties(specialties.filter((_, i) => i !== index));
   };
 
+  const addOabRegistration = () => {
+    setOabRegistrations([
+      ...oabRegistrations,
+      { number: '', state: '', type: oabRegistrations.length === 0 ? 'Principal' : 'Suplementar' }
+    ]);
+  };
+
+  const updateOabRegistration = (index: number, changes: Partial<OabRegistration>) => {
+    setOabRegistrations(oabRegistrations.map((registration, i) =>
+      i === index ? { ...registration, ...changes } : registration
+    ));
+  };
+
+  const removeOabRegistration = (index: number) => {
+    setOabRegistrations(oabRegistrations.filter((_, i) => i !== index));
+  };
+
   const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -108,15 +151,6 @@ export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps)
     }
   };
 
-  const formatCpf = (value: string) => {
-    return value
-      .replace(/\D/g, '')
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d{1,2})/, '$1-$2')
-      .replace(/(-\d{2})\d+?$/, '$1');
-  };
-
   return (
     <div className="p-6">
       {/* Header */}
@@ -222,22 +256,6 @@ export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps)
                 )}
               </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  OAB *
-                </label>
-                <input
-                  {...register('oab')}
-                  type="text"
-                  disabled={loading}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
-                  placeholder="123456/SP"
-                />
-                {errors.oab && (
-                  <p className="text-red-500 text-sm mt-1">{errors.oab.message}</p>
-                )}
-              </div>
-
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Comissão (%) *
@@ -318,6 +336,70 @@ export default function LawyerForm({ lawyer, onBack, onSave }: LawyerFormProps)
             </div>
           </div>
 
+          {/* OAB Registrations */}
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Inscrições na OAB *</h3>
+              <button
+                type="button"
+                onClick={addOabRegistration}
+                disabled={loading}
+                className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <PlusIcon className="w-4 h-4 mr-2" />
+                Adicionar Inscrição
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              {oabRegistrations.map((registration, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <input
+                    type="text"
+                    value={registration.number}
+                    onChange={(e) => updateOabRegistration(index, { number: normalizeOabNumber(e.target.value) })}
+                    disabled={loading}
+                    className="col-span-5 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    placeholder="Número de inscrição"
+                  />
+                  <select
+                    value={registration.state}
+                    onChange={(e) => updateOabRegistration(index, { state: e.target.value })}
+                    disabled={loading}
+                    className="col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    <option value="">UF</option>
+                    {BRAZILIAN_STATES.map(state => (
+                      <option key={state} value={state}>{state}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={registration.type}
+                    onChange={(e) => updateOabRegistration(index, { type: e.target.value as OabRegistration['type'] })}
+                    disabled={loading}
+                    className="col-span-4 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                  >
+                    {OAB_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => removeOabRegistration(index)}
+                    disabled={loading}
+                    className="col-span-1 flex justify-center text-red-600 hover:text-red-900 p-2 rounded hover:bg-red-50 disabled:opacity-50"
+                    title="Remover inscrição"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {oabError && (
+              <p className="text-red-500 text-sm mt-2">{oabError}</p>
+            )}
+          </div>
+
           {/* Specialties */}
           <div>
             <div className="flex items-center justify-between mb-4">
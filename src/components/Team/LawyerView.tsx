@@ -4,6 +4,8 @@ import { ArrowLeftIcon, PencilIcon, UserIcon, EnvelopeIcon, PhoneIcon, MapPinIco
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { firestoreService } from '../../services/firestoreService';
+import { formatCpf } from '../../utils/cpfCnpj';
+import { formatOab, getLawyerOabs, getPrincipalOab } from '../../utils/oab';
 
 interface LawyerViewProps {
   lawyer: Lawyer;
@@ -17,9 +19,8 @@ export default function LawyerView({ lawyer, onBack, onEdit, onUpdate }: LawyerV
     return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
   };
 
-  const formatCpf = (cpf: string) => {
-    return cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
-  };
+  const oabRegistrations = getLawyerOabs(lawyer);
+  const principalOab = getPrincipalOab(oabRegistrations);
 
   const handleToggleStatus = async () => {
     const newStatus = lawyer.status === 'Ativo' ? 'Inativo' : 'Ativo';
@@ -96,7 +97,7 @@ export default function LawyerView({ lawyer, onBack, onEdit, onUpdate }: LawyerV
             )}
             <div>
               <h2 className="text-2xl font-bold text-gray-900">{lawyer.fullName}</h2>
-              <p className="text-lg text-gray-600">OAB: {lawyer.oab}</p>
+              <p className="text-lg text-gray-600">{principalOab ? formatOab(principalOab) : `OAB: ${lawyer.oab}`}</p>
               <span
                 className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full mt-2 ${
                   lawyer.status === 'Ativo'
@@ -128,6 +129,25 @@ export default function LawyerView({ lawyer, onBack, onEdit, onUpdate }: LawyerV
               <p className="text-gray-900 font-semibold">{lawyer.commission}%</p>
             </div>
 
+            {oabRegistrations.length > 0 && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-500 mb-1">
+                  Inscrições na OAB
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {oabRegistrations.map(registration => (
+                    <span
+                      key={registration.state}
+                      className="inline-flex items-center px-3 py-1 text-sm rounded-full bg-blue-50 text-blue-800"
+                    >
+                      {formatOab(registration)}
+                      <span className="ml-2 text-xs text-blue-600">{registration.type}</span>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {lawyer.email && (
               <div>
                 <label className="block text-sm font-medium text-gray-500 mb-1">
@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Lawyer, Employee } from '../../types';
 import { firestoreService } from '../../services/firestoreService';
+import { formatCpf, normalizeCpf } from '../../utils/cpfCnpj';
+import { formatOab, getLawyerOabs, getLawyerOabStates, getPrincipalOab } from '../../utils/oab';
 import { 
   MagnifyingGlassIcon, 
   FunnelIcon,
@@ -36,6 +38,7 @@ export default function TeamList({
   const [activeTab, setActiveTab] = useState<'lawyers' | 'employees'>('lawyers');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [stateFilter, setStateFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -94,20 +97,27 @@ export default function TeamList({
     }
   };
 
+  const searchDigits = normalizeCpf(searchTerm);
+
+  // UFs das seccionais em que a equipe tem inscrição, para o filtro
+  const lawyerStates = Array.from(new Set(lawyers.flatMap(getLawyerOabStates))).sort();
+
   const filteredLawyers = lawyers.filter(lawyer => {
     const matchesSearch = lawyer.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          lawyer.oab.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         lawyer.cpf.toLowerCase().includes(searchTerm.toLowerCase());
+                         (searchDigits.length > 0 && getLawyerOabs(lawyer).some(registration => registration.number.includes(searchDigits))) ||
+                         (searchDigits.length > 0 && normalizeCpf(lawyer.cpf).includes(searchDigits));
     
     const matchesStatus = statusFilter === 'all' || lawyer.status === statusFilter;
+    const matchesState = stateFilter === 'all' || getLawyerOabStates(lawyer).includes(stateFilter);
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesState;
   });
 
   const filteredEmployees = employees.filter(employee => {
     const matchesSearch = employee.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          employee.position.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         employee.cpf.toLowerCase().includes(searchTerm.toLowerCase());
+                         (searchDigits.length > 0 && normalizeCpf(employee.cpf).includes(searchDigits));
     
     const matchesStatus = statusFilter === 'all' || employee.status === statusFilter;
     
@@ -118,10 +128,6 @@ export default function TeamList({
     return format(new Date(dateString), 'dd/MM/yyyy', { locale: ptBR });
   };
 
-  const formatCpf = (cpf: string) => {
-    return cpf.replace(/(\d{3})(\d{3})(\d{3})(\d{2})/, '$1.$2.$3-$4');
-  };
-
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -239,6 +245,18 @@ export default function TeamList({
               <option value="Ativo">Ativo</option>
               <option value="Inativo">Inativo</option>
             </select>
+            {activeTab === 'lawyers' && (
+              <select
+                value={stateFilter}
+                onChange={(e) => setStateFilter(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="all">Todas as UFs</option>
+                {lawyerStates.map(state => (
+                  <option key={state} value={state}>OAB/{state}</option>
+                ))}
+              </select>
+            )}
           </div>
         </div>
       </div>
@@ -256,111 +274,126 @@ export default function TeamList({
         <>
           {activeTab === 'lawyers' ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredLawyers.map((lawyer) => (
-                <div key={lawyer.id} className="bg-white rounded-lg shadow-md border border-gray-200 hover:shadow-lg transition-shadow">
-                  <div className="p-6">
-                    {/* Photo and Status */}
-                    <div className="flex items-center justify-between mb-4">
-                      <div className="flex items-center">
-                        {lawyer.photo ? (
-                          <img
-                            src={lawyer.photo}
-                            alt={lawyer.fullName}
-                            className="w-12 h-12 rounded-full object-cover mr-3"
-                          />
-                        ) : (
-                          <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mr-3">
-                            <UserIcon className="w-6 h-6 text-blue-600" />
+              {filteredLawyers.map((lawyer) => {
+                const oabRegistrations = getLawyerOabs(lawyer);
+                const principalOab = getPrincipalOab(oabRegistrations);
+
+                return (
+                  <div key={lawyer.id} className="bg-white rounded-lg shadow-md border border-gray-200 hover:shadow-lg transition-shadow">
+                    <div className="p-6">
+                      {/* Photo and Status */}
+                      <div className="flex items-center justify-between mb-4">
+                        <div className="flex items-center">
+                          {lawyer.photo ? (
+                            <img
+                              src={lawyer.photo}
+                              alt={lawyer.fullName}
+                              className="w-12 h-12 rounded-full object-cover mr-3"
+                            />
+                          ) : (
+                            <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mr-3">
+                              <UserIcon className="w-6 h-6 text-blue-600" />
+                            </div>
+                          )}
+                          <div>
+                            <h3 className="text-lg font-semibold text-gray-900">{lawyer.fullName}</h3>
+                            <p className="text-sm text-gray-500">
+                              {principalOab ? formatOab(principalOab) : `OAB: ${lawyer.oab}`}
+                              {oabRegistrations.length > 1 && (
+                                <span
+                                  className="ml-1 text-xs text-blue-600"
+                                  title={oabRegistrations.map(formatOab).join(', ')}
+                                >
+                                  +{oabRegistrations.length - 1}
+                                </span>
+                              )}
+                            </p>
                           </div>
-                        )}
-                        <div>
-                          <h3 className="text-lg font-semibold text-gray-900">{lawyer.fullName}</h3>
-                          <p className="text-sm text-gray-500">OAB: {lawyer.oab}</p>
                         </div>
+                        <span
+                          className={`px-2 py-1 text-xs font-semibold rounded-full ${
+                            lawyer.status === 'Ativo'
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {lawyer.status}
+                        </span>
                       </div>
-                      <span
-                        className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                          lawyer.status === 'Ativo'
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-red-100 text-red-800'
-                        }`}
-                      >
-                        {lawyer.status}
-                      </span>
-                    </div>
 
-                    {/* Details */}
-                    <div className="space-y-2 mb-4">
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-500">CPF:</span>
-                        <span className="text-gray-900">{formatCpf(lawyer.cpf)}</span>
-                      </div>
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-500">Comissão:</span>
-                        <span className="text-gray-900">{lawyer.commission}%</span>
-                      </div>
-                      {lawyer.email && (
+                      {/* Details */}
+                      <div className="space-y-2 mb-4">
                         <div className="flex justify-between text-sm">
-                          <span className="text-gray-500">Email:</span>
-                          <span className="text-gray-900 truncate">{lawyer.email}</span>
+                          <span className="text-gray-500">CPF:</span>
+                          <span className="text-gray-900">{formatCpf(lawyer.cpf)}</span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Comissão:</span>
+                          <span className="text-gray-900">{lawyer.commission}%</span>
+                        </div>
+                        {lawyer.email && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-500">Email:</span>
+                            <span className="text-gray-900 truncate">{lawyer.email}</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-500">Cadastrado:</span>
+                          <span className="text-gray-900">{formatDate(lawyer.createdAt)}</span>
                         </div>
-                      )}
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-500">Cadastrado:</span>
-                        <span className="text-gray-900">{formatDate(lawyer.createdAt)}</span>
                       </div>
-                    </div>
 
-                    {/* Specialties */}
-                    {lawyer.specialties && lawyer.specialties.length > 0 && (
-                      <div className="mb-4">
-                        <p className="text-xs text-gray-500 mb-2">Especialidades:</p>
-                        <div className="flex flex-wrap gap-1">
-                          {lawyer.specialties.slice(0, 3).map((specialty, index) => (
-                            <span
-                              key={index}
-                              className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full"
-                            >
-                              {specialty}
-                            </span>
-                          ))}
-                          {lawyer.specialties.length > 3 && (
-                            <span className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded-full">
-                              +{lawyer.specialties.length - 3}
-                            </span>
-                          )}
+                      {/* Specialties */}
+                      {lawyer.specialties && lawyer.specialties.length > 0 && (
+                        <div className="mb-4">
+                          <p className="text-xs text-gray-500 mb-2">Especialidades:</p>
+                          <div className="flex flex-wrap gap-1">
+                            {lawyer.specialties.slice(0, 3).map((specialty, index) => (
+                              <span
+                                key={index}
+                                className="px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full"
+                              >
+                                {specialty}
+                              </span>
+                            ))}
+                            {lawyer.specialties.length > 3 && (
+                              <span className="px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded-full">
+                                +{lawyer.specialties.length - 3}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {/* Actions */}
-                    <div className="flex items-center justify-end space-x-2 pt-4 border-t">
-                      <button
-                        onClick={() => onViewLawyer(lawyer)}
-                        className="text-blue-600 hover:text-blue-900 p-2 rounded hover:bg-blue-50"
-                        title="Visualizar"
-                      >
-                        <EyeIcon className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => onEditLawyer(lawyer)}
-                        className="text-amber-600 hover:text-amber-900 p-2 rounded hover:bg-amber-50"
-                        title="Editar"
-                      >
-                        <PencilIcon className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDeleteLawyer(lawyer.id)}
-                        className="text-red-600 hover:text-red-900 p-2 rounded hover:bg-red-50"
-                        title="Excluir"
-                        disabled={loading}
-                      >
-                        <TrashIcon className="w-4 h-4" />
-                      </button>
+                      {/* Actions */}
+                      <div className="flex items-center justify-end space-x-2 pt-4 border-t">
+                        <button
+                          onClick={() => onViewLawyer(lawyer)}
+                          className="text-blue-600 hover:text-blue-900 p-2 rounded hover:bg-blue-50"
+                          title="Visualizar"
+                        >
+                          <EyeIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => onEditLawyer(lawyer)}
+                          className="text-amber-600 hover:text-amber-900 p-2 rounded hover:bg-amber-50"
+                          title="Editar"
+                        >
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteLawyer(lawyer.id)}
+                          className="text-red-600 hover:text-red-900 p-2 rounded hover:bg-red-50"
+                          title="Excluir"
+                          disabled={loading}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
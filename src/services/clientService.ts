@@ -0,0 +1,77 @@
+/**
+ * Serviço de clientes para LegalX
+ *
+ * Reúne os registros ligados a um cliente e mantém o nome gravado nesses
+ * registros em sincronia quando o cadastro do cliente é alterado.
+ */
+
+import { CalendarEvent, Client, Document, Process, Revenue } from '../types';
+import { firestoreService } from './firestoreService';
+import { belongsToClient } from '../utils/clients';
+
+export interface ClientRecords {
+  processes: Process[];
+  events: CalendarEvent[];
+  revenues: Revenue[];
+  documents: Document[];
+}
+
+class ClientService {
+
+  async getClientRecords(client: Client): Promise<ClientRecords> {
+    const [processes, events, revenues, documents] = await Promise.all([
+      firestoreService.getProcesses(),
+      firestoreService.getEvents(),
+      firestoreService.getRevenues(),
+      firestoreService.getDocuments()
+    ]);
+
+    return {
+      processes: processes.filter(process => belongsToClient(process, client)),
+      events: events.filter(event => belongsToClient(event, client)),
+      revenues: revenues.filter(revenue => belongsToClient(revenue, client)),
+      documents: documents.filter(document => belongsToClient(document, client))
+    };
+  }
+
+  /**
+   * Atualizar o cadastro. Os registros do cliente (inclusive os antigos,
+   * associados só pelo nome) passam a ter o clientId e o nome atual.
+   */
+  async updateClient(client: Client, changes: Partial<Client>): Promise<Client | null> {
+    const records = changes.name && changes.name !== client.name
+      ? await this.getClientRecords(client)
+      : null;
+
+    const updated = await firestoreService.updateClient(client.id, changes);
+    if (!updated || !records) return updated;
+
+    const link = { client: updated.name, clientId: updated.id };
+    await Promise.all([
+      ...records.processes.map(process => firestoreService.updateProcess(process.id, link)),
+      ...records.events.map(event => firestoreService.updateEvent(event.id, link)),
+      ...records.revenues.map(revenue => firestoreService.updateRevenue(revenue.id, link)),
+      ...records.documents.map(document => firestoreService.updateDocument(document.id, link))
+    ]);
+
+    console.log('Nome do cliente atualizado nos registros vinculados:', updated.name);
+    return updated;
+  }
+
+  /**
+   * Excluir o cadastro. Os registros mantêm o nome do cliente, sem o vínculo.
+   */
+  async deleteClient(client: Client, records: ClientRecords): Promise<boolean> {
+    const unlink = { clientId: null };
+    await Promise.all([
+      ...records.processes.filter(p => p.clientId).map(p => firestoreService.updateProcess(p.id, unlink)),
+      ...records.events.filter(e => e.clientId).map(e => firestoreService.updateEvent(e.id, unlink)),
+      ...records.revenues.filter(r => r.clientId).map(r => firestoreService.updateRevenue(r.id, unlink)),
+      ...records.documents.filter(d => d.clientId).map(d => firestoreService.updateDocument(d.id, unlink))
+    ]);
+
+    return firestoreService.deleteClient(client.id);
+  }
+}
+
+export const clientService = new ClientService();
@@ -12,15 +12,53 @@ import {
   getDocs,
   getDoc,
   updateDoc,
+  setDoc,
   deleteDoc,
   query,
   where,
   orderBy,
   onSnapshot,
-  Timestamp
+  runTransaction,
+  writeBatch,
+  Timestamp,
+  FirestoreError,
+  DocumentData,
+  DocumentReference
 } from 'firebase/firestore';
+import { format } from 'date-fns';
 import { auth, db } from '../firebase.config';
-import { Process, CalendarEvent, Revenue, Expense, Document, Lawyer, Employee } from '../types';
+import { Process, ProcessMovement, CalendarEvent, CustomHoliday, Revenue, Expense, CommissionStatement, Receivable, Payable, RecurringExpense, BankTransaction, FinancialCategory, FinancialCategoryKind, Document, DocumentAuthor, DocumentExport, DocumentRevision, DocumentTemplate, DocumentVersion, NewDocument, NewReceipt, PendingReceipt, ReceiptSaveResult, Client, Lawyer, Employee, ReminderSettings, NotificationState } from '../types';
+import { DOCUMENT_SCHEMA_VERSION, LoadedDocument, loadDocument, validateDocumentPayload } from '../utils/documentPayloads';
+import { toDocumentVersion } from '../utils/documentVersions';
+import { formatReceiptNumber } from '../utils/receiptNumbers';
+import { buildRevenueFromReceipt } from '../utils/receiptRevenues';
+import { CommissionDraft } from '../utils/commissions';
+import { NewReceivable, buildRevenueFromPayment, getReceivableBalance } from '../utils/receivables';
+import {
+  NewRecurringExpense,
+  buildExpenseFromPayable,
+  buildPayablesFromRecurring,
+  getRecurringPayableId,
+  projectPayables
+} from '../utils/payables';
+import { ReconcileKind } from '../utils/bankStatement';
+import { DEFAULT_FINANCIAL_CATEGORIES, NewFinancialCategory, categoryIdFromName, legacyCategoryId } from '../utils/financialCategories';
+import { localStorageService } from './localStorage';
+import { verificationService } from './verificationService';
+
+export interface EventChanges {
+  create?: CalendarEvent[];
+  update?: Array<{ id: string; changes: Partial<CalendarEvent> }>;
+  remove?: string[];
+}
+
+export interface FinancialSummary {
+  totalRevenue: number;
+  totalExpenses: number;
+  balance: number;
+  monthlyData: Array<{ month: string; revenue: number; expenses: number }>;
+  expenseForecast: Array<{ month: string; amount: number }>;
+}
 
 class FirestoreService {
   
@@ -43,6 +81,31 @@ class FirestoreService {
     return collection(db, 'userData', userId, collectionName);
   }
 
+  // Escritório de cada usuário, resolvido uma vez por sessão
+  private officeRefs = new Map<string, DocumentReference>();
+
+  /**
+   * Obter referência do escritório do usuário: a equipe ativa em que ele
+   * entrou primeiro (teams/{teamId}) ou, sem equipe, os próprios dados
+   * (userData/{uid}). Contadores e cadastros compartilhados ficam aqui.
+   */
+  private async getOfficeRef(): Promise<DocumentReference> {
+    const userId = this.getCurrentUserId();
+    const cached = this.officeRefs.get(userId);
+    if (cached) return cached;
+
+    const snapshot = await getDocs(collection(db, 'users', userId, 'teams'));
+    const joinedAt = (data: DocumentData) => String(data.joinedAt?.toDate?.()?.toISOString() || data.joinedAt || '');
+    const team = snapshot.docs
+      .map(doc => doc.data())
+      .filter(data => data.teamId && data.status === 'active')
+      .sort((a, b) => joinedAt(a).localeCompare(joinedAt(b)))[0];
+
+    const officeRef = team ? doc(db, 'teams', team.teamId) : doc(db, 'userData', userId);
+    this.officeRefs.set(userId, officeRef);
+    return officeRef;
+  }
+
   /**
    * PROCESSOS - Métodos CRUD
    */
@@ -131,6 +194,10 @@ class FirestoreService {
       const userId = this.getCurrentUserId();
       const docRef = doc(db, 'userData', userId, 'processes', id);
       
+      // Subcoleções não são removidas junto com o documento no Firestore
+      const movements = await getDocs(this.getMovementsCollection(id));
+      await Promise.all(movements.docs.map(movement => deleteDoc(movement.ref)));
+      
       await deleteDoc(docRef);
       console.log('Processo excluído:', id);
       return true;
@@ -140,6 +207,98 @@ class FirestoreService {
     }
   }
 
+  /**
+   * ANDAMENTOS PROCESSUAIS - Métodos CRUD
+   * Armazenados na subcoleção userData/{uid}/processes/{processId}/movements
+   */
+
+  private getMovementsCollection(processId: string) {
+    const userId = this.getCurrentUserId();
+    return collection(db, 'userData', userId, 'processes', processId, 'movements');
+  }
+
+  async getProcessMovements(processId: string): Promise<ProcessMovement[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getMovementsCollection(processId),
+        orderBy('date', 'desc')
+      ));
+      
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        processId,
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
+      })) as ProcessMovement[];
+    } catch (error) {
+      console.error('Erro ao buscar andamentos:', error);
+      return [];
+    }
+  }
+
+  async saveProcessMovement(
+    processId: string,
+    movement: Omit<ProcessMovement, 'id' | 'processId' | 'createdAt'>
+  ): Promise<ProcessMovement | null> {
+    try {
+      const movementData = {
+        ...movement,
+        createdAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(this.getMovementsCollection(processId), movementData);
+      console.log('Andamento salvo no Firestore:', docRef.id);
+      
+      return {
+        id: docRef.id,
+        processId,
+        ...movement,
+        createdAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar andamento:', error);
+      return null;
+    }
+  }
+
+  async updateProcessMovement(
+    processId: string,
+    id: string,
+    updatedMovement: Partial<ProcessMovement>
+  ): Promise<ProcessMovement | null> {
+    try {
+      const docRef = doc(this.getMovementsCollection(processId), id);
+      
+      await updateDoc(docRef, {
+        ...updatedMovement,
+        updatedAt: Timestamp.now()
+      });
+      console.log('Andamento atualizado:', id);
+      
+      const updated = await getDoc(docRef);
+      return updated.exists() ? {
+        id: updated.id,
+        ...updated.data(),
+        processId,
+        createdAt: updated.data().createdAt?.toDate?.()?.toISOString() || updated.data().createdAt
+      } as ProcessMovement : null;
+    } catch (error) {
+      console.error('Erro ao atualizar andamento:', error);
+      return null;
+    }
+  }
+
+  async deleteProcessMovement(processId: string, id: string): Promise<boolean> {
+    try {
+      await deleteDoc(doc(this.getMovementsCollection(processId), id));
+      console.log('Andamento excluído:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir andamento:', error);
+      return false;
+    }
+  }
+
   /**
    * EVENTOS - Métodos CRUD
    */
@@ -151,9 +310,10 @@ class FirestoreService {
         orderBy('date', 'desc')
       ));
       
+      // O id do documento prevalece sobre um eventual campo id gravado nos dados
       return snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
+        ...doc.data(),
+        id: doc.id
       })) as CalendarEvent[];
     } catch (error) {
       console.error('Erro ao buscar eventos:', error);
@@ -185,7 +345,7 @@ class FirestoreService {
       console.log('Evento atualizado:', id);
       
       const updated = await getDoc(docRef);
-      return updated.exists() ? { id: updated.id, ...updated.data() } as CalendarEvent : null;
+      return updated.exists() ? { ...updated.data(), id: updated.id } as CalendarEvent : null;
     } catch (error) {
       console.error('Erro ao atualizar evento:', error);
       return null;
@@ -206,6 +366,159 @@ class FirestoreService {
     }
   }
 
+  // Id para um evento que será gravado em lote (commitEventChanges)
+  createEventId(): string {
+    return doc(this.getUserCollection('events')).id;
+  }
+
+  // Ocorrências editadas isoladamente de uma série; null se a consulta falhar
+  async getDetachedOccurrences(seriesId: string): Promise<CalendarEvent[] | null> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('events'),
+        where('seriesId', '==', seriesId)
+      ));
+
+      return snapshot.docs.map(doc => ({
+        ...doc.data(),
+        id: doc.id
+      })) as CalendarEvent[];
+    } catch (error) {
+      console.error('Erro ao buscar ocorrências avulsas da série:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gravar em um único lote as alterações de uma série de eventos: os
+   * eventos novos, as atualizações e as exclusões são confirmados juntos
+   */
+  async commitEventChanges(changes: EventChanges): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const eventRef = (id: string) => doc(db, 'userData', userId, 'events', id);
+      const batch = writeBatch(db);
+
+      (changes.create || []).forEach(({ id, ...event }) => batch.set(eventRef(id), event));
+      (changes.update || []).forEach(({ id, changes: eventChanges }) => batch.update(eventRef(id), eventChanges));
+      (changes.remove || []).forEach(id => batch.delete(eventRef(id)));
+
+      await batch.commit();
+      console.log('Série de eventos gravada:', changes.create?.length || 0, 'novos,', changes.update?.length || 0, 'alterados,', changes.remove?.length || 0, 'excluídos');
+      return true;
+    } catch (error) {
+      console.error('Erro ao gravar série de eventos:', error);
+      return false;
+    }
+  }
+
+  /**
+   * FERIADOS CADASTRADOS - Métodos CRUD
+   */
+  
+  async getHolidays(): Promise<CustomHoliday[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('holidays'),
+        orderBy('date', 'asc')
+      ));
+      
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
+      })) as CustomHoliday[];
+    } catch (error) {
+      console.error('Erro ao buscar feriados:', error);
+      return [];
+    }
+  }
+
+  async saveHoliday(holiday: Omit<CustomHoliday, 'id' | 'createdAt'>): Promise<CustomHoliday | null> {
+    try {
+      const holidayData = {
+        ...holiday,
+        createdAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(this.getUserCollection('holidays'), holidayData);
+      console.log('Feriado salvo no Firestore:', docRef.id);
+      
+      return {
+        id: docRef.id,
+        ...holiday,
+        createdAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar feriado:', error);
+      return null;
+    }
+  }
+
+  async deleteHoliday(id: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'holidays', id);
+      
+      await deleteDoc(docRef);
+      console.log('Feriado excluído:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir feriado:', error);
+      return false;
+    }
+  }
+
+  /**
+   * PREFERÊNCIAS DE NOTIFICAÇÃO
+   * Documentos em userData/{uid}/preferences
+   */
+
+  async getReminderSettings(): Promise<ReminderSettings | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      const snapshot = await getDoc(doc(db, 'userData', userId, 'preferences', 'reminders'));
+      return snapshot.exists() ? snapshot.data() as ReminderSettings : null;
+    } catch (error) {
+      console.error('Erro ao buscar configurações de lembretes:', error);
+      return null;
+    }
+  }
+
+  async saveReminderSettings(settings: ReminderSettings): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      await setDoc(doc(db, 'userData', userId, 'preferences', 'reminders'), settings);
+      console.log('Configurações de lembretes salvas');
+      return true;
+    } catch (error) {
+      console.error('Erro ao salvar configurações de lembretes:', error);
+      return false;
+    }
+  }
+
+  async getNotificationState(): Promise<NotificationState | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      const snapshot = await getDoc(doc(db, 'userData', userId, 'preferences', 'notificationState'));
+      return snapshot.exists() ? snapshot.data() as NotificationState : null;
+    } catch (error) {
+      console.error('Erro ao buscar estado das notificações:', error);
+      return null;
+    }
+  }
+
+  async saveNotificationState(state: NotificationState): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      await setDoc(doc(db, 'userData', userId, 'preferences', 'notificationState'), state);
+      return true;
+    } catch (error) {
+      console.error('Erro ao salvar estado das notificações:', error);
+      return false;
+    }
+  }
+
   /**
    * RECEITAS - Métodos CRUD
    */
@@ -217,10 +530,10 @@ class FirestoreService {
         orderBy('date', 'desc')
       ));
       
-      return snapshot.docs.map(doc => ({
+      return this.migrateCategoryIds('revenues', 'receita', snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
-      })) as Revenue[];
+      })) as Revenue[]);
     } catch (error) {
       console.error('Erro ao buscar receitas:', error);
       return [];
@@ -262,9 +575,19 @@ class FirestoreService {
     try {
       const userId = this.getCurrentUserId();
       const docRef = doc(db, 'userData', userId, 'revenues', id);
+      const current = await getDoc(docRef);
       
       await deleteDoc(docRef);
       console.log('Receita excluída:', id);
+
+      const receiptId = current.exists() ? current.data().receiptId : null;
+      if (receiptId) {
+        await this.flagLinkedReceipt(receiptId, `Receita vinculada excluída em ${new Date().toLocaleDateString('pt-BR')}`);
+      }
+      const receivableId = current.exists() ? current.data().receivableId : null;
+      if (receivableId) {
+        await this.removeReceivablePayment(receivableId, id);
+      }
       return true;
     } catch (error) {
       console.error('Erro ao excluir receita:', error);
@@ -283,10 +606,10 @@ class FirestoreService {
         orderBy('date', 'desc')
       ));
       
-      return snapshot.docs.map(doc => ({
+      return this.migrateCategoryIds('expenses', 'despesa', snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data()
-      })) as Expense[];
+      })) as Expense[]);
     } catch (error) {
       console.error('Erro ao buscar despesas:', error);
       return [];
@@ -328,9 +651,15 @@ class FirestoreService {
     try {
       const userId = this.getCurrentUserId();
       const docRef = doc(db, 'userData', userId, 'expenses', id);
+      const snapshot = await getDoc(docRef);
       
       await deleteDoc(docRef);
       console.log('Despesa excluída:', id);
+
+      const payableId = snapshot.exists() ? snapshot.data().payableId : null;
+      if (payableId) {
+        await this.reopenPayable(payableId);
+      }
       return true;
     } catch (error) {
       console.error('Erro ao excluir despesa:', error);
@@ -339,96 +668,1152 @@ class FirestoreService {
   }
 
   /**
-   * DOCUMENTOS - Métodos CRUD
+   * CATEGORIAS FINANCEIRAS
+   * Árvore de categorias do escritório, em {escritório}/financialCategories
+   * (teams/{teamId} ou, sem equipe, userData/{uid})
    */
-  
-  async getDocuments(): Promise<Document[]> {
+
+  private async getFinancialCategoriesCollection() {
+    return collection(await this.getOfficeRef(), 'financialCategories');
+  }
+
+  /**
+   * Na primeira leitura grava as categorias padrão, com os ids usados na
+   * migração. Categorias criadas antes da equipe, em userData/{uid}, são
+   * movidas para o escritório mantendo os ids que os lançamentos referenciam.
+   */
+  async getFinancialCategories(): Promise<FinancialCategory[]> {
     try {
-      const snapshot = await getDocs(query(
-        this.getUserCollection('documents'),
-        orderBy('createdAt', 'desc')
-      ));
-      
-      return snapshot.docs.map(doc => ({
+      const categoriesRef = await this.getFinancialCategoriesCollection();
+      const personalRef = this.getUserCollection('financialCategories');
+      const [snapshot, personal] = await Promise.all([
+        getDocs(categoriesRef),
+        categoriesRef.path === personalRef.path ? null : getDocs(personalRef)
+      ]);
+
+      const categories = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
-      })) as Document[];
+      })) as FinancialCategory[];
+
+      const batch = writeBatch(db);
+      personal?.docs.forEach(item => {
+        if (!categories.some(category => category.id === item.id)) {
+          batch.set(doc(categoriesRef, item.id), item.data());
+          categories.push({
+            id: item.id,
+            ...item.data(),
+            createdAt: item.data().createdAt?.toDate?.()?.toISOString() || item.data().createdAt
+          } as FinancialCategory);
+        }
+        batch.delete(item.ref);
+      });
+
+      if (categories.length === 0) {
+        DEFAULT_FINANCIAL_CATEGORIES.forEach(category => {
+          const id = categoryIdFromName(category.kind, category.name);
+          batch.set(doc(categoriesRef, id), { ...category, createdAt: Timestamp.now() });
+          categories.push({ id, ...category, createdAt: new Date().toISOString() });
+        });
+        console.log('Categorias financeiras padrão criadas:', categories.length);
+      }
+
+      if (personal?.size || snapshot.empty) {
+        await batch.commit();
+        if (personal?.size) {
+          console.log('Categorias financeiras movidas para o escritório:', personal.size);
+        }
+      }
+
+      return categories;
     } catch (error) {
-      console.error('Erro ao buscar documentos:', error);
+      console.error('Erro ao buscar categorias financeiras:', error);
       return [];
     }
   }
 
-  async saveDocument(document: Omit<Document, 'id' | 'createdAt'>): Promise<Document | null> {
+  async saveFinancialCategory(category: NewFinancialCategory): Promise<FinancialCategory | null> {
     try {
-      const documentData = {
-        ...document,
+      const docRef = await addDoc(await this.getFinancialCategoriesCollection(), {
+        ...category,
         createdAt: Timestamp.now()
-      };
-
-      const docRef = await addDoc(this.getUserCollection('documents'), documentData);
-      console.log('Documento salvo no Firestore:', docRef.id);
-      
-      return {
-        id: docRef.id,
-        ...document,
-        createdAt: new Date().toISOString()
-      };
+      });
+      console.log('Categoria financeira salva:', docRef.id);
+      return { id: docRef.id, ...category, createdAt: new Date().toISOString() };
     } catch (error) {
-      console.error('Erro ao salvar documento:', error);
+      console.error('Erro ao salvar categoria financeira:', error);
       return null;
     }
   }
 
-  async deleteDocument(id: string): Promise<boolean> {
+  // Categorias não são excluídas (os lançamentos as referenciam), apenas desativadas
+  async updateFinancialCategory(id: string, changes: Partial<NewFinancialCategory>): Promise<boolean> {
     try {
-      const userId = this.getCurrentUserId();
-      const docRef = doc(db, 'userData', userId, 'documents', id);
-      
-      await deleteDoc(docRef);
-      console.log('Documento excluído:', id);
+      await updateDoc(doc(await this.getFinancialCategoriesCollection(), id), changes);
+      console.log('Categoria financeira atualizada:', id);
       return true;
     } catch (error) {
-      console.error('Erro ao excluir documento:', error);
+      console.error('Erro ao atualizar categoria financeira:', error);
       return false;
     }
   }
 
   /**
-   * ADVOGADOS - Métodos CRUD
+   * Registros anteriores às categorias configuráveis recebem o categoryId da
+   * categoria padrão de mesmo nome. Uma falha ao regravar não impede a
+   * leitura: a migração é refeita na próxima.
    */
-  
-  async getLawyers(): Promise<Lawyer[]> {
+  private async migrateCategoryIds<T extends { id: string; category: string; categoryId?: string }>(
+    collectionName: string,
+    kind: FinancialCategoryKind,
+    records: T[]
+  ): Promise<T[]> {
+    const legacy = records.filter(record => !record.categoryId);
+    if (legacy.length === 0) return records;
+
+    try {
+      const userId = this.getCurrentUserId();
+      await Promise.all(legacy.map(record => updateDoc(doc(db, 'userData', userId, collectionName, record.id), {
+        categoryId: legacyCategoryId(kind, record.category)
+      })));
+      console.log(`Categorias migradas em ${collectionName}:`, legacy.length);
+    } catch (error) {
+      console.error('Erro ao migrar categorias financeiras:', error);
+    }
+
+    return records.map(record => record.categoryId ? record : { ...record, categoryId: legacyCategoryId(kind, record.category) });
+  }
+
+  /**
+   * CONTAS A RECEBER
+   * Parcelas em userData/{uid}/receivables; cada pagamento vira uma receita
+   */
+
+  async getReceivables(): Promise<Receivable[]> {
     try {
       const snapshot = await getDocs(query(
-        this.getUserCollection('lawyers'),
-        orderBy('fullName', 'asc')
+        this.getUserCollection('receivables'),
+        orderBy('dueDate', 'asc')
       ));
-      
+
       return snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
-      })) as Lawyer[];
+      })) as Receivable[];
     } catch (error) {
-      console.error('Erro ao buscar advogados:', error);
+      console.error('Erro ao buscar contas a receber:', error);
       return [];
     }
   }
 
-  async saveLawyer(lawyer: Omit<Lawyer, 'id' | 'createdAt'>): Promise<Lawyer | null> {
+  // Todas as parcelas de um faturamento são gravadas juntas
+  async saveReceivables(receivables: NewReceivable[]): Promise<Receivable[]> {
     try {
-      const lawyerData = {
-        ...lawyer,
-        createdAt: Timestamp.now()
-      };
+      const batch = writeBatch(db);
+      const saved = receivables.map(receivable => {
+        const docRef = doc(this.getUserCollection('receivables'));
+        batch.set(docRef, { ...receivable, createdAt: Timestamp.now() });
+        return { id: docRef.id, ...receivable, createdAt: new Date().toISOString() };
+      });
 
-      const docRef = await addDoc(this.getUserCollection('lawyers'), lawyerData);
-      console.log('Advogado salvo no Firestore:', docRef.id);
-      
-      return {
-        id: docRef.id,
+      await batch.commit();
+      console.log('Contas a receber salvas:', saved.length);
+      return saved;
+    } catch (error) {
+      console.error('Erro ao salvar contas a receber:', error);
+      return [];
+    }
+  }
+
+  async registerReceivablePayment(receivable: Receivable, payment: { date: string; amount: number }): Promise<Receivable | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      const receivableRef = doc(db, 'userData', userId, 'receivables', receivable.id);
+
+      // Receita e parcela gravadas juntas, com o saldo relido do servidor
+      const updated = await runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(receivableRef);
+        if (!snapshot.exists()) {
+          throw new Error('Conta a receber não encontrada');
+        }
+
+        const current: Receivable = {
+          ...receivable,
+          payments: snapshot.data().payments || [],
+          status: snapshot.data().status
+        };
+        const balance = getReceivableBalance(current);
+        if (current.status !== 'aberto' || payment.amount <= 0 || payment.amount > balance + 0.001) {
+          throw new Error(`Pagamento inválido para o saldo de ${balance}`);
+        }
+
+        const revenueRef = doc(this.getUserCollection('revenues'));
+        transaction.set(revenueRef, buildRevenueFromPayment(current, payment));
+
+        const next: Receivable = {
+          ...current,
+          payments: [...(current.payments || []), { id: Date.now().toString(36), ...payment, revenueId: revenueRef.id }]
+        };
+        next.status = getReceivableBalance(next) === 0 ? 'pago' : 'aberto';
+        transaction.update(receivableRef, { payments: next.payments, status: next.status });
+        return next;
+      });
+
+      console.log('Pagamento registrado na conta a receber:', receivable.id, payment.amount);
+      return updated;
+    } catch (error) {
+      console.error('Erro ao registrar pagamento da conta a receber:', error);
+      return null;
+    }
+  }
+
+  // Excluir a receita de um pagamento desfaz o pagamento na parcela
+  private async removeReceivablePayment(receivableId: string, revenueId: string): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'receivables', receivableId);
+      const snapshot = await getDoc(docRef);
+      if (!snapshot.exists()) return;
+
+      const receivable = { id: snapshot.id, ...snapshot.data() } as Receivable;
+      const payments = (receivable.payments || []).filter(payment => payment.revenueId !== revenueId);
+      const status = receivable.status === 'cancelado'
+        ? 'cancelado'
+        : getReceivableBalance({ ...receivable, payments }) === 0 ? 'pago' : 'aberto';
+      await updateDoc(docRef, { payments, status });
+    } catch (error) {
+      console.error('Erro ao desfazer pagamento da conta a receber:', error);
+    }
+  }
+
+  // Pagamentos já lançados continuam como receitas
+  async cancelReceivable(receivable: Receivable, reason: string): Promise<Receivable | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      await updateDoc(doc(db, 'userData', userId, 'receivables', receivable.id), {
+        status: 'cancelado',
+        cancelReason: reason
+      });
+      console.log('Conta a receber cancelada:', receivable.id);
+      return { ...receivable, status: 'cancelado', cancelReason: reason };
+    } catch (error) {
+      console.error('Erro ao cancelar conta a receber:', error);
+      return null;
+    }
+  }
+
+  /**
+   * CONTAS A PAGAR
+   * Despesas recorrentes em userData/{uid}/recurringExpenses geram contas em
+   * userData/{uid}/payables; ao pagar, a conta vira uma despesa
+   */
+
+  async getRecurringExpenses(): Promise<RecurringExpense[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('recurringExpenses'),
+        orderBy('type', 'asc')
+      ));
+
+      return this.migrateCategoryIds('recurringExpenses', 'despesa', snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
+      })) as RecurringExpense[]);
+    } catch (error) {
+      console.error('Erro ao buscar despesas recorrentes:', error);
+      return [];
+    }
+  }
+
+  async saveRecurringExpense(recurring: NewRecurringExpense): Promise<RecurringExpense | null> {
+    try {
+      const docRef = await addDoc(this.getUserCollection('recurringExpenses'), {
+        ...recurring,
+        generatedUntil: '',
+        createdAt: Timestamp.now()
+      });
+      console.log('Despesa recorrente salva:', docRef.id);
+
+      return { id: docRef.id, ...recurring, generatedUntil: '', createdAt: new Date().toISOString() };
+    } catch (error) {
+      console.error('Erro ao salvar despesa recorrente:', error);
+      return null;
+    }
+  }
+
+  // Encerrar a recorrência remove as contas pendentes posteriores ao término
+  async endRecurringExpense(recurring: RecurringExpense, endDate: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const snapshot = await getDocs(query(
+        this.getUserCollection('payables'),
+        where('recurringExpenseId', '==', recurring.id)
+      ));
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'userData', userId, 'recurringExpenses', recurring.id), { endDate });
+      snapshot.docs
+        .filter(item => item.data().status === 'pendente' && item.data().dueDate > endDate)
+        .forEach(item => batch.delete(item.ref));
+      await batch.commit();
+
+      console.log('Despesa recorrente encerrada:', recurring.id, endDate);
+      return true;
+    } catch (error) {
+      console.error('Erro ao encerrar despesa recorrente:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gerar as contas a pagar das recorrências até o horizonte. Cada recorrência
+   * é gerada em uma transação que relê generatedUntil, e as contas têm id
+   * fixo por vencimento: leituras simultâneas não duplicam contas. Uma falha
+   * aqui não impede a listagem: a geração é refeita na próxima leitura.
+   */
+  private async generateRecurringPayables(recurringExpenses: RecurringExpense[]): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const pending = recurringExpenses.filter(recurring => buildPayablesFromRecurring(recurring).length > 0);
+
+      const counts = await Promise.all(pending.map(recurring => runTransaction(db, async transaction => {
+        const recurringRef = doc(db, 'userData', userId, 'recurringExpenses', recurring.id);
+        const current = await transaction.get(recurringRef);
+        if (!current.exists()) return 0;
+
+        const payables = buildPayablesFromRecurring({ ...recurring, ...current.data(), id: recurring.id } as RecurringExpense);
+        if (payables.length === 0) return 0;
+
+        payables.forEach(payable => transaction.set(
+          doc(db, 'userData', userId, 'payables', getRecurringPayableId(recurring.id, payable.dueDate)),
+          payable
+        ));
+        transaction.update(recurringRef, { generatedUntil: payables[payables.length - 1].dueDate });
+        return payables.length;
+      })));
+
+      const generated = counts.reduce((sum, count) => sum + count, 0);
+      if (generated > 0) {
+        console.log('Contas a pagar geradas pelas despesas recorrentes:', generated);
+      }
+    } catch (error) {
+      console.error('Erro ao gerar contas a pagar recorrentes:', error);
+    }
+  }
+
+  async getPayables(): Promise<Payable[]> {
+    try {
+      await this.generateRecurringPayables(await this.getRecurringExpenses());
+
+      const snapshot = await getDocs(query(
+        this.getUserCollection('payables'),
+        orderBy('dueDate', 'asc')
+      ));
+
+      return this.migrateCategoryIds('payables', 'despesa', snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as Payable[]);
+    } catch (error) {
+      console.error('Erro ao buscar contas a pagar:', error);
+      return [];
+    }
+  }
+
+  // A conta guarda o valor efetivamente pago (contas como internet variam)
+  async payPayable(payable: Payable, payment: { date: string; amount: number }): Promise<Payable | null> {
+    try {
+      if (payment.amount <= 0) {
+        throw new Error('Valor de pagamento inválido');
+      }
+
+      const userId = this.getCurrentUserId();
+      const payableRef = doc(db, 'userData', userId, 'payables', payable.id);
+
+      // Despesa e baixa gravadas juntas, com o status relido do servidor
+      const changes = await runTransaction(db, async transaction => {
+        const snapshot = await transaction.get(payableRef);
+        if (!snapshot.exists() || snapshot.data().status !== 'pendente') {
+          throw new Error('Conta a pagar já paga ou excluída');
+        }
+
+        const expenseRef = doc(this.getUserCollection('expenses'));
+        transaction.set(expenseRef, buildExpenseFromPayable(payable, payment));
+
+        const paid = { status: 'pago' as const, paidAt: payment.date, amount: payment.amount, expenseId: expenseRef.id };
+        transaction.update(payableRef, paid);
+        return paid;
+      });
+
+      console.log('Conta a pagar paga:', payable.id);
+      return { ...payable, ...changes };
+    } catch (error) {
+      console.error('Erro ao pagar conta:', error);
+      return null;
+    }
+  }
+
+  // Excluir a despesa de um pagamento volta a conta para pendente
+  private async reopenPayable(payableId: string): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      await updateDoc(doc(db, 'userData', userId, 'payables', payableId), {
+        status: 'pendente',
+        paidAt: null,
+        expenseId: null
+      });
+    } catch (error) {
+      console.error('Erro ao reabrir conta a pagar:', error);
+    }
+  }
+
+  // Contas de recorrências excluídas não são geradas novamente
+  async deletePayable(id: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      await deleteDoc(doc(db, 'userData', userId, 'payables', id));
+      console.log('Conta a pagar excluída:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir conta a pagar:', error);
+      return false;
+    }
+  }
+
+  /**
+   * CONCILIAÇÃO BANCÁRIA
+   * Transações de extrato ignoradas em userData/{uid}/ignoredBankTransactions,
+   * com o id da transação como id do documento
+   */
+
+  async getIgnoredBankTransactionIds(): Promise<string[]> {
+    try {
+      const snapshot = await getDocs(this.getUserCollection('ignoredBankTransactions'));
+      return snapshot.docs.map(doc => doc.id);
+    } catch (error) {
+      console.error('Erro ao buscar transações ignoradas:', error);
+      return [];
+    }
+  }
+
+  async ignoreBankTransaction(transaction: BankTransaction): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const { id, ...data } = transaction;
+      await setDoc(doc(db, 'userData', userId, 'ignoredBankTransactions', id), {
+        ...data,
+        ignoredAt: Timestamp.now()
+      });
+      console.log('Transação do extrato ignorada:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao ignorar transação do extrato:', error);
+      return false;
+    }
+  }
+
+  // Marca a receita ou despesa como conciliada com a transação do extrato
+  async reconcileRecord(kind: ReconcileKind, recordId: string, bankTransactionId: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      await updateDoc(doc(db, 'userData', userId, kind === 'revenue' ? 'revenues' : 'expenses', recordId), {
+        bankTransactionId
+      });
+      console.log('Lançamento conciliado:', recordId);
+      return true;
+    } catch (error) {
+      console.error('Erro ao conciliar lançamento:', error);
+      return false;
+    }
+  }
+
+  /**
+   * COMISSÕES
+   * Extratos pagos em userData/{uid}/commissionStatements
+   */
+
+  async getCommissionStatements(): Promise<CommissionStatement[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('commissionStatements'),
+        orderBy('paidAt', 'desc')
+      ));
+
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        paidAt: doc.data().paidAt?.toDate?.()?.toISOString() || doc.data().paidAt
+      })) as CommissionStatement[];
+    } catch (error) {
+      console.error('Erro ao buscar extratos de comissão:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Recusa o registro se alguma receita do extrato já foi paga ao advogado.
+   * Cada receita guarda o extrato que a pagou, por advogado, e é marcada na
+   * mesma transação que grava o extrato: dois registros simultâneos não
+   * pagam a mesma receita.
+   */
+  async saveCommissionStatement(draft: CommissionDraft): Promise<CommissionStatement | null> {
+    try {
+      // Extratos anteriores à marcação nas receitas
+      const paidStatements = await this.getCommissionStatements();
+      const paidRevenueIds = new Set(paidStatements
+        .filter(statement => statement.lawyerId === draft.lawyerId)
+        .flatMap(statement => statement.lines.map(line => line.revenueId)));
+      if (draft.lines.some(line => paidRevenueIds.has(line.revenueId))) {
+        throw new Error('Extrato contém receitas com comissão já paga');
+      }
+
+      const userId = this.getCurrentUserId();
+      const paidBy = this.getCurrentAuthor();
+      const docRef = doc(this.getUserCollection('commissionStatements'));
+      const revenueRefs = [...new Set(draft.lines.map(line => line.revenueId))]
+        .map(revenueId => doc(db, 'userData', userId, 'revenues', revenueId));
+
+      await runTransaction(db, async transaction => {
+        const revenues = await Promise.all(revenueRefs.map(revenueRef => transaction.get(revenueRef)));
+        revenues.forEach(revenue => {
+          if (!revenue.exists()) {
+            throw new Error(`Receita ${revenue.id} não encontrada`);
+          }
+          if (revenue.data().commissionStatementIds?.[draft.lawyerId]) {
+            throw new Error(`Comissão da receita ${revenue.id} já paga`);
+          }
+        });
+
+        transaction.set(docRef, { ...draft, paidBy, paidAt: Timestamp.now() });
+        revenueRefs.forEach(revenueRef => transaction.update(revenueRef, {
+          [`commissionStatementIds.${draft.lawyerId}`]: docRef.id
+        }));
+      });
+      console.log('Pagamento de comissão registrado:', docRef.id, draft.lawyerName);
+
+      return { id: docRef.id, ...draft, paidBy, paidAt: new Date().toISOString() };
+    } catch (error) {
+      console.error('Erro ao registrar pagamento de comissão:', error);
+      return null;
+    }
+  }
+
+  /**
+   * DOCUMENTOS - Métodos CRUD
+   */
+  
+  async getDocuments(): Promise<Document[]> {
+    try {
+      await this.flushPendingReceipts();
+      const snapshot = await getDocs(query(
+        this.getUserCollection('documents'),
+        orderBy('createdAt', 'desc')
+      ));
+      
+      const loaded = snapshot.docs
+        .map(doc => loadDocument({
+          ...doc.data(),
+          id: doc.id,
+          createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt,
+          updatedAt: doc.data().updatedAt?.toDate?.()?.toISOString() || doc.data().updatedAt
+        }))
+        .filter((result): result is LoadedDocument => result !== null);
+
+      await this.upgradeDocuments(loaded.filter(result => result.migrated).map(result => result.document));
+      return loaded.map(result => result.document);
+    } catch (error) {
+      console.error('Erro ao buscar documentos:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Regravar documentos migrados de versões anteriores. Uma falha aqui não
+   * impede o uso dos documentos: a migração é refeita na próxima leitura.
+   */
+  private async upgradeDocuments(documents: Document[]): Promise<void> {
+    if (documents.length === 0) return;
+
+    try {
+      const userId = this.getCurrentUserId();
+      await Promise.all(documents.map(document => updateDoc(doc(db, 'userData', userId, 'documents', document.id), {
+        schemaVersion: document.schemaVersion,
+        clientId: document.clientId ?? null,
+        processId: document.processId ?? null,
+        processNumber: document.processNumber || '',
+        data: document.data
+      })));
+      console.log('Documentos migrados para a versão', DOCUMENT_SCHEMA_VERSION, '-', documents.length);
+    } catch (error) {
+      console.error('Erro ao regravar documentos migrados:', error);
+    }
+  }
+
+  async saveDocument(document: NewDocument): Promise<Document | null> {
+    try {
+      const createdBy = this.getCurrentAuthor();
+      const documentData = {
+        ...document,
+        schemaVersion: DOCUMENT_SCHEMA_VERSION,
+        version: 1,
+        createdBy,
+        createdAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(this.getUserCollection('documents'), documentData);
+      console.log('Documento salvo no Firestore:', docRef.id);
+      
+      return {
+        id: docRef.id,
+        ...document,
+        schemaVersion: DOCUMENT_SCHEMA_VERSION,
+        version: 1,
+        createdBy,
+        createdAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar documento:', error);
+      return null;
+    }
+  }
+
+  async updateDocument(id: string, updatedDocument: Partial<Document>): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'documents', id);
+      
+      await updateDoc(docRef, updatedDocument);
+      console.log('Documento atualizado:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao atualizar documento:', error);
+      return false;
+    }
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'documents', id);
+      const current = await getDoc(docRef);
+      
+      // Subcoleções não são removidas junto com o documento no Firestore
+      const [versions, exports] = await Promise.all([
+        getDocs(this.getDocumentVersionsCollection(id)),
+        getDocs(this.getDocumentExportsCollection(id))
+      ]);
+      await Promise.all([...versions.docs, ...exports.docs].map(item => deleteDoc(item.ref)));
+
+      await deleteDoc(docRef);
+      console.log('Documento excluído:', id);
+      await verificationService.setDocumentStatus(id, 'deleted');
+
+      const revenueId = current.exists() ? current.data().data?.revenueId : null;
+      if (revenueId) {
+        await this.flagLinkedRevenue(revenueId, `Recibo vinculado excluído em ${new Date().toLocaleDateString('pt-BR')}`, true);
+      }
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir documento:', error);
+      return false;
+    }
+  }
+
+  /**
+   * RECIBOS
+   * Numeração sequencial por ano no contador do escritório
+   * ({escritório}/counters/receipts-{ano}), incrementado na mesma transação
+   * que cria o recibo. Sem conexão, o recibo fica na fila do navegador, sem
+   * número, e é numerado na próxima emissão ou leitura de documentos.
+   */
+
+  async saveReceipt(receipt: NewReceipt): Promise<ReceiptSaveResult> {
+    let pending: PendingReceipt;
+    try {
+      pending = {
+        id: doc(this.getUserCollection('documents')).id,
+        userId: this.getCurrentUserId(),
+        receipt,
+        createdBy: this.getCurrentAuthor(),
+        queuedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar recibo:', error);
+      return { status: 'error' };
+    }
+
+    // Recibos anteriores da fila recebem seus números antes deste
+    await this.flushPendingReceipts();
+
+    try {
+      return { status: 'saved', receipt: await this.numberReceipt(pending) };
+    } catch (error) {
+      if (!this.isOfflineError(error)) {
+        console.error('Erro ao numerar recibo:', error);
+        return { status: 'error' };
+      }
+    }
+
+    try {
+      localStorageService.addPendingReceipt(pending);
+      console.warn('Sem conexão: recibo guardado para numeração posterior:', pending.id);
+      return { status: 'queued' };
+    } catch (error) {
+      console.error('Erro ao guardar recibo sem conexão:', error);
+      return { status: 'error' };
+    }
+  }
+
+  // Só a falta de conexão deixa o recibo na fila; outros erros são informados
+  private isOfflineError(error: unknown): boolean {
+    return !navigator.onLine || (error instanceof FirestoreError && error.code === 'unavailable');
+  }
+
+  /**
+   * Numerar e gravar o recibo na transação do contador. Se o documento já
+   * existe (transação confirmada cuja resposta se perdeu), nada é alterado.
+   */
+  private async numberReceipt(pending: PendingReceipt): Promise<Document> {
+    const year = new Date(pending.queuedAt).getFullYear();
+    const officeRef = await this.getOfficeRef();
+    const counterRef = doc(officeRef, 'counters', `receipts-${year}`);
+    // Contador por usuário, anterior ao contador do escritório
+    const legacyCounterRef = doc(db, 'userData', pending.userId, 'counters', `receipts-${year}`);
+    const docRef = doc(db, 'userData', pending.userId, 'documents', pending.id);
+    const buildReceipt = (number: string) => ({
+      ...pending.receipt,
+      data: { ...pending.receipt.data, number, cancelledAt: '', cancelReason: '', revenueId: '', revenueWarning: '' },
+      schemaVersion: DOCUMENT_SCHEMA_VERSION,
+      version: 1,
+      createdBy: pending.createdBy
+    });
+
+    const number = await runTransaction(db, async transaction => {
+      const existing = await transaction.get(docRef);
+      if (existing.exists()) return existing.data().data.number as string;
+
+      const counter = await transaction.get(counterRef);
+      const legacy = counterRef.path === legacyCounterRef.path ? null : await transaction.get(legacyCounterRef);
+      const next = Math.max(
+        counter.exists() ? counter.data().last || 0 : 0,
+        legacy?.exists() ? legacy.data().last || 0 : 0
+      ) + 1;
+
+      transaction.set(counterRef, { year, last: next, updatedAt: Timestamp.now() });
+      transaction.set(docRef, { ...buildReceipt(formatReceiptNumber(year, next)), createdAt: Timestamp.fromDate(new Date(pending.queuedAt)) });
+      return formatReceiptNumber(year, next);
+    });
+
+    console.log('Recibo salvo no Firestore:', docRef.id, number);
+    return { id: docRef.id, ...buildReceipt(number), createdAt: pending.queuedAt };
+  }
+
+  /**
+   * Numerar os recibos emitidos sem conexão, na ordem de emissão. Para na
+   * primeira falha: os seguintes continuam na fila para a próxima tentativa.
+   */
+  private async flushPendingReceipts(): Promise<void> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return;
+
+    for (const pending of localStorageService.getPendingReceipts(userId)) {
+      try {
+        await this.numberReceipt(pending);
+        localStorageService.removePendingReceipt(pending.id);
+      } catch (error) {
+        console.error('Erro ao numerar recibo emitido sem conexão:', error);
+        return;
+      }
+    }
+  }
+
+  // Recibos numerados não são excluídos: o cancelamento mantém a sequência sem lacunas
+  async cancelReceipt(receipt: Document, reason: string): Promise<Document | null> {
+    if (receipt.type !== 'Recibo') return null;
+
+    try {
+      const userId = this.getCurrentUserId();
+      const data = { ...receipt.data, cancelledAt: new Date().toISOString(), cancelReason: reason };
+
+      await updateDoc(doc(db, 'userData', userId, 'documents', receipt.id), { data });
+      console.log('Recibo cancelado:', data.number || receipt.id);
+      await verificationService.setDocumentStatus(receipt.id, 'cancelled');
+
+      if (data.revenueId) {
+        await this.flagLinkedRevenue(data.revenueId, `Recibo ${data.number} cancelado em ${new Date().toLocaleDateString('pt-BR')}`);
+      }
+      return { ...receipt, data };
+    } catch (error) {
+      console.error('Erro ao cancelar recibo:', error);
+      return null;
+    }
+  }
+
+  /**
+   * VÍNCULO RECIBO ↔ RECEITA
+   * O recibo guarda data.revenueId e a receita guarda receiptId/receiptNumber.
+   * Cancelar ou excluir um lado deixa um aviso no outro, que não é alterado.
+   */
+
+  async linkReceiptRevenue(receipt: Document, revenue: Revenue): Promise<Document | null> {
+    if (receipt.type !== 'Recibo') return null;
+
+    try {
+      const userId = this.getCurrentUserId();
+      const data = { ...receipt.data, revenueId: revenue.id, revenueWarning: '' };
+
+      const batch = writeBatch(db);
+      batch.update(doc(db, 'userData', userId, 'documents', receipt.id), { data });
+      batch.update(doc(db, 'userData', userId, 'revenues', revenue.id), {
+        receiptId: receipt.id,
+        receiptNumber: data.number,
+        receiptWarning: ''
+      });
+      await batch.commit();
+      console.log('Recibo vinculado à receita:', data.number || receipt.id, revenue.id);
+      return { ...receipt, data };
+    } catch (error) {
+      console.error('Erro ao vincular recibo à receita:', error);
+      return null;
+    }
+  }
+
+  // A receita nasce já vinculada: ela e o recibo são gravados no mesmo lote
+  async createRevenueFromReceipt(receipt: Document): Promise<Document | null> {
+    if (receipt.type !== 'Recibo') return null;
+
+    try {
+      const userId = this.getCurrentUserId();
+      const revenueRef = doc(this.getUserCollection('revenues'));
+      const data = { ...receipt.data, revenueId: revenueRef.id, revenueWarning: '' };
+
+      const batch = writeBatch(db);
+      batch.set(revenueRef, buildRevenueFromReceipt(receipt));
+      batch.update(doc(db, 'userData', userId, 'documents', receipt.id), { data });
+      await batch.commit();
+      console.log('Receita criada a partir do recibo:', data.number || receipt.id, revenueRef.id);
+      return { ...receipt, data };
+    } catch (error) {
+      console.error('Erro ao criar receita a partir do recibo:', error);
+      return null;
+    }
+  }
+
+  // Avisos de vínculo: falhas são registradas sem interromper a operação principal
+  private async flagLinkedRevenue(revenueId: string, warning: string, unlink = false): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      await updateDoc(doc(db, 'userData', userId, 'revenues', revenueId), {
+        receiptWarning: warning,
+        ...(unlink ? { receiptId: null } : {})
+      });
+    } catch (error) {
+      console.error('Erro ao sinalizar receita vinculada:', error);
+    }
+  }
+
+  private async flagLinkedReceipt(receiptId: string, warning: string): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      await updateDoc(doc(db, 'userData', userId, 'documents', receiptId), {
+        'data.revenueId': '',
+        'data.revenueWarning': warning
+      });
+    } catch (error) {
+      console.error('Erro ao sinalizar recibo vinculado:', error);
+    }
+  }
+
+  /**
+   * VERSÕES E EMISSÕES DE DOCUMENTOS
+   * Versões anteriores em userData/{uid}/documents/{id}/versions/{versão} e
+   * cada PDF/DOCX gerado em userData/{uid}/documents/{id}/exports
+   */
+
+  private getDocumentVersionsCollection(documentId: string) {
+    const userId = this.getCurrentUserId();
+    return collection(db, 'userData', userId, 'documents', documentId, 'versions');
+  }
+
+  private getDocumentExportsCollection(documentId: string) {
+    const userId = this.getCurrentUserId();
+    return collection(db, 'userData', userId, 'documents', documentId, 'exports');
+  }
+
+  private getCurrentAuthor(): DocumentAuthor | null {
+    const user = auth.currentUser;
+    return user ? { uid: user.uid, name: user.displayName || user.email || 'Usuário' } : null;
+  }
+
+  async getDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getDocumentVersionsCollection(documentId),
+        orderBy('version', 'desc')
+      ));
+
+      return snapshot.docs.map(doc => doc.data() as DocumentVersion);
+    } catch (error) {
+      console.error('Erro ao buscar versões do documento:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Emitir uma nova versão do documento. O conteúdo atual é arquivado em
+   * versions antes de ser substituído.
+   */
+  async reviseDocument(document: Document, revision: DocumentRevision): Promise<Document | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      const updatedBy = this.getCurrentAuthor();
+      const previous = toDocumentVersion(document);
+
+      await setDoc(doc(this.getDocumentVersionsCollection(document.id), String(previous.version)), previous);
+
+      const changes = {
+        client: revision.client,
+        clientId: revision.clientId,
+        processId: revision.processId,
+        processNumber: revision.processNumber,
+        data: revision.data,
+        changeNote: revision.changeNote,
+        schemaVersion: DOCUMENT_SCHEMA_VERSION,
+        version: document.version + 1,
+        updatedBy
+      };
+      await updateDoc(doc(db, 'userData', userId, 'documents', document.id), {
+        ...changes,
+        updatedAt: Timestamp.now()
+      });
+      console.log('Nova versão do documento emitida:', document.id, '-', changes.version);
+
+      const revised = { ...document, ...changes, updatedAt: new Date().toISOString() } as Document;
+      await verificationService.syncDocument(revised);
+      const payloadErrors = validateDocumentPayload(revised);
+      return { ...revised, payloadErrors: payloadErrors.length > 0 ? payloadErrors : undefined };
+    } catch (error) {
+      console.error('Erro ao emitir nova versão do documento:', error);
+      return null;
+    }
+  }
+
+  async getDocumentExports(documentId: string): Promise<DocumentExport[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getDocumentExportsCollection(documentId),
+        orderBy('generatedAt', 'desc')
+      ));
+
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        documentId,
+        generatedAt: doc.data().generatedAt?.toDate?.()?.toISOString() || doc.data().generatedAt
+      })) as DocumentExport[];
+    } catch (error) {
+      console.error('Erro ao buscar emissões do documento:', error);
+      return [];
+    }
+  }
+
+  // Registrar quem gerou o arquivo e quando; falhas não impedem o download
+  async logDocumentExport(document: Document, format: DocumentExport['format'], verificationCode = ''): Promise<DocumentExport | null> {
+    try {
+      const exportData = {
+        version: document.version,
+        format,
+        generatedBy: this.getCurrentAuthor(),
+        verificationCode
+      };
+
+      const docRef = await addDoc(this.getDocumentExportsCollection(document.id), {
+        ...exportData,
+        generatedAt: Timestamp.now()
+      });
+      console.log('Emissão de documento registrada:', document.id, format);
+
+      return {
+        id: docRef.id,
+        documentId: document.id,
+        ...exportData,
+        generatedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao registrar emissão do documento:', error);
+      return null;
+    }
+  }
+
+  /**
+   * MODELOS DE DOCUMENTOS
+   * Um documento por tipo em userData/{uid}/templates/{chave}; sem registro
+   * vale o modelo padrão
+   */
+
+  async getDocumentTemplates(): Promise<DocumentTemplate[]> {
+    try {
+      const snapshot = await getDocs(this.getUserCollection('templates'));
+
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        updatedAt: doc.data().updatedAt?.toDate?.()?.toISOString() || doc.data().updatedAt
+      })) as DocumentTemplate[];
+    } catch (error) {
+      console.error('Erro ao buscar modelos de documentos:', error);
+      return [];
+    }
+  }
+
+  async saveDocumentTemplate(template: Omit<DocumentTemplate, 'updatedAt'>): Promise<DocumentTemplate | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      await setDoc(doc(db, 'userData', userId, 'templates', template.id), {
+        documentType: template.documentType,
+        title: template.title,
+        highlight: template.highlight || '',
+        body: template.body,
+        updatedAt: Timestamp.now()
+      });
+      console.log('Modelo de documento salvo:', template.id);
+
+      return {
+        ...template,
+        updatedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar modelo de documento:', error);
+      return null;
+    }
+  }
+
+  async deleteDocumentTemplate(id: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      await deleteDoc(doc(db, 'userData', userId, 'templates', id));
+      console.log('Modelo de documento restaurado para o padrão:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir modelo de documento:', error);
+      return false;
+    }
+  }
+
+  /**
+   * CLIENTES - Métodos CRUD
+   */
+  
+  async getClients(): Promise<Client[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('clients'),
+        orderBy('name', 'asc')
+      ));
+      
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
+      })) as Client[];
+    } catch (error) {
+      console.error('Erro ao buscar clientes:', error);
+      return [];
+    }
+  }
+
+  async saveClient(client: Omit<Client, 'id' | 'createdAt'>): Promise<Client | null> {
+    try {
+      const clientData = {
+        ...client,
+        createdAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(this.getUserCollection('clients'), clientData);
+      console.log('Cliente salvo no Firestore:', docRef.id);
+      
+      return {
+        id: docRef.id,
+        ...client,
+        createdAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('Erro ao salvar cliente:', error);
+      return null;
+    }
+  }
+
+  async updateClient(id: string, updatedClient: Partial<Client>): Promise<Client | null> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'clients', id);
+      
+      await updateDoc(docRef, updatedClient);
+      console.log('Cliente atualizado:', id);
+      
+      const updated = await getDoc(docRef);
+      return updated.exists() ? { 
+        id: updated.id, 
+        ...updated.data(),
+        createdAt: updated.data().createdAt?.toDate?.()?.toISOString() || updated.data().createdAt
+      } as Client : null;
+    } catch (error) {
+      console.error('Erro ao atualizar cliente:', error);
+      return null;
+    }
+  }
+
+  async deleteClient(id: string): Promise<boolean> {
+    try {
+      const userId = this.getCurrentUserId();
+      const docRef = doc(db, 'userData', userId, 'clients', id);
+      
+      await deleteDoc(docRef);
+      console.log('Cliente excluído:', id);
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir cliente:', error);
+      return false;
+    }
+  }
+
+  /**
+   * ADVOGADOS - Métodos CRUD
+   */
+  
+  async getLawyers(): Promise<Lawyer[]> {
+    try {
+      const snapshot = await getDocs(query(
+        this.getUserCollection('lawyers'),
+        orderBy('fullName', 'asc')
+      ));
+      
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate?.()?.toISOString() || doc.data().createdAt
+      })) as Lawyer[];
+    } catch (error) {
+      console.error('Erro ao buscar advogados:', error);
+      return [];
+    }
+  }
+
+  async saveLawyer(lawyer: Omit<Lawyer, 'id' | 'createdAt'>): Promise<Lawyer | null> {
+    try {
+      const lawyerData = {
+        ...lawyer,
+        createdAt: Timestamp.now()
+      };
+
+      const docRef = await addDoc(this.getUserCollection('lawyers'), lawyerData);
+      console.log('Advogado salvo no Firestore:', docRef.id);
+      
+      return {
+        id: docRef.id,
         ...lawyer,
         createdAt: new Date().toISOString()
       };
@@ -553,11 +1938,15 @@ class FirestoreService {
    * MÉTODOS DE ESTATÍSTICAS
    */
   
-  async getFinancialSummary() {
+  async getFinancialSummary(): Promise<FinancialSummary> {
     try {
-      const [revenues, expenses] = await Promise.all([
+      // Contas a pagar antes das despesas recorrentes: a listagem gera as novas
+      // contas e avança generatedUntil, que a previsão usa para não contar em dobro
+      const payables = await this.getPayables();
+      const [revenues, expenses, recurringExpenses] = await Promise.all([
         this.getRevenues(),
-        this.getExpenses()
+        this.getExpenses(),
+        this.getRecurringExpenses()
       ]);
       
       const totalRevenue = revenues.reduce((sum, revenue) => sum + revenue.amount, 0);
@@ -566,12 +1955,14 @@ class FirestoreService {
 
       // Dados mensais para gráficos (últimos 6 meses)
       const monthlyData = this.generateMonthlyData(revenues, expenses);
+      const expenseForecast = this.generateExpenseForecast(expenses, payables, recurringExpenses);
 
       return {
         totalRevenue,
         totalExpenses,
         balance,
-        monthlyData
+        monthlyData,
+        expenseForecast
       };
     } catch (error) {
       console.error('Erro ao calcular resumo financeiro:', error);
@@ -579,15 +1970,16 @@ class FirestoreService {
         totalRevenue: 0,
         totalExpenses: 0,
         balance: 0,
-        monthlyData: []
+        monthlyData: [],
+        expenseForecast: []
       };
     }
   }
 
-  private generateMonthlyData(revenues: Revenue[], expenses: Expense[]) {
+  private generateMonthlyData(revenues: Revenue[], expenses: Expense[]): FinancialSummary['monthlyData'] {
     const months = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
     const currentDate = new Date();
-    const monthlyData = [];
+    const monthlyData: FinancialSummary['monthlyData'] = [];
 
     // Gerar dados dos últimos 6 meses
     for (let i = 5; i >= 0; i--) {
@@ -610,6 +2002,43 @@ class FirestoreService {
     return monthlyData;
   }
 
+  /**
+   * Despesas previstas do mês atual e dos próximos 3 meses. O mês atual soma
+   * o já pago às contas pendentes, para a previsão continuar a linha de despesas.
+   */
+  private generateExpenseForecast(
+    expenses: Expense[],
+    payables: Payable[],
+    recurringExpenses: RecurringExpense[]
+  ): FinancialSummary['expenseForecast'] {
+    const months = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+    const currentDate = new Date();
+    const projected = projectPayables(
+      payables,
+      recurringExpenses,
+      format(new Date(currentDate.getFullYear(), currentDate.getMonth(), 1), 'yyyy-MM-dd'),
+      format(new Date(currentDate.getFullYear(), currentDate.getMonth() + 4, 0), 'yyyy-MM-dd')
+    );
+    const forecast: FinancialSummary['expenseForecast'] = [];
+
+    for (let i = 0; i <= 3; i++) {
+      const date = new Date(currentDate.getFullYear(), currentDate.getMonth() + i, 1);
+      const monthKey = format(date, 'yyyy-MM');
+      const paid = i === 0
+        ? expenses.filter(e => e.date.startsWith(monthKey)).reduce((sum, e) => sum + e.amount, 0)
+        : 0;
+
+      forecast.push({
+        month: months[date.getMonth()],
+        amount: paid + projected
+          .filter(item => item.dueDate.startsWith(monthKey))
+          .reduce((sum, item) => sum + item.amount, 0)
+      });
+    }
+
+    return forecast;
+  }
+
   async getGeneralStats() {
     try {
       const [processes, events, documents, lawyers, employees] = await Promise.all([
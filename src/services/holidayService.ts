@@ -0,0 +1,44 @@
+/**
+ * Serviço de feriados para LegalX
+ *
+ * Reúne os feriados nacionais calculados, os feriados cadastrados pelo
+ * usuário no Firestore e o recesso forense, para exibição na agenda e
+ * para o cálculo de prazos.
+ */
+
+import { CustomHoliday, Holiday } from '../types';
+import { firestoreService } from './firestoreService';
+import { getHolidaysForYears } from '../utils/holidays';
+
+class HolidayService {
+
+  /**
+   * Feriados cadastrados pelo usuário
+   */
+  async getCustomHolidays(): Promise<CustomHoliday[]> {
+    return firestoreService.getHolidays();
+  }
+
+  async saveCustomHoliday(holiday: Omit<CustomHoliday, 'id' | 'createdAt'>): Promise<CustomHoliday | null> {
+    return firestoreService.saveHoliday(holiday);
+  }
+
+  async deleteCustomHoliday(id: string): Promise<boolean> {
+    return firestoreService.deleteHoliday(id);
+  }
+
+  /**
+   * Todos os dias sem expediente (feriados e recesso) de um intervalo de anos
+   */
+  async getHolidays(startYear: number, endYear: number = startYear): Promise<Holiday[]> {
+    try {
+      const customHolidays = await this.getCustomHolidays();
+      return getHolidaysForYears(startYear, endYear, customHolidays);
+    } catch (error) {
+      console.error('Erro ao carregar feriados:', error);
+      return getHolidaysForYears(startYear, endYear);
+    }
+  }
+}
+
+export const holidayService = new HolidayService();
@@ -3,22 +3,27 @@
  * 
  * Este serviço gerencia toda a persistência de dados no localStorage do navegador.
  * Fornece métodos para CRUD (Create, Read, Update, Delete) de todas as entidades
- * do sistema: Processos, Eventos, Receitas, Despesas e Documentos.
+ * do sistema: Processos, Eventos, Receitas, Despesas, Documentos e Clientes.
  */
 
-import { Process, CalendarEvent, Revenue, Expense, Document } from '../types';
+import { Process, ProcessMovement, CalendarEvent, CustomHoliday, Revenue, Expense, Document, NewDocument, PendingReceipt, Client } from '../types';
 import { Lawyer, Employee } from '../types';
+import { DOCUMENT_SCHEMA_VERSION, LoadedDocument, loadDocument, toStoredDocument } from '../utils/documentPayloads';
 
 // Chaves para o localStorage
 const STORAGE_KEYS = {
   PROCESSES: 'legalx_processes',
+  MOVEMENTS: 'legalx_process_movements',
   EVENTS: 'legalx_events',
+  HOLIDAYS: 'legalx_holidays',
   REVENUES: 'legalx_revenues',
   EXPENSES: 'legalx_expenses',
   DOCUMENTS: 'legalx_documents',
+  CLIENTS: 'legalx_clients',
   LAWYERS: 'legalx_lawyers',
   EMPLOYEES: 'legalx_employees',
-  SETTINGS: 'legalx_settings'
+  SETTINGS: 'legalx_settings',
+  PENDING_RECEIPTS: 'legalx_pending_receipts'
 } as const;
 
 /**
@@ -111,10 +116,80 @@ class LocalStorageService {
     }
 
     this.setItem(STORAGE_KEYS.PROCESSES, filteredProcesses);
+    this.setItem(
+      STORAGE_KEYS.MOVEMENTS,
+      this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS).filter(movement => movement.processId !== id)
+    );
     console.log('Processo excluído:', id);
     return true;
   }
 
+  /**
+   * ANDAMENTOS PROCESSUAIS - Métodos CRUD
+   */
+  
+  // Buscar andamentos de um processo, do mais recente para o mais antigo
+  getProcessMovements(processId: string): ProcessMovement[] {
+    return this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS)
+      .filter(movement => movement.processId === processId)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  saveProcessMovement(
+    processId: string,
+    movement: Omit<ProcessMovement, 'id' | 'processId' | 'createdAt'>
+  ): ProcessMovement {
+    const movements = this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS);
+    const newMovement: ProcessMovement = {
+      ...movement,
+      id: this.generateId(),
+      processId,
+      createdAt: new Date().toISOString()
+    };
+    
+    movements.push(newMovement);
+    this.setItem(STORAGE_KEYS.MOVEMENTS, movements);
+    
+    console.log('Andamento salvo:', newMovement.type, '-', newMovement.date);
+    return newMovement;
+  }
+
+  updateProcessMovement(
+    processId: string,
+    id: string,
+    updatedMovement: Partial<ProcessMovement>
+  ): ProcessMovement | null {
+    const movements = this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS);
+    const index = movements.findIndex(movement => movement.id === id && movement.processId === processId);
+    
+    if (index === -1) {
+      console.error('Andamento não encontrado para atualização:', id);
+      return null;
+    }
+
+    movements[index] = { ...movements[index], ...updatedMovement };
+    this.setItem(STORAGE_KEYS.MOVEMENTS, movements);
+    
+    console.log('Andamento atualizado:', movements[index].type);
+    return movements[index];
+  }
+
+  deleteProcessMovement(processId: string, id: string): boolean {
+    const movements = this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS);
+    const filteredMovements = movements.filter(
+      movement => !(movement.id === id && movement.processId === processId)
+    );
+    
+    if (filteredMovements.length === movements.length) {
+      console.error('Andamento não encontrado para exclusão:', id);
+      return false;
+    }
+
+    this.setItem(STORAGE_KEYS.MOVEMENTS, filteredMovements);
+    console.log('Andamento excluído:', id);
+    return true;
+  }
+
   /**
    * EVENTOS DA AGENDA - Métodos CRUD
    */
@@ -172,6 +247,44 @@ class LocalStorageService {
     return true;
   }
 
+  /**
+   * FERIADOS CADASTRADOS - Métodos CRUD
+   */
+  
+  getHolidays(): CustomHoliday[] {
+    return this.getItem<CustomHoliday>(STORAGE_KEYS.HOLIDAYS)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  saveHoliday(holiday: Omit<CustomHoliday, 'id' | 'createdAt'>): CustomHoliday {
+    const holidays = this.getHolidays();
+    const newHoliday: CustomHoliday = {
+      ...holiday,
+      id: this.generateId(),
+      createdAt: new Date().toISOString()
+    };
+    
+    holidays.push(newHoliday);
+    this.setItem(STORAGE_KEYS.HOLIDAYS, holidays);
+    
+    console.log('Feriado salvo:', newHoliday.name, '-', newHoliday.date);
+    return newHoliday;
+  }
+
+  deleteHoliday(id: string): boolean {
+    const holidays = this.getHolidays();
+    const filteredHolidays = holidays.filter(holiday => holiday.id !== id);
+    
+    if (filteredHolidays.length === holidays.length) {
+      console.error('Feriado não encontrado para exclusão:', id);
+      return false;
+    }
+
+    this.setItem(STORAGE_KEYS.HOLIDAYS, filteredHolidays);
+    console.log('Feriado excluído:', id);
+    return true;
+  }
+
   /**
    * RECEITAS - Métodos CRUD
    */
@@ -290,8 +403,49 @@ class LocalStorageService {
    * DOCUMENTOS - Métodos CRUD
    */
   
+  /**
+   * Documentos como estão gravados. Entradas que esta versão não carrega
+   * (tipo desconhecido) são mantidas e regravadas sem alteração.
+   */
+  private getStoredDocuments(): Record<string, unknown>[] {
+    return this.getItem<Record<string, unknown>>(STORAGE_KEYS.DOCUMENTS);
+  }
+
+  // Documentos de versões anteriores são migrados e regravados na leitura
   getDocuments(): Document[] {
-    return this.getItem<Document>(STORAGE_KEYS.DOCUMENTS);
+    const stored = this.getStoredDocuments();
+    const loaded = stored.map(loadDocument);
+
+    if (loaded.some(result => result?.migrated)) {
+      this.setItem(STORAGE_KEYS.DOCUMENTS, stored.map((raw, index) => {
+        const result = loaded[index];
+        return result?.migrated ? toStoredDocument(result.document) : raw;
+      }));
+      console.log('Documentos migrados para a versão', DOCUMENT_SCHEMA_VERSION);
+    }
+
+    return loaded
+      .filter((result): result is LoadedDocument => result !== null)
+      .map(result => result.document);
+  }
+
+  /**
+   * Gravar um documento novo ou alterado sobre a entrada armazenada, sem
+   * perder campos que os normalizadores desta versão não conhecem (documentos
+   * de versões mais novas). As demais entradas não são tocadas.
+   */
+  private putStoredDocument(document: Document): void {
+    const stored = this.getStoredDocuments();
+    const index = stored.findIndex(raw => raw.id === document.id);
+    if (index === -1) {
+      this.setItem(STORAGE_KEYS.DOCUMENTS, [...stored, toStoredDocument(document)]);
+      return;
+    }
+
+    const raw = stored[index];
+    const rawData = raw.data && typeof raw.data === 'object' ? raw.data : {};
+    stored[index] = { ...raw, ...toStoredDocument(document), data: { ...rawData, ...document.data } };
+    this.setItem(STORAGE_KEYS.DOCUMENTS, stored);
   }
 
   getDocumentById(id: string): Document | null {
@@ -299,16 +453,16 @@ class LocalStorageService {
     return documents.find(document => document.id === id) || null;
   }
 
-  saveDocument(document: Omit<Document, 'id' | 'createdAt'>): Document {
-    const documents = this.getDocuments();
+  saveDocument(document: NewDocument): Document {
     const newDocument: Document = {
       ...document,
       id: this.generateId(),
+      schemaVersion: DOCUMENT_SCHEMA_VERSION,
+      version: 1,
       createdAt: new Date().toISOString()
     };
     
-    documents.push(newDocument);
-    this.setItem(STORAGE_KEYS.DOCUMENTS, documents);
+    this.putStoredDocument(newDocument);
     
     console.log('Documento salvo:', newDocument.type, '-', newDocument.client);
     return newDocument;
@@ -323,27 +477,106 @@ class LocalStorageService {
       return null;
     }
 
-    documents[index] = { ...documents[index], ...updatedDocument };
-    this.setItem(STORAGE_KEYS.DOCUMENTS, documents);
+    documents[index] = { ...documents[index], ...updatedDocument } as Document;
+    this.putStoredDocument(documents[index]);
     
     console.log('Documento atualizado:', documents[index].type);
     return documents[index];
   }
 
   deleteDocument(id: string): boolean {
-    const documents = this.getDocuments();
-    const filteredDocuments = documents.filter(document => document.id !== id);
+    const stored = this.getStoredDocuments();
+    const filtered = stored.filter(raw => raw.id !== id);
     
-    if (filteredDocuments.length === documents.length) {
+    if (filtered.length === stored.length) {
       console.error('Documento não encontrado para exclusão:', id);
       return false;
     }
 
-    this.setItem(STORAGE_KEYS.DOCUMENTS, filteredDocuments);
+    this.setItem(STORAGE_KEYS.DOCUMENTS, filtered);
     console.log('Documento excluído:', id);
     return true;
   }
 
+  /**
+   * Fila de recibos emitidos sem conexão com o Firestore. Eles só recebem
+   * número quando a transação do contador do escritório é confirmada.
+   */
+
+  getPendingReceipts(userId: string): PendingReceipt[] {
+    return this.getItem<PendingReceipt>(STORAGE_KEYS.PENDING_RECEIPTS).filter(item => item.userId === userId);
+  }
+
+  addPendingReceipt(pending: PendingReceipt): void {
+    this.setItem(STORAGE_KEYS.PENDING_RECEIPTS, [...this.getItem<PendingReceipt>(STORAGE_KEYS.PENDING_RECEIPTS), pending]);
+  }
+
+  removePendingReceipt(id: string): void {
+    this.setItem(
+      STORAGE_KEYS.PENDING_RECEIPTS,
+      this.getItem<PendingReceipt>(STORAGE_KEYS.PENDING_RECEIPTS).filter(item => item.id !== id)
+    );
+  }
+
+  /**
+   * CLIENTES - Métodos CRUD
+   */
+  
+  getClients(): Client[] {
+    return this.getItem<Client>(STORAGE_KEYS.CLIENTS)
+      .sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+  }
+
+  getClientById(id: string): Client | null {
+    const clients = this.getClients();
+    return clients.find(client => client.id === id) || null;
+  }
+
+  saveClient(client: Omit<Client, 'id' | 'createdAt'>): Client {
+    const clients = this.getClients();
+    const newClient: Client = {
+      ...client,
+      id: this.generateId(),
+      createdAt: new Date().toISOString()
+    };
+    
+    clients.push(newClient);
+    this.setItem(STORAGE_KEYS.CLIENTS, clients);
+    
+    console.log('Cliente salvo:', newClient.name);
+    return newClient;
+  }
+
+  updateClient(id: string, updatedClient: Partial<Client>): Client | null {
+    const clients = this.getClients();
+    const index = clients.findIndex(client => client.id === id);
+    
+    if (index === -1) {
+      console.error('Cliente não encontrado para atualização:', id);
+      return null;
+    }
+
+    clients[index] = { ...clients[index], ...updatedClient };
+    this.setItem(STORAGE_KEYS.CLIENTS, clients);
+    
+    console.log('Cliente atualizado:', clients[index].name);
+    return clients[index];
+  }
+
+  deleteClient(id: string): boolean {
+    const clients = this.getClients();
+    const filteredClients = clients.filter(client => client.id !== id);
+    
+    if (filteredClients.length === clients.length) {
+      console.error('Cliente não encontrado para exclusão:', id);
+      return false;
+    }
+
+    this.setItem(STORAGE_KEYS.CLIENTS, filteredClients);
+    console.log('Cliente excluído:', id);
+    return true;
+  }
+
   /**
    * ADVOGADOS - Métodos CRUD
    */
@@ -422,6 +655,7 @@ class LocalStorageService {
   // Limpar dados específicos por categoria
   clearProcesses(): void {
     localStorage.removeItem(STORAGE_KEYS.PROCESSES);
+    localStorage.removeItem(STORAGE_KEYS.MOVEMENTS);
     console.log('Processos limpos');
   }
 
@@ -445,6 +679,11 @@ class LocalStorageService {
     console.log('Documentos limpos');
   }
 
+  clearClients(): void {
+    localStorage.removeItem(STORAGE_KEYS.CLIENTS);
+    console.log('Clientes limpos');
+  }
+
   clearLawyers(): void {
     localStorage.removeItem(STORAGE_KEYS.LAWYERS);
     console.log('Advogados limpos');
@@ -594,10 +833,13 @@ class LocalStorageService {
   exportData() {
     const data = {
       processes: this.getProcesses(),
+      movements: this.getItem<ProcessMovement>(STORAGE_KEYS.MOVEMENTS),
       events: this.getEvents(),
+      holidays: this.getHolidays(),
       revenues: this.getRevenues(),
       expenses: this.getExpenses(),
       documents: this.getDocuments(),
+      clients: this.getClients(),
       lawyers: this.getLawyers(),
       employees: this.getEmployees(),
       exportDate: new Date().toISOString()
@@ -612,10 +854,13 @@ class LocalStorageService {
       const data = JSON.parse(jsonData);
       
       if (data.processes) this.setItem(STORAGE_KEYS.PROCESSES, data.processes);
+      if (data.movements) this.setItem(STORAGE_KEYS.MOVEMENTS, data.movements);
       if (data.events) this.setItem(STORAGE_KEYS.EVENTS, data.events);
+      if (data.holidays) this.setItem(STORAGE_KEYS.HOLIDAYS, data.holidays);
       if (data.revenues) this.setItem(STORAGE_KEYS.REVENUES, data.revenues);
       if (data.expenses) this.setItem(STORAGE_KEYS.EXPENSES, data.expenses);
       if (data.documents) this.setItem(STORAGE_KEYS.DOCUMENTS, data.documents);
+      if (data.clients) this.setItem(STORAGE_KEYS.CLIENTS, data.clients);
       if (data.lawyers) this.setItem(STORAGE_KEYS.LAWYERS, data.lawyers);
       if (data.employees) this.setItem(STORAGE_KEYS.EMPLOYEES, data.employees);
 
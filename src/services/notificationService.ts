@@ -0,0 +1,100 @@
+/**
+ * Serviço de notificações para LegalX
+ *
+ * Calcula os lembretes dos compromissos pendentes, guarda por usuário quais
+ * já foram lidos, dispensados ou exibidos, e entrega notificações do
+ * navegador (Notification API) enquanto o aplicativo está aberto.
+ */
+
+import { AppNotification, NotificationState, ReminderSettings } from '../types';
+import { firestoreService } from './firestoreService';
+import { buildNotifications, DEFAULT_REMINDER_RULES, pruneNotificationState } from '../utils/reminders';
+
+const EMPTY_STATE: NotificationState = { read: [], dismissed: [], delivered: [] };
+
+const DEFAULT_EMAIL_DIGEST = { enabled: false, days: 7 };
+
+class NotificationService {
+
+  /**
+   * Configuração de lembretes do usuário (ou a padrão, se nunca configurada)
+   */
+  async getSettings(): Promise<ReminderSettings> {
+    const settings = await firestoreService.getReminderSettings();
+    const loaded = settings || { rules: DEFAULT_REMINDER_RULES, browserNotifications: false };
+    return { ...loaded, emailDigest: { ...DEFAULT_EMAIL_DIGEST, ...loaded.emailDigest } };
+  }
+
+  async saveSettings(settings: ReminderSettings): Promise<boolean> {
+    return firestoreService.saveReminderSettings(settings);
+  }
+
+  async getState(): Promise<NotificationState> {
+    const state = await firestoreService.getNotificationState();
+    return { ...EMPTY_STATE, ...state };
+  }
+
+  async saveState(state: NotificationState): Promise<boolean> {
+    return firestoreService.saveNotificationState(pruneNotificationState(state));
+  }
+
+  /**
+   * Recalcular as notificações ativas e entregar as novas no navegador.
+   * Retorna as notificações não dispensadas e o estado atualizado.
+   */
+  async refresh(): Promise<{ notifications: AppNotification[]; state: NotificationState }> {
+    const [events, settings, state] = await Promise.all([
+      firestoreService.getEvents(),
+      this.getSettings(),
+      this.getState()
+    ]);
+
+    const notifications = buildNotifications(events, settings.rules)
+      .filter(notification => !state.dismissed.includes(notification.id));
+
+    let updatedState = state;
+    if (settings.browserNotifications) {
+      const delivered = this.deliverBrowserNotifications(
+        notifications.filter(n => !state.delivered.includes(n.id) && !state.read.includes(n.id))
+      );
+      if (delivered.length > 0) {
+        updatedState = { ...state, delivered: [...state.delivered, ...delivered] };
+        await this.saveState(updatedState);
+      }
+    }
+
+    return { notifications, state: updatedState };
+  }
+
+  isBrowserSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  getBrowserPermission(): NotificationPermission | 'unsupported' {
+    return this.isBrowserSupported() ? Notification.permission : 'unsupported';
+  }
+
+  async requestBrowserPermission(): Promise<boolean> {
+    if (!this.isBrowserSupported()) return false;
+    const permission = await Notification.requestPermission();
+    return permission === 'granted';
+  }
+
+  /**
+   * Exibir notificações do navegador; retorna os ids efetivamente entregues
+   */
+  private deliverBrowserNotifications(notifications: AppNotification[]): string[] {
+    if (this.getBrowserPermission() !== 'granted') return [];
+
+    return notifications.map(notification => {
+      new Notification(notification.eventTitle, {
+        body: notification.message,
+        tag: notification.id,
+        icon: '/favicon.ico'
+      });
+      return notification.id;
+    });
+  }
+}
+
+export const notificationService = new NotificationService();
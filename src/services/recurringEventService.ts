@@ -0,0 +1,188 @@
+/**
+ * Serviço de eventos recorrentes para LegalX
+ *
+ * Aplica edições e exclusões a uma ocorrência de uma série conforme o
+ * escopo escolhido: somente esta ocorrência, esta e as seguintes, ou
+ * todas. A série é um único documento no Firestore; ocorrências editadas
+ * isoladamente viram eventos avulsos (com seriesId) e são excluídas da
+ * série. Edições e exclusões da série alcançam os avulsos do mesmo escopo,
+ * e tudo é gravado em um único lote.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { CalendarEvent, RecurrenceEditScope, RecurrenceRule } from '../types';
+import { firestoreService } from './firestoreService';
+import { countOccurrencesBefore } from '../utils/recurrence';
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Remover os campos que não devem ser gravados no documento do evento
+ */
+const toStoredEvent = (event: Partial<CalendarEvent>): Omit<Partial<CalendarEvent>, 'id' | 'occurrenceDate'> => {
+  const data = { ...event };
+  delete data.id;
+  delete data.occurrenceDate;
+  return data;
+};
+
+/**
+ * Encerrar a regra no dia anterior à data informada
+ */
+const endRuleBefore = (rule: RecurrenceRule, date: string): RecurrenceRule => {
+  const ended = { ...rule, until: shiftDate(date, -1) };
+  delete ended.count;
+  return ended;
+};
+
+// Campos próprios da série ou da ocorrência, que não são repassados aos avulsos
+const SERIES_ONLY_FIELDS: Array<keyof CalendarEvent> = [
+  'id', 'date', 'recurrence', 'exceptions', 'seriesId', 'seriesDate', 'occurrenceDate', 'icalUid'
+];
+
+/**
+ * Campos alterados em relação à série, para repassar às ocorrências avulsas
+ * sem desfazer o que foi editado nelas individualmente
+ */
+const getChangedFields = (series: CalendarEvent, changes: CalendarEvent): Partial<CalendarEvent> =>
+  Object.fromEntries(
+    (Object.keys(changes) as Array<keyof CalendarEvent>)
+      .filter(key => !SERIES_ONLY_FIELDS.includes(key))
+      .filter(key => JSON.stringify(changes[key]) !== JSON.stringify(series[key]))
+      .map(key => [key, changes[key]])
+  );
+
+// Data da ocorrência avulsa na série (avulsos antigos não guardam seriesDate)
+const getSeriesDate = (event: CalendarEvent) => event.seriesDate || event.date;
+
+class RecurringEventService {
+
+  /**
+   * Salvar alterações feitas em uma ocorrência da série
+   */
+  async updateOccurrence(
+    series: CalendarEvent,
+    occurrenceDate: string,
+    changes: CalendarEvent,
+    scope: RecurrenceEditScope
+  ): Promise<CalendarEvent | null> {
+    const exceptions = series.exceptions || [];
+
+    if (scope === 'this') {
+      const detached = {
+        ...toStoredEvent(changes),
+        id: firestoreService.createEventId(),
+        recurrence: null,
+        exceptions: [],
+        seriesId: series.id,
+        seriesDate: occurrenceDate
+      } as CalendarEvent;
+
+      const saved = await firestoreService.commitEventChanges({
+        create: [detached],
+        update: [{ id: series.id, changes: { exceptions: [...exceptions, occurrenceDate] } }]
+      });
+      return saved ? detached : null;
+    }
+
+    const detachedOccurrences = await firestoreService.getDetachedOccurrences(series.id);
+    if (!detachedOccurrences) return null;
+    const changedFields = getChangedFields(series, changes);
+
+    if (scope === 'following' && occurrenceDate > series.date && series.recurrence) {
+      let tailRule = changes.recurrence || null;
+
+      // Série limitada por quantidade: a nova série fica com as ocorrências restantes
+      if (tailRule?.count && tailRule.count === series.recurrence.count) {
+        const remaining = tailRule.count - countOccurrencesBefore(series.recurrence, series.date, occurrenceDate);
+        tailRule = { ...tailRule, count: Math.max(1, remaining) };
+      }
+
+      const tail = {
+        ...toStoredEvent(changes),
+        id: firestoreService.createEventId(),
+        recurrence: tailRule,
+        exceptions: exceptions.filter(date => date > occurrenceDate)
+      } as CalendarEvent;
+
+      // Avulsos a partir da ocorrência passam a pertencer à nova série
+      const saved = await firestoreService.commitEventChanges({
+        create: [tail],
+        update: [
+          {
+            id: series.id,
+            changes: {
+              recurrence: endRuleBefore(series.recurrence, occurrenceDate),
+              exceptions: exceptions.filter(date => date < occurrenceDate)
+            }
+          },
+          ...detachedOccurrences
+            .filter(event => getSeriesDate(event) >= occurrenceDate)
+            .map(event => ({ id: event.id, changes: { ...changedFields, seriesId: tail.id } }))
+        ]
+      });
+      return saved ? tail : null;
+    }
+
+    // Todas as ocorrências: desloca o início da série tanto quanto a ocorrência foi movida
+    const delta = differenceInCalendarDays(parseISO(changes.date), parseISO(occurrenceDate));
+    const seriesChanges = {
+      ...toStoredEvent(changes),
+      date: shiftDate(series.date, delta),
+      exceptions: exceptions.map(date => shiftDate(date, delta))
+    };
+
+    const saved = await firestoreService.commitEventChanges({
+      update: [
+        { id: series.id, changes: seriesChanges },
+        ...detachedOccurrences.map(event => ({
+          id: event.id,
+          changes: {
+            ...changedFields,
+            date: shiftDate(event.date, delta),
+            seriesDate: shiftDate(getSeriesDate(event), delta)
+          }
+        }))
+      ]
+    });
+    return saved ? { ...series, ...seriesChanges } : null;
+  }
+
+  /**
+   * Excluir uma ocorrência da série
+   */
+  async deleteOccurrence(series: CalendarEvent, occurrenceDate: string, scope: RecurrenceEditScope): Promise<boolean> {
+    const exceptions = series.exceptions || [];
+
+    if (scope === 'this') {
+      const updated = await firestoreService.updateEvent(series.id, {
+        exceptions: [...exceptions, occurrenceDate]
+      });
+      return updated !== null;
+    }
+
+    const detachedOccurrences = await firestoreService.getDetachedOccurrences(series.id);
+    if (!detachedOccurrences) return false;
+
+    if (scope === 'following' && occurrenceDate > series.date && series.recurrence) {
+      return firestoreService.commitEventChanges({
+        update: [{
+          id: series.id,
+          changes: {
+            recurrence: endRuleBefore(series.recurrence, occurrenceDate),
+            exceptions: exceptions.filter(date => date < occurrenceDate)
+          }
+        }],
+        remove: detachedOccurrences
+          .filter(event => getSeriesDate(event) >= occurrenceDate)
+          .map(event => event.id)
+      });
+    }
+
+    return firestoreService.commitEventChanges({
+      remove: [series.id, ...detachedOccurrences.map(event => event.id)]
+    });
+  }
+}
+
+export const recurringEventService = new RecurringEventService();
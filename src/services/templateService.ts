@@ -0,0 +1,77 @@
+/**
+ * Serviço de modelos de documentos para LegalX
+ *
+ * Cada usuário pode personalizar o modelo de cada tipo de documento; sem
+ * personalização vale o modelo padrão. O serviço também preenche o modelo
+ * com os dados de um documento para gerar o PDF, o Word e a visualização.
+ */
+
+import { Document, DocumentTemplate, DocumentTemplateKey } from '../types';
+import { firestoreService } from './firestoreService';
+import { DEFAULT_TEMPLATES, buildDocumentContext, getTemplateKey, renderDocumentTemplate } from '../utils/documentTemplates';
+import { RenderedDocument } from '../utils/documentRender';
+import { TemplateContext, validateTemplate } from '../utils/templateEngine';
+
+export interface TemplateEntry {
+  template: DocumentTemplate;
+  isCustom: boolean;
+}
+
+class TemplateService {
+
+  /**
+   * Modelos de todos os tipos de documento, personalizados ou padrão
+   */
+  async getTemplates(): Promise<Record<DocumentTemplateKey, TemplateEntry>> {
+    const customTemplates = await firestoreService.getDocumentTemplates();
+    const keys = Object.keys(DEFAULT_TEMPLATES) as DocumentTemplateKey[];
+
+    return Object.fromEntries(keys.map(key => {
+      const custom = customTemplates.find(template => template.id === key);
+      return [key, {
+        template: { ...DEFAULT_TEMPLATES[key], updatedAt: '', ...custom },
+        isCustom: Boolean(custom)
+      }];
+    })) as Record<DocumentTemplateKey, TemplateEntry>;
+  }
+
+  async getTemplate(key: DocumentTemplateKey): Promise<DocumentTemplate> {
+    const templates = await this.getTemplates();
+    return templates[key].template;
+  }
+
+  /**
+   * Salvar um modelo personalizado. Modelos com erro de sintaxe não são salvos.
+   */
+  async saveTemplate(template: Omit<DocumentTemplate, 'updatedAt'>): Promise<DocumentTemplate | null> {
+    const error = [template.title, template.highlight || '', template.body]
+      .map(validateTemplate)
+      .find(message => message);
+    if (error) {
+      console.error('Modelo de documento inválido:', error);
+      return null;
+    }
+
+    return firestoreService.saveDocumentTemplate(template);
+  }
+
+  /**
+   * Descartar a personalização e voltar ao modelo padrão
+   */
+  async resetTemplate(key: DocumentTemplateKey): Promise<boolean> {
+    return firestoreService.deleteDocumentTemplate(key);
+  }
+
+  async render(key: DocumentTemplateKey, context: TemplateContext): Promise<RenderedDocument> {
+    return renderDocumentTemplate(await this.getTemplate(key), context);
+  }
+
+  /**
+   * Preencher o modelo atual com os dados de um documento já emitido
+   */
+  async renderDocument(document: Document): Promise<RenderedDocument> {
+    return this.render(getTemplateKey(document.type), buildDocumentContext(document));
+  }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,179 @@
+/**
+ * Serviço de verificação de documentos
+ * Registra os selos impressos nos PDFs e responde à consulta pública pelo código.
+ * O selo público não identifica quem emitiu o documento: o dono e o documento
+ * ficam em documentVerificationOwners, com o mesmo código, sem leitura pública.
+ */
+
+import {
+  DocumentReference,
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  updateDoc,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db } from '../firebase.config';
+import { cryptoService } from './cryptoService';
+import type { Document, DocumentVerification, DocumentVerificationOwner, DocumentVerificationResult } from '../types';
+import { canonicalDocumentContent, getVerificationUrl, toVerificationCode } from '../utils/documentVerification';
+import { isReceiptCancelled } from '../utils/receiptNumbers';
+import type { VerificationStamp } from '../utils/documentRender';
+
+class VerificationService {
+  private readonly COLLECTION = 'documentVerifications';
+  private readonly OWNERS_COLLECTION = 'documentVerificationOwners';
+
+  async hashDocument(document: Document): Promise<string> {
+    return cryptoService.hashToken(canonicalDocumentContent(document));
+  }
+
+  /**
+   * Selo para o conteúdo atual do documento. O mesmo conteúdo gera sempre o
+   * mesmo código, então baixar o PDF de novo reaproveita o selo.
+   */
+  async registerDocument(document: Document): Promise<VerificationStamp | null> {
+    try {
+      const currentUser = auth.currentUser;
+      if (!currentUser) {
+        throw new Error('Usuário não autenticado');
+      }
+
+      const hash = await this.hashDocument(document);
+      const code = toVerificationCode(hash);
+      const docRef = doc(db, this.COLLECTION, code);
+      const existing = await getDoc(docRef);
+
+      if (existing.exists()) {
+        if (existing.data().hash !== hash) {
+          throw new Error(`Código de verificação já usado por outro documento: ${code}`);
+        }
+        if (existing.data().ownerUid) {
+          await this.migrateLegacyVerification(existing.ref, currentUser.uid, existing.data().documentId);
+        }
+        await updateDoc(docRef, { currentHash: hash });
+      } else {
+        const verification: DocumentVerification = {
+          hash,
+          currentHash: hash,
+          documentType: document.type,
+          version: document.version,
+          issuedAt: new Date().toISOString(),
+          status: isReceiptCancelled(document) ? 'cancelled' : 'active'
+        };
+        const owner: DocumentVerificationOwner = { ownerUid: currentUser.uid, documentId: document.id };
+
+        // O registro do dono autoriza a gravação do selo público (firestore.rules)
+        const batch = writeBatch(db);
+        batch.set(doc(db, this.OWNERS_COLLECTION, code), owner);
+        batch.set(docRef, verification);
+        await batch.commit();
+      }
+
+      console.log('Selo de verificação registrado:', code);
+      return { code, url: getVerificationUrl(code) };
+    } catch (error) {
+      console.error('Erro ao registrar selo de verificação:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Selos antigos guardavam ownerUid e documentId no próprio selo público.
+   * Ao serem encontrados, os dois passam para a coleção privada e saem do selo.
+   */
+  private async migrateLegacyVerification(docRef: DocumentReference, userId: string, documentId: string): Promise<void> {
+    const owner: DocumentVerificationOwner = { ownerUid: userId, documentId };
+    const batch = writeBatch(db);
+    batch.set(doc(db, this.OWNERS_COLLECTION, docRef.id), owner);
+    batch.update(docRef, { ownerUid: deleteField(), documentId: deleteField(), code: deleteField() });
+    await batch.commit();
+    console.log('Selo de verificação migrado:', docRef.id);
+  }
+
+  private async getDocumentVerifications(documentId: string): Promise<DocumentReference[]> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuário não autenticado');
+    }
+
+    const [owned, legacy] = await Promise.all([
+      getDocs(query(
+        collection(db, this.OWNERS_COLLECTION),
+        where('ownerUid', '==', currentUser.uid),
+        where('documentId', '==', documentId)
+      )),
+      getDocs(query(
+        collection(db, this.COLLECTION),
+        where('ownerUid', '==', currentUser.uid),
+        where('documentId', '==', documentId)
+      ))
+    ]);
+
+    await Promise.all(legacy.docs.map(item =>
+      this.migrateLegacyVerification(item.ref, currentUser.uid, documentId)
+    ));
+
+    const codes = new Set([...owned.docs, ...legacy.docs].map(item => item.id));
+    return [...codes].map(code => doc(db, this.COLLECTION, code));
+  }
+
+  /**
+   * Após uma nova versão, os selos anteriores passam a apontar divergência
+   */
+  async syncDocument(document: Document): Promise<void> {
+    try {
+      const currentHash = await this.hashDocument(document);
+      const verifications = await this.getDocumentVerifications(document.id);
+      await Promise.all(verifications.map(docRef => updateDoc(docRef, { currentHash })));
+    } catch (error) {
+      console.error('Erro ao atualizar selos de verificação:', error);
+    }
+  }
+
+  async setDocumentStatus(documentId: string, status: 'cancelled' | 'deleted'): Promise<void> {
+    try {
+      const verifications = await this.getDocumentVerifications(documentId);
+      await Promise.all(verifications.map(docRef => updateDoc(docRef, { status })));
+    } catch (error) {
+      console.error('Erro ao atualizar selos de verificação:', error);
+    }
+  }
+
+  /**
+   * Consulta pública: apenas situação, tipo, versão e data de emissão
+   */
+  async verify(code: string): Promise<DocumentVerificationResult | null> {
+    try {
+      const snapshot = await getDoc(doc(db, this.COLLECTION, code));
+      if (!snapshot.exists()) {
+        return { status: 'not_found' };
+      }
+
+      const verification = snapshot.data() as DocumentVerification;
+      const status = verification.status === 'deleted'
+        ? 'deleted'
+        : verification.status === 'cancelled'
+          ? 'cancelled'
+          : verification.currentHash !== verification.hash
+            ? 'outdated'
+            : 'valid';
+
+      return {
+        status,
+        documentType: verification.documentType,
+        version: verification.version,
+        issuedAt: verification.issuedAt
+      };
+    } catch (error) {
+      console.error('Erro ao verificar documento:', error);
+      return null;
+    }
+  }
+}
+
+export const verificationService = new VerificationService();
@@ -1,8 +1,21 @@
+export interface CnjNumberParts {
+  sequential: string; // NNNNNNN
+  checkDigits: string; // DD
+  year: number; // AAAA
+  justice: string; // J - segmento do Judiciário
+  justiceSegment: string;
+  tribunal: string; // TR
+  tribunalName: string; // Sigla do tribunal (ex: TJSP, TRT2)
+  origin: string; // OOOO - unidade de origem
+}
+
 export interface Process {
   id: string;
   name: string;
   processNumber: string;
+  cnj?: CnjNumberParts; // Partes do número CNJ, para filtros e relatórios
   client: string;
+  clientId?: string | null; // cliente cadastrado; client guarda o nome exibido
   opposingParty?: string;
   court: string;
   responsibleLawyers: string[];
@@ -14,12 +27,25 @@ export interface Process {
   createdAt: string;
 }
 
+export interface ProcessMovement {
+  id: string;
+  processId: string;
+  date: string;
+  type: 'Despacho' | 'Decisão' | 'Petição Protocolada' | 'Audiência Realizada' | 'Outro';
+  author: string;
+  description: string;
+  attachment?: string;
+  createdAt: string;
+}
+
 export interface CalendarEvent {
   id: string;
   title: string;
   date: string;
   time: string;
+  endTime?: string; // HH:mm; sem término, assume-se DEFAULT_EVENT_DURATION
   client?: string;
+  clientId?: string | null;
   type: 'Audiência' | 'Reunião com Cliente' | 'Prazo Processual' | 'Prazo Interno' | 'Ligação Importante' | 'Outro';
   location?: string;
   notes?: string;
@@ -27,6 +53,73 @@ export interface CalendarEvent {
   lawyers: string[];
   processNumber?: string;
   priority?: 'Baixa' | 'Média' | 'Alta' | 'Urgente';
+  recurrence?: RecurrenceRule | null;
+  exceptions?: string[]; // datas (yyyy-MM-dd) removidas da série
+  seriesId?: string; // série de origem de uma ocorrência editada isoladamente
+  seriesDate?: string; // data da ocorrência na série de origem, antes da edição isolada
+  icalUid?: string; // UID de eventos importados de arquivos .ics
+  occurrenceDate?: string; // preenchido apenas nas ocorrências expandidas (não persistido)
+}
+
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number;
+  byWeekday?: number[]; // 0 = domingo ... 6 = sábado
+  until?: string; // yyyy-MM-dd, inclusive
+  count?: number;
+}
+
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface Holiday {
+  date: string; // yyyy-MM-dd
+  name: string;
+  scope: 'Nacional' | 'Estadual' | 'Municipal' | 'Forense' | 'Recesso';
+}
+
+// Feriado cadastrado pelo usuário (estadual, municipal ou suspensão de expediente forense)
+export interface CustomHoliday {
+  id: string;
+  date: string; // yyyy-MM-dd
+  name: string;
+  scope: 'Estadual' | 'Municipal' | 'Forense';
+  recurring: boolean; // Repete todos os anos no mesmo dia e mês
+  createdAt: string;
+}
+
+export interface ReminderRule {
+  id: string;
+  eventType: CalendarEvent['type'] | 'Todos';
+  priority: NonNullable<CalendarEvent['priority']> | 'Todas';
+  offsets: number[]; // dias de antecedência (0 = no próprio dia)
+}
+
+export interface ReminderSettings {
+  rules: ReminderRule[];
+  browserNotifications: boolean;
+  emailDigest?: EmailDigestSettings; // resumo diário enviado pela Cloud Function sendAgendaDigest
+}
+
+export interface EmailDigestSettings {
+  enabled: boolean;
+  days: number;
+}
+
+export interface AppNotification {
+  id: string; // eventId:data:antecedência
+  eventId: string;
+  eventTitle: string;
+  eventType: CalendarEvent['type'];
+  eventDate: string;
+  eventTime: string;
+  daysUntil: number;
+  message: string;
+}
+
+export interface NotificationState {
+  read: string[];
+  dismissed: string[];
+  delivered: string[]; // já exibidas como notificação do navegador
 }
 
 export interface Revenue {
@@ -34,10 +127,21 @@ export interface Revenue {
   date: string;
   amount: number;
   source: string;
-  category: 'Honorário' | 'Consultoria' | 'Outro';
+  category: string; // nome da categoria no lançamento; categoryId é a referência
+  categoryId?: string;
   responsibleLawyers?: string[];
   client?: string;
+  clientId?: string | null;
   description?: string;
+  receiptId?: string | null; // recibo emitido para este pagamento
+  receiptNumber?: string;
+  receiptWarning?: string; // aviso quando o recibo vinculado é cancelado ou excluído
+  // Participação (%) de cada advogado responsável, pelo nome; sem ela o
+  // valor é dividido igualmente para o cálculo de comissões
+  lawyerShares?: Record<string, number> | null;
+  receivableId?: string | null; // parcela a receber quitada por este pagamento
+  bankTransactionId?: string | null; // transação do extrato bancário conciliada
+  commissionStatementIds?: Record<string, string>; // extrato de comissão pago, pelo id do advogado
 }
 
 export interface Expense {
@@ -45,26 +149,269 @@ export interface Expense {
   date: string;
   amount: number;
   type: string;
-  category: 'Aluguel' | 'Internet' | 'Material' | 'Outro';
+  category: string; // nome da categoria no lançamento; categoryId é a referência
+  categoryId?: string;
   responsibleLawyers?: string[];
   responsibleMembers?: string[];
   description?: string;
   receipt?: string;
+  payableId?: string | null; // conta a pagar quitada por esta despesa
+  bankTransactionId?: string | null; // transação do extrato bancário conciliada
 }
 
-export interface Document {
+export type FinancialCategoryKind = 'receita' | 'despesa';
+
+// Categoria financeira do escritório; subcategorias têm um único nível
+export interface FinancialCategory {
   id: string;
-  type: 'Procuração' | 'Recibo';
+  kind: FinancialCategoryKind;
+  name: string;
+  parentId: string | null;
+  color: string; // #rrggbb
+  active: boolean; // inativas ficam fora dos formulários, mas seguem nos relatórios
+  createdAt: string;
+}
+
+export interface PowerOfAttorneyPayload {
+  clientCpf: string; // somente dígitos/letras (CPF ou CNPJ)
+  clientRg: string;
+  clientAddress: string;
+  type: string; // Ad Judicia ou Para fins específicos
+  object: string;
+  location: string;
+  date: string;
+  lawyers: string[];
+  lawyersOab: string[]; // inscrições formatadas, na mesma ordem de lawyers
+}
+
+export interface ReceiptPayload {
+  amount: number;
+  description: string;
+  paymentMethod: string;
+  date: string;
+  lawyerName: string;
+  lawyerOab: string; // 123456/UF
+  lawyerCpf: string;
+  number: string; // REC-AAAA-000123; vazio em recibos anteriores à numeração
+  cancelledAt: string; // recibos numerados não são excluídos, apenas cancelados
+  cancelReason: string;
+  revenueId: string; // receita lançada para este pagamento
+  revenueWarning: string; // aviso quando a receita vinculada é excluída
+}
+
+export interface FeeAgreementPayload {
+  clientCpf: string;
+  clientAddress: string;
+  lawyers: string[];
+  lawyersOab: string[];
+  object: string;
+  amount: number; // honorários fixos (0 quando só há êxito)
+  installments: number;
+  firstDueDate: string;
+  successFee: number; // percentual sobre o proveito econômico
+  paymentMethod: string;
+  location: string;
+  date: string;
+  processCourt: string;
+}
+
+export interface SubstitutionPayload {
+  grantorName: string;
+  grantorOab: string;
+  granteeName: string;
+  granteeOab: string;
+  withReservation: boolean;
+  notes: string;
+  location: string;
+  date: string;
+  processCourt: string;
+}
+
+export interface HardshipDeclarationPayload {
+  clientCpf: string;
+  clientRg: string;
+  clientAddress: string;
+  profession: string;
+  location: string;
+  date: string;
+}
+
+// Dados de cada tipo de documento
+export interface DocumentPayloads {
+  'Procuração': PowerOfAttorneyPayload;
+  'Recibo': ReceiptPayload;
+  'Contrato de Honorários': FeeAgreementPayload;
+  'Substabelecimento': SubstitutionPayload;
+  'Declaração de Hipossuficiência': HardshipDeclarationPayload;
+}
+
+export type DocumentType = keyof DocumentPayloads;
+
+interface DocumentRecord<T extends DocumentType> {
+  id: string;
+  type: T;
   client: string;
+  clientId?: string | null;
+  processId?: string | null; // processo relacionado; processNumber guarda o número exibido
+  processNumber?: string;
+  schemaVersion: number; // versão do formato de data (ver utils/documentPayloads)
+  version: number; // versão do conteúdo, começa em 1 e aumenta a cada reemissão
+  changeNote?: string; // motivo da última alteração
   createdAt: string;
-  data: any;
+  createdBy?: DocumentAuthor | null;
+  updatedAt?: string;
+  updatedBy?: DocumentAuthor | null;
+  data: DocumentPayloads[T];
+  payloadErrors?: string[]; // problemas encontrados na validação ao carregar (não persistido)
+}
+
+export type Document = { [T in DocumentType]: DocumentRecord<T> }[DocumentType];
+
+// Documento a ser salvo: id, datas, autoria e versões são definidos pelo serviço
+export type NewDocument = {
+  [T in DocumentType]: Omit<
+    DocumentRecord<T>,
+    'id' | 'createdAt' | 'createdBy' | 'updatedAt' | 'updatedBy' | 'schemaVersion' | 'version' | 'changeNote' | 'payloadErrors'
+  >
+}[DocumentType];
+
+// Recibo a ser salvo: número, cancelamento e vínculo com a receita são definidos pelo serviço
+export type NewReceipt = Omit<Extract<NewDocument, { type: 'Recibo' }>, 'data'> & {
+  data: Omit<ReceiptPayload, 'number' | 'cancelledAt' | 'cancelReason' | 'revenueId' | 'revenueWarning'>;
+};
+
+// Recibo emitido sem conexão: fica no navegador até receber o número do escritório
+export interface PendingReceipt {
+  id: string; // id reservado para o documento no Firestore
+  userId: string;
+  receipt: NewReceipt;
+  createdBy: DocumentAuthor | null;
+  queuedAt: string;
+}
+
+// Resultado da emissão: recibos sem conexão ficam na fila, ainda sem número
+export type ReceiptSaveResult =
+  | { status: 'saved'; receipt: Document }
+  | { status: 'queued' }
+  | { status: 'error' };
+
+// Usuário que emitiu, alterou ou exportou um documento
+export interface DocumentAuthor {
+  uid: string;
+  name: string;
+}
+
+// Conteúdo de um documento em uma versão: a atual fica no próprio documento
+// e as anteriores na subcoleção documents/{id}/versions
+export type DocumentVersion = {
+  [T in DocumentType]: {
+    documentId: string;
+    version: number;
+    type: T;
+    client: string;
+    processId: string | null;
+    processNumber: string;
+    data: DocumentPayloads[T];
+    changeNote: string;
+    createdAt: string; // quando esta versão foi emitida
+    createdBy: DocumentAuthor | null;
+  }
+}[DocumentType];
+
+// Nova versão de um documento, a partir da edição
+export type DocumentRevision = Pick<DocumentVersion, 'client' | 'processId' | 'processNumber' | 'data' | 'changeNote'> & {
+  clientId: string | null;
+};
+
+// Registro de cada PDF/DOCX gerado
+export interface DocumentExport {
+  id: string;
+  documentId: string;
+  version: number;
+  format: 'PDF' | 'DOCX';
+  generatedAt: string;
+  generatedBy: DocumentAuthor | null;
+  verificationCode?: string; // código do selo impresso no PDF
+}
+
+// Selo de verificação em documentVerifications/{código}, de leitura pública;
+// o código é o início do hash, ex: A1B2-C3D4-E5F6. Guarda apenas hashes e
+// metadados, nunca o conteúdo do documento nem quem o emitiu.
+export interface DocumentVerification {
+  hash: string; // SHA-256 do conteúdo na emissão
+  currentHash: string; // SHA-256 do conteúdo atual do documento
+  documentType: DocumentType;
+  version: number;
+  issuedAt: string;
+  status: 'active' | 'cancelled' | 'deleted';
+}
+
+// Dono do selo, em documentVerificationOwners/{código}, sem leitura pública
+export interface DocumentVerificationOwner {
+  ownerUid: string;
+  documentId: string;
+}
+
+export type DocumentVerificationResult =
+  | { status: 'not_found' }
+  | {
+      status: 'valid' | 'outdated' | 'cancelled' | 'deleted';
+      documentType: DocumentType;
+      version: number;
+      issuedAt: string;
+    };
+
+export type DocumentTemplateKey = 'procuracao' | 'recibo' | 'contrato' | 'substabelecimento' | 'hipossuficiencia';
+
+export interface DocumentTemplate {
+  id: DocumentTemplateKey; // um modelo por tipo de documento
+  documentType: Document['type'];
+  title: string;
+  highlight?: string; // destaque abaixo do título (ex: valor do recibo)
+  body: string;
+  updatedAt: string;
+}
+
+export interface Client {
+  id: string;
+  type: 'Pessoa Física' | 'Pessoa Jurídica';
+  name: string; // nome completo ou razão social
+  document: string; // CPF ou CNPJ
+  rg?: string;
+  address?: ClientAddress;
+  contacts: ClientContact[];
+  notes?: string;
+  createdAt: string;
+}
+
+export interface ClientAddress {
+  street: string;
+  number: string;
+  complement?: string;
+  neighborhood?: string;
+  city: string;
+  state: string; // UF
+  zipCode?: string;
+}
+
+export interface ClientContact {
+  type: 'Telefone' | 'Celular' | 'WhatsApp' | 'Email' | 'Outro';
+  value: string;
+  name?: string; // pessoa de contato (ex: responsável na empresa)
+}
+
+export interface OabRegistration {
+  number: string; // somente dígitos
+  state: string; // UF da seccional
+  type: 'Principal' | 'Suplementar' | 'Estagiário';
 }
 
 export interface Lawyer {
   id: string;
   fullName: string;
   cpf: string;
-  oab: string;
+  oab: string; // inscrição principal no formato 123456/UF
+  oabRegistrations?: OabRegistration[];
   photo?: string;
   commission: number; // Percentual de comissão (0-100)
   email?: string;
@@ -89,6 +436,109 @@ export interface Employee {
   createdAt: string;
 }
 
+// Situação de uma conta a receber; "atrasado" é calculado pelo vencimento
+// e nunca gravado
+export type ReceivableStatus = 'aberto' | 'pago' | 'atrasado' | 'cancelado';
+
+export interface ReceivablePayment {
+  id: string;
+  date: string;
+  amount: number;
+  revenueId: string | null; // receita lançada pelo pagamento
+}
+
+// Parcela de honorários faturada e ainda não (totalmente) recebida
+export interface Receivable {
+  id: string;
+  description: string;
+  client: string;
+  clientId: string | null;
+  documentId: string | null; // contrato de honorários de origem
+  processNumber: string;
+  responsibleLawyers: string[];
+  installment: number;
+  installments: number;
+  dueDate: string;
+  amount: number;
+  payments: ReceivablePayment[];
+  status: Exclude<ReceivableStatus, 'atrasado'>;
+  cancelReason?: string;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'mensal' | 'anual';
+
+// Despesa fixa que gera contas a pagar; nas anuais o mês vem de startDate
+export interface RecurringExpense {
+  id: string;
+  type: string;
+  category: string;
+  categoryId: string;
+  amount: number;
+  frequency: RecurrenceFrequency;
+  dayOfMonth: number; // 1-31, limitado ao último dia do mês
+  startDate: string;
+  endDate: string | null;
+  description: string;
+  generatedUntil: string; // último vencimento já gerado ('' se nenhum)
+  createdAt: string;
+}
+
+// Situação de uma conta a pagar; "vencido" é calculado pelo vencimento
+export type PayableStatus = 'pendente' | 'pago' | 'vencido';
+
+export interface Payable {
+  id: string;
+  recurringExpenseId: string | null;
+  type: string;
+  category: string;
+  categoryId: string;
+  amount: number;
+  dueDate: string;
+  description: string;
+  status: Exclude<PayableStatus, 'vencido'>;
+  paidAt: string | null; // data do pagamento
+  expenseId: string | null; // despesa lançada ao pagar
+}
+
+export type BankTransactionDirection = 'credito' | 'debito';
+
+// Lançamento de um extrato bancário importado (OFX ou CSV)
+export interface BankTransaction {
+  id: string; // FITID do OFX ou identificador derivado da linha do CSV
+  date: string;
+  amount: number; // sempre positivo; direction indica entrada ou saída
+  direction: BankTransactionDirection;
+  description: string;
+}
+
+// Receita de um extrato de comissão
+export interface CommissionLine {
+  revenueId: string;
+  date: string;
+  source: string;
+  client: string;
+  revenueAmount: number;
+  share: number; // participação do advogado na receita (%)
+  base: number; // parte da receita atribuída ao advogado
+  commission: number;
+}
+
+// Extrato de comissão de um advogado; registrado quando pago, e as
+// receitas pagas não entram em extratos seguintes
+export interface CommissionStatement {
+  id: string;
+  lawyerId: string;
+  lawyerName: string;
+  periodStart: string;
+  periodEnd: string;
+  rate: number; // percentual de comissão aplicado
+  lines: CommissionLine[];
+  total: number;
+  paidAt: string;
+  paidBy: DocumentAuthor | null;
+}
+
 export interface FinancialSummary {
   totalRevenue: number;
   totalExpenses: number;
@@ -0,0 +1,297 @@
+/**
+ * Importação de extratos bancários (OFX e CSV) e conciliação
+ *
+ * Cada transação do extrato recebe um id estável: o FITID do OFX ou, no CSV,
+ * um identificador derivado da data, do valor e do histórico da linha. A
+ * receita ou despesa conciliada guarda esse id em bankTransactionId, e as
+ * transações ignoradas ficam registradas, para que reimportar o mesmo
+ * extrato (ou um período sobreposto) não gere lançamentos em dobro.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { BankTransaction, Expense, Revenue } from '../types';
+import { normalizeClientName } from './clients';
+import { DEFAULT_EXPENSE_CATEGORY_ID, DEFAULT_REVENUE_CATEGORY_ID } from './financialCategories';
+
+export type ReconcileKind = 'revenue' | 'expense';
+
+export interface MatchSuggestion {
+  kind: ReconcileKind;
+  record: Revenue | Expense;
+  days: number; // distância entre a data do extrato e a do lançamento
+}
+
+// Compensações costumam cair alguns dias depois do lançamento
+const MATCH_WINDOW_DAYS = 5;
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Valor de uma célula do CSV, no formato brasileiro ("R$ -1.234,56",
+ * "1.234,56 D", "1.500") ou com ponto decimal ("-1234.56"). Sufixo D
+ * (débito) torna o valor negativo.
+ */
+export function parseStatementAmount(value: string): number {
+  let text = value.replace(/R\$/gi, '').replace(/\s/g, '');
+  let sign = 1;
+
+  const suffix = text.match(/([CD])$/i);
+  if (suffix) {
+    if (suffix[1].toUpperCase() === 'D') sign = -1;
+    text = text.slice(0, -1);
+  }
+  // Negativo entre parênteses: (1.234,56)
+  if (/^\(.*\)$/.test(text)) {
+    sign = -sign;
+    text = text.slice(1, -1);
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma >= 0) {
+    text = text.replace(/,/g, '');
+  } else if (/^[-+]?\d{1,3}(\.\d{3})+$/.test(text)) {
+    // Sem vírgula, pontos a cada três dígitos separam milhares: "1.500"
+    text = text.replace(/\./g, '');
+  }
+
+  const amount = Number(text);
+  return Number.isFinite(amount) ? sign * amount : NaN;
+}
+
+/**
+ * Data do extrato em yyyy-MM-dd: dd/MM/yyyy, dd/MM/yy, yyyy-MM-dd ou o
+ * formato do OFX (yyyyMMddHHmmss[-3:BRT])
+ */
+export function parseStatementDate(value: string): string | null {
+  const text = value.trim();
+  let match = text.match(/^(\d{2})\/(\d{2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+    return `${year}-${match[2]}-${match[1]}`;
+  }
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/) || text.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// Ids do Firestore não aceitam barras
+const safeId = (value: string) => value.trim().replace(/[/\s]+/g, '-');
+
+// Hash curto (djb2) do histórico, para ids de linhas de CSV
+const hashText = (value: string) => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+const toTransaction = (
+  id: string,
+  date: string,
+  amount: number,
+  description: string
+): BankTransaction => ({
+  id: safeId(id),
+  date,
+  amount: Math.round(Math.abs(amount) * 100) / 100,
+  direction: amount < 0 ? 'debito' : 'credito',
+  description: description.replace(/\s+/g, ' ').trim()
+});
+
+/**
+ * TRNAMT do OFX: número com sinal e sem separador de milhares ("-1.500" é
+ * um e meio). A especificação aceita vírgula como separador decimal.
+ */
+const parseOFXAmount = (value: string): number => (value ? Number(value.replace(',', '.')) : NaN);
+
+/**
+ * Transações de um arquivo OFX (SGML da versão 1.x ou XML da 2.x)
+ */
+export function parseOFX(content: string): BankTransaction[] {
+  const field = (block: string, tag: string) => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  const account = field(content, 'ACCTID');
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  return blocks.flatMap(block => {
+    const date = parseStatementDate(field(block, 'DTPOSTED'));
+    const amount = parseOFXAmount(field(block, 'TRNAMT'));
+    if (!date || Number.isNaN(amount) || amount === 0) return [];
+
+    const description = field(block, 'MEMO') || field(block, 'NAME') || field(block, 'TRNTYPE');
+    const fitId = field(block, 'FITID') || `${date}-${Math.round(amount * 100)}-${hashText(description)}`;
+    return [toTransaction(`ofx-${account ? `${account}-` : ''}${fitId}`, date, amount, description)];
+  });
+}
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const normalizeHeader = (value: string) => normalizeClientName(value).replace(/[^a-z0-9 ]/g, '').trim();
+
+// Nomes de coluna usados pelos principais bancos (Itaú, BB, Bradesco, Caixa, Santander, Inter, Nubank)
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex(header => names.some(name => header === name || header.startsWith(`${name} `)));
+
+/**
+ * Transações de um CSV de extrato. A linha de cabeçalho é localizada pelos
+ * nomes das colunas; o valor pode vir em uma coluna única (com sinal ou
+ * sufixo C/D) ou em colunas separadas de crédito e débito. Linhas de saldo
+ * são descartadas.
+ */
+export function parseBankCSV(content: string): BankTransaction[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+
+  for (let headerIndex = 0; headerIndex < Math.min(lines.length, 20); headerIndex++) {
+    const headerLine = lines[headerIndex];
+    const delimiter = [';', '\t', ','].reduce((best, candidate) =>
+      headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+    const headers = splitCsvLine(headerLine, delimiter).map(normalizeHeader);
+
+    const dateColumn = findColumn(headers, ['data', 'date', 'data lancamento', 'data do lancamento']);
+    const amountColumn = findColumn(headers, ['valor', 'amount', 'valor rs']);
+    const creditColumn = findColumn(headers, ['credito', 'entrada', 'entradas']);
+    const debitColumn = findColumn(headers, ['debito', 'saida', 'saidas']);
+    const descriptionColumn = findColumn(headers, [
+      'descricao', 'historico', 'lancamento', 'detalhes', 'description', 'title', 'titulo'
+    ]);
+    const idColumn = findColumn(headers, ['identificador', 'id', 'documento', 'n documento', 'numero documento']);
+
+    if (dateColumn < 0 || (amountColumn < 0 && creditColumn < 0 && debitColumn < 0)) continue;
+
+    // Linhas idênticas no mesmo arquivo (duas tarifas iguais no dia) recebem um sequencial
+    const occurrences = new Map<string, number>();
+
+    return lines.slice(headerIndex + 1).flatMap(line => {
+      const cells = splitCsvLine(line, delimiter);
+      const date = parseStatementDate(cells[dateColumn] || '');
+      const description = descriptionColumn >= 0 ? cells[descriptionColumn] || '' : '';
+      if (!date || /^saldo\b/i.test(normalizeClientName(description))) return [];
+
+      let amount = NaN;
+      if (amountColumn >= 0 && cells[amountColumn]) {
+        amount = parseStatementAmount(cells[amountColumn]);
+      } else {
+        const credit = creditColumn >= 0 && cells[creditColumn] ? parseStatementAmount(cells[creditColumn]) : 0;
+        const debit = debitColumn >= 0 && cells[debitColumn] ? parseStatementAmount(cells[debitColumn]) : 0;
+        amount = Math.abs(credit || 0) - Math.abs(debit || 0);
+      }
+      if (Number.isNaN(amount) || amount === 0) return [];
+
+      const key = `${date}-${Math.round(amount * 100)}-${hashText(normalizeClientName(description))}`;
+      const occurrence = (occurrences.get(key) || 0) + 1;
+      occurrences.set(key, occurrence);
+
+      const bankId = idColumn >= 0 ? cells[idColumn] : '';
+      return [toTransaction(bankId ? `csv-${bankId}` : `csv-${key}-${occurrence}`, date, amount, description)];
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Transações do arquivo, pelo formato indicado na extensão ou no conteúdo
+ */
+export function parseBankStatement(fileName: string, content: string): BankTransaction[] {
+  const isOFX = /\.ofx$/i.test(fileName) || /<OFX>/i.test(content);
+  return isOFX ? parseOFX(content) : parseBankCSV(content);
+}
+
+const recordText = (kind: ReconcileKind, record: Revenue | Expense) => kind === 'revenue'
+  ? [(record as Revenue).source, (record as Revenue).client, record.description].join(' ')
+  : [(record as Expense).type, record.description].join(' ');
+
+const words = (value: string) => new Set(normalizeClientName(value).split(/[^a-z0-9]+/).filter(word => word.length > 2));
+
+/**
+ * Lançamentos ainda não conciliados com o mesmo valor e data próxima:
+ * receitas para créditos e despesas para débitos. Ordena pela distância
+ * entre as datas e, no empate, pelas palavras em comum com o histórico.
+ */
+export function suggestMatches(
+  transaction: BankTransaction,
+  revenues: Revenue[],
+  expenses: Expense[]
+): MatchSuggestion[] {
+  const kind: ReconcileKind = transaction.direction === 'credito' ? 'revenue' : 'expense';
+  const records: Array<Revenue | Expense> = kind === 'revenue' ? revenues : expenses;
+  const amount = Math.round(transaction.amount * 100);
+  const postedOn = parseISO(transaction.date);
+  const statementWords = words(transaction.description);
+  const sharedWords = (record: Revenue | Expense) =>
+    [...words(recordText(kind, record))].filter(word => statementWords.has(word)).length;
+
+  return records
+    .filter(record => !record.bankTransactionId && Math.round(record.amount * 100) === amount)
+    .map(record => ({
+      kind,
+      record,
+      days: Math.abs(differenceInCalendarDays(parseISO(record.date), postedOn)) || 0
+    }))
+    .filter(suggestion => suggestion.days <= MATCH_WINDOW_DAYS)
+    .sort((a, b) => a.days - b.days || sharedWords(b.record) - sharedWords(a.record))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Receita (sem id) lançada a partir de um crédito do extrato
+ */
+export function buildRevenueFromTransaction(transaction: BankTransaction, category: { id: string; name: string }): Omit<Revenue, 'id'> {
+  return {
+    date: transaction.date,
+    amount: transaction.amount,
+    source: transaction.description || 'Crédito em conta',
+    category: category.name,
+    categoryId: category.id || DEFAULT_REVENUE_CATEGORY_ID,
+    responsibleLawyers: [],
+    client: '',
+    clientId: null,
+    description: 'Importado do extrato bancário',
+    bankTransactionId: transaction.id
+  };
+}
+
+/**
+ * Despesa (sem id) lançada a partir de um débito do extrato
+ */
+export function buildExpenseFromTransaction(transaction: BankTransaction, category: { id: string; name: string }): Omit<Expense, 'id'> {
+  return {
+    date: transaction.date,
+    amount: transaction.amount,
+    type: transaction.description || 'Débito em conta',
+    category: category.name,
+    categoryId: category.id || DEFAULT_EXPENSE_CATEGORY_ID,
+    responsibleMembers: [],
+    description: 'Importado do extrato bancário',
+    bankTransactionId: transaction.id
+  };
+}
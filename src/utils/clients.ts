@@ -0,0 +1,61 @@
+/**
+ * Clientes cadastrados
+ *
+ * Processos, eventos, receitas e documentos guardam o nome do cliente
+ * (client) e, quando escolhido no cadastro, o id (clientId). Registros
+ * antigos, sem clientId, são associados pelo nome normalizado.
+ */
+
+import { Client, ClientAddress } from '../types';
+
+export interface ClientLinked {
+  client?: string;
+  clientId?: string | null;
+}
+
+// Comparação de nomes sem acentos, caixa ou espaços extras
+export function normalizeClientName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+export function belongsToClient(record: ClientLinked, client: Client): boolean {
+  if (record.clientId) {
+    return record.clientId === client.id;
+  }
+  return !!record.client && normalizeClientName(record.client) === normalizeClientName(client.name);
+}
+
+/**
+ * Cliente com exatamente o nome informado, para vincular registros digitados
+ */
+export function findClientByName(clients: Client[], name: string): Client | null {
+  const normalized = normalizeClientName(name);
+  if (!normalized) return null;
+  return clients.find(client => normalizeClientName(client.name) === normalized) || null;
+}
+
+export function formatClientAddress(address?: ClientAddress | null): string {
+  if (!address || !address.street) return '';
+
+  const street = [address.street, address.number].filter(Boolean).join(', ');
+  const line = [street, address.complement, address.neighborhood].filter(Boolean).join(' - ');
+  const city = [address.city, address.state].filter(Boolean).join('/');
+
+  return [line, city, address.zipCode && `CEP ${address.zipCode}`].filter(Boolean).join(', ');
+}
+
+export function getClientDocumentLabel(client: Pick<Client, 'type'>): string {
+  return client.type === 'Pessoa Jurídica' ? 'CNPJ' : 'CPF';
+}
+
+/**
+ * Primeiro contato do tipo pedido (ex: email para envio de documentos)
+ */
+export function getClientContact(client: Client, types: Array<Client['contacts'][number]['type']>): string {
+  return client.contacts.find(contact => types.includes(contact.type))?.value || '';
+}
@@ -0,0 +1,184 @@
+/**
+ * Numeração Única de Processos - CNJ (Resolução CNJ nº 65/2008)
+ *
+ * Formato: NNNNNNN-DD.AAAA.J.TR.OOOO
+ * - NNNNNNN: número sequencial do processo no ano
+ * - DD: dígitos verificadores (módulo 97, ISO 7064)
+ * - AAAA: ano de ajuizamento
+ * - J: segmento do Poder Judiciário
+ * - TR: tribunal
+ * - OOOO: unidade de origem
+ */
+
+import { CnjNumberParts } from '../types';
+
+const CNJ_DIGITS_LENGTH = 20;
+const CNJ_PATTERN = /^(\d{7})-(\d{2})\.(\d{4})\.(\d)\.(\d{2})\.(\d{4})$/;
+
+// Segmentos do Poder Judiciário (dígito J)
+const JUSTICE_SEGMENTS: Record<string, string> = {
+  '1': 'Supremo Tribunal Federal',
+  '2': 'Conselho Nacional de Justiça',
+  '3': 'Superior Tribunal de Justiça',
+  '4': 'Justiça Federal',
+  '5': 'Justiça do Trabalho',
+  '6': 'Justiça Eleitoral',
+  '7': 'Justiça Militar da União',
+  '8': 'Justiça Estadual',
+  '9': 'Justiça Militar Estadual'
+};
+
+// Códigos TR dos estados, usados pelas Justiças Estadual e Eleitoral
+const STATE_CODES: Record<string, string> = {
+  '01': 'AC', '02': 'AL', '03': 'AP', '04': 'AM', '05': 'BA', '06': 'CE',
+  '07': 'DF', '08': 'ES', '09': 'GO', '10': 'MA', '11': 'MT', '12': 'MS',
+  '13': 'MG', '14': 'PA', '15': 'PB', '16': 'PR', '17': 'PE', '18': 'PI',
+  '19': 'RJ', '20': 'RN', '21': 'RS', '22': 'RO', '23': 'RR', '24': 'SC',
+  '25': 'SE', '26': 'SP', '27': 'TO'
+};
+
+// Tribunais de Justiça Militar estaduais existentes
+const MILITARY_STATE_COURTS: Record<string, string> = {
+  '13': 'TJMMG',
+  '21': 'TJMRS',
+  '26': 'TJMSP'
+};
+
+/**
+ * Calcular o resto da divisão por 97 de uma sequência de dígitos
+ * sem perder precisão (o número tem mais de 15 dígitos)
+ */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+}
+
+/**
+ * Manter apenas os dígitos de um número de processo (sem truncar: números
+ * com dígitos a mais não são válidos)
+ */
+export function stripCnjNumber(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+/**
+ * Aplicar a máscara NNNNNNN-DD.AAAA.J.TR.OOOO enquanto o usuário digita
+ */
+export function formatCnjNumber(value: string): string {
+  const digits = stripCnjNumber(value);
+  const sections: Array<[number, number, string]> = [
+    [0, 7, ''],
+    [7, 9, '-'],
+    [9, 13, '.'],
+    [13, 14, '.'],
+    [14, 16, '.'],
+    [16, 20, '.']
+  ];
+
+  return sections
+    .filter(([start]) => digits.length > start)
+    .map(([start, end, separator]) => separator + digits.slice(start, end))
+    .join('');
+}
+
+/**
+ * Calcular os dígitos verificadores DD a partir das demais partes do número
+ */
+export function calculateCnjCheckDigits(
+  sequential: string,
+  year: string,
+  justice: string,
+  tribunal: string,
+  origin: string
+): string {
+  const remainder = mod97(`${sequential}${year}${justice}${tribunal}${origin}00`);
+  return String(98 - remainder).padStart(2, '0');
+}
+
+/**
+ * Validar o formato e os dígitos verificadores de um número CNJ
+ */
+export function isValidCnjNumber(value: string): boolean {
+  const match = formatCnjNumber(value).match(CNJ_PATTERN);
+  if (!match || stripCnjNumber(value).length !== CNJ_DIGITS_LENGTH) {
+    return false;
+  }
+
+  const [, sequential, checkDigits, year, justice, tribunal, origin] = match;
+  if (!JUSTICE_SEGMENTS[justice]) {
+    return false;
+  }
+
+  return mod97(`${sequential}${year}${justice}${tribunal}${origin}${checkDigits}`) === 1;
+}
+
+/**
+ * Obter a sigla do tribunal a partir do segmento (J) e do código TR
+ */
+export function getTribunalName(justice: string, tribunal: string): string {
+  const tribunalNumber = Number(tribunal);
+
+  switch (justice) {
+    case '1':
+      return 'STF';
+    case '2':
+      return 'CNJ';
+    case '3':
+      return 'STJ';
+    case '4':
+      return tribunal === '90' ? 'CJF' : `TRF${tribunalNumber}`;
+    case '5':
+      if (tribunal === '00') return 'TST';
+      if (tribunal === '90') return 'CSJT';
+      return `TRT${tribunalNumber}`;
+    case '6':
+      if (tribunal === '00') return 'TSE';
+      return STATE_CODES[tribunal] ? `TRE-${STATE_CODES[tribunal]}` : `TRE ${tribunal}`;
+    case '7':
+      return tribunal === '00' ? 'STM' : `${tribunalNumber}ª CJM`;
+    case '8':
+      if (tribunal === '07') return 'TJDFT';
+      return STATE_CODES[tribunal] ? `TJ${STATE_CODES[tribunal]}` : `TJ ${tribunal}`;
+    case '9':
+      return MILITARY_STATE_COURTS[tribunal] || `TJM ${tribunal}`;
+    default:
+      return `Tribunal ${tribunal}`;
+  }
+}
+
+/**
+ * Decompor um número CNJ válido em suas partes.
+ * Retorna null se o número não for válido.
+ */
+export function parseCnjNumber(value: string): CnjNumberParts | null {
+  if (!isValidCnjNumber(value)) {
+    return null;
+  }
+
+  const [, sequential, checkDigits, year, justice, tribunal, origin] =
+    formatCnjNumber(value).match(CNJ_PATTERN)!;
+
+  return {
+    sequential,
+    checkDigits,
+    year: Number(year),
+    justice,
+    justiceSegment: JUSTICE_SEGMENTS[justice],
+    tribunal,
+    tribunalName: getTribunalName(justice, tribunal),
+    origin
+  };
+}
+
+/**
+ * Sugerir o texto do campo "Fórum/Comarca" a partir das partes do número
+ */
+export function describeCnjCourt(parts: CnjNumberParts): string {
+  if (parts.origin === '0000') {
+    return `${parts.tribunalName} - ${parts.justiceSegment}`;
+  }
+  return `${parts.tribunalName} - Unidade de origem ${parts.origin}`;
+}
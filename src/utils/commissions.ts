@@ -0,0 +1,129 @@
+/**
+ * Comissões dos advogados
+ *
+ * Para um período, cada receita em que o advogado aparece entre os
+ * responsáveis gera uma linha no extrato: a parte da receita que cabe a ele
+ * (dividida igualmente ou pela participação configurada na receita)
+ * multiplicada pelo seu percentual de comissão. Receitas de extratos já
+ * pagos ficam de fora, para que a mesma comissão não seja paga duas vezes.
+ */
+
+import { format, parseISO } from 'date-fns';
+import { CommissionLine, CommissionStatement, Lawyer, Revenue } from '../types';
+import { RenderedDocument } from './documentRender';
+
+export type CommissionDraft = Omit<CommissionStatement, 'id' | 'paidAt' | 'paidBy'>;
+
+export interface CommissionPeriod {
+  start: string; // yyyy-MM-dd
+  end: string;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const formatDate = (date: string) => format(parseISO(date), 'dd/MM/yyyy');
+
+const formatPercent = (value: number) =>
+  `${new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 }).format(value)}%`;
+
+/**
+ * Participação (%) de cada advogado entre os responsáveis da receita.
+ * Colaboradores não recebem comissão e não entram na divisão.
+ */
+export function getLawyerShares(revenue: Revenue, lawyerNames: Set<string>): Record<string, number> {
+  const responsible = (revenue.responsibleLawyers || []).filter(name => lawyerNames.has(name));
+  const configured = revenue.lawyerShares || {};
+  const configuredTotal = responsible.reduce((sum, name) => sum + (configured[name] || 0), 0);
+
+  return responsible.reduce<Record<string, number>>((shares, name) => {
+    shares[name] = configuredTotal > 0
+      ? (configured[name] || 0) * 100 / configuredTotal
+      : 100 / responsible.length;
+    return shares;
+  }, {});
+}
+
+function getPaidRevenueIds(lawyerId: string, paidStatements: CommissionStatement[]): Set<string> {
+  return new Set(paidStatements
+    .filter(statement => statement.lawyerId === lawyerId)
+    .flatMap(statement => statement.lines.map(line => line.revenueId)));
+}
+
+/**
+ * Extrato do advogado no período, sem as receitas já pagas
+ */
+export function buildCommissionStatement(
+  lawyer: Lawyer,
+  revenues: Revenue[],
+  lawyers: Lawyer[],
+  period: CommissionPeriod,
+  paidStatements: CommissionStatement[]
+): CommissionDraft {
+  const lawyerNames = new Set(lawyers.map(item => item.fullName));
+  const paid = getPaidRevenueIds(lawyer.id, paidStatements);
+  const rate = lawyer.commission || 0;
+
+  const lines = revenues
+    .filter(revenue => revenue.date >= period.start && revenue.date <= period.end && !paid.has(revenue.id))
+    .flatMap<CommissionLine>(revenue => {
+      const share = getLawyerShares(revenue, lawyerNames)[lawyer.fullName];
+      if (!share) return [];
+
+      const base = roundCents(revenue.amount * share / 100);
+      return [{
+        revenueId: revenue.id,
+        date: revenue.date,
+        source: revenue.source,
+        client: revenue.client || '',
+        revenueAmount: revenue.amount,
+        share: roundCents(share),
+        base,
+        commission: roundCents(base * rate / 100)
+      }];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    lawyerId: lawyer.id,
+    lawyerName: lawyer.fullName,
+    periodStart: period.start,
+    periodEnd: period.end,
+    rate,
+    lines,
+    total: roundCents(lines.reduce((sum, line) => sum + line.commission, 0))
+  };
+}
+
+/**
+ * Extrato no formato de documento, para o PDF com a identidade do sistema
+ */
+export function renderCommissionStatement(statement: CommissionDraft | CommissionStatement): RenderedDocument {
+  const header = [
+    `**Advogado:** ${statement.lawyerName}`,
+    `**Período:** ${formatDate(statement.periodStart)} a ${formatDate(statement.periodEnd)}`,
+    `**Comissão:** ${formatPercent(statement.rate)}`
+  ];
+  if ('paidAt' in statement) {
+    header.push(`**Pago em:** ${format(new Date(statement.paidAt), 'dd/MM/yyyy')}${statement.paidBy ? ` por ${statement.paidBy.name}` : ''}`);
+  }
+
+  const lines = statement.lines.map(line => [
+    `**${formatDate(line.date)}** — ${line.source}${line.client ? ` (${line.client})` : ''}`,
+    `Receita ${formatCurrency(line.revenueAmount)} · participação ${formatPercent(line.share)} · ` +
+      `base ${formatCurrency(line.base)} · comissão **${formatCurrency(line.commission)}**`
+  ].join('\n'));
+
+  return {
+    title: 'EXTRATO DE COMISSÃO',
+    highlight: `Total: ${formatCurrency(statement.total)}`,
+    body: [
+      header.join('\n'),
+      `**Receitas do período (${statement.lines.length})**`,
+      ...(lines.length > 0 ? lines : ['Nenhuma receita com comissão a pagar no período.']),
+      `[direita]**Total da comissão: ${formatCurrency(statement.total)}**`
+    ].join('\n\n')
+  };
+}
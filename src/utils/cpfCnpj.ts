@@ -0,0 +1,144 @@
+/**
+ * Validação e formatação de CPF e CNPJ
+ *
+ * CPF: 11 dígitos, sendo os dois últimos verificadores (módulo 11).
+ * CNPJ: 14 posições, sendo as 12 primeiras alfanuméricas (formato adotado
+ * pela Receita Federal a partir de 2026, IN RFB nº 2.229/2024) e as duas
+ * últimas dígitos verificadores. Cada caractere vale seu código ASCII
+ * menos 48, de modo que os CNPJs numéricos continuam válidos.
+ *
+ * Os documentos são armazenados normalizados (somente dígitos, ou dígitos
+ * e letras maiúsculas no CNPJ alfanumérico) e formatados apenas na exibição.
+ */
+
+import * as yup from 'yup';
+
+const CPF_LENGTH = 11;
+const CNPJ_LENGTH = 14;
+const CNPJ_PATTERN = /^[0-9A-Z]{12}\d{2}$/;
+
+/**
+ * Calcular um dígito verificador módulo 11 com os pesos informados
+ */
+function mod11Digit(values: number[], weights: number[]): number {
+  const sum = values.reduce((total, value, index) => total + value * weights[index], 0);
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+}
+
+/**
+ * Sequências repetidas (000.000.000-00, 11.111.111/1111-11...) passam no
+ * cálculo dos dígitos mas não são documentos válidos
+ */
+function isRepeatedSequence(value: string): boolean {
+  return /^(.)\1+$/.test(value);
+}
+
+/**
+ * Manter apenas os dígitos de um CPF
+ */
+export function normalizeCpf(value: string): string {
+  return (value || '').replace(/\D/g, '').slice(0, CPF_LENGTH);
+}
+
+/**
+ * Manter apenas dígitos e letras (maiúsculas) de um CNPJ
+ */
+export function normalizeCnpj(value: string): string {
+  return (value || '').toUpperCase().replace(/[^0-9A-Z]/g, '').slice(0, CNPJ_LENGTH);
+}
+
+/**
+ * Normalizar um documento que pode ser CPF ou CNPJ. Letras ou mais de
+ * 11 dígitos indicam CNPJ.
+ */
+export function normalizeCpfCnpj(value: string): string {
+  const cnpj = normalizeCnpj(value);
+  return /[A-Z]/.test(cnpj) || cnpj.length > CPF_LENGTH ? cnpj : normalizeCpf(value);
+}
+
+export function isValidCpf(value: string): boolean {
+  const cpf = (value || '').replace(/[.\-\s]/g, '');
+  if (!/^\d{11}$/.test(cpf) || isRepeatedSequence(cpf)) return false;
+
+  const digits = cpf.split('').map(Number);
+  const first = mod11Digit(digits.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = mod11Digit(digits.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+
+  return digits[9] === first && digits[10] === second;
+}
+
+export function isValidCnpj(value: string): boolean {
+  const cnpj = (value || '').toUpperCase().replace(/[./\-\s]/g, '');
+  if (!CNPJ_PATTERN.test(cnpj) || isRepeatedSequence(cnpj)) return false;
+
+  const values = cnpj.split('').map(char => char.charCodeAt(0) - 48);
+  const first = mod11Digit(values.slice(0, 12), [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = mod11Digit(values.slice(0, 13), [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+
+  return values[12] === first && values[13] === second;
+}
+
+export function isValidCpfCnpj(value: string): boolean {
+  return normalizeCpfCnpj(value).length === CPF_LENGTH ? isValidCpf(value) : isValidCnpj(value);
+}
+
+/**
+ * Aplicar a máscara 000.000.000-00 enquanto o usuário digita
+ */
+export function formatCpf(value: string): string {
+  const cpf = normalizeCpf(value);
+  return cpf
+    .replace(/(\d{3})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d)/, '$1.$2')
+    .replace(/(\d{3})(\d{1,2})$/, '$1-$2');
+}
+
+/**
+ * Aplicar a máscara 00.000.000/0000-00 (aceitando letras na raiz e na
+ * ordem do estabelecimento) enquanto o usuário digita
+ */
+export function formatCnpj(value: string): string {
+  const cnpj = normalizeCnpj(value);
+  return cnpj
+    .replace(/^(\w{2})(\w)/, '$1.$2')
+    .replace(/^(\w{2})\.(\w{3})(\w)/, '$1.$2.$3')
+    .replace(/\.(\w{3})(\w)/, '.$1/$2')
+    .replace(/(\w{4})(\w{1,2})$/, '$1-$2');
+}
+
+/**
+ * Formatar como CPF ou CNPJ conforme o conteúdo
+ */
+export function formatCpfCnpj(value: string): string {
+  const normalized = normalizeCpfCnpj(value);
+  return normalized.length > CPF_LENGTH || /[A-Z]/.test(normalized)
+    ? formatCnpj(normalized)
+    : formatCpf(normalized);
+}
+
+/**
+ * Rótulo do documento ("CPF" ou "CNPJ") conforme o conteúdo
+ */
+export function getCpfCnpjLabel(value: string): 'CPF' | 'CNPJ' {
+  return normalizeCpfCnpj(value).length === CPF_LENGTH ? 'CPF' : 'CNPJ';
+}
+
+/**
+ * Campos yup para formulários. Valores vazios ficam a cargo do required,
+ * para que a mensagem de obrigatoriedade não seja trocada pela de formato.
+ */
+export const cpfSchema = (requiredMessage = 'CPF é obrigatório') =>
+  yup.string()
+    .required(requiredMessage)
+    .test('cpf', 'CPF inválido', value => !value || isValidCpf(value));
+
+export const cnpjSchema = (requiredMessage = 'CNPJ é obrigatório') =>
+  yup.string()
+    .required(requiredMessage)
+    .test('cnpj', 'CNPJ inválido', value => !value || isValidCnpj(value));
+
+export const cpfCnpjSchema = (requiredMessage = 'CPF/CNPJ é obrigatório') =>
+  yup.string()
+    .required(requiredMessage)
+    .test('cpf-cnpj', 'CPF/CNPJ inválido', value => !value || isValidCpfCnpj(value));
@@ -6,6 +6,9 @@
  */
 
 import { localStorageService } from '../services/localStorage';
+import { isValidCnpj, isValidCpf } from './cpfCnpj';
+import { validateDocumentPayload } from './documentPayloads';
+import { getLawyerOabs, validateOabRegistrations } from './oab';
 
 /**
  * Classe para gerenciamento avançado de dados
@@ -165,6 +168,36 @@ export class DataManager {
         }
       });
 
+      // Validar CPF/CNPJ e inscrições na OAB já armazenados
+      localStorageService.getLawyers().forEach(lawyer => {
+        if (!isValidCpf(lawyer.cpf)) {
+          errors.push(`Advogado ${lawyer.fullName}: CPF inválido (${lawyer.cpf})`);
+        }
+        const oabError = validateOabRegistrations(getLawyerOabs(lawyer));
+        if (oabError) {
+          errors.push(`Advogado ${lawyer.fullName}: ${oabError}`);
+        }
+      });
+
+      localStorageService.getEmployees().forEach(employee => {
+        if (!isValidCpf(employee.cpf)) {
+          errors.push(`Colaborador ${employee.fullName}: CPF inválido (${employee.cpf})`);
+        }
+      });
+
+      localStorageService.getClients().forEach(client => {
+        const isCompany = client.type === 'Pessoa Jurídica';
+        if (!(isCompany ? isValidCnpj(client.document) : isValidCpf(client.document))) {
+          errors.push(`Cliente ${client.name}: ${isCompany ? 'CNPJ' : 'CPF'} inválido (${client.document})`);
+        }
+      });
+
+      localStorageService.getDocuments().forEach(document => {
+        validateDocumentPayload(document).forEach(message => {
+          errors.push(`${document.type} de ${document.client}: ${message}`);
+        });
+      });
+
     } catch (error) {
       errors.push(`Erro ao validar dados: ${error}`);
     }
@@ -184,7 +217,7 @@ export class DataManager {
         // Advogado de exemplo
         localStorageService.saveLawyer({
           fullName: 'Dr. Maria Santos Silva',
-          cpf: '12345678901',
+          cpf: '12345678909',
           oab: '123456/SP',
           commission: 15,
           email: 'maria.santos@exemplo.com',
@@ -210,7 +243,7 @@ export class DataManager {
         // Colaborador de exemplo
         localStorageService.saveEmployee({
           fullName: 'Ana Paula Santos',
-          cpf: '11122233344',
+          cpf: '11122233396',
           salary: 3500,
           position: 'Secretária Jurídica',
           email: 'ana.santos@exemplo.com',
@@ -222,7 +255,7 @@ export class DataManager {
         // Segundo colaborador de exemplo
         localStorageService.saveEmployee({
           fullName: 'Carlos Eduardo Lima',
-          cpf: '55566677788',
+          cpf: '55566677720',
           salary: 4200,
           position: 'Assistente Jurídico',
           email: 'carlos.lima@exemplo.com',
@@ -234,7 +267,7 @@ export class DataManager {
         // Processo de exemplo
         localStorageService.saveProcess({
           name: 'Ação Trabalhista - Exemplo',
-          processNumber: '0001234-56.2024.5.02.0001',
+          processNumber: '0001234-95.2024.5.02.0001',
           client: 'João da Silva',
           opposingParty: 'Empresa ABC Ltda.',
           court: 'TRT 2ª Região - 15ª Vara do Trabalho',
@@ -0,0 +1,125 @@
+/**
+ * Cálculo de prazos processuais em dias úteis (CPC/2015)
+ *
+ * - Art. 219: na contagem de prazo em dias, computam-se somente os dias úteis.
+ * - Art. 224: exclui-se o dia do começo e inclui-se o dia do vencimento; o
+ *   início e o vencimento que caírem em dia sem expediente são protraídos
+ *   para o primeiro dia útil seguinte.
+ * - Art. 224, §§ 2º e 3º: considera-se publicada a intimação no primeiro dia
+ *   útil seguinte ao da disponibilização no Diário da Justiça eletrônico, e a
+ *   contagem começa no primeiro dia útil seguinte ao da publicação.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { Holiday } from '../types';
+import { getNationalHolidays } from './holidays';
+
+export type DeadlineStartType = 'publicacao' | 'disponibilizacao';
+
+export interface DeadlineInput {
+  startDate: string; // yyyy-MM-dd - data da intimação/publicação ou disponibilização
+  days: number;
+  startType: DeadlineStartType;
+  holidays?: Holiday[]; // Feriados locais e suspensões do escritório/tribunal
+}
+
+export interface SkippedDay {
+  date: string;
+  reason: string;
+}
+
+export interface DeadlineResult {
+  publicationDate: string;
+  countStartDate: string;
+  dueDate: string;
+  businessDays: number;
+  skippedDays: SkippedDay[];
+}
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Montar um índice data -> motivo com os feriados nacionais dos anos
+ * envolvidos e os feriados informados
+ */
+function buildHolidayIndex(startYear: number, endYear: number, extraHolidays: Holiday[]): Map<string, string> {
+  const index = new Map<string, string>();
+
+  for (let year = startYear; year <= endYear; year++) {
+    getNationalHolidays(year).forEach(holiday => index.set(holiday.date, holiday.name));
+  }
+  extraHolidays.forEach(holiday => index.set(holiday.date, holiday.name));
+
+  return index;
+}
+
+/**
+ * Retornar o motivo pelo qual a data não é dia útil, ou null se for dia útil
+ */
+function getNonBusinessReason(date: Date, holidayIndex: Map<string, string>): string | null {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0) return 'Domingo';
+  if (dayOfWeek === 6) return 'Sábado';
+  return holidayIndex.get(toKey(date)) || null;
+}
+
+/**
+ * Verificar se uma data é dia útil
+ */
+export function isBusinessDay(date: string, holidays: Holiday[] = []): boolean {
+  const parsed = parseISO(date);
+  const index = buildHolidayIndex(parsed.getFullYear(), parsed.getFullYear(), holidays);
+  return getNonBusinessReason(parsed, index) === null;
+}
+
+/**
+ * Calcular o vencimento de um prazo processual contado em dias úteis
+ */
+export function calculateDeadline({ startDate, days, startType, holidays = [] }: DeadlineInput): DeadlineResult {
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error('A quantidade de dias do prazo deve ser um número inteiro positivo');
+  }
+
+  const start = parseISO(startDate);
+  if (isNaN(start.getTime())) {
+    throw new Error('Data de início do prazo inválida');
+  }
+
+  // Margem generosa de anos para prazos longos que atravessam o ano
+  const holidayIndex = buildHolidayIndex(
+    start.getFullYear(),
+    start.getFullYear() + Math.ceil(days / 200) + 1,
+    holidays
+  );
+  const skippedDays: SkippedDay[] = [];
+
+  const nextBusinessDay = (date: Date) => {
+    let current = addDays(date, 1);
+    let reason = getNonBusinessReason(current, holidayIndex);
+    while (reason) {
+      skippedDays.push({ date: toKey(current), reason });
+      current = addDays(current, 1);
+      reason = getNonBusinessReason(current, holidayIndex);
+    }
+    return current;
+  };
+
+  // Disponibilização no DJe: publicação no primeiro dia útil seguinte
+  const publication = startType === 'disponibilizacao' ? nextBusinessDay(start) : start;
+
+  // Exclui-se o dia do começo: conta-se a partir do primeiro dia útil seguinte
+  const countStart = nextBusinessDay(publication);
+
+  let dueDate = countStart;
+  for (let counted = 1; counted < days; counted++) {
+    dueDate = nextBusinessDay(dueDate);
+  }
+
+  return {
+    publicationDate: toKey(publication),
+    countStartDate: toKey(countStart),
+    dueDate: toKey(dueDate),
+    businessDays: days,
+    skippedDays
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Formato dos dados (campo data) de cada tipo de documento
+ *
+ * Os documentos salvos registram schemaVersion. Ao carregar, documentos de
+ * versões anteriores passam pelas migrações em sequência, os campos são
+ * normalizados para o formato atual e o resultado é validado. Problemas
+ * encontrados ficam em payloadErrors para aviso na tela, sem impedir que o
+ * documento seja aberto.
+ *
+ * Versões:
+ * 1 - documentos salvos antes do registro da versão (sem schemaVersion)
+ * 2 - CPF/CNPJ normalizados e lawyersOab apenas com as inscrições
+ */
+
+import { Document, DocumentPayloads, DocumentType } from '../types';
+import { isValidCpf, isValidCpfCnpj, normalizeCpf, normalizeCpfCnpj } from './cpfCnpj';
+import { isValidReceiptNumber } from './receiptNumbers';
+
+export const DOCUMENT_SCHEMA_VERSION = 2;
+
+const LEGACY_SCHEMA_VERSION = 1;
+
+type RawData = Record<string, unknown>;
+
+const asString = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+};
+
+const asNumber = (value: unknown): number => {
+  const number = typeof value === 'number' ? value : Number(asString(value).replace(',', '.'));
+  return Number.isFinite(number) ? number : 0;
+};
+
+const asStringList = (value: unknown): string[] => (Array.isArray(value) ? value.map(asString) : []);
+
+const asBoolean = (value: unknown, fallback: boolean): boolean => (typeof value === 'boolean' ? value : fallback);
+
+/**
+ * Montar os dados no formato atual, com valores padrão para campos ausentes
+ */
+const NORMALIZERS: { [T in DocumentType]: (data: RawData) => DocumentPayloads[T] } = {
+  'Procuração': data => ({
+    clientCpf: asString(data.clientCpf),
+    clientRg: asString(data.clientRg),
+    clientAddress: asString(data.clientAddress),
+    type: asString(data.type) || 'Ad Judicia',
+    object: asString(data.object),
+    location: asString(data.location),
+    date: asString(data.date),
+    lawyers: asStringList(data.lawyers),
+    lawyersOab: asStringList(data.lawyersOab)
+  }),
+  'Recibo': data => ({
+    amount: asNumber(data.amount),
+    description: asString(data.description),
+    paymentMethod: asString(data.paymentMethod),
+    date: asString(data.date),
+    lawyerName: asString(data.lawyerName),
+    lawyerOab: asString(data.lawyerOab),
+    lawyerCpf: asString(data.lawyerCpf),
+    number: asString(data.number),
+    cancelledAt: asString(data.cancelledAt),
+    cancelReason: asString(data.cancelReason),
+    revenueId: asString(data.revenueId),
+    revenueWarning: asString(data.revenueWarning)
+  }),
+  'Contrato de Honorários': data => ({
+    clientCpf: asString(data.clientCpf),
+    clientAddress: asString(data.clientAddress),
+    lawyers: asStringList(data.lawyers),
+    lawyersOab: asStringList(data.lawyersOab),
+    object: asString(data.object),
+    amount: asNumber(data.amount),
+    installments: Math.max(1, Math.trunc(asNumber(data.installments))),
+    firstDueDate: asString(data.firstDueDate),
+    successFee: asNumber(data.successFee),
+    paymentMethod: asString(data.paymentMethod),
+    location: asString(data.location),
+    date: asString(data.date),
+    processCourt: asString(data.processCourt)
+  }),
+  'Substabelecimento': data => ({
+    grantorName: asString(data.grantorName),
+    grantorOab: asString(data.grantorOab),
+    granteeName: asString(data.granteeName),
+    granteeOab: asString(data.granteeOab),
+    withReservation: asBoolean(data.withReservation, true),
+    notes: asString(data.notes),
+    location: asString(data.location),
+    date: asString(data.date),
+    processCourt: asString(data.processCourt)
+  }),
+  'Declaração de Hipossuficiência': data => ({
+    clientCpf: asString(data.clientCpf),
+    clientRg: asString(data.clientRg),
+    clientAddress: asString(data.clientAddress),
+    profession: asString(data.profession),
+    location: asString(data.location),
+    date: asString(data.date)
+  })
+};
+
+/**
+ * Migrações indexadas pela versão de origem: MIGRATIONS[n] leva os dados
+ * da versão n para a n + 1
+ */
+const MIGRATIONS: Record<number, (type: DocumentType, data: RawData) => RawData> = {
+  // CPF/CNPJ com máscara e lawyersOab no formato "Nome, OAB/UF nº ..."
+  1: (_type, data) => {
+    const migrated = { ...data };
+    if (typeof data.clientCpf === 'string') migrated.clientCpf = normalizeCpfCnpj(data.clientCpf);
+    if (typeof data.lawyerCpf === 'string') migrated.lawyerCpf = normalizeCpf(data.lawyerCpf);
+
+    if (Array.isArray(data.lawyers) && Array.isArray(data.lawyersOab)) {
+      const names = asStringList(data.lawyers);
+      migrated.lawyersOab = asStringList(data.lawyersOab)
+        .map((oab, index) => oab.replace(`${names[index]}, `, ''));
+    }
+
+    return migrated;
+  }
+};
+
+const checkClientCpf = (clientCpf: string): string[] =>
+  clientCpf && !isValidCpfCnpj(clientCpf) ? [`CPF/CNPJ do cliente inválido (${clientCpf})`] : [];
+
+const checkDate = (date: string): string[] =>
+  !date || Number.isNaN(Date.parse(date)) ? ['Data não informada ou inválida'] : [];
+
+const checkPlaceAndDate = (data: { location: string; date: string }): string[] => [
+  ...(!data.location ? ['Local não informado'] : []),
+  ...checkDate(data.date)
+];
+
+const checkLawyers = (data: { lawyers: string[]; lawyersOab: string[] }): string[] => [
+  ...(data.lawyers.length === 0 ? ['Nenhum advogado informado'] : []),
+  ...(data.lawyersOab.length > data.lawyers.length ? ['Inscrições na OAB não correspondem aos advogados'] : [])
+];
+
+/**
+ * Regras de cada tipo, equivalentes às validações dos formulários
+ */
+const VALIDATORS: { [T in DocumentType]: (data: DocumentPayloads[T]) => string[] } = {
+  'Procuração': data => [
+    ...checkClientCpf(data.clientCpf),
+    ...checkLawyers(data),
+    ...(!data.object ? ['Objeto da procuração não informado'] : []),
+    ...checkPlaceAndDate(data)
+  ],
+  'Recibo': data => [
+    ...(data.amount <= 0 ? ['Valor deve ser maior que zero'] : []),
+    ...(!data.description ? ['Descrição do serviço não informada'] : []),
+    ...(!data.lawyerName ? ['Advogado não informado'] : []),
+    ...(data.lawyerCpf && !isValidCpf(data.lawyerCpf) ? [`CPF do advogado inválido (${data.lawyerCpf})`] : []),
+    ...(data.number && !isValidReceiptNumber(data.number) ? [`Número do recibo inválido (${data.number})`] : []),
+    ...checkDate(data.date)
+  ],
+  'Contrato de Honorários': data => [
+    ...checkClientCpf(data.clientCpf),
+    ...checkLawyers(data),
+    ...(!data.object ? ['Objeto do contrato não informado'] : []),
+    ...(data.amount <= 0 && data.successFee <= 0 ? ['Nenhum valor de honorários informado'] : []),
+    ...checkPlaceAndDate(data)
+  ],
+  'Substabelecimento': data => [
+    ...(!data.grantorName ? ['Substabelecente não informado'] : []),
+    ...(!data.granteeName ? ['Substabelecido não informado'] : []),
+    ...checkPlaceAndDate(data)
+  ],
+  'Declaração de Hipossuficiência': data => [
+    ...checkClientCpf(data.clientCpf),
+    ...(!data.clientAddress ? ['Endereço do declarante não informado'] : []),
+    ...checkPlaceAndDate(data)
+  ]
+};
+
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(NORMALIZERS, value);
+}
+
+/**
+ * Problemas nos dados de um documento (lista vazia se estiver consistente)
+ */
+export function validateDocumentPayload(document: Document): string[] {
+  const validate = VALIDATORS[document.type] as (data: Document['data']) => string[];
+  return validate(document.data);
+}
+
+export interface LoadedDocument {
+  document: Document;
+  migrated: boolean; // veio de uma versão anterior e deve ser regravado
+}
+
+/**
+ * Converter um documento lido do armazenamento para o formato atual.
+ * Retorna null para tipos de documento desconhecidos.
+ */
+export function loadDocument(raw: Record<string, unknown>): LoadedDocument | null {
+  if (!isDocumentType(raw.type)) {
+    console.warn(`Documento ${asString(raw.id)} ignorado: tipo desconhecido (${asString(raw.type)})`);
+    return null;
+  }
+
+  const type = raw.type;
+  const storedVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : LEGACY_SCHEMA_VERSION;
+  if (storedVersion > DOCUMENT_SCHEMA_VERSION) {
+    console.warn(`Documento ${asString(raw.id)} salvo em versão mais nova (${storedVersion}) que a suportada`);
+  }
+
+  let data: RawData = raw.data && typeof raw.data === 'object' ? { ...(raw.data as RawData) } : {};
+  for (let version = storedVersion; version < DOCUMENT_SCHEMA_VERSION; version++) {
+    data = MIGRATIONS[version](type, data);
+  }
+
+  const document = {
+    ...raw,
+    id: asString(raw.id),
+    type,
+    client: asString(raw.client),
+    clientId: typeof raw.clientId === 'string' ? raw.clientId : null,
+    processId: typeof raw.processId === 'string' ? raw.processId : null,
+    processNumber: asString(raw.processNumber),
+    schemaVersion: Math.max(storedVersion, DOCUMENT_SCHEMA_VERSION),
+    version: typeof raw.version === 'number' ? raw.version : 1,
+    createdAt: asString(raw.createdAt),
+    data: NORMALIZERS[type](data),
+    payloadErrors: undefined
+  } as Document;
+
+  const errors = validateDocumentPayload(document);
+  if (errors.length > 0) {
+    console.warn(`Documento ${document.id} (${document.type}) com dados inconsistentes:`, errors);
+    document.payloadErrors = errors;
+  }
+
+  return { document, migrated: storedVersion < DOCUMENT_SCHEMA_VERSION };
+}
+
+/**
+ * Documento no formato gravado, sem os campos calculados ao carregar
+ */
+export function toStoredDocument(document: Document): Document {
+  const stored = { ...document };
+  delete stored.payloadErrors;
+  return stored;
+}
@@ -0,0 +1,347 @@
+/**
+ * Geração de PDF (jsPDF) e Word (docx) a partir de um modelo já preenchido
+ *
+ * O corpo usa uma marcação mínima:
+ * - linha em branco separa parágrafos; quebras simples são mantidas
+ * - **texto** em negrito
+ * - [centro] ou [direita] no início do parágrafo define o alinhamento
+ */
+
+import jsPDF from 'jspdf';
+import { Document as DocxDocument, Packer, Paragraph, TextRun, AlignmentType } from 'docx';
+import { saveAs } from 'file-saver';
+import { encodeQrCode } from './qrCode';
+
+export interface RenderedDocument {
+  title: string;
+  highlight?: string; // texto em destaque abaixo do título (ex: valor do recibo)
+  body: string;
+}
+
+// Selo de verificação impresso no PDF
+export interface VerificationStamp {
+  code: string;
+  url: string;
+}
+
+export type BlockAlign = 'left' | 'center' | 'right';
+
+export interface DocumentRun {
+  text: string;
+  bold: boolean;
+}
+
+export interface DocumentBlock {
+  align: BlockAlign;
+  lines: DocumentRun[][];
+}
+
+const ALIGN_MARKERS: Record<string, BlockAlign> = {
+  centro: 'center',
+  direita: 'right'
+};
+
+// Layout da página A4 em milímetros
+const MARGIN_LEFT = 20;
+const CONTENT_WIDTH = 170;
+const PAGE_CENTER = 105;
+const CONTENT_BOTTOM = 270;
+const LINE_HEIGHT = 6;
+const STAMP_SIZE = 20;
+const STAMP_TOP = 256;
+
+function parseInline(line: string): DocumentRun[] {
+  const runs = line
+    .split('**')
+    .map((text, index) => ({ text, bold: index % 2 === 1 }))
+    .filter(run => run.text);
+  return runs.length > 0 ? runs : [{ text: '', bold: false }];
+}
+
+/**
+ * Dividir o corpo preenchido em parágrafos com alinhamento e trechos em negrito
+ */
+export function parseDocumentBody(body: string): DocumentBlock[] {
+  return body
+    .replace(/\r\n/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(paragraph => paragraph.replace(/^\n+|\s+$/g, ''))
+    .filter(paragraph => paragraph)
+    .map(paragraph => {
+      const marker = paragraph.match(/^\[(centro|direita)\]\s*/);
+      const text = marker ? paragraph.slice(marker[0].length) : paragraph;
+      return {
+        align: marker ? ALIGN_MARKERS[marker[1]] : 'left',
+        lines: text.split('\n').map(parseInline)
+      };
+    });
+}
+
+export function documentFileName(prefix: string, client: string, extension: 'pdf' | 'docx'): string {
+  return `${prefix}_${client.replace(/\s+/g, '_').toLowerCase()}.${extension}`;
+}
+
+/**
+ * PDF
+ */
+
+interface PlacedWord {
+  text: string;
+  bold: boolean;
+  width: number;
+}
+
+function measure(doc: jsPDF, text: string, bold: boolean): number {
+  doc.setFont('helvetica', bold ? 'bold' : 'normal');
+  return doc.getTextWidth(text);
+}
+
+/**
+ * Quebrar uma linha em linhas que caibam na largura, mantendo o negrito
+ */
+function wrapRuns(doc: jsPDF, runs: DocumentRun[]): PlacedWord[][] {
+  const lines: PlacedWord[][] = [[]];
+  let width = 0;
+
+  for (const run of runs) {
+    for (const text of run.text.split(/(\s+)/).filter(part => part)) {
+      const isSpace = /^\s+$/.test(text);
+      const line = lines[lines.length - 1];
+      if (isSpace && line.length === 0) continue;
+
+      const wordWidth = measure(doc, isSpace ? ' ' : text, run.bold);
+      if (!isSpace && line.length > 0 && width + wordWidth > CONTENT_WIDTH) {
+        while (line.length > 0 && /^\s+$/.test(line[line.length - 1].text)) line.pop();
+        lines.push([{ text, bold: run.bold, width: wordWidth }]);
+        width = wordWidth;
+      } else {
+        line.push({ text: isSpace ? ' ' : text, bold: run.bold, width: wordWidth });
+        width += wordWidth;
+      }
+    }
+  }
+
+  return lines;
+}
+
+function drawHeader(doc: jsPDF, title: string) {
+  doc.setFillColor(37, 99, 235);
+  doc.rect(0, 0, 210, 25, 'F');
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(24);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Legal', 20, 17);
+  doc.setTextColor(245, 158, 11);
+  doc.text('X', 50, 17);
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Sistema de Gestão Jurídica', 20, 22);
+
+  doc.setTextColor(55, 65, 81);
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, PAGE_CENTER, 45, { align: 'center' });
+
+  doc.setDrawColor(245, 158, 11);
+  doc.setLineWidth(2);
+  doc.line(20, 50, 190, 50);
+}
+
+function drawHighlight(doc: jsPDF, text: string) {
+  doc.setFillColor(248, 250, 252);
+  doc.setDrawColor(34, 197, 94);
+  doc.setLineWidth(1);
+  doc.roundedRect(20, 55, 170, 20, 3, 3, 'FD');
+
+  doc.setTextColor(34, 197, 94);
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text(text, PAGE_CENTER, 67, { align: 'center' });
+}
+
+/**
+ * QR Code e código de verificação no canto inferior direito da última página
+ */
+function drawVerificationStamp(doc: jsPDF, stamp: VerificationStamp) {
+  const modules = encodeQrCode(stamp.url);
+  const moduleSize = STAMP_SIZE / modules.length;
+  const left = MARGIN_LEFT + CONTENT_WIDTH - STAMP_SIZE;
+
+  doc.setFillColor(0, 0, 0);
+  modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) doc.rect(left + x * moduleSize, STAMP_TOP + y * moduleSize, moduleSize, moduleSize, 'F');
+  }));
+
+  doc.setTextColor(107, 114, 128);
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Verifique a autenticidade deste documento em', left - 4, STAMP_TOP + 8, { align: 'right' });
+  doc.text(stamp.url, left - 4, STAMP_TOP + 12, { align: 'right' });
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Código: ${stamp.code}`, left - 4, STAMP_TOP + 16, { align: 'right' });
+}
+
+function drawFooters(doc: jsPDF, stamp?: VerificationStamp | null) {
+  const pageCount = doc.getNumberOfPages();
+  const now = new Date();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(156, 163, 175);
+    doc.setLineWidth(0.5);
+    doc.line(20, 280, 190, 280);
+
+    doc.setTextColor(156, 163, 175);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Documento gerado pelo LegalX - Sistema de Gestão Jurídica', 20, 285);
+    doc.text(`Data de geração: ${now.toLocaleDateString('pt-BR')} às ${now.toLocaleTimeString('pt-BR')}`, 20, 290);
+    if (stamp) {
+      doc.text(`Código de verificação: ${stamp.code}`, 190, 285, { align: 'right' });
+    }
+    if (pageCount > 1) {
+      doc.text(`Página ${page} de ${pageCount}`, 190, 290, { align: 'right' });
+    }
+  }
+}
+
+/**
+ * Montar o PDF com a identidade visual do sistema
+ */
+export function buildDocumentPDF(rendered: RenderedDocument, stamp?: VerificationStamp | null): jsPDF {
+  const doc = new jsPDF();
+
+  drawHeader(doc, rendered.title);
+  if (rendered.highlight) {
+    drawHighlight(doc, rendered.highlight);
+  }
+
+  doc.setTextColor(55, 65, 81);
+  doc.setFontSize(11);
+
+  let y = rendered.highlight ? 85 : 65;
+
+  for (const block of parseDocumentBody(rendered.body)) {
+    for (const sourceLine of block.lines) {
+      for (const line of wrapRuns(doc, sourceLine)) {
+        if (y > CONTENT_BOTTOM) {
+          doc.addPage();
+          doc.setTextColor(55, 65, 81);
+          doc.setFontSize(11);
+          y = 30;
+        }
+
+        const lineWidth = line.reduce((total, word) => total + word.width, 0);
+        let x = block.align === 'center'
+          ? PAGE_CENTER - lineWidth / 2
+          : block.align === 'right'
+            ? MARGIN_LEFT + CONTENT_WIDTH - lineWidth
+            : MARGIN_LEFT;
+
+        for (const word of line) {
+          doc.setFont('helvetica', word.bold ? 'bold' : 'normal');
+          doc.text(word.text, x, y);
+          x += word.width;
+        }
+        y += LINE_HEIGHT;
+      }
+    }
+    // Linha em branco entre parágrafos
+    y += LINE_HEIGHT;
+  }
+
+  if (stamp) {
+    // O selo precisa de uma linha livre abaixo do último parágrafo
+    if (y > STAMP_TOP + LINE_HEIGHT) {
+      doc.addPage();
+    }
+    drawVerificationStamp(doc, stamp);
+  }
+
+  drawFooters(doc, stamp);
+  return doc;
+}
+
+export function downloadDocumentPDF(rendered: RenderedDocument, fileName: string, stamp?: VerificationStamp | null) {
+  buildDocumentPDF(rendered, stamp).save(fileName);
+}
+
+/**
+ * Word
+ */
+
+const DOCX_ALIGNMENT = {
+  left: AlignmentType.JUSTIFIED,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT
+};
+
+export function buildDocumentDocx(rendered: RenderedDocument): DocxDocument {
+  const now = new Date();
+  const header = [
+    new Paragraph({
+      children: [
+        new TextRun({ text: 'LegalX', bold: true, size: 32, color: '2563eb' }),
+        new TextRun({ text: ' - Sistema de Gestão Jurídica', size: 20, color: '6b7280' })
+      ],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 400 }
+    }),
+    new Paragraph({
+      children: [new TextRun({ text: rendered.title, bold: true, size: 32 })],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: rendered.highlight ? 300 : 600 }
+    })
+  ];
+
+  if (rendered.highlight) {
+    header.push(new Paragraph({
+      children: [new TextRun({ text: rendered.highlight, bold: true, size: 28, color: '22c55e' })],
+      alignment: AlignmentType.CENTER,
+      spacing: { after: 600 }
+    }));
+  }
+
+  const body = parseDocumentBody(rendered.body).map(block => new Paragraph({
+    children: block.lines.flatMap((line, lineIndex) =>
+      line.map((run, runIndex) => new TextRun({
+        text: run.text,
+        bold: run.bold,
+        break: lineIndex > 0 && runIndex === 0 ? 1 : undefined
+      }))
+    ),
+    alignment: DOCX_ALIGNMENT[block.align],
+    spacing: { after: 300 }
+  }));
+
+  const footer = [
+    new Paragraph({
+      children: [new TextRun({ text: 'Documento gerado pelo LegalX - Sistema de Gestão Jurídica', size: 16, color: '9ca3af' })],
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 600, after: 100 }
+    }),
+    new Paragraph({
+      children: [new TextRun({
+        text: `Data de geração: ${now.toLocaleDateString('pt-BR')} às ${now.toLocaleTimeString('pt-BR')}`,
+        size: 16,
+        color: '9ca3af'
+      })],
+      alignment: AlignmentType.CENTER
+    })
+  ];
+
+  return new DocxDocument({
+    sections: [{
+      properties: {},
+      children: [...header, ...body, ...footer]
+    }]
+  });
+}
+
+export async function downloadDocumentDocx(rendered: RenderedDocument, fileName: string) {
+  const blob = await Packer.toBlob(buildDocumentDocx(rendered));
+  saveAs(blob, fileName);
+}
@@ -0,0 +1,454 @@
+/**
+ * Modelos padrão dos documentos e montagem dos dados usados no preenchimento
+ *
+ * Os valores de texto chegam formatados (CPF, OAB...). Valores e datas
+ * chegam crus para uso com os filtros moeda, extenso, data e data_extenso.
+ */
+
+import {
+  Document,
+  DocumentTemplate,
+  DocumentTemplateKey,
+  FeeAgreementPayload,
+  HardshipDeclarationPayload,
+  PowerOfAttorneyPayload,
+  ReceiptPayload,
+  SubstitutionPayload
+} from '../types';
+import { formatCpf, formatCpfCnpj, getCpfCnpjLabel } from './cpfCnpj';
+import { formatOabText } from './oab';
+import { renderTemplate, TemplateContext } from './templateEngine';
+import { RenderedDocument } from './documentRender';
+
+export const TEMPLATE_KEYS: Record<DocumentTemplateKey, Document['type']> = {
+  procuracao: 'Procuração',
+  recibo: 'Recibo',
+  contrato: 'Contrato de Honorários',
+  substabelecimento: 'Substabelecimento',
+  hipossuficiencia: 'Declaração de Hipossuficiência'
+};
+
+export function getTemplateKey(documentType: Document['type']): DocumentTemplateKey {
+  const entry = Object.entries(TEMPLATE_KEYS).find(([, type]) => type === documentType);
+  return entry![0] as DocumentTemplateKey;
+}
+
+export const DEFAULT_TEMPLATES: Record<DocumentTemplateKey, Omit<DocumentTemplate, 'updatedAt'>> = {
+  procuracao: {
+    id: 'procuracao',
+    documentType: 'Procuração',
+    title: 'PROCURAÇÃO',
+    body: `Pelo presente instrumento particular de procuração, eu, **{{client.name}}**{{#if client.document}}, {{client.documentLabel}} nº {{client.document}}{{/if}}{{#if client.rg}}, RG nº {{client.rg}}{{/if}}{{#if client.address}}, residente e domiciliado(a) em {{client.address}}{{/if}}, nomeio e constituo como {{#if plural}}meus bastantes procuradores os(as) Srs(as).{{else}}meu bastante procurador o(a) Sr(a).{{/if}} {{#each lawyers}}**{{name}}**{{#if oab}}, {{oab}}{{/if}}{{#unless @last}}; {{/unless}}{{/each}}, para o fim específico de:
+
+**{{object}}**
+
+Outorgo-lhe poderes para representar-me {{#if type == "Ad Judicia"}}em juízo{{else}}para os fins específicos acima descritos{{/if}}, podendo para tanto praticar todos os atos necessários ao bom e fiel cumprimento do presente mandato.
+
+Por ser verdade, firmo a presente.
+
+[direita]{{location}}, {{date | data_extenso}}.
+
+[centro]_________________________________
+**{{client.name}}**
+Outorgante`
+  },
+  recibo: {
+    id: 'recibo',
+    documentType: 'Recibo',
+    title: 'RECIBO{{#if number}} Nº {{number}}{{/if}}',
+    highlight: 'Valor: {{amount | moeda}}',
+    body: `{{#if cancelled}}[centro]**RECIBO CANCELADO EM {{cancelledAt | data}}{{#if cancelReason}} - {{cancelReason | maiusculas}}{{/if}}**
+
+{{/if}}Recebi de **{{client.name}}** a importância de **{{amount | moeda}}** ({{amount | extenso}}), referente a **{{description}}**.
+
+Forma de pagamento: **{{paymentMethod}}**
+
+Para clareza firmo o presente recibo.
+
+[direita]{{date | data_extenso}}
+
+[centro]_________________________________
+**{{lawyer.name}}**
+{{lawyer.oab}}
+{{#if lawyer.cpf}}CPF: {{lawyer.cpf}}{{/if}}`
+  },
+  contrato: {
+    id: 'contrato',
+    documentType: 'Contrato de Honorários',
+    title: 'CONTRATO DE HONORÁRIOS ADVOCATÍCIOS',
+    body: `**CONTRATANTE:** {{client.name}}{{#if client.document}}, inscrito(a) no {{client.documentLabel}} sob o nº {{client.document}}{{/if}}{{#if client.address}}, com endereço em {{client.address}}{{/if}}.
+
+**{{#if plural}}CONTRATADOS{{else}}CONTRATADO(A){{/if}}:** {{#each lawyers}}{{name}}{{#if oab}}, {{oab}}{{/if}}{{#unless @last}}; {{/unless}}{{/each}}.
+
+As partes acima identificadas têm, entre si, justo e acertado o presente contrato de prestação de serviços advocatícios, que se regerá pelas cláusulas seguintes.
+
+**CLÁUSULA 1ª - DO OBJETO.** {{#if plural}}Os CONTRATADOS obrigam-se{{else}}O(A) CONTRATADO(A) obriga-se{{/if}} a prestar os seguintes serviços profissionais: {{object}}{{#if process.number}}, nos autos do processo nº {{process.number}}{{#if process.court}}, em trâmite perante {{process.court}}{{/if}}{{/if}}.
+
+**CLÁUSULA 2ª - DOS HONORÁRIOS.** {{#if amount}}Pelos serviços contratados, o(a) CONTRATANTE pagará a importância de **{{amount | moeda}}** ({{amount | extenso}}){{#if installmentPlan}}, em {{installments}} ({{installments | numero_extenso:"feminino"}}) parcelas mensais de {{installmentAmount | moeda}} ({{installmentAmount | extenso}}), vencendo-se a primeira em {{firstDueDate | data}}{{else}}{{#if firstDueDate}}, com vencimento em {{firstDueDate | data}}{{/if}}{{/if}}, mediante {{paymentMethod}}.{{/if}}{{#if successFee}}{{#if amount}} Além disso, a{{else}}A{{/if}} título de honorários de êxito, o(a) CONTRATANTE pagará **{{successFee}}%** do proveito econômico obtido, devidos no recebimento dos valores.{{/if}}
+
+**CLÁUSULA 3ª - DAS DESPESAS.** As custas processuais, emolumentos e demais despesas necessárias ao andamento dos serviços correrão por conta do(a) CONTRATANTE e não estão incluídas nos honorários.
+
+**CLÁUSULA 4ª - DOS HONORÁRIOS DE SUCUMBÊNCIA.** Os honorários de sucumbência pertencem {{#if plural}}aos CONTRATADOS{{else}}ao(à) CONTRATADO(A){{/if}}, nos termos do art. 23 da Lei nº 8.906/1994, sem prejuízo dos honorários aqui contratados.
+
+**CLÁUSULA 5ª - DA RESCISÃO.** Em caso de revogação do mandato ou rescisão antecipada por iniciativa do(a) CONTRATANTE, serão devidos os honorários proporcionais aos serviços já prestados.
+
+**CLÁUSULA 6ª - DO FORO.** Fica eleito o foro da comarca de {{location}} para dirimir quaisquer dúvidas oriundas deste contrato.
+
+E, por estarem assim justos e contratados, firmam o presente em duas vias de igual teor.
+
+[direita]{{location}}, {{date | data_extenso}}.
+
+[centro]_________________________________
+**{{client.name}}**
+Contratante
+
+{{#each lawyers}}[centro]_________________________________
+**{{name}}**
+{{#if oab}}{{oab}}
+{{/if}}Contratado(a)
+
+{{/each}}`
+  },
+  substabelecimento: {
+    id: 'substabelecimento',
+    documentType: 'Substabelecimento',
+    title: 'SUBSTABELECIMENTO',
+    highlight: '{{#if withReservation}}Com reserva de poderes{{else}}Sem reserva de poderes{{/if}}',
+    body: `Pelo presente instrumento, eu, **{{grantor.name}}**{{#if grantor.oab}}, {{grantor.oab}}{{/if}}, substabeleço, **{{#if withReservation}}com reserva{{else}}sem reserva{{/if}} de poderes**, na pessoa de **{{grantee.name}}**{{#if grantee.oab}}, {{grantee.oab}}{{/if}}, os poderes que me foram conferidos por **{{client.name}}**{{#if process.number}}, nos autos do processo nº **{{process.number}}**{{#if process.court}}, em trâmite perante {{process.court}}{{/if}}{{/if}}.
+
+{{#if withReservation}}Os poderes ora substabelecidos poderão ser exercidos em conjunto ou separadamente, permanecendo o(a) substabelecente com todos os poderes que lhe foram outorgados.{{else}}Com o presente substabelecimento, o(a) substabelecente deixa de representar o(a) outorgante, transferindo integralmente ao(à) substabelecido(a) os poderes recebidos, com o prévio conhecimento do(a) cliente, nos termos do art. 26, § 1º, do Código de Ética e Disciplina da OAB.{{/if}}
+
+{{#if notes}}{{notes}}{{/if}}
+
+[direita]{{location}}, {{date | data_extenso}}.
+
+[centro]_________________________________
+**{{grantor.name}}**
+{{grantor.oab}}`
+  },
+  hipossuficiencia: {
+    id: 'hipossuficiencia',
+    documentType: 'Declaração de Hipossuficiência',
+    title: 'DECLARAÇÃO DE HIPOSSUFICIÊNCIA',
+    body: `Eu, **{{client.name}}**{{#if client.profession}}, {{client.profession}}{{/if}}{{#if client.document}}, {{client.documentLabel}} nº {{client.document}}{{/if}}{{#if client.rg}}, RG nº {{client.rg}}{{/if}}{{#if client.address}}, residente e domiciliado(a) em {{client.address}}{{/if}}, **DECLARO**, para os devidos fins e sob as penas da lei, que não tenho condições de arcar com as custas processuais e os honorários advocatícios sem prejuízo do meu próprio sustento e do de minha família, razão pela qual requeiro os benefícios da gratuidade da justiça, nos termos do art. 5º, inciso LXXIV, da Constituição Federal e dos arts. 98 e seguintes do Código de Processo Civil{{#if process.number}}, nos autos do processo nº **{{process.number}}**{{/if}}.
+
+Declaro, ainda, estar ciente de que a falsidade desta declaração sujeita o(a) declarante às sanções civis e penais cabíveis, inclusive à multa prevista no art. 100, parágrafo único, do Código de Processo Civil.
+
+Por ser verdade, firmo a presente.
+
+[direita]{{location}}, {{date | data_extenso}}.
+
+[centro]_________________________________
+**{{client.name}}**
+Declarante`
+  }
+};
+
+/**
+ * Campos disponíveis em cada modelo, exibidos no editor
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<DocumentTemplateKey, Array<{ placeholder: string; description: string }>> = {
+  procuracao: [
+    { placeholder: '{{client.name}}', description: 'Nome do outorgante' },
+    { placeholder: '{{client.document}}', description: 'CPF ou CNPJ formatado' },
+    { placeholder: '{{client.documentLabel}}', description: '"CPF" ou "CNPJ"' },
+    { placeholder: '{{client.rg}}', description: 'RG do outorgante' },
+    { placeholder: '{{client.address}}', description: 'Endereço do outorgante' },
+    { placeholder: '{{#each lawyers}}...{{/each}}', description: 'Procuradores (name, oab)' },
+    { placeholder: '{{lawyers[].name | lista}}', description: 'Nomes dos procuradores' },
+    { placeholder: '{{lawyers[].oab}}', description: 'Inscrições na OAB dos procuradores' },
+    { placeholder: '{{#if plural}}', description: 'Mais de um procurador' },
+    { placeholder: '{{type}}', description: 'Ad Judicia ou Ad Negotia' },
+    { placeholder: '{{object}}', description: 'Objeto da procuração' },
+    { placeholder: '{{location}}', description: 'Local' },
+    { placeholder: '{{date | data_extenso}}', description: 'Data por extenso' }
+  ],
+  recibo: [
+    { placeholder: '{{number}}', description: 'Número do recibo (ex: REC-2026-000123)' },
+    { placeholder: '{{client.name}}', description: 'Nome do pagador' },
+    { placeholder: '{{amount | moeda}}', description: 'Valor em reais' },
+    { placeholder: '{{amount | extenso}}', description: 'Valor por extenso (ex: mil duzentos e trinta reais)' },
+    { placeholder: '{{description}}', description: 'Referente a' },
+    { placeholder: '{{paymentMethod}}', description: 'Forma de pagamento' },
+    { placeholder: '{{date | data}}', description: 'Data (dd/mm/aaaa)' },
+    { placeholder: '{{lawyer.name}}', description: 'Advogado que assina' },
+    { placeholder: '{{lawyer.oab}}', description: 'Inscrição na OAB do advogado' },
+    { placeholder: '{{lawyer.cpf}}', description: 'CPF do advogado' },
+    { placeholder: '{{#if cancelled}}', description: 'Recibo cancelado ({{cancelledAt | data}} e {{cancelReason}})' }
+  ],
+  contrato: [
+    { placeholder: '{{client.name}}', description: 'Nome do contratante' },
+    { placeholder: '{{client.document}}', description: 'CPF ou CNPJ formatado' },
+    { placeholder: '{{client.documentLabel}}', description: '"CPF" ou "CNPJ"' },
+    { placeholder: '{{client.address}}', description: 'Endereço do contratante' },
+    { placeholder: '{{#each lawyers}}...{{/each}}', description: 'Contratados (name, oab)' },
+    { placeholder: '{{#if plural}}', description: 'Mais de um contratado' },
+    { placeholder: '{{object}}', description: 'Objeto do contrato' },
+    { placeholder: '{{process.number}}', description: 'Número do processo relacionado' },
+    { placeholder: '{{process.court}}', description: 'Vara/tribunal do processo' },
+    { placeholder: '{{amount | moeda}}', description: 'Honorários fixos' },
+    { placeholder: '{{amount | extenso}}', description: 'Honorários fixos por extenso' },
+    { placeholder: '{{#if installmentPlan}}', description: 'Pagamento parcelado' },
+    { placeholder: '{{installments}}', description: 'Número de parcelas' },
+    { placeholder: '{{installments | numero_extenso:"feminino"}}', description: 'Número de parcelas por extenso' },
+    { placeholder: '{{installmentAmount | moeda}}', description: 'Valor de cada parcela' },
+    { placeholder: '{{firstDueDate | data}}', description: 'Vencimento da primeira parcela' },
+    { placeholder: '{{successFee}}', description: 'Percentual de êxito' },
+    { placeholder: '{{paymentMethod}}', description: 'Forma de pagamento' },
+    { placeholder: '{{location}}', description: 'Local (também usado no foro)' },
+    { placeholder: '{{date | data_extenso}}', description: 'Data por extenso' }
+  ],
+  substabelecimento: [
+    { placeholder: '{{grantor.name}}', description: 'Advogado substabelecente' },
+    { placeholder: '{{grantor.oab}}', description: 'Inscrição na OAB do substabelecente' },
+    { placeholder: '{{grantee.name}}', description: 'Advogado substabelecido' },
+    { placeholder: '{{grantee.oab}}', description: 'Inscrição na OAB do substabelecido' },
+    { placeholder: '{{#if withReservation}}', description: 'Com reserva de poderes' },
+    { placeholder: '{{client.name}}', description: 'Cliente (outorgante original)' },
+    { placeholder: '{{process.number}}', description: 'Número do processo' },
+    { placeholder: '{{process.court}}', description: 'Vara/tribunal do processo' },
+    { placeholder: '{{notes}}', description: 'Observações' },
+    { placeholder: '{{location}}', description: 'Local' },
+    { placeholder: '{{date | data_extenso}}', description: 'Data por extenso' }
+  ],
+  hipossuficiencia: [
+    { placeholder: '{{client.name}}', description: 'Nome do declarante' },
+    { placeholder: '{{client.profession}}', description: 'Profissão' },
+    { placeholder: '{{client.document}}', description: 'CPF ou CNPJ formatado' },
+    { placeholder: '{{client.documentLabel}}', description: '"CPF" ou "CNPJ"' },
+    { placeholder: '{{client.rg}}', description: 'RG do declarante' },
+    { placeholder: '{{client.address}}', description: 'Endereço do declarante' },
+    { placeholder: '{{process.number}}', description: 'Número do processo' },
+    { placeholder: '{{location}}', description: 'Local' },
+    { placeholder: '{{date | data_extenso}}', description: 'Data por extenso' }
+  ]
+};
+
+/**
+ * Processo relacionado ao documento
+ */
+export interface DocumentProcessReference {
+  number: string;
+  court: string;
+}
+
+const NO_PROCESS: DocumentProcessReference = { number: '', court: '' };
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const buildClientQualification = (clientName: string, clientCpf?: string) => ({
+  name: clientName,
+  document: clientCpf ? formatCpfCnpj(clientCpf) : '',
+  documentLabel: clientCpf ? getCpfCnpjLabel(clientCpf) : 'CPF'
+});
+
+const buildLawyers = (names: string[] = [], oabs: string[] = []) => names.map((name, index) => ({
+  name,
+  oab: oabs[index] || ''
+}));
+
+export function buildPowerOfAttorneyContext(clientName: string, data: Partial<PowerOfAttorneyPayload>): TemplateContext {
+  const lawyers = buildLawyers(data.lawyers, data.lawyersOab);
+
+  return {
+    client: {
+      ...buildClientQualification(clientName, data.clientCpf),
+      rg: data.clientRg || '',
+      address: data.clientAddress || ''
+    },
+    lawyers,
+    plural: lawyers.length > 1,
+    type: data.type || 'Ad Judicia',
+    object: data.object || 'Representação jurídica',
+    location: data.location || '',
+    date: data.date || today()
+  };
+}
+
+export function buildReceiptContext(clientName: string, data: Partial<ReceiptPayload>): TemplateContext {
+  return {
+    client: { name: clientName },
+    amount: data.amount || 0,
+    description: data.description || 'serviços jurídicos',
+    paymentMethod: data.paymentMethod || 'Não especificado',
+    date: data.date || today(),
+    lawyer: {
+      name: data.lawyerName || 'Advogado',
+      oab: data.lawyerOab ? formatOabText(data.lawyerOab) : '',
+      cpf: data.lawyerCpf ? formatCpf(data.lawyerCpf) : ''
+    },
+    number: data.number || '',
+    cancelled: Boolean(data.cancelledAt),
+    cancelledAt: data.cancelledAt || '',
+    cancelReason: data.cancelReason || ''
+  };
+}
+
+export function buildFeeAgreementContext(
+  clientName: string,
+  data: Partial<FeeAgreementPayload>,
+  process: DocumentProcessReference = NO_PROCESS
+): TemplateContext {
+  const lawyers = buildLawyers(data.lawyers, data.lawyersOab);
+  const amount = data.amount || 0;
+  const installments = Math.max(1, data.installments || 1);
+
+  return {
+    client: {
+      ...buildClientQualification(clientName, data.clientCpf),
+      address: data.clientAddress || ''
+    },
+    lawyers,
+    plural: lawyers.length > 1,
+    object: data.object || 'Prestação de serviços jurídicos',
+    process,
+    amount,
+    installments,
+    installmentPlan: installments > 1,
+    installmentAmount: Math.round((amount / installments) * 100) / 100,
+    firstDueDate: data.firstDueDate || '',
+    successFee: data.successFee || 0,
+    paymentMethod: data.paymentMethod || 'PIX',
+    location: data.location || '',
+    date: data.date || today()
+  };
+}
+
+export function buildSubstitutionContext(
+  clientName: string,
+  data: Partial<SubstitutionPayload>,
+  process: DocumentProcessReference = NO_PROCESS
+): TemplateContext {
+  return {
+    client: { name: clientName },
+    grantor: {
+      name: data.grantorName || 'Advogado',
+      oab: data.grantorOab ? formatOabText(data.grantorOab) : ''
+    },
+    grantee: {
+      name: data.granteeName || '',
+      oab: data.granteeOab ? formatOabText(data.granteeOab) : ''
+    },
+    withReservation: data.withReservation ?? true,
+    process,
+    notes: data.notes || '',
+    location: data.location || '',
+    date: data.date || today()
+  };
+}
+
+export function buildHardshipDeclarationContext(
+  clientName: string,
+  data: Partial<HardshipDeclarationPayload>,
+  process: DocumentProcessReference = NO_PROCESS
+): TemplateContext {
+  return {
+    client: {
+      ...buildClientQualification(clientName, data.clientCpf),
+      rg: data.clientRg || '',
+      address: data.clientAddress || '',
+      profession: data.profession || ''
+    },
+    process,
+    location: data.location || '',
+    date: data.date || today()
+  };
+}
+
+/**
+ * Dados de preenchimento de um documento já emitido
+ */
+export function buildDocumentContext(document: Document): TemplateContext {
+  const processNumber = document.processNumber || '';
+
+  switch (document.type) {
+    case 'Procuração':
+      return buildPowerOfAttorneyContext(document.client, document.data);
+    case 'Recibo':
+      return buildReceiptContext(document.client, document.data);
+    case 'Contrato de Honorários':
+      return buildFeeAgreementContext(document.client, document.data, {
+        number: processNumber,
+        court: document.data.processCourt
+      });
+    case 'Substabelecimento':
+      return buildSubstitutionContext(document.client, document.data, {
+        number: processNumber,
+        court: document.data.processCourt
+      });
+    case 'Declaração de Hipossuficiência':
+      return buildHardshipDeclarationContext(document.client, document.data, { number: processNumber, court: '' });
+  }
+}
+
+/**
+ * Dados fictícios para a pré-visualização no editor de modelos
+ */
+export const SAMPLE_CONTEXTS: Record<DocumentTemplateKey, TemplateContext> = {
+  procuracao: buildPowerOfAttorneyContext('João da Silva', {
+    clientCpf: '52998224725',
+    clientRg: '12.345.678-9',
+    clientAddress: 'Rua das Flores, 123 - Centro, São Paulo/SP',
+    type: 'Ad Judicia',
+    object: 'Propor ação trabalhista em face de Empresa ABC Ltda.',
+    location: 'São Paulo',
+    date: '2024-03-15',
+    lawyers: ['Dra. Maria Santos Silva', 'Dr. João Carlos Oliveira'],
+    lawyersOab: ['OAB/SP nº 123.456', 'OAB/SP nº 654.321, OAB/RJ nº 98.765']
+  }),
+  recibo: buildReceiptContext('João da Silva', {
+    amount: 2500.5,
+    description: 'honorários advocatícios - Ação Trabalhista',
+    paymentMethod: 'PIX',
+    date: '2024-03-15',
+    lawyerName: 'Dra. Maria Santos Silva',
+    lawyerOab: '123456/SP',
+    lawyerCpf: '12345678909',
+    number: 'REC-2024-000123'
+  }),
+  contrato: buildFeeAgreementContext('João da Silva', {
+    clientCpf: '52998224725',
+    clientAddress: 'Rua das Flores, 123 - Centro, São Paulo/SP',
+    lawyers: ['Dra. Maria Santos Silva'],
+    lawyersOab: ['OAB/SP nº 123.456'],
+    object: 'Propositura e acompanhamento de reclamação trabalhista em face de Empresa ABC Ltda. até o trânsito em julgado',
+    amount: 6000,
+    installments: 3,
+    firstDueDate: '2024-04-10',
+    successFee: 20,
+    paymentMethod: 'PIX',
+    location: 'São Paulo',
+    date: '2024-03-15'
+  }, { number: '1234567-89.2024.5.02.0001', court: '1ª Vara do Trabalho de São Paulo' }),
+  substabelecimento: buildSubstitutionContext('João da Silva', {
+    grantorName: 'Dra. Maria Santos Silva',
+    grantorOab: '123456/SP',
+    granteeName: 'Dr. João Carlos Oliveira',
+    granteeOab: '654321/SP',
+    withReservation: true,
+    location: 'São Paulo',
+    date: '2024-03-15'
+  }, { number: '1234567-89.2024.5.02.0001', court: '1ª Vara do Trabalho de São Paulo' }),
+  hipossuficiencia: buildHardshipDeclarationContext('João da Silva', {
+    clientCpf: '52998224725',
+    clientRg: '12.345.678-9',
+    clientAddress: 'Rua das Flores, 123 - Centro, São Paulo/SP',
+    profession: 'auxiliar administrativo',
+    location: 'São Paulo',
+    date: '2024-03-15'
+  }, { number: '1234567-89.2024.5.02.0001', court: '' })
+};
+
+/**
+ * Preencher título, destaque e corpo do modelo
+ */
+export function renderDocumentTemplate(
+  template: Pick<DocumentTemplate, 'title' | 'highlight' | 'body'>,
+  context: TemplateContext
+): RenderedDocument {
+  return {
+    title: renderTemplate(template.title, context),
+    highlight: template.highlight ? renderTemplate(template.highlight, context) : undefined,
+    body: renderTemplate(template.body, context)
+  };
+}
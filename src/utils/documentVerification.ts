@@ -0,0 +1,71 @@
+/**
+ * Selo de verificação dos documentos
+ *
+ * Cada PDF leva um QR Code e um código curto derivados do SHA-256 do
+ * conteúdo canônico do documento. A página pública /verificar/:código
+ * informa se o documento existe e se ainda corresponde ao que foi emitido,
+ * sem mostrar o conteúdo.
+ */
+
+import { Document } from '../types';
+
+const CODE_LENGTH = 12;
+const CODE_GROUP = 4;
+
+// Campos que não fazem parte do texto emitido: o cancelamento tem status
+// próprio no selo e o vínculo com a receita é apenas interno
+const VOLATILE_FIELDS = ['cancelledAt', 'cancelReason', 'revenueId', 'revenueWarning'];
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+        return sorted;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * Conteúdo do documento em JSON com chaves ordenadas. O id entra no texto
+ * para que documentos com o mesmo conteúdo não compartilhem o selo.
+ */
+export function canonicalDocumentContent(document: Document): string {
+  const data = { ...(document.data as unknown as Record<string, unknown>) };
+  VOLATILE_FIELDS.forEach(field => delete data[field]);
+
+  return JSON.stringify(sortKeys({
+    id: document.id,
+    type: document.type,
+    client: document.client,
+    processNumber: document.processNumber || '',
+    data
+  }));
+}
+
+function groupCode(value: string): string {
+  const groups: string[] = [];
+  for (let i = 0; i < value.length; i += CODE_GROUP) {
+    groups.push(value.slice(i, i + CODE_GROUP));
+  }
+  return groups.join('-');
+}
+
+export function toVerificationCode(hash: string): string {
+  return groupCode(hash.slice(0, CODE_LENGTH).toUpperCase());
+}
+
+/**
+ * Código digitado ou lido do QR no formato canônico; null se inválido
+ */
+export function normalizeVerificationCode(value: string): string | null {
+  const digits = (value || '').toUpperCase().replace(/[^0-9A-F]/g, '');
+  return digits.length === CODE_LENGTH ? groupCode(digits) : null;
+}
+
+export function getVerificationUrl(code: string): string {
+  return `${window.location.origin}/verificar/${code}`;
+}
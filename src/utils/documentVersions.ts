@@ -0,0 +1,157 @@
+/**
+ * Campos editáveis de cada tipo de documento e comparação entre versões
+ *
+ * Editar um documento emite uma nova versão; as anteriores ficam arquivadas
+ * e o histórico mostra, campo a campo, o que mudou de uma versão para a
+ * seguinte.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import { Document, DocumentPayloads, DocumentType, DocumentVersion } from '../types';
+import { formatCpf, formatCpfCnpj } from './cpfCnpj';
+
+export type DocumentFieldKind = 'text' | 'textarea' | 'number' | 'currency' | 'date' | 'boolean' | 'list' | 'cpf' | 'cpfCnpj';
+
+export interface DocumentField<T extends DocumentType = DocumentType> {
+  key: keyof DocumentPayloads[T] & string;
+  label: string;
+  kind: DocumentFieldKind;
+  options?: string[];
+}
+
+const LOCATION_AND_DATE = [
+  { key: 'location', label: 'Local', kind: 'text' },
+  { key: 'date', label: 'Data', kind: 'date' }
+] as const;
+
+export const DOCUMENT_FIELDS: { [T in DocumentType]: Array<DocumentField<T>> } = {
+  'Procuração': [
+    { key: 'clientCpf', label: 'CPF/CNPJ do cliente', kind: 'cpfCnpj' },
+    { key: 'clientRg', label: 'RG do cliente', kind: 'text' },
+    { key: 'clientAddress', label: 'Endereço do cliente', kind: 'text' },
+    { key: 'type', label: 'Tipo de procuração', kind: 'text', options: ['Ad Judicia', 'Para fins específicos'] },
+    { key: 'object', label: 'Objeto', kind: 'textarea' },
+    { key: 'lawyers', label: 'Advogados', kind: 'list' },
+    { key: 'lawyersOab', label: 'Inscrições na OAB', kind: 'list' },
+    ...LOCATION_AND_DATE
+  ],
+  'Recibo': [
+    { key: 'amount', label: 'Valor', kind: 'currency' },
+    { key: 'description', label: 'Descrição do serviço', kind: 'textarea' },
+    { key: 'paymentMethod', label: 'Forma de pagamento', kind: 'text' },
+    { key: 'date', label: 'Data do pagamento', kind: 'date' },
+    { key: 'lawyerName', label: 'Advogado', kind: 'text' },
+    { key: 'lawyerOab', label: 'OAB do advogado', kind: 'text' },
+    { key: 'lawyerCpf', label: 'CPF do advogado', kind: 'cpf' }
+  ],
+  'Contrato de Honorários': [
+    { key: 'clientCpf', label: 'CPF/CNPJ do cliente', kind: 'cpfCnpj' },
+    { key: 'clientAddress', label: 'Endereço do cliente', kind: 'text' },
+    { key: 'lawyers', label: 'Advogados', kind: 'list' },
+    { key: 'lawyersOab', label: 'Inscrições na OAB', kind: 'list' },
+    { key: 'object', label: 'Objeto', kind: 'textarea' },
+    { key: 'amount', label: 'Honorários fixos', kind: 'currency' },
+    { key: 'installments', label: 'Parcelas', kind: 'number' },
+    { key: 'firstDueDate', label: 'Primeiro vencimento', kind: 'date' },
+    { key: 'successFee', label: 'Honorários de êxito (%)', kind: 'number' },
+    { key: 'paymentMethod', label: 'Forma de pagamento', kind: 'text' },
+    { key: 'processCourt', label: 'Juízo', kind: 'text' },
+    ...LOCATION_AND_DATE
+  ],
+  'Substabelecimento': [
+    { key: 'grantorName', label: 'Substabelecente', kind: 'text' },
+    { key: 'grantorOab', label: 'OAB do substabelecente', kind: 'text' },
+    { key: 'granteeName', label: 'Substabelecido', kind: 'text' },
+    { key: 'granteeOab', label: 'OAB do substabelecido', kind: 'text' },
+    { key: 'withReservation', label: 'Com reserva de poderes', kind: 'boolean' },
+    { key: 'notes', label: 'Observações', kind: 'textarea' },
+    { key: 'processCourt', label: 'Juízo', kind: 'text' },
+    ...LOCATION_AND_DATE
+  ],
+  'Declaração de Hipossuficiência': [
+    { key: 'clientCpf', label: 'CPF/CNPJ do declarante', kind: 'cpfCnpj' },
+    { key: 'clientRg', label: 'RG do declarante', kind: 'text' },
+    { key: 'clientAddress', label: 'Endereço do declarante', kind: 'text' },
+    { key: 'profession', label: 'Profissão', kind: 'text' },
+    ...LOCATION_AND_DATE
+  ]
+};
+
+export function getDocumentFields(type: DocumentType): DocumentField[] {
+  return DOCUMENT_FIELDS[type] as DocumentField[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+/**
+ * Valor de um campo como texto para exibição
+ */
+export function formatFieldValue(value: unknown, kind: DocumentFieldKind): string {
+  if (value === undefined || value === null || value === '') return '—';
+
+  switch (kind) {
+    case 'currency':
+      return formatCurrency(Number(value));
+    case 'boolean':
+      return value ? 'Sim' : 'Não';
+    case 'list':
+      return Array.isArray(value) && value.length > 0 ? value.join('; ') : '—';
+    case 'cpf':
+      return formatCpf(String(value));
+    case 'cpfCnpj':
+      return formatCpfCnpj(String(value));
+    case 'date': {
+      const date = parseISO(String(value));
+      return isValid(date) ? format(date, 'dd/MM/yyyy') : String(value);
+    }
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Conteúdo atual do documento no formato de versão
+ */
+export function toDocumentVersion(document: Document): DocumentVersion {
+  return {
+    documentId: document.id,
+    version: document.version,
+    type: document.type,
+    client: document.client,
+    processId: document.processId ?? null,
+    processNumber: document.processNumber || '',
+    data: document.data,
+    changeNote: document.changeNote || '',
+    createdAt: document.updatedAt || document.createdAt,
+    createdBy: document.updatedBy ?? document.createdBy ?? null
+  } as DocumentVersion;
+}
+
+export interface DocumentFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Campos alterados de uma versão para a seguinte
+ */
+export function diffDocumentVersions(before: DocumentVersion, after: DocumentVersion): DocumentFieldChange[] {
+  const changes: DocumentFieldChange[] = [];
+  const compare = (field: string, label: string, previous: string, next: string) => {
+    if (previous !== next) changes.push({ field, label, before: previous, after: next });
+  };
+
+  compare('client', 'Cliente', before.client || '—', after.client || '—');
+  compare('processNumber', 'Processo', before.processNumber || '—', after.processNumber || '—');
+
+  const previousData = before.data as unknown as Record<string, unknown>;
+  const nextData = after.data as unknown as Record<string, unknown>;
+  getDocumentFields(after.type).forEach(({ key, label, kind }) => {
+    compare(key, label, formatFieldValue(previousData[key], kind), formatFieldValue(nextData[key], kind));
+  });
+
+  return changes;
+}
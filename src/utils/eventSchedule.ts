@@ -0,0 +1,144 @@
+/**
+ * Horários e duração de eventos da agenda
+ *
+ * Calcula o intervalo ocupado por cada evento, detecta advogados com
+ * compromissos sobrepostos e distribui eventos simultâneos em colunas
+ * para as visões de semana e dia.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { CalendarEvent } from '../types';
+import { expandEvents } from './recurrence';
+
+// Duração assumida para eventos sem horário de término, em minutos
+export const DEFAULT_EVENT_DURATION = 60;
+
+// Séries recorrentes são verificadas no período de um ano a partir do início
+const CONFLICT_WINDOW_DAYS = 365;
+
+const MINUTES_IN_DAY = 24 * 60;
+
+export interface EventConflict {
+  event: CalendarEvent;
+  lawyers: string[];
+}
+
+export interface EventLayout {
+  event: CalendarEvent;
+  start: number; // minutos desde 00:00
+  end: number;
+  column: number;
+  columns: number;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function minutesToTime(minutes: number): string {
+  const clamped = Math.min(Math.max(minutes, 0), MINUTES_IN_DAY - 1);
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Intervalo ocupado pelo evento no dia, em minutos. Sem término informado,
+ * usa a duração padrão, limitada ao fim do dia.
+ */
+export function getEventInterval(event: CalendarEvent): { start: number; end: number } {
+  const start = timeToMinutes(event.time);
+  const informedEnd = event.endTime ? timeToMinutes(event.endTime) : 0;
+  const end = informedEnd > start ? informedEnd : Math.min(start + DEFAULT_EVENT_DURATION, MINUTES_IN_DAY);
+  return { start, end };
+}
+
+/**
+ * Horário de término para exibição (informado ou estimado pela duração padrão)
+ */
+export function getEventEndTime(event: CalendarEvent): string {
+  return event.endTime || minutesToTime(getEventInterval(event).end);
+}
+
+export function getEventDuration(event: CalendarEvent): number {
+  const { start, end } = getEventInterval(event);
+  return end - start;
+}
+
+export function eventsOverlap(a: CalendarEvent, b: CalendarEvent): boolean {
+  if (a.date !== b.date) return false;
+  const first = getEventInterval(a);
+  const second = getEventInterval(b);
+  return first.start < second.end && second.start < first.end;
+}
+
+/**
+ * Encontrar compromissos pendentes que se sobrepõem ao evento para algum dos
+ * advogados dele. Séries recorrentes são comparadas ocorrência a ocorrência.
+ */
+export function findLawyerConflicts(candidate: CalendarEvent, events: CalendarEvent[]): EventConflict[] {
+  if (!candidate.date || !candidate.time || candidate.lawyers.length === 0) {
+    return [];
+  }
+
+  const rangeStart = candidate.date;
+  const rangeEnd = candidate.recurrence
+    ? format(addDays(parseISO(candidate.date), CONFLICT_WINDOW_DAYS), 'yyyy-MM-dd')
+    : candidate.date;
+
+  const others = events.filter(event =>
+    event.id !== candidate.id &&
+    event.status !== 'Concluído' &&
+    event.lawyers.some(lawyer => candidate.lawyers.includes(lawyer))
+  );
+
+  const othersByDate = new Map<string, CalendarEvent[]>();
+  expandEvents(others, rangeStart, rangeEnd).forEach(event => {
+    othersByDate.set(event.date, [...(othersByDate.get(event.date) || []), event]);
+  });
+
+  return expandEvents([candidate], rangeStart, rangeEnd).flatMap(occurrence =>
+    (othersByDate.get(occurrence.date) || [])
+      .filter(event => eventsOverlap(occurrence, event))
+      .map(event => ({
+        event,
+        lawyers: event.lawyers.filter(lawyer => candidate.lawyers.includes(lawyer))
+      }))
+  );
+}
+
+/**
+ * Distribuir os eventos de um dia em colunas: eventos que se sobrepõem
+ * (direta ou indiretamente) dividem a largura igualmente.
+ */
+export function layoutDayEvents(events: CalendarEvent[]): EventLayout[] {
+  const sorted = events
+    .map(event => ({ event, ...getEventInterval(event), column: 0, columns: 1 }))
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const layouts: EventLayout[] = [];
+  let cluster: EventLayout[] = [];
+  let columnEnds: number[] = [];
+  let clusterEnd = -1;
+
+  const closeCluster = () => {
+    cluster.forEach(layout => { layout.columns = columnEnds.length; });
+    layouts.push(...cluster);
+    cluster = [];
+    columnEnds = [];
+  };
+
+  sorted.forEach(layout => {
+    if (layout.start >= clusterEnd) {
+      closeCluster();
+    }
+
+    const column = columnEnds.findIndex(end => end <= layout.start);
+    layout.column = column >= 0 ? column : columnEnds.length;
+    columnEnds[layout.column] = layout.end;
+    clusterEnd = Math.max(clusterEnd, layout.end);
+    cluster.push(layout);
+  });
+  closeCluster();
+
+  return layouts;
+}
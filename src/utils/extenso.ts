@@ -0,0 +1,118 @@
+/**
+ * Números e valores por extenso em português
+ *
+ * Regras seguidas:
+ * - "cem" sozinho, "cento e ..." nas demais centenas; "mil" sem "um"
+ * - "e" entre centenas, dezenas e unidades ("cento e vinte e três") e antes
+ *   do último grupo quando ele for menor que cem ou uma centena redonda
+ *   ("mil e duzentos", "mil e vinte", mas "mil duzentos e trinta")
+ * - milhão/bilhão no singular ou plural; "de reais" quando o valor termina
+ *   em milhão ou bilhão ("um milhão de reais")
+ * - gênero feminino nas unidades e centenas ("duas", "duzentas") até a casa
+ *   dos milhares; milhões e bilhões são sempre masculinos
+ */
+
+export type NumberGender = 'masculino' | 'feminino';
+
+const UNITS: Record<NumberGender, string[]> = {
+  masculino: ['', 'um', 'dois', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove'],
+  feminino: ['', 'uma', 'duas', 'três', 'quatro', 'cinco', 'seis', 'sete', 'oito', 'nove']
+};
+const TEENS = ['dez', 'onze', 'doze', 'treze', 'quatorze', 'quinze', 'dezesseis', 'dezessete', 'dezoito', 'dezenove'];
+const TENS = ['', '', 'vinte', 'trinta', 'quarenta', 'cinquenta', 'sessenta', 'setenta', 'oitenta', 'noventa'];
+const HUNDREDS: Record<NumberGender, string[]> = {
+  masculino: ['', 'cento', 'duzentos', 'trezentos', 'quatrocentos', 'quinhentos', 'seiscentos', 'setecentos', 'oitocentos', 'novecentos'],
+  feminino: ['', 'cento', 'duzentas', 'trezentas', 'quatrocentas', 'quinhentas', 'seiscentas', 'setecentas', 'oitocentas', 'novecentas']
+};
+
+// Escalas a partir dos milhares: [singular, plural]
+const SCALES: Array<[string, string]> = [
+  ['mil', 'mil'],
+  ['milhão', 'milhões'],
+  ['bilhão', 'bilhões']
+];
+
+export const MAX_NUMBER_IN_WORDS = 999_999_999_999;
+
+/**
+ * Grupo de até três dígitos por extenso
+ */
+function groupToWords(value: number, gender: NumberGender): string {
+  if (value === 100) return 'cem';
+
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  const parts: string[] = [];
+
+  if (hundreds > 0) parts.push(HUNDREDS[gender][hundreds]);
+
+  if (rest >= 20) {
+    const units = rest % 10;
+    parts.push(units > 0 ? `${TENS[Math.floor(rest / 10)]} e ${UNITS[gender][units]}` : TENS[Math.floor(rest / 10)]);
+  } else if (rest >= 10) {
+    parts.push(TEENS[rest - 10]);
+  } else if (rest > 0) {
+    parts.push(UNITS[gender][rest]);
+  }
+
+  return parts.join(' e ');
+}
+
+/**
+ * Número inteiro por extenso: 1230 -> "mil duzentos e trinta"
+ */
+export function numberToWords(value: number, gender: NumberGender = 'masculino'): string {
+  const number = Math.trunc(value);
+  if (number < 0) return `menos ${numberToWords(-number, gender)}`;
+  if (number === 0) return 'zero';
+  if (number > MAX_NUMBER_IN_WORDS) {
+    throw new RangeError('Valor acima do limite para escrita por extenso');
+  }
+
+  // Grupos de três dígitos, do menor para o maior
+  const groups: number[] = [];
+  for (let rest = number; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const parts = groups
+    .map((group, index) => ({ group, index }))
+    .filter(({ group }) => group > 0)
+    .reverse()
+    .map(({ group, index }) => {
+      if (index === 0) return groupToWords(group, gender);
+      if (index === 1) return group === 1 ? 'mil' : `${groupToWords(group, gender)} mil`;
+
+      const [singular, plural] = SCALES[index - 1];
+      return `${groupToWords(group, 'masculino')} ${group === 1 ? singular : plural}`;
+    });
+
+  const nonZero = groups.filter(group => group > 0);
+  const last = nonZero[0];
+  const joinWithE = parts.length > 1 && (last < 100 || last % 100 === 0);
+
+  return joinWithE
+    ? `${parts.slice(0, -1).join(' ')} e ${parts[parts.length - 1]}`
+    : parts.join(' ');
+}
+
+/**
+ * Valor em reais por extenso: 1230.15 -> "mil duzentos e trinta reais e quinze centavos"
+ */
+export function amountToWords(amount: number): string {
+  const totalCents = Math.round(Math.abs(amount) * 100);
+  const reais = Math.floor(totalCents / 100);
+  const cents = totalCents % 100;
+  const sign = amount < 0 && totalCents > 0 ? 'menos ' : '';
+
+  const centsInWords = cents > 0 ? `${numberToWords(cents)} ${cents === 1 ? 'centavo' : 'centavos'}` : '';
+  if (reais === 0 && cents > 0) {
+    return `${sign}${centsInWords}`;
+  }
+
+  // Valores redondos em milhões ou bilhões levam "de": um milhão de reais
+  const connector = reais >= 1_000_000 && reais % 1_000_000 === 0 ? ' de' : '';
+  const reaisInWords = `${numberToWords(reais)}${connector} ${reais === 1 ? 'real' : 'reais'}`;
+
+  return `${sign}${reaisInWords}${centsInWords ? ` e ${centsInWords}` : ''}`;
+}
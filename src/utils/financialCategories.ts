@@ -0,0 +1,156 @@
+/**
+ * Categorias financeiras configuráveis
+ *
+ * Cada escritório mantém sua árvore de categorias de receitas e despesas
+ * (categoria e subcategoria). Os lançamentos guardam o id da categoria
+ * (categoryId) e o nome no momento do lançamento (category). As categorias
+ * padrão têm ids fixos, derivados do nome, para que registros anteriores às
+ * categorias configuráveis sejam migrados apenas pelo nome.
+ */
+
+import { FinancialCategory, FinancialCategoryKind } from '../types';
+
+export type NewFinancialCategory = Omit<FinancialCategory, 'id' | 'createdAt'>;
+
+export interface CategoryOption {
+  id: string;
+  label: string;
+  depth: number;
+  active: boolean;
+}
+
+export interface CategoryTotal {
+  id: string;
+  name: string;
+  color: string;
+  total: number;
+}
+
+export const CATEGORY_KIND_LABELS: Record<FinancialCategoryKind, string> = {
+  receita: 'Receitas',
+  despesa: 'Despesas'
+};
+
+export const CATEGORY_COLORS = [
+  '#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#6b7280'
+];
+
+const slugify = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-|-$/g, '');
+
+export const categoryIdFromName = (kind: FinancialCategoryKind, name: string) => `${kind}-${slugify(name)}`;
+
+const DEFAULT_NAMES: Record<FinancialCategoryKind, string[]> = {
+  receita: ['Honorário', 'Consultoria', 'Outro'],
+  despesa: ['Aluguel', 'Internet', 'Material', 'Energia', 'Salário', 'Alimentação/Bebidas', 'Evento', 'Outro']
+};
+
+export const DEFAULT_FINANCIAL_CATEGORIES: NewFinancialCategory[] = (['receita', 'despesa'] as const)
+  .flatMap(kind => DEFAULT_NAMES[kind].map((name, index) => ({
+    kind,
+    name,
+    parentId: null,
+    color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+    active: true
+  })));
+
+export const DEFAULT_REVENUE_CATEGORY_ID = categoryIdFromName('receita', 'Honorário');
+export const DEFAULT_EXPENSE_CATEGORY_ID = categoryIdFromName('despesa', 'Aluguel');
+
+/**
+ * Categoria de um registro anterior às categorias configuráveis. Nomes fora
+ * da lista padrão vão para "Outro"; o nome original continua em category.
+ */
+export function legacyCategoryId(kind: FinancialCategoryKind, name: string | undefined): string {
+  const known = DEFAULT_NAMES[kind].find(item => slugify(item) === slugify(name || ''));
+  return categoryIdFromName(kind, known || 'Outro');
+}
+
+export function resolveCategoryId(kind: FinancialCategoryKind, record: { category?: string; categoryId?: string }): string {
+  return record.categoryId || legacyCategoryId(kind, record.category);
+}
+
+export function findCategory(categories: FinancialCategory[], id: string): FinancialCategory | undefined {
+  return categories.find(category => category.id === id);
+}
+
+/**
+ * Nome para exibição: "Categoria › Subcategoria", ou o nome gravado no
+ * lançamento se a categoria não existir mais
+ */
+export function getCategoryLabel(categories: FinancialCategory[], id: string, fallback = ''): string {
+  const category = findCategory(categories, id);
+  if (!category) return fallback;
+  const parent = category.parentId ? findCategory(categories, category.parentId) : undefined;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+}
+
+export function getCategoryColor(categories: FinancialCategory[], id: string): string {
+  return findCategory(categories, id)?.color || '#6b7280';
+}
+
+/**
+ * Opções de seleção em ordem de árvore. Inativas só entram se pedidas
+ * (filtros) ou se forem a categoria atual do lançamento.
+ */
+export function getCategoryOptions(
+  categories: FinancialCategory[],
+  kind: FinancialCategoryKind,
+  options: { includeInactive?: boolean; currentId?: string } = {}
+): CategoryOption[] {
+  const visible = (category: FinancialCategory) =>
+    options.includeInactive || category.active || category.id === options.currentId;
+  const byName = (a: FinancialCategory, b: FinancialCategory) => a.name.localeCompare(b.name);
+  const ofKind = categories.filter(category => category.kind === kind);
+
+  return ofKind
+    .filter(category => !category.parentId)
+    .sort(byName)
+    .flatMap(root => {
+      const children = ofKind
+        .filter(category => category.parentId === root.id && visible(category))
+        .sort(byName)
+        .map(child => ({ id: child.id, label: child.name, depth: 1, active: child.active }));
+      if (!visible(root) && children.length === 0) return [];
+      return [{ id: root.id, label: root.name, depth: 0, active: root.active }, ...children];
+    });
+}
+
+/**
+ * Ids que um filtro pela categoria abrange (ela e suas subcategorias)
+ */
+export function getCategoryFilterIds(categories: FinancialCategory[], id: string): Set<string> {
+  return new Set([id, ...categories.filter(category => category.parentId === id).map(category => category.id)]);
+}
+
+/**
+ * Totais por categoria principal (subcategorias somadas à categoria pai),
+ * do maior para o menor
+ */
+export function summarizeByCategory(
+  items: Array<{ amount: number; category?: string; categoryId?: string }>,
+  categories: FinancialCategory[],
+  kind: FinancialCategoryKind
+): CategoryTotal[] {
+  const totals = new Map<string, CategoryTotal>();
+
+  items.forEach(item => {
+    const category = findCategory(categories, resolveCategoryId(kind, item));
+    const root = category?.parentId ? findCategory(categories, category.parentId) || category : category;
+    const key = root?.id || `sem-categoria-${item.category || ''}`;
+    const current = totals.get(key) || {
+      id: key,
+      name: root?.name || item.category || 'Sem categoria',
+      color: root?.color || '#6b7280',
+      total: 0
+    };
+    current.total += item.amount;
+    totals.set(key, current);
+  });
+
+  return [...totals.values()].sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,144 @@
+/**
+ * Feriados e recesso forense
+ *
+ * Os feriados fixos seguem a Lei 662/1949 e alterações; os móveis
+ * (Carnaval, Sexta-feira Santa e Corpus Christi) são calculados a partir
+ * da data da Páscoa. Carnaval e Corpus Christi não são feriados nacionais
+ * em sentido estrito, mas não há expediente forense nesses dias.
+ * O recesso de 20 de dezembro a 20 de janeiro segue o art. 220 do CPC.
+ */
+
+import { addDays, eachDayOfInterval, format } from 'date-fns';
+import { CustomHoliday, Holiday } from '../types';
+
+const FIXED_NATIONAL_HOLIDAYS: Array<[string, string]> = [
+  ['01-01', 'Confraternização Universal'],
+  ['04-21', 'Tiradentes'],
+  ['05-01', 'Dia do Trabalho'],
+  ['09-07', 'Independência do Brasil'],
+  ['10-12', 'Nossa Senhora Aparecida'],
+  ['11-02', 'Finados'],
+  ['11-15', 'Proclamação da República'],
+  ['11-20', 'Dia Nacional de Zumbi e da Consciência Negra'],
+  ['12-25', 'Natal']
+];
+
+// Feriados móveis, em dias contados a partir do domingo de Páscoa
+const MOVING_HOLIDAYS: Array<[number, string]> = [
+  [-48, 'Carnaval (segunda-feira)'],
+  [-47, 'Carnaval (terça-feira)'],
+  [-2, 'Sexta-feira Santa'],
+  [60, 'Corpus Christi']
+];
+
+/**
+ * Calcular o domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+ */
+export function calculateEaster(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Listar os feriados nacionais (fixos e móveis) de um ano, em ordem cronológica
+ */
+export function getNationalHolidays(year: number): Holiday[] {
+  const easter = calculateEaster(year);
+
+  const fixed: Holiday[] = FIXED_NATIONAL_HOLIDAYS.map(([monthDay, name]) => ({
+    date: `${year}-${monthDay}`,
+    name,
+    scope: 'Nacional'
+  }));
+
+  const moving: Holiday[] = MOVING_HOLIDAYS.map(([offset, name]) => ({
+    date: format(addDays(easter, offset), 'yyyy-MM-dd'),
+    name,
+    scope: 'Nacional'
+  }));
+
+  return [...fixed, ...moving].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Listar os dias de recesso forense (CPC, art. 220) que caem no ano:
+ * de 1º a 20 de janeiro e de 20 a 31 de dezembro
+ */
+export function getForensicRecess(year: number): Holiday[] {
+  const ranges = [
+    { start: new Date(year, 0, 1), end: new Date(year, 0, 20) },
+    { start: new Date(year, 11, 20), end: new Date(year, 11, 31) }
+  ];
+
+  return ranges.flatMap(range => eachDayOfInterval(range)).map((day): Holiday => ({
+    date: format(day, 'yyyy-MM-dd'),
+    name: 'Recesso forense (CPC, art. 220)',
+    scope: 'Recesso'
+  }));
+}
+
+/**
+ * Projetar os feriados cadastrados pelo usuário no ano informado.
+ * Feriados recorrentes repetem dia e mês; os demais valem só no ano cadastrado.
+ */
+export function expandCustomHolidays(customHolidays: CustomHoliday[], year: number): Holiday[] {
+  return customHolidays
+    .map(holiday => ({
+      date: holiday.recurring ? `${year}${holiday.date.slice(4)}` : holiday.date,
+      name: holiday.name,
+      scope: holiday.scope
+    }))
+    .filter(holiday => holiday.date.startsWith(`${year}-`));
+}
+
+/**
+ * Reunir feriados nacionais, cadastrados e recesso forense de um intervalo de anos
+ */
+export function getHolidaysForYears(
+  startYear: number,
+  endYear: number,
+  customHolidays: CustomHoliday[] = []
+): Holiday[] {
+  const holidays: Holiday[] = [];
+
+  for (let year = startYear; year <= endYear; year++) {
+    holidays.push(
+      ...getNationalHolidays(year),
+      ...expandCustomHolidays(customHolidays, year),
+      ...getForensicRecess(year)
+    );
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Indexar feriados por data. Quando há mais de um no mesmo dia, prevalece o
+ * feriado propriamente dito sobre o recesso.
+ */
+export function buildHolidayMap(holidays: Holiday[]): Map<string, Holiday> {
+  const map = new Map<string, Holiday>();
+
+  holidays.forEach(holiday => {
+    const existing = map.get(holiday.date);
+    if (!existing || existing.scope === 'Recesso') {
+      map.set(holiday.date, holiday);
+    }
+  });
+
+  return map;
+}
@@ -0,0 +1,326 @@
+/**
+ * Exportação e importação de eventos no formato iCalendar (RFC 5545)
+ *
+ * Os horários são gravados como hora local "flutuante" (sem fuso), que os
+ * aplicativos de agenda interpretam no fuso do aparelho. Os campos próprios
+ * do LegalX (tipo, processo, advogados, prioridade) vão em propriedades X-LEGALX-*
+ * para que a reimportação seja fiel; os principais também aparecem na descrição.
+ */
+
+import { format } from 'date-fns';
+import { CalendarEvent } from '../types';
+import { parseRRule, toRRule } from './recurrence';
+import { getEventEndTime, minutesToTime, timeToMinutes } from './eventSchedule';
+
+export type ParsedIcsEvent = Omit<CalendarEvent, 'id'> & { icalUid: string };
+
+const PRODID = '-//LegalX//Agenda Juridica//PT-BR';
+
+const EVENT_TYPES: CalendarEvent['type'][] = [
+  'Audiência', 'Reunião com Cliente', 'Prazo Processual', 'Prazo Interno', 'Ligação Importante', 'Outro'
+];
+
+// PRIORITY da RFC 5545: 1 (mais alta) a 9 (mais baixa)
+const PRIORITY_VALUES: Record<NonNullable<CalendarEvent['priority']>, number> = {
+  'Urgente': 1,
+  'Alta': 3,
+  'Média': 5,
+  'Baixa': 9
+};
+
+/**
+ * UID usado para identificar o evento fora do LegalX
+ */
+export function getEventUid(event: CalendarEvent): string {
+  return event.icalUid || `${event.id}@legalx`;
+}
+
+const escapeText = (value: string) => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) => value
+  .replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+/**
+ * Quebrar linhas com mais de 75 octetos (RFC 5545, seção 3.1)
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+const toIcsDateTime = (date: string, time: string) =>
+  `${date.replace(/-/g, '')}T${(time || '00:00').replace(':', '').padEnd(4, '0')}00`;
+
+function eventToLines(event: CalendarEvent, stamp: string): string[] {
+  const description = [
+    `Tipo: ${event.type}`,
+    event.processNumber && `Processo: ${event.processNumber}`,
+    event.client && `Cliente: ${event.client}`,
+    event.lawyers?.length && `Advogados: ${event.lawyers.join(', ')}`,
+    event.priority && `Prioridade: ${event.priority}`,
+    event.notes && `\n${event.notes}`
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(event)}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${toIcsDateTime(event.date, event.time)}`,
+    `DTEND:${toIcsDateTime(event.date, getEventEndTime(event))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(event.type)}`,
+    `X-LEGALX-TYPE:${escapeText(event.type)}`,
+    `X-LEGALX-STATUS:${escapeText(event.status)}`
+  ];
+
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.priority) {
+    lines.push(`PRIORITY:${PRIORITY_VALUES[event.priority]}`);
+    lines.push(`X-LEGALX-PRIORITY:${escapeText(event.priority)}`);
+  }
+  if (event.processNumber) lines.push(`X-LEGALX-PROCESS-NUMBER:${escapeText(event.processNumber)}`);
+  if (event.client) lines.push(`X-LEGALX-CLIENT:${escapeText(event.client)}`);
+  if (event.notes) lines.push(`X-LEGALX-NOTES:${escapeText(event.notes)}`);
+  (event.lawyers || []).forEach(lawyer => lines.push(`X-LEGALX-LAWYER:${escapeText(lawyer)}`));
+
+  if (event.recurrence) {
+    lines.push(`RRULE:${toRRule(event.recurrence)}`);
+    (event.exceptions || []).forEach(date => lines.push(`EXDATE:${toIcsDateTime(date, event.time)}`));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Gerar o conteúdo .ics de uma lista de eventos
+ */
+export function generateIcs(events: CalendarEvent[], calendarName = 'LegalX - Agenda'): string {
+  const stamp = format(new Date(), "yyyyMMdd'T'HHmmss");
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap(event => eventToLines(event, stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Baixar eventos como arquivo .ics
+ */
+export function downloadIcs(events: CalendarEvent[], filename: string, calendarName?: string): void {
+  const blob = new Blob([generateIcs(events, calendarName)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // O valor começa no primeiro ":" fora de aspas
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+/**
+ * Converter DATE ou DATE-TIME para data e hora locais.
+ * Horários em UTC ("Z") são convertidos para o fuso local; horários com
+ * TZID são tratados como hora local.
+ */
+function parseIcsDate(value: string): { date: string; time: string } | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  if (!hour) {
+    return { date: `${year}-${month}-${day}`, time: '' };
+  }
+
+  if (utc) {
+    const local = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute));
+    return { date: format(local, 'yyyy-MM-dd'), time: format(local, 'HH:mm') };
+  }
+
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+}
+
+/**
+ * Converter DURATION (ex: PT1H30M) em minutos
+ */
+function parseIcsDuration(value: string): number {
+  const match = value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?/);
+  if (!match) return 0;
+  const [, days, hours, minutes] = match;
+  return Number(days || 0) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0);
+}
+
+const priorityFromNumber = (value: number): CalendarEvent['priority'] => {
+  if (!value) return undefined;
+  if (value <= 2) return 'Urgente';
+  if (value <= 4) return 'Alta';
+  if (value === 5) return 'Média';
+  return 'Baixa';
+};
+
+function propertiesToEvent(properties: IcsProperty[]): (ParsedIcsEvent & { recurrenceId?: string }) | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+  const text = (name: string) => {
+    const property = get(name);
+    return property ? unescapeText(property.value) : undefined;
+  };
+
+  const uid = text('UID');
+  const start = get('DTSTART') && parseIcsDate(get('DTSTART')!.value);
+  if (!uid || !start) return null;
+
+  const legalxType = text('X-LEGALX-TYPE') as CalendarEvent['type'] | undefined;
+  const category = text('CATEGORIES')?.split(',').find(c => EVENT_TYPES.includes(c as CalendarEvent['type']));
+  const type = legalxType && EVENT_TYPES.includes(legalxType) ? legalxType : (category as CalendarEvent['type']) || 'Outro';
+
+  const legalxPriority = text('X-LEGALX-PRIORITY') as CalendarEvent['priority'];
+  const priority = legalxPriority && legalxPriority in PRIORITY_VALUES
+    ? legalxPriority
+    : priorityFromNumber(Number(get('PRIORITY')?.value));
+
+  const rrule = get('RRULE');
+  const recurrence = rrule ? parseRRule(rrule.value) : null;
+  const exceptions = properties
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(','))
+    .map(value => parseIcsDate(value.trim())?.date)
+    .filter((date): date is string => Boolean(date));
+
+  // Eventos de origem externa: a descrição vira a observação
+  const notes = legalxType ? text('X-LEGALX-NOTES') : text('DESCRIPTION');
+  const status = text('X-LEGALX-STATUS') === 'Concluído' ? 'Concluído' : 'Pendente';
+  const recurrenceId = get('RECURRENCE-ID') && parseIcsDate(get('RECURRENCE-ID')!.value)?.date;
+
+  const event: ParsedIcsEvent & { recurrenceId?: string } = {
+    icalUid: uid,
+    title: text('SUMMARY') || '(sem título)',
+    date: start.date,
+    time: start.time || '00:00',
+    type,
+    status,
+    lawyers: properties.filter(p => p.name === 'X-LEGALX-LAWYER').map(p => unescapeText(p.value)),
+    recurrence,
+    exceptions
+  };
+
+  // Término só é mantido quando cai no mesmo dia do início
+  const end = get('DTEND') && parseIcsDate(get('DTEND')!.value);
+  const duration = get('DURATION') && parseIcsDuration(get('DURATION')!.value);
+  if (start.time && end && end.date === start.date && end.time > start.time) {
+    event.endTime = end.time;
+  } else if (start.time && duration && timeToMinutes(start.time) + duration < 1440) {
+    event.endTime = minutesToTime(timeToMinutes(start.time) + duration);
+  }
+
+  const location = text('LOCATION');
+  const processNumber = text('X-LEGALX-PROCESS-NUMBER');
+  const client = text('X-LEGALX-CLIENT');
+  if (location) event.location = location;
+  if (processNumber) event.processNumber = processNumber;
+  if (client) event.client = client;
+  if (notes) event.notes = notes;
+  if (priority) event.priority = priority;
+  if (recurrenceId) event.recurrenceId = recurrenceId;
+
+  return event;
+}
+
+/**
+ * Interpretar um arquivo .ics. Ocorrências alteradas (RECURRENCE-ID) viram
+ * eventos avulsos e são adicionadas às exceções da série correspondente.
+ */
+export function parseIcs(content: string): ParsedIcsEvent[] {
+  // Desfazer as quebras de linha (linhas de continuação começam com espaço ou tab)
+  const lines = content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const parsed: Array<ParsedIcsEvent & { recurrenceId?: string }> = [];
+  let current: IcsProperty[] | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line.trim())) {
+      current = [];
+    } else if (/^END:VEVENT$/i.test(line.trim())) {
+      const event = current && propertiesToEvent(current);
+      if (event) parsed.push(event);
+      current = null;
+    } else if (current) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  const seriesByUid = new Map(parsed.filter(e => !e.recurrenceId).map(e => [e.icalUid, e]));
+  parsed.forEach(event => {
+    const series = event.recurrenceId && seriesByUid.get(event.icalUid);
+    if (series && !series.exceptions?.includes(event.recurrenceId!)) {
+      series.exceptions = [...(series.exceptions || []), event.recurrenceId!];
+    }
+  });
+
+  return parsed.map(({ recurrenceId, ...event }) => recurrenceId
+    ? { ...event, icalUid: `${event.icalUid}/${recurrenceId}`, recurrence: null, exceptions: [] }
+    : event
+  );
+}
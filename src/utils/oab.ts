@@ -0,0 +1,143 @@
+/**
+ * Inscrições na Ordem dos Advogados do Brasil
+ *
+ * O advogado tem uma inscrição principal na seccional do seu domicílio e
+ * pode ter inscrições suplementares em outras seccionais (Lei nº 8.906/1994,
+ * art. 10). Estagiários têm inscrição própria, identificada pelo sufixo "E".
+ *
+ * O campo Lawyer.oab continua guardando a inscrição principal no formato
+ * 123456/UF, usado pelas telas e pelos documentos já emitidos.
+ */
+
+import { Lawyer, OabRegistration } from '../types';
+import { isValidState } from './states';
+
+export const OAB_TYPES: OabRegistration['type'][] = ['Principal', 'Suplementar', 'Estagiário'];
+
+const OAB_NUMBER_MAX_LENGTH = 6;
+
+/**
+ * Manter apenas os dígitos do número de inscrição
+ */
+export function normalizeOabNumber(value: string): string {
+  return (value || '').replace(/\D/g, '').slice(0, OAB_NUMBER_MAX_LENGTH);
+}
+
+/**
+ * Interpretar uma inscrição digitada livremente ("123456/SP", "SP123456",
+ * "OAB/SP 123.456", "12345-E/RJ"...). Retorna null se faltar o número
+ * ou a UF.
+ */
+export function parseOab(value: string): OabRegistration | null {
+  const text = (value || '').toUpperCase().replace(/OAB/g, '');
+  const state = (text.match(/[A-Z]{2}/g) || []).find(isValidState);
+  const number = normalizeOabNumber(text);
+
+  if (!state || !number) return null;
+
+  return {
+    number,
+    state,
+    type: /\d\s*-?\s*E\b/.test(text) ? 'Estagiário' : 'Principal'
+  };
+}
+
+/**
+ * Número com separador de milhar: 123456 -> 123.456
+ */
+export function formatOabNumber(number: string): string {
+  return normalizeOabNumber(number).replace(/\B(?=(\d{3})+(?!\d))/g, '.');
+}
+
+/**
+ * Forma usada nos documentos: OAB/SP nº 123.456 (ou 123.456-E para estagiários)
+ */
+export function formatOab(registration: OabRegistration): string {
+  const suffix = registration.type === 'Estagiário' ? '-E' : '';
+  return `OAB/${registration.state} nº ${formatOabNumber(registration.number)}${suffix}`;
+}
+
+/**
+ * Forma curta guardada em Lawyer.oab: 123456/SP
+ */
+export function toOabCode(registration: OabRegistration): string {
+  const suffix = registration.type === 'Estagiário' ? '-E' : '';
+  return `${registration.number}${suffix}/${registration.state}`;
+}
+
+/**
+ * Formatar uma inscrição em texto (inclusive a forma curta de documentos
+ * antigos). Textos que não puderem ser interpretados são apenas prefixados.
+ */
+export function formatOabText(value: string): string {
+  const registration = parseOab(value);
+  if (registration) return formatOab(registration);
+  return value ? `OAB ${value}` : '';
+}
+
+/**
+ * Inscrições do advogado. Cadastros anteriores às inscrições estruturadas
+ * são lidos a partir do campo oab.
+ */
+export function getLawyerOabs(lawyer: Pick<Lawyer, 'oab' | 'oabRegistrations'>): OabRegistration[] {
+  if (lawyer.oabRegistrations && lawyer.oabRegistrations.length > 0) {
+    return lawyer.oabRegistrations;
+  }
+
+  const legacy = parseOab(lawyer.oab);
+  return legacy ? [legacy] : [];
+}
+
+export function getPrincipalOab(registrations: OabRegistration[]): OabRegistration | null {
+  return registrations.find(registration => registration.type === 'Principal') || registrations[0] || null;
+}
+
+/**
+ * Todas as inscrições do advogado, para qualificação em documentos
+ */
+export function formatLawyerOabs(lawyer: Pick<Lawyer, 'oab' | 'oabRegistrations'>): string {
+  const registrations = getLawyerOabs(lawyer);
+  return registrations.length > 0 ? registrations.map(formatOab).join(', ') : lawyer.oab;
+}
+
+/**
+ * UFs em que o advogado está inscrito
+ */
+export function getLawyerOabStates(lawyer: Pick<Lawyer, 'oab' | 'oabRegistrations'>): string[] {
+  return Array.from(new Set(getLawyerOabs(lawyer).map(registration => registration.state)));
+}
+
+/**
+ * Validar o conjunto de inscrições de um advogado. Retorna a mensagem do
+ * primeiro problema encontrado ou null.
+ */
+export function validateOabRegistrations(registrations: OabRegistration[]): string | null {
+  if (registrations.length === 0) {
+    return 'Informe pelo menos uma inscrição na OAB';
+  }
+
+  for (const registration of registrations) {
+    if (!normalizeOabNumber(registration.number)) {
+      return 'Número de inscrição na OAB é obrigatório';
+    }
+    if (!isValidState(registration.state)) {
+      return `UF inválida na inscrição ${registration.number}`;
+    }
+  }
+
+  const states = registrations.map(registration => registration.state);
+  const duplicated = states.find((state, index) => states.indexOf(state) !== index);
+  if (duplicated) {
+    return `Há mais de uma inscrição na seccional ${duplicated}`;
+  }
+
+  const principals = registrations.filter(registration => registration.type === 'Principal');
+  if (principals.length > 1) {
+    return 'Apenas uma inscrição pode ser a principal';
+  }
+  if (principals.length === 0 && registrations.some(registration => registration.type === 'Suplementar')) {
+    return 'Inscrição suplementar exige uma inscrição principal';
+  }
+
+  return null;
+}
@@ -0,0 +1,123 @@
+/**
+ * Contas a pagar e despesas recorrentes
+ *
+ * Cada despesa recorrente gera contas a pagar pendentes, uma por vencimento,
+ * até um horizonte próximo; o campo generatedUntil guarda o último
+ * vencimento gerado para que contas excluídas não voltem a aparecer. Ao
+ * pagar, a conta vira uma despesa. Vencimentos além do horizonte só entram
+ * na previsão do fluxo de caixa.
+ */
+
+import { addMonths, endOfMonth, format, getDaysInMonth, parseISO } from 'date-fns';
+import { Expense, Payable, PayableStatus, RecurringExpense } from '../types';
+
+export type NewPayable = Omit<Payable, 'id'>;
+
+export type NewRecurringExpense = Omit<RecurringExpense, 'id' | 'generatedUntil' | 'createdAt'>;
+
+// Limite de segurança para recorrências longas sem término
+const MAX_OCCURRENCES = 600;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * Último dia do próximo mês: até onde as contas a pagar são geradas
+ */
+export function getPayablesHorizon(referenceDate = today()): string {
+  return format(endOfMonth(addMonths(parseISO(referenceDate), 1)), 'yyyy-MM-dd');
+}
+
+export function getPayableStatus(payable: Payable, referenceDate = today()): PayableStatus {
+  if (payable.status !== 'pendente') return payable.status;
+  return payable.dueDate < referenceDate ? 'vencido' : 'pendente';
+}
+
+/**
+ * Vencimentos da recorrência em [from, to]. O dia do mês é limitado ao
+ * último dia (dia 31 vence em 30/04 e 28/02).
+ */
+export function getDueDates(recurring: RecurringExpense | NewRecurringExpense, from: string, to: string): string[] {
+  const start = parseISO(recurring.startDate);
+  const step = recurring.frequency === 'anual' ? 12 : 1;
+  const dates: string[] = [];
+
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const month = addMonths(new Date(start.getFullYear(), start.getMonth(), 1), i * step);
+    const day = Math.min(recurring.dayOfMonth, getDaysInMonth(month));
+    const dueDate = format(new Date(month.getFullYear(), month.getMonth(), day), 'yyyy-MM-dd');
+
+    if (dueDate > to || (recurring.endDate && dueDate > recurring.endDate)) break;
+    if (dueDate >= recurring.startDate && dueDate >= from) {
+      dates.push(dueDate);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Id da conta a pagar gerada pela recorrência: um por vencimento, para que
+ * gerações concorrentes gravem o mesmo documento em vez de duplicá-lo
+ */
+export const getRecurringPayableId = (recurringExpenseId: string, dueDate: string) =>
+  `${recurringExpenseId}_${dueDate}`;
+
+/**
+ * Contas a pagar ainda não geradas da recorrência, até o horizonte
+ */
+export function buildPayablesFromRecurring(recurring: RecurringExpense, horizon = getPayablesHorizon()): NewPayable[] {
+  return getDueDates(recurring, recurring.startDate, horizon)
+    .filter(dueDate => !recurring.generatedUntil || dueDate > recurring.generatedUntil)
+    .map(dueDate => ({
+      recurringExpenseId: recurring.id,
+      type: recurring.type,
+      category: recurring.category,
+      categoryId: recurring.categoryId,
+      amount: recurring.amount,
+      dueDate,
+      description: recurring.description,
+      status: 'pendente',
+      paidAt: null,
+      expenseId: null
+    }));
+}
+
+/**
+ * Saídas previstas em [from, to]: contas pendentes e vencimentos futuros
+ * das recorrências que ainda não viraram contas a pagar
+ */
+export function projectPayables(
+  payables: Payable[],
+  recurringExpenses: RecurringExpense[],
+  from: string,
+  to: string
+): Array<{ dueDate: string; amount: number }> {
+  const pending = payables
+    .filter(payable => payable.status === 'pendente' && payable.dueDate >= from && payable.dueDate <= to)
+    .map(payable => ({ dueDate: payable.dueDate, amount: payable.amount }));
+
+  const upcoming = recurringExpenses.flatMap(recurring =>
+    getDueDates(recurring, from, to)
+      .filter(dueDate => !recurring.generatedUntil || dueDate > recurring.generatedUntil)
+      .map(dueDate => ({ dueDate, amount: recurring.amount }))
+  );
+
+  return [...pending, ...upcoming];
+}
+
+/**
+ * Despesa (sem id) lançada ao pagar a conta
+ */
+export function buildExpenseFromPayable(payable: Payable, payment: { date: string; amount: number }): Omit<Expense, 'id'> {
+  return {
+    date: payment.date,
+    amount: payment.amount,
+    type: payable.type,
+    category: payable.category,
+    categoryId: payable.categoryId,
+    description: payable.description
+      ? `${payable.description} (vencimento em ${format(parseISO(payable.dueDate), 'dd/MM/yyyy')})`
+      : `Vencimento em ${format(parseISO(payable.dueDate), 'dd/MM/yyyy')}`,
+    payableId: payable.id
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Numeração sequencial de recibos
+ *
+ * Cada escritório tem uma sequência por ano: REC-2026-000001, REC-2026-000002...
+ * O número é atribuído na emissão e nunca reaproveitado; recibos numerados
+ * são cancelados em vez de excluídos para não deixar lacunas na sequência.
+ */
+
+import { Document } from '../types';
+
+const RECEIPT_NUMBER_PATTERN = /^REC-(\d{4})-(\d{6,})$/;
+const SEQUENCE_DIGITS = 6;
+
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `REC-${year}-${String(sequence).padStart(SEQUENCE_DIGITS, '0')}`;
+}
+
+export function parseReceiptNumber(value: string): { year: number; sequence: number } | null {
+  const match = (value || '').trim().toUpperCase().match(RECEIPT_NUMBER_PATTERN);
+  return match ? { year: Number(match[1]), sequence: Number(match[2]) } : null;
+}
+
+export function isValidReceiptNumber(value: string): boolean {
+  return parseReceiptNumber(value) !== null;
+}
+
+/**
+ * Busca por número: aceita o número completo, parte dele ou apenas a
+ * sequência ("123" encontra REC-2026-000123)
+ */
+export function matchesReceiptNumber(number: string, search: string): boolean {
+  const term = search.trim().toUpperCase();
+  if (!number || !term) return false;
+  if (number.includes(term)) return true;
+
+  const parsed = parseReceiptNumber(number);
+  return Boolean(parsed) && /^\d{1,6}$/.test(term) && parsed!.sequence === Number(term);
+}
+
+export function isReceiptCancelled(document: Document): boolean {
+  return document.type === 'Recibo' && Boolean(document.data.cancelledAt);
+}
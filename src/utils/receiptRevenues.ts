@@ -0,0 +1,58 @@
+/**
+ * Vínculo entre recibos e receitas
+ *
+ * O recibo comprova um pagamento que também entra no financeiro. Ao emitir
+ * um recibo, o pagamento pode virar uma nova receita ou ser ligado a uma
+ * receita já lançada; os dois passam a guardar o id um do outro.
+ */
+
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Document, Revenue } from '../types';
+import { normalizeClientName } from './clients';
+import { DEFAULT_REVENUE_CATEGORY_ID } from './financialCategories';
+
+type Receipt = Extract<Document, { type: 'Recibo' }>;
+
+const MAX_CANDIDATES = 5;
+
+/**
+ * Receita (sem id) com os dados do pagamento registrado no recibo
+ */
+export function buildRevenueFromReceipt(receipt: Receipt): Omit<Revenue, 'id'> {
+  const { data } = receipt;
+
+  return {
+    date: data.date,
+    amount: data.amount,
+    source: data.number ? `Recibo ${data.number}` : 'Recibo',
+    category: 'Honorário',
+    categoryId: DEFAULT_REVENUE_CATEGORY_ID,
+    responsibleLawyers: data.lawyerName ? [data.lawyerName] : [],
+    client: receipt.client,
+    clientId: receipt.clientId ?? null,
+    description: data.description,
+    receiptId: receipt.id,
+    receiptNumber: data.number,
+    receiptWarning: ''
+  };
+}
+
+/**
+ * Receitas ainda sem recibo com o mesmo valor e cliente, da data mais
+ * próxima do pagamento para a mais distante
+ */
+export function findRevenueCandidates(receipt: Receipt, revenues: Revenue[]): Revenue[] {
+  const amount = Math.round(receipt.data.amount * 100);
+  const clientName = normalizeClientName(receipt.client);
+  const paidOn = parseISO(receipt.data.date);
+  const distance = (revenue: Revenue) => Math.abs(differenceInCalendarDays(parseISO(revenue.date), paidOn)) || 0;
+
+  return revenues
+    .filter(revenue => !revenue.receiptId && Math.round(revenue.amount * 100) === amount)
+    .filter(revenue => {
+      if (receipt.clientId && revenue.clientId) return revenue.clientId === receipt.clientId;
+      return !revenue.client || normalizeClientName(revenue.client) === clientName;
+    })
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, MAX_CANDIDATES);
+}
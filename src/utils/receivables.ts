@@ -0,0 +1,149 @@
+/**
+ * Contas a receber
+ *
+ * Honorários faturados viram parcelas com vencimento. Cada pagamento,
+ * inclusive parcial, é lançado como receita; a parcela fica paga quando o
+ * saldo chega a zero. Parcelas abertas com vencimento passado aparecem como
+ * atrasadas e entram nas faixas de atraso (aging).
+ */
+
+import { addMonths, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Document, Receivable, ReceivablePayment, ReceivableStatus, Revenue } from '../types';
+import { DEFAULT_REVENUE_CATEGORY_ID } from './financialCategories';
+
+export type NewReceivable = Omit<Receivable, 'id' | 'createdAt'>;
+
+export interface InstallmentPlan {
+  description: string;
+  client: string;
+  clientId: string | null;
+  documentId: string | null;
+  processNumber: string;
+  responsibleLawyers: string[];
+  total: number;
+  installments: number;
+  firstDueDate: string;
+}
+
+export interface AgingBucket {
+  label: string;
+  minDays: number;
+  maxDays: number;
+}
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { label: '0–30 dias', minDays: 0, maxDays: 30 },
+  { label: '31–60 dias', minDays: 31, maxDays: 60 },
+  { label: '61–90 dias', minDays: 61, maxDays: 90 },
+  { label: '90+ dias', minDays: 91, maxDays: Infinity }
+];
+
+const toCents = (value: number) => Math.round(value * 100);
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export function getPaidAmount(receivable: Receivable): number {
+  return (receivable.payments || []).reduce((sum, payment) => sum + toCents(payment.amount), 0) / 100;
+}
+
+export function getReceivableBalance(receivable: Receivable): number {
+  return Math.max(0, toCents(receivable.amount) - toCents(getPaidAmount(receivable))) / 100;
+}
+
+export function getReceivableStatus(receivable: Receivable, referenceDate = today()): ReceivableStatus {
+  if (receivable.status !== 'aberto') return receivable.status;
+  return receivable.dueDate < referenceDate ? 'atrasado' : 'aberto';
+}
+
+export function getDaysOverdue(receivable: Receivable, referenceDate = today()): number {
+  return Math.max(0, differenceInCalendarDays(parseISO(referenceDate), parseISO(receivable.dueDate)));
+}
+
+/**
+ * Saldo em aberto das parcelas atrasadas, por faixa de dias de atraso
+ */
+export function buildAgingSummary(receivables: Receivable[], referenceDate = today()) {
+  const overdue = receivables.filter(receivable => getReceivableStatus(receivable, referenceDate) === 'atrasado');
+
+  return AGING_BUCKETS.map(bucket => {
+    const items = overdue.filter(receivable => {
+      const days = getDaysOverdue(receivable, referenceDate);
+      return days >= bucket.minDays && days <= bucket.maxDays;
+    });
+    return {
+      ...bucket,
+      count: items.length,
+      total: items.reduce((sum, receivable) => sum + toCents(getReceivableBalance(receivable)), 0) / 100
+    };
+  });
+}
+
+export function getOverdueTotal(receivables: Receivable[], referenceDate = today()): number {
+  return receivables
+    .filter(receivable => getReceivableStatus(receivable, referenceDate) === 'atrasado')
+    .reduce((sum, receivable) => sum + toCents(getReceivableBalance(receivable)), 0) / 100;
+}
+
+/**
+ * Parcelas mensais do valor total; a última absorve a diferença de centavos
+ */
+export function buildInstallments(plan: InstallmentPlan): NewReceivable[] {
+  const count = Math.max(1, Math.floor(plan.installments || 1));
+  const totalCents = toCents(plan.total);
+  const installmentCents = Math.round(totalCents / count);
+  const firstDueDate = parseISO(plan.firstDueDate);
+
+  return Array.from({ length: count }, (_, index) => ({
+    description: count > 1 ? `${plan.description} - parcela ${index + 1}/${count}` : plan.description,
+    client: plan.client,
+    clientId: plan.clientId,
+    documentId: plan.documentId,
+    processNumber: plan.processNumber,
+    responsibleLawyers: plan.responsibleLawyers,
+    installment: index + 1,
+    installments: count,
+    dueDate: format(addMonths(firstDueDate, index), 'yyyy-MM-dd'),
+    amount: (index === count - 1 ? totalCents - installmentCents * (count - 1) : installmentCents) / 100,
+    payments: [],
+    status: 'aberto'
+  }));
+}
+
+/**
+ * Parcelas dos honorários fixos de um contrato de honorários
+ */
+export function buildReceivablesFromFeeAgreement(document: Document): NewReceivable[] {
+  if (document.type !== 'Contrato de Honorários' || !document.data.amount) return [];
+
+  return buildInstallments({
+    description: `Honorários - ${document.client}`,
+    client: document.client,
+    clientId: document.clientId ?? null,
+    documentId: document.id,
+    processNumber: document.processNumber || '',
+    responsibleLawyers: document.data.lawyers,
+    total: document.data.amount,
+    installments: document.data.installments,
+    firstDueDate: document.data.firstDueDate || document.data.date
+  });
+}
+
+/**
+ * Receita (sem id) lançada por um pagamento da parcela
+ */
+export function buildRevenueFromPayment(receivable: Receivable, payment: Omit<ReceivablePayment, 'id' | 'revenueId'>): Omit<Revenue, 'id'> {
+  return {
+    date: payment.date,
+    amount: payment.amount,
+    source: receivable.description,
+    category: 'Honorário',
+    categoryId: DEFAULT_REVENUE_CATEGORY_ID,
+    responsibleLawyers: receivable.responsibleLawyers,
+    client: receivable.client,
+    clientId: receivable.clientId,
+    description: receivable.installments > 1
+      ? `Parcela ${receivable.installment}/${receivable.installments} com vencimento em ${format(parseISO(receivable.dueDate), 'dd/MM/yyyy')}`
+      : `Vencimento em ${format(parseISO(receivable.dueDate), 'dd/MM/yyyy')}`,
+    receivableId: receivable.id
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Regras de recorrência de eventos (subconjunto do RRULE da RFC 5545)
+ *
+ * Suporta FREQ=DAILY|WEEKLY|MONTHLY|YEARLY, INTERVAL, BYDAY (semanal),
+ * UNTIL e COUNT, além de datas de exceção (EXDATE). Datas sempre no
+ * formato yyyy-MM-dd, no fuso local.
+ */
+
+import { addDays, addWeeks, differenceInCalendarDays, format, parseISO, startOfWeek } from 'date-fns';
+import { CalendarEvent, RecurrenceEditScope, RecurrenceRule } from '../types';
+
+// Limite de segurança para regras sem término
+const MAX_ITERATIONS = 5000;
+
+const RRULE_FREQUENCIES: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY'
+};
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES = ['domingo', 'segunda', 'terça', 'quarta', 'quinta', 'sexta', 'sábado'];
+
+export const RECURRENCE_SCOPE_LABELS: Record<RecurrenceEditScope, string> = {
+  this: 'Somente este evento',
+  following: 'Este e os eventos seguintes',
+  all: 'Todos os eventos da série'
+};
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Montar a data do mês/ano informado no mesmo dia do início da série,
+ * ou null se o dia não existir (ex: dia 31 em abril, 29/02 fora de bissexto)
+ */
+function dateInMonth(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  return date.getDate() === day ? date : null;
+}
+
+/**
+ * Gerar, em ordem, as datas candidatas de cada período da regra.
+ * O primeiro período pode ser pulado (fastForward) quando não há COUNT.
+ */
+function* generateCandidates(rule: RecurrenceRule, start: Date, fastForwardTo?: Date): Generator<Date> {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily': {
+      let period = 0;
+      if (fastForwardTo) {
+        const diff = differenceInCalendarDays(fastForwardTo, start);
+        period = Math.max(0, Math.floor(diff / interval));
+      }
+      for (;; period++) {
+        yield addDays(start, period * interval);
+      }
+    }
+    case 'weekly': {
+      const weekdays = (rule.byWeekday && rule.byWeekday.length > 0 ? [...rule.byWeekday] : [start.getDay()])
+        .sort((a, b) => a - b);
+      const firstWeek = startOfWeek(start);
+      let period = 0;
+      if (fastForwardTo) {
+        const diff = differenceInCalendarDays(fastForwardTo, firstWeek);
+        period = Math.max(0, Math.floor(diff / (7 * interval)));
+      }
+      for (;; period++) {
+        const week = addWeeks(firstWeek, period * interval);
+        for (const weekday of weekdays) {
+          const candidate = addDays(week, weekday);
+          if (candidate >= start) {
+            yield candidate;
+          }
+        }
+      }
+    }
+    case 'monthly': {
+      for (let period = 0; ; period++) {
+        const monthIndex = start.getMonth() + period * interval;
+        const candidate = dateInMonth(start.getFullYear(), monthIndex, start.getDate());
+        if (candidate) yield candidate;
+      }
+    }
+    case 'yearly': {
+      for (let period = 0; ; period++) {
+        const candidate = dateInMonth(start.getFullYear() + period * interval, start.getMonth(), start.getDate());
+        if (candidate) yield candidate;
+      }
+    }
+  }
+}
+
+/**
+ * Listar as ocorrências de uma série dentro do intervalo [rangeStart, rangeEnd]
+ */
+export function getOccurrences(
+  rule: RecurrenceRule,
+  startDate: string,
+  rangeStart: string,
+  rangeEnd: string,
+  exceptions: string[] = []
+): string[] {
+  const start = parseISO(startDate);
+  const from = parseISO(rangeStart);
+  const to = parseISO(rangeEnd);
+  const until = rule.until ? parseISO(rule.until) : null;
+  const excluded = new Set(exceptions);
+  const occurrences: string[] = [];
+
+  // Com COUNT é preciso contar desde o início da série
+  const candidates = generateCandidates(rule, start, rule.count ? undefined : from);
+
+  let generated = 0;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const candidate = candidates.next().value as Date;
+
+    if (candidate > to || (until && candidate > until)) break;
+    if (rule.count && generated >= rule.count) break;
+    generated++;
+
+    const key = toKey(candidate);
+    if (candidate >= from && !excluded.has(key)) {
+      occurrences.push(key);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Contar quantas ocorrências da série acontecem antes de uma data
+ * (usado ao dividir séries limitadas por COUNT)
+ */
+export function countOccurrencesBefore(rule: RecurrenceRule, startDate: string, date: string): number {
+  const dayBefore = toKey(addDays(parseISO(date), -1));
+  if (dayBefore < startDate) return 0;
+  return getOccurrences(rule, startDate, startDate, dayBefore).length;
+}
+
+/**
+ * Expandir eventos recorrentes em ocorrências dentro do intervalo.
+ * Cada ocorrência mantém o id da série e recebe occurrenceDate.
+ */
+export function expandEvents(events: CalendarEvent[], rangeStart: string, rangeEnd: string): CalendarEvent[] {
+  return events.flatMap(event => {
+    if (!event.recurrence) {
+      return event.date >= rangeStart && event.date <= rangeEnd ? [event] : [];
+    }
+
+    return getOccurrences(event.recurrence, event.date, rangeStart, rangeEnd, event.exceptions || [])
+      .map(date => ({ ...event, date, occurrenceDate: date }));
+  });
+}
+
+/**
+ * Converter a regra para o texto RRULE da RFC 5545
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${RRULE_FREQUENCIES[rule.frequency]}`];
+
+  if (rule.interval && rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${rule.byWeekday.map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.until) {
+    // Inclusivo até o fim do dia, em hora local como o DTSTART exportado
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}T235959`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return parts.join(';');
+}
+
+/**
+ * Interpretar um texto RRULE. Retorna null para regras não suportadas.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const fields = new Map(
+    value.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, ...rest] = part.split('=');
+      return [key.trim().toUpperCase(), rest.join('=').trim()] as [string, string];
+    })
+  );
+
+  const frequency = (Object.keys(RRULE_FREQUENCIES) as RecurrenceRule['frequency'][])
+    .find(key => RRULE_FREQUENCIES[key] === fields.get('FREQ'));
+  if (!frequency) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Number(fields.get('INTERVAL')) || 1
+  };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay && frequency === 'weekly') {
+    rule.byWeekday = byDay.split(',')
+      .map(day => RRULE_WEEKDAYS.indexOf(day.trim().slice(-2).toUpperCase()))
+      .filter(day => day >= 0);
+  }
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (match) rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  const count = Number(fields.get('COUNT'));
+  if (count > 0) {
+    rule.count = count;
+  }
+
+  return rule;
+}
+
+/**
+ * Descrever a regra em português (ex: "A cada 2 semanas: segunda, quarta")
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const units: Record<RecurrenceRule['frequency'], [string, string, string]> = {
+    daily: ['Diariamente', 'dias', 'dia'],
+    weekly: ['Semanalmente', 'semanas', 'semana'],
+    monthly: ['Mensalmente', 'meses', 'mês'],
+    yearly: ['Anualmente', 'anos', 'ano']
+  };
+  const [single, plural] = units[rule.frequency];
+
+  let description = interval === 1 ? single : `A cada ${interval} ${plural}`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday && rule.byWeekday.length > 0) {
+    description += `: ${[...rule.byWeekday].sort().map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.until) {
+    description += `, até ${format(parseISO(rule.until), 'dd/MM/yyyy')}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} ${rule.count === 1 ? 'vez' : 'vezes'}`;
+  }
+
+  return description;
+}
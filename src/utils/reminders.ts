@@ -0,0 +1,96 @@
+/**
+ * Lembretes de compromissos da agenda
+ *
+ * Cada regra define com quantos dias de antecedência avisar, por tipo de
+ * evento e/ou prioridade. Vale a regra mais específica que se aplica ao
+ * evento (tipo e prioridade > tipo > prioridade > geral). Cada evento gera
+ * no máximo uma notificação por vez: a do último aviso já alcançado, de modo
+ * que o lembrete volta a aparecer como não lido a cada novo marco.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { AppNotification, CalendarEvent, NotificationState, ReminderRule } from '../types';
+import { expandEvents } from './recurrence';
+
+export const DEFAULT_REMINDER_RULES: ReminderRule[] = [
+  { id: 'prazo-processual', eventType: 'Prazo Processual', priority: 'Todas', offsets: [7, 3, 1, 0] },
+  { id: 'audiencia', eventType: 'Audiência', priority: 'Todas', offsets: [7, 1, 0] },
+  { id: 'urgente', eventType: 'Todos', priority: 'Urgente', offsets: [3, 1, 0] },
+  { id: 'geral', eventType: 'Todos', priority: 'Todas', offsets: [1, 0] }
+];
+
+const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Antecedências (em dias) aplicáveis ao evento, em ordem decrescente
+ */
+export function getReminderOffsets(event: CalendarEvent, rules: ReminderRule[]): number[] {
+  let best: ReminderRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    const typeMatches = rule.eventType === 'Todos' || rule.eventType === event.type;
+    const priorityMatches = rule.priority === 'Todas' || rule.priority === event.priority;
+    if (!typeMatches || !priorityMatches) continue;
+
+    const score = (rule.eventType !== 'Todos' ? 2 : 0) + (rule.priority !== 'Todas' ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best ? [...best.offsets].sort((a, b) => b - a) : [];
+}
+
+const describeWhen = (daysUntil: number, time: string) => {
+  if (daysUntil === 0) return `hoje às ${time}`;
+  if (daysUntil === 1) return `amanhã às ${time}`;
+  return `em ${daysUntil} dias`;
+};
+
+/**
+ * Montar as notificações ativas na data de referência para os eventos pendentes
+ */
+export function buildNotifications(
+  events: CalendarEvent[],
+  rules: ReminderRule[],
+  today: Date = new Date()
+): AppNotification[] {
+  const maxOffset = Math.max(0, ...rules.flatMap(rule => rule.offsets));
+  const pending = events.filter(event => event.status === 'Pendente');
+
+  return expandEvents(pending, toKey(today), toKey(addDays(today, maxOffset)))
+    .flatMap(event => {
+      const daysUntil = differenceInCalendarDays(parseISO(event.date), today);
+      // Último marco alcançado: a menor antecedência que já chegou
+      const offset = getReminderOffsets(event, rules).filter(value => value >= daysUntil).pop();
+      if (offset === undefined) return [];
+
+      return [{
+        id: `${event.id}:${event.date}:${offset}`,
+        eventId: event.id,
+        eventTitle: event.title,
+        eventType: event.type,
+        eventDate: event.date,
+        eventTime: event.time,
+        daysUntil,
+        message: `${event.type} ${describeWhen(daysUntil, event.time)} (${format(parseISO(event.date), 'dd/MM/yyyy')})`
+      }];
+    })
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || a.eventTime.localeCompare(b.eventTime));
+}
+
+/**
+ * Descartar do estado persistido as notificações de eventos que já passaram
+ */
+export function pruneNotificationState(state: NotificationState, today: Date = new Date()): NotificationState {
+  const todayKey = toKey(today);
+  const isCurrent = (id: string) => (id.split(':')[1] || '') >= todayKey;
+
+  return {
+    read: state.read.filter(isCurrent),
+    dismissed: state.dismissed.filter(isCurrent),
+    delivered: state.delivered.filter(isCurrent)
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Unidades federativas do Brasil (siglas usadas em endereços e na OAB)
+ */
+
+export const BRAZILIAN_STATES = [
+  'AC', 'AL', 'AM', 'AP', 'BA', 'CE', 'DF', 'ES', 'GO', 'MA', 'MG', 'MS', 'MT', 'PA',
+  'PB', 'PE', 'PI', 'PR', 'RJ', 'RN', 'RO', 'RR', 'RS', 'SC', 'SE', 'SP', 'TO'
+] as const;
+
+export type BrazilianState = typeof BRAZILIAN_STATES[number];
+
+export function isValidState(value: string): value is BrazilianState {
+  return (BRAZILIAN_STATES as readonly string[]).includes(value);
+}
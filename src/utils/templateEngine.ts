@@ -0,0 +1,293 @@
+/**
+ * Motor de modelos de documentos
+ *
+ * Sintaxe:
+ * - {{client.name}}                 valor de um campo (caminho com pontos)
+ * - {{lawyers[].oab}}               o campo de cada item de uma lista, separados por vírgula
+ * - {{amount | extenso}}            filtros, encadeáveis: {{date | data_extenso | maiusculas}}
+ * - {{object | padrao:"-"}}         filtros com argumento
+ * - {{installments | numero_extenso:"feminino"}}   número por extenso no gênero pedido
+ * - {{#if campo}}...{{else}}...{{/if}}      também {{#if type == "Ad Judicia"}} e !=
+ *   (vazio, zero, false e listas vazias contam como falso)
+ * - {{#unless campo}}...{{/unless}}
+ * - {{#each lawyers}}{{name}}{{#unless @last}}, {{/unless}}{{/each}}
+ *   dentro do laço: this, @index, @number (a partir de 1), @first, @last
+ */
+
+import { format, parseISO, isValid } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { amountToWords, numberToWords } from './extenso';
+import { formatCpf, formatCpfCnpj } from './cpfCnpj';
+import { formatOabText } from './oab';
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; path: string; filters: TemplateFilterCall[] }
+  | { kind: 'if'; condition: TemplateCondition; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[] };
+
+interface TemplateFilterCall {
+  name: string;
+  arg?: string;
+}
+
+interface TemplateCondition {
+  path: string;
+  operator?: '==' | '!=';
+  literal?: string;
+}
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const CONDITION_PATTERN = /^(\S+)\s*(==|!=)\s*"([^"]*)"$/;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+const toDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const toNumber = (value: unknown): number => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(number) ? number : 0;
+};
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter(item => item !== undefined && item !== null && item !== '').map(String);
+
+/**
+ * Filtros disponíveis nos modelos
+ */
+const FILTERS: Record<string, (value: unknown, arg?: string) => unknown> = {
+  extenso: value => amountToWords(toNumber(value)),
+  numero_extenso: (value, arg) => numberToWords(toNumber(value), arg === 'feminino' ? 'feminino' : 'masculino'),
+  moeda: value => formatCurrency(toNumber(value)),
+  data: value => {
+    const date = toDate(value);
+    return date ? format(date, 'dd/MM/yyyy') : value;
+  },
+  data_extenso: value => {
+    const date = toDate(value);
+    return date ? format(date, "d 'de' MMMM 'de' yyyy", { locale: ptBR }) : value;
+  },
+  maiusculas: value => String(value ?? '').toUpperCase(),
+  minusculas: value => String(value ?? '').toLowerCase(),
+  cpf: value => formatCpf(String(value ?? '')),
+  documento: value => formatCpfCnpj(String(value ?? '')),
+  oab: value => formatOabText(String(value ?? '')),
+  lista: value => {
+    const items = toList(value);
+    return items.length > 1 ? `${items.slice(0, -1).join(', ')} e ${items[items.length - 1]}` : items.join('');
+  },
+  juntar: (value, arg) => toList(value).join(arg ?? ', '),
+  padrao: (value, arg) => (isEmpty(value) ? arg ?? '' : value)
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || value === false || value === 0 ||
+    (Array.isArray(value) && value.length === 0);
+}
+
+function parseFilters(expression: string): { path: string; filters: TemplateFilterCall[] } {
+  const [path, ...calls] = expression.split('|').map(part => part.trim());
+  const filters = calls.map(call => {
+    const separator = call.indexOf(':');
+    if (separator === -1) return { name: call };
+    const arg = call.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+    return { name: call.slice(0, separator).trim(), arg };
+  });
+
+  for (const filter of filters) {
+    if (!FILTERS[filter.name]) {
+      throw new Error(`Filtro desconhecido: "${filter.name}"`);
+    }
+  }
+
+  return { path, filters };
+}
+
+function parseCondition(expression: string): TemplateCondition {
+  const match = expression.match(CONDITION_PATTERN);
+  if (match) {
+    return { path: match[1], operator: match[2] as '==' | '!=', literal: match[3] };
+  }
+  if (!expression || /\s/.test(expression)) {
+    throw new Error(`Condição inválida: "${expression}"`);
+  }
+  return { path: expression };
+}
+
+/**
+ * Converter o texto do modelo em uma árvore de nós
+ */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ tag: 'if' | 'unless' | 'each'; node: TemplateNode; target: TemplateNode[] }> = [];
+  let current = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current.push({ kind: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1];
+    const open = tag.match(/^#(if|unless|each)\s+(.+)$/);
+
+    if (open) {
+      const name = open[1] as 'if' | 'unless' | 'each';
+      const node: TemplateNode = name === 'each'
+        ? { kind: 'each', path: open[2].trim(), body: [] }
+        : { kind: 'if', condition: parseCondition(open[2].trim()), negate: name === 'unless', then: [], otherwise: [] };
+      current.push(node);
+      stack.push({ tag: name, node, target: current });
+      current = node.kind === 'each' ? node.body : (node as Extract<TemplateNode, { kind: 'if' }>).then;
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.node.kind !== 'if') {
+        throw new Error('{{else}} fora de um bloco {{#if}}');
+      }
+      current = block.node.otherwise;
+    } else if (/^\/(if|unless|each)$/.test(tag)) {
+      const block = stack.pop();
+      if (!block || `/${block.tag}` !== tag) {
+        throw new Error(`Fechamento {{${tag}}} sem bloco correspondente`);
+      }
+      current = block.target;
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Bloco desconhecido: {{${tag}}}`);
+    } else {
+      current.push({ kind: 'value', ...parseFilters(tag) });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Bloco {{#${stack[stack.length - 1].tag}}} não foi fechado`);
+  }
+
+  if (lastIndex < source.length) {
+    current.push({ kind: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+const hasOwn = (value: unknown, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Resolver um caminho a partir de um objeto. Segmentos terminados em []
+ * percorrem a lista e devolvem os valores de cada item.
+ */
+function resolvePath(base: unknown, segments: string[]): unknown {
+  if (segments.length === 0) return base;
+  if (base === undefined || base === null) return undefined;
+
+  const [segment, ...rest] = segments;
+  const isList = segment.endsWith('[]');
+  const key = isList ? segment.slice(0, -2) : segment;
+  // Só propriedades próprias: "constructor" ou "__proto__" não resolvem para o protótipo
+  const value = hasOwn(base, key) ? (base as Record<string, unknown>)[key] : undefined;
+
+  if (isList) {
+    return Array.isArray(value)
+      ? value.flatMap(item => {
+          const resolved = resolvePath(item, rest);
+          return resolved === undefined ? [] : [resolved];
+        })
+      : undefined;
+  }
+
+  return resolvePath(value, rest);
+}
+
+/**
+ * Procurar o caminho no item atual do laço e depois nos escopos externos
+ */
+function lookup(scopes: TemplateContext[], path: string): unknown {
+  const segments = path.split('.');
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    const head = segments[0].replace(/\[\]$/, '');
+    if (hasOwn(scope, head)) {
+      return resolvePath(scope, segments);
+    }
+  }
+
+  return undefined;
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return toList(value).join(', ');
+  return String(value);
+}
+
+function evaluate(condition: TemplateCondition, scopes: TemplateContext[]): boolean {
+  const value = lookup(scopes, condition.path);
+  if (!condition.operator) return !isEmpty(value);
+
+  const equals = stringify(value) === condition.literal;
+  return condition.operator === '==' ? equals : !equals;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.value;
+      case 'value': {
+        const value = node.filters.reduce<unknown>(
+          (current, filter) => FILTERS[filter.name](current, filter.arg),
+          lookup(scopes, node.path)
+        );
+        return stringify(value);
+      }
+      case 'if': {
+        const result = evaluate(node.condition, scopes) !== node.negate;
+        return renderNodes(result ? node.then : node.otherwise, scopes);
+      }
+      case 'each': {
+        const items = lookup(scopes, node.path);
+        if (!Array.isArray(items)) return '';
+        return items.map((item, index) => {
+          const scope: TemplateContext = {
+            ...(item && typeof item === 'object' ? item as TemplateContext : {}),
+            this: item,
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === items.length - 1
+          };
+          return renderNodes(node.body, [...scopes, scope]);
+        }).join('');
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Preencher o modelo com os dados do documento
+ */
+export function renderTemplate(source: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(source), [context]);
+}
+
+/**
+ * Verificar a sintaxe do modelo. Retorna a mensagem de erro ou null.
+ */
+export function validateTemplate(source: string): string | null {
+  try {
+    parseTemplate(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}